@@ -1,12 +1,26 @@
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { ConfigPanel } from './components/ConfigPanel';
 import { ResultsDashboard } from './components/ResultsDashboard';
 import { FinancialReportModal } from './components/FinancialReportModal';
-import { MARKET_DATA } from './constants';
-import { runBacktest } from './services/simulationEngine';
-import { getStrategyByType } from './services/strategies';
-import { AssetConfig, Profile, SimulationResult } from './types';
+import { MarketDataPanel } from './components/MarketDataPanel';
+import { DataQualityPanel } from './components/DataQualityPanel';
+import { RollingAnalysisPanel } from './components/RollingAnalysisPanel';
+import { MonteCarloPanel } from './components/MonteCarloPanel';
+import { StressTestPanel } from './components/StressTestPanel';
+import { RAW_DATA } from './constants';
+import { BacktestOptions, runBacktest } from './services/simulationEngine';
+import { runScriptBacktest } from './services/scriptRunner';
+import { ScriptStrategyError } from './services/scriptStrategy';
+import { DEFAULT_VOL_TARGET, getStrategyByType } from './services/strategies';
+import { buildMarketData } from './services/marketDataImport';
+import { filterRowsWithTickers, getAvailableTickers, getPortfolioAssets } from './services/assetUniverse';
+import { QLD_INCEPTION_DATE } from './services/syntheticSeries';
+import { MarketDataValidationError, validateMarketData } from './services/marketDataValidator';
+import { getEffectiveRange, resolveDateRange, sliceByDateRange } from './services/dateRange';
+import { attributeFxReturn, convertToBaseCurrency, freezeFxRate, fxSeriesName, getBaseCurrency, PRICE_CURRENCY } from './services/currency';
+import { summarizeExecutionDrift } from './services/wholeShares';
+import { AssetConfig, DateRange, MarketDataRow, MarketDataSource, Profile, SimulationResult } from './types';
 import { LayoutDashboard, Settings2, X, PanelLeftClose, PanelLeftOpen } from 'lucide-react';
 import { LanguageProvider, useTranslation, Language } from './services/i18n';
 
@@ -79,14 +93,39 @@ const INITIAL_PROFILES: Profile[] = [
   }
 ];
 
+const BUILT_IN_SOURCE: MarketDataSource = {
+  name: 'Built-in',
+  isBuiltIn: true,
+  series: RAW_DATA,
+  // The bundled QLD history before the fund's launch is a plain 2x QQQ reconstruction
+  syntheticBefore: { QLD: QLD_INCEPTION_DATE }
+};
+
 const MainApp = () => {
   const { t, language, setLanguage } = useTranslation();
   const [profiles, setProfiles] = useState<Profile[]>(INITIAL_PROFILES);
   const [results, setResults] = useState<SimulationResult[]>([]);
   const [isCalculated, setIsCalculated] = useState(false);
 
+  // Active price dataset (built-in or user import)
+  const [dataSource, setDataSource] = useState<MarketDataSource>(BUILT_IN_SOURCE);
+  const builtData = useMemo(() => buildMarketData(dataSource.series, dataSource.syntheticBefore), [dataSource]);
+  const marketData = builtData.data;
+  const dataReport = useMemo(
+    () => validateMarketData(marketData, { frequency: dataSource.frequency, droppedDates: builtData.droppedDates }),
+    [builtData, marketData, dataSource.frequency]
+  );
+  // Global backtest window; profiles may override it
+  const [dateRange, setDateRange] = useState<DateRange>({});
+  const dataBounds = useMemo(() => getEffectiveRange(marketData, {}), [marketData]);
+  const activeRange = useMemo(() => getEffectiveRange(marketData, dateRange), [marketData, dateRange]);
+
+  // Profiles that could not be simulated in the last run, with the reason
+  const [runErrors, setRunErrors] = useState<string[]>([]);
+
   // Reporting Modal State
   const [reportResult, setReportResult] = useState<SimulationResult | null>(null);
+  const [reportData, setReportData] = useState<MarketDataRow[]>([]);
 
   // Sidebar state
   const [isSidebarOpen, setSidebarOpen] = useState(true);
@@ -98,26 +137,86 @@ const MainApp = () => {
     }
   }, []);
 
-  const handleRunSimulation = useCallback(() => {
-    const newResults = profiles.map(profile => {
-      const strategyFunc = getStrategyByType(profile.strategyType);
-      return runBacktest(
-        MARKET_DATA,
-        strategyFunc,
-        profile.config,
-        profile.name,
-        profile.color
-      );
-    });
+  const availableTickers = useMemo(() => getAvailableTickers(marketData), [marketData]);
+
+  // Each profile runs over its window, restricted to the months where all of its tickers have prices,
+  // priced in its base currency (and so also restricted to the months with an exchange rate)
+  const getProfileData = useCallback((profile: Profile): { data: MarketDataRow[]; error?: string } => {
+    const range = resolveDateRange(dateRange, profile.dateRange);
+    const tickers = getPortfolioAssets(profile.config).map(a => a.ticker);
+    const data = filterRowsWithTickers(sliceByDateRange(marketData, range), tickers);
+    if (data.length === 0) {
+      return { data, error: `${profile.name}: no price history for ${tickers.join(', ')} between ${range.start ?? 'start'} and ${range.end ?? 'end'}` };
+    }
+    const currency = getBaseCurrency(profile.config);
+    const converted = convertToBaseCurrency(data, currency);
+    if (converted.length === 0) {
+      return { data: converted, error: `${profile.name}: no ${fxSeriesName(currency)} exchange rates between ${range.start ?? 'start'} and ${range.end ?? 'end'}` };
+    }
+    return { data: converted };
+  }, [marketData, dateRange]);
+
+  // Scripted runs finish asynchronously; only the latest run may publish its results
+  const runCounter = useRef(0);
+
+  const handleRunSimulation = useCallback(async () => {
+    if (!dataReport.isValid) return;
+    const runId = ++runCounter.current;
+
+    const errors: string[] = [];
+    const runProfile = async (profile: Profile): Promise<SimulationResult | null> => {
+      try {
+        const { data: profileData, error } = getProfileData(profile);
+        if (error) {
+          errors.push(error);
+          return null;
+        }
+
+        // Scripts run in a worker, every other strategy right here
+        const strategyFunc = getStrategyByType(profile.strategyType);
+        const backtest = (data: MarketDataRow[], config: AssetConfig, options: BacktestOptions) =>
+          profile.strategyType === 'SCRIPT'
+            ? runScriptBacktest(data, config, profile.name, profile.color, options)
+            : Promise.resolve(runBacktest(data, strategyFunc, config, profile.name, profile.color, options));
+        const result = await backtest(profileData, profile.config, { frequency: dataSource.frequency });
+        // Non-USD profiles also run on frozen exchange rates to separate the currency's share of the return
+        const hedged = getBaseCurrency(profile.config) !== PRICE_CURRENCY
+          ? await backtest(freezeFxRate(profileData), profile.config, { frequency: dataSource.frequency, skipValidation: true })
+          : null;
+        // Whole-share profiles also run on fractional shares to measure the rounding drift
+        const fractional = profile.config.executionMode === 'WHOLE_SHARES'
+          ? await backtest(profileData, { ...profile.config, executionMode: 'FRACTIONAL' }, { frequency: dataSource.frequency, skipValidation: true })
+          : null;
+        return {
+          ...result,
+          ...(hedged && { fxAttribution: attributeFxReturn(result, hedged, profileData) }),
+          ...(fractional && { executionDrift: summarizeExecutionDrift(result, fractional, profileData) }),
+          ...(profile.strategyType === 'VOL_TARGET' && { targetVolatility: { ...DEFAULT_VOL_TARGET, ...profile.config.volTarget }.targetVol }),
+          profileId: profile.id
+        };
+      } catch (err) {
+        // e.g. holes in an optional ticker leave this profile with missing months, or a script fails;
+        // anything else is a bug, but it fails only this profile instead of the whole run
+        if (!(err instanceof MarketDataValidationError) && !(err instanceof ScriptStrategyError)) {
+          console.error(`Simulation of ${profile.name} failed:`, err);
+        }
+        errors.push(`${profile.name}: ${err instanceof Error ? err.message : String(err)}`);
+        return null;
+      }
+    };
+
+    const newResults = (await Promise.all(profiles.map(runProfile))).filter((r): r is SimulationResult => r !== null);
+    if (runId !== runCounter.current) return;
 
     setResults(newResults);
+    setRunErrors(errors);
     setIsCalculated(true);
 
     // Auto close on mobile only
     if (window.innerWidth < 1024) {
       setSidebarOpen(false);
     }
-  }, [profiles]);
+  }, [profiles, getProfileData, dataReport, dataSource.frequency]);
 
   useEffect(() => {
     handleRunSimulation();
@@ -126,11 +225,12 @@ const MainApp = () => {
 
   const handleViewDetails = (profileId: string) => {
     if (!isCalculated) return;
-    // We need to map the profile ID to the result index.
-    // Since results map 1:1 to profiles array order:
-    const index = profiles.findIndex(p => p.id === profileId);
-    if (index >= 0 && results[index]) {
-      setReportResult(results[index]);
+    const result = results.find(r => r.profileId === profileId);
+    const profile = profiles.find(p => p.id === profileId);
+    if (result && profile) {
+      // Holdings are valued at the profile's (base-currency) prices
+      setReportData(getProfileData(profile).data);
+      setReportResult(result);
     }
   };
 
@@ -150,6 +250,7 @@ const MainApp = () => {
       {reportResult && (
         <FinancialReportModal
           result={reportResult}
+          marketData={reportData}
           onClose={() => setReportResult(null)}
         />
       )}
@@ -246,10 +347,28 @@ const MainApp = () => {
               onRun={handleRunSimulation}
               onViewDetails={handleViewDetails}
               hasResults={isCalculated}
+              availableTickers={availableTickers}
+              canRun={dataReport.isValid}
+              dateRange={dateRange}
+              onDateRangeChange={setDateRange}
+              dataBounds={dataBounds}
             />
 
+            <div className="mt-4">
+              <DataQualityPanel report={dataReport} />
+            </div>
+
+            <div className="mt-4">
+              <MarketDataPanel
+                source={dataSource}
+                marketData={marketData}
+                onSourceChange={setDataSource}
+                onReset={() => setDataSource(BUILT_IN_SOURCE)}
+              />
+            </div>
+
             <div className="mt-8 px-2 text-xs text-slate-400 leading-relaxed hidden lg:block">
-              <p>{t('dataRange')}: 2000 - 2025</p>
+              <p>{t('backtestPeriod')}: {activeRange ? `${activeRange.start} - ${activeRange.end}` : '-'}</p>
               <p className="mt-2">{t('appDesc')}</p>
             </div>
           </div>
@@ -276,7 +395,40 @@ const MainApp = () => {
               <h2 className="text-2xl font-bold text-slate-800">{t('simulationResults')}</h2>
               <p className="text-slate-500">{t('comparingPerformance')} {results.length} {t('profiles')}.</p>
             </div>
-            <ResultsDashboard results={results} />
+            {runErrors.length > 0 && (
+              <div className="mb-6 bg-red-50 border border-red-200 rounded-xl p-4 text-sm text-red-700">
+                <div className="font-bold mb-1">{t('profilesNotSimulated')}</div>
+                <ul className="list-disc pl-5 space-y-0.5 text-xs">
+                  {runErrors.map((msg, idx) => <li key={idx}>{msg}</li>)}
+                </ul>
+              </div>
+            )}
+            <ResultsDashboard results={results} profiles={profiles} />
+            <div className="mt-8">
+              <RollingAnalysisPanel
+                profiles={profiles}
+                getProfileData={getProfileData}
+                frequency={dataSource.frequency}
+                canRun={dataReport.isValid}
+              />
+            </div>
+            <div className="mt-8">
+              <MonteCarloPanel
+                profiles={profiles}
+                getProfileData={getProfileData}
+                canRun={dataReport.isValid}
+              />
+            </div>
+            <div className="mt-8">
+              <StressTestPanel
+                profiles={profiles}
+                results={results}
+                getProfileData={getProfileData}
+                marketData={marketData}
+                availableTickers={availableTickers}
+                frequency={dataSource.frequency}
+              />
+            </div>
           </div>
         ) : (
           <div className="flex items-center justify-center h-full text-slate-400">
@@ -1,8 +1,14 @@
 
 import React, { useState } from 'react';
-import { AssetConfig, Profile, StrategyType } from '../types';
-import { Settings, DollarSign, PieChart, TrendingUp, Plus, Trash2, Edit2, ArrowLeft, Check, Coins, Percent, Landmark, Info, AlertOctagon, FileText, Download, Upload } from 'lucide-react';
-import { useTranslation } from '../services/i18n';
+import { AssetConfig, DateRange, PortfolioAsset, Profile, StrategyType, TaxConfig, TradingCostConfig, DriftBandConfig, RebalanceSchedule, SmartConfig, TrendConfig, ValueAveragingConfig, VolTargetConfig, CppiConfig, DrawdownLadderConfig, ScriptConfig } from '../types';
+import { Settings, DollarSign, PieChart, TrendingUp, Plus, Trash2, Edit2, ArrowLeft, Check, Coins, Percent, Landmark, Info, AlertOctagon, FileText, Download, Upload, CalendarRange, X, Receipt, ArrowRightLeft, Hash } from 'lucide-react';
+import { useTranslation, MONTH_KEYS } from '../services/i18n';
+import { getDefaultBeta, getPortfolioAssets } from '../services/assetUniverse';
+import { fxSeriesName, PRICE_CURRENCY, SUPPORTED_CURRENCIES } from '../services/currency';
+import { RuleBuilder } from './RuleBuilder';
+import { DEFAULT_RULES, validateRules } from '../services/strategyRules';
+import { DEFAULT_SCRIPT_CONFIG, checkScriptSyntax } from '../services/scriptStrategy';
+import { DEFAULT_DRIFT_BAND, DEFAULT_REBALANCE_SCHEDULE, DEFAULT_SMART_CONFIG, DEFAULT_TREND_CONFIG, DEFAULT_VALUE_AVERAGING, DEFAULT_CPPI, DEFAULT_DRAWDOWN_LADDER, DEFAULT_VOL_TARGET, SMART_CASH_RESERVE, getSmartConfig } from '../services/strategies';
 
 interface ConfigPanelProps {
   profiles: Profile[];
@@ -10,8 +16,47 @@ interface ConfigPanelProps {
   onRun: () => void;
   onViewDetails: (profileId: string) => void;
   hasResults: boolean;
+  availableTickers: string[];
+  canRun: boolean; // False while the market data has fatal quality issues
+  dateRange: DateRange; // Global backtest window
+  onDateRangeChange: (range: DateRange) => void;
+  dataBounds: { start: string; end: string } | null; // First / last month of the dataset (YYYY-MM)
 }
 
+// Start / end month pickers bounded by the dataset; empty means "from the first" / "to the last" month
+const DateRangeInputs: React.FC<{
+  range: DateRange;
+  bounds: { start: string; end: string } | null;
+  onChange: (range: DateRange) => void;
+  startLabel: string;
+  endLabel: string;
+}> = ({ range, bounds, onChange, startLabel, endLabel }) => (
+  <div className="grid grid-cols-2 gap-2">
+    <div>
+      <label className="text-[10px] text-slate-500 uppercase font-bold">{startLabel}</label>
+      <input
+        type="month"
+        value={range.start ?? ''}
+        min={bounds?.start}
+        max={range.end || bounds?.end}
+        onChange={(e) => onChange({ ...range, start: e.target.value || undefined })}
+        className="w-full px-2 py-2 border border-slate-300 rounded-lg outline-none text-sm"
+      />
+    </div>
+    <div>
+      <label className="text-[10px] text-slate-500 uppercase font-bold">{endLabel}</label>
+      <input
+        type="month"
+        value={range.end ?? ''}
+        min={range.start || bounds?.start}
+        max={bounds?.end}
+        onChange={(e) => onChange({ ...range, end: e.target.value || undefined })}
+        className="w-full px-2 py-2 border border-slate-300 rounded-lg outline-none text-sm"
+      />
+    </div>
+  </div>
+);
+
 // High-contrast palette for distinct chart lines
 const PROFILE_COLORS = [
   '#2563eb', // Blue
@@ -31,14 +76,31 @@ const DEFAULT_ASSET_CONFIG: AssetConfig = {
   contributionAmount: 500,
   contributionIntervalMonths: 1,
   yearlyContributionMonth: 12, // Default to December
+  indexContributions: false,
+  baseCurrency: 'USD',
   qqqWeight: 50,
   qldWeight: 40,
   contributionQqqWeight: 100, // Default to safer contribution
   contributionQldWeight: 0,
   cashYieldAnnual: 2.0,
+  cashYieldBasis: 'FIXED',
+  cashYieldHaircut: 0.5,
+  executionMode: 'FRACTIONAL',
+  driftBand: { ...DEFAULT_DRIFT_BAND },
+  rebalanceSchedule: { ...DEFAULT_REBALANCE_SCHEDULE },
+  smart: { ...DEFAULT_SMART_CONFIG },
+  trend: { ...DEFAULT_TREND_CONFIG },
+  volTarget: { ...DEFAULT_VOL_TARGET },
+  valueAveraging: { ...DEFAULT_VALUE_AVERAGING },
+  cppi: { ...DEFAULT_CPPI },
+  drawdownLadder: { ...DEFAULT_DRAWDOWN_LADDER, steps: DEFAULT_DRAWDOWN_LADDER.steps.map(step => ({ ...step })) },
+  rules: DEFAULT_RULES,
+  script: { ...DEFAULT_SCRIPT_CONFIG },
   leverage: {
     enabled: false,
     interestRate: 5.0,
+    interestRateBasis: 'FIXED',
+    interestSpread: 1.5,
     qqqPledgeRatio: 0.7,
     qldPledgeRatio: 0.0, // Default 0% pledge for leveraged ETF
     cashPledgeRatio: 0.95,
@@ -48,17 +110,39 @@ const DEFAULT_ASSET_CONFIG: AssetConfig = {
     inflationRate: 0.0, // Default 0%
     interestType: 'CAPITALIZED', // Default to Capitalized
     ltvBasis: 'TOTAL_ASSETS' // Default to Total Assets
+  },
+  tax: {
+    enabled: false,
+    shortTermRate: 30,
+    longTermRate: 15,
+    holdingPeriodMonths: 12,
+    lotSelection: 'FIFO',
+    paymentMode: 'CASH'
+  },
+  tradingCosts: {
+    enabled: false,
+    commissionFixed: 1,
+    commissionPerShare: 0,
+    minCommission: 0
   }
 };
 
-export const ConfigPanel: React.FC<ConfigPanelProps> = ({ profiles, onProfilesChange, onRun, onViewDetails, hasResults }) => {
+export const ConfigPanel: React.FC<ConfigPanelProps> = ({ profiles, onProfilesChange, onRun, onViewDetails, hasResults, availableTickers, canRun, dateRange, onDateRangeChange, dataBounds }) => {
   const { t } = useTranslation();
   const [editingProfileId, setEditingProfileId] = useState<string | null>(null);
 
   const STRATEGY_OPTIONS: { value: StrategyType, label: string }[] = [
     { value: 'NO_REBALANCE', label: t('strat_noRebalance') },
     { value: 'REBALANCE', label: t('strat_rebalance') },
-    { value: 'SMART', label: t('strat_smart') }
+    { value: 'SMART', label: t('strat_smart') },
+    { value: 'THRESHOLD', label: t('strat_threshold') },
+    { value: 'TREND', label: t('strat_trend') },
+    { value: 'VOL_TARGET', label: t('strat_volTarget') },
+    { value: 'VALUE_AVERAGING', label: t('strat_valueAveraging') },
+    { value: 'CPPI', label: t('strat_cppi') },
+    { value: 'DRAWDOWN_LADDER', label: t('strat_drawdownLadder') },
+    { value: 'RULES', label: t('strat_rules') },
+    { value: 'SCRIPT', label: t('strat_script') }
   ];
 
   const getStrategyLabel = (type: string) => {
@@ -126,6 +210,86 @@ export const ConfigPanel: React.FC<ConfigPanelProps> = ({ profiles, onProfilesCh
     }));
   };
 
+  // Profiles saved before tax modeling have no tax block: start from the defaults
+  const updateTax = (id: string, updates: Partial<TaxConfig>) => {
+    onProfilesChange(profiles.map(p => {
+      if (p.id !== id) return p;
+      return {
+        ...p,
+        config: {
+          ...p.config,
+          tax: { ...DEFAULT_ASSET_CONFIG.tax!, ...p.config.tax, ...updates }
+        }
+      };
+    }));
+  };
+
+  const updateDriftBand = (profile: Profile, updates: Partial<DriftBandConfig>) => {
+    updateProfile(profile.id, { driftBand: { ...DEFAULT_DRIFT_BAND, ...profile.config.driftBand, ...updates } });
+  };
+
+  const updateRebalanceSchedule = (profile: Profile, updates: Partial<RebalanceSchedule>) => {
+    updateProfile(profile.id, { rebalanceSchedule: { ...DEFAULT_REBALANCE_SCHEDULE, ...profile.config.rebalanceSchedule, ...updates } });
+  };
+
+  const updateSmart = (profile: Profile, updates: Partial<SmartConfig>) => {
+    updateProfile(profile.id, { smart: { ...DEFAULT_SMART_CONFIG, ...profile.config.smart, ...updates } });
+  };
+
+  const updateTrend = (profile: Profile, updates: Partial<TrendConfig>) => {
+    updateProfile(profile.id, { trend: { ...DEFAULT_TREND_CONFIG, ...profile.config.trend, ...updates } });
+  };
+
+  const updateVolTarget = (profile: Profile, updates: Partial<VolTargetConfig>) => {
+    updateProfile(profile.id, { volTarget: { ...DEFAULT_VOL_TARGET, ...profile.config.volTarget, ...updates } });
+  };
+
+  const updateValueAveraging = (profile: Profile, updates: Partial<ValueAveragingConfig>) => {
+    updateProfile(profile.id, { valueAveraging: { ...DEFAULT_VALUE_AVERAGING, ...profile.config.valueAveraging, ...updates } });
+  };
+
+  const updateCppi = (profile: Profile, updates: Partial<CppiConfig>) => {
+    updateProfile(profile.id, { cppi: { ...DEFAULT_CPPI, ...profile.config.cppi, ...updates } });
+  };
+
+  const updateDrawdownLadder = (profile: Profile, updates: Partial<DrawdownLadderConfig>) => {
+    updateProfile(profile.id, { drawdownLadder: { ...DEFAULT_DRAWDOWN_LADDER, ...profile.config.drawdownLadder, ...updates } });
+  };
+
+  const updateScript = (profile: Profile, updates: Partial<ScriptConfig>) => {
+    updateProfile(profile.id, { script: { ...DEFAULT_SCRIPT_CONFIG, ...profile.config.script, ...updates } });
+  };
+
+  const updateTradingCosts = (id: string, updates: Partial<TradingCostConfig>) => {
+    onProfilesChange(profiles.map(p => {
+      if (p.id !== id) return p;
+      return {
+        ...p,
+        config: {
+          ...p.config,
+          tradingCosts: { ...DEFAULT_ASSET_CONFIG.tradingCosts!, ...p.config.tradingCosts, ...updates }
+        }
+      };
+    }));
+  };
+
+  // Any asset edit materializes the ticker-keyed list (legacy profiles only have qqq/qld weights)
+  const setAssets = (profile: Profile, assets: PortfolioAsset[]) => {
+    onProfilesChange(profiles.map(p => p.id === profile.id ? { ...p, config: { ...p.config, assets } } : p));
+  };
+  const updateAsset = (profile: Profile, index: number, updates: Partial<PortfolioAsset>) => {
+    setAssets(profile, getPortfolioAssets(profile.config).map((a, i) => i === index ? { ...a, ...updates } : a));
+  };
+  const removeAsset = (profile: Profile, index: number) => {
+    setAssets(profile, getPortfolioAssets(profile.config).filter((_, i) => i !== index));
+  };
+  const addAsset = (profile: Profile) => {
+    const current = getPortfolioAssets(profile.config);
+    const ticker = availableTickers.find(tk => !current.some(a => a.ticker === tk));
+    if (!ticker) return;
+    setAssets(profile, [...current, { ticker, weight: 0, contributionWeight: 0, pledgeRatio: 0.5, beta: getDefaultBeta(ticker) }]);
+  };
+
   const handleExport = () => {
     const data = JSON.stringify(profiles, null, 2);
     const blob = new Blob([data], { type: 'application/json' });
@@ -146,6 +310,14 @@ export const ConfigPanel: React.FC<ConfigPanelProps> = ({ profiles, onProfilesCh
       try {
         const imported = JSON.parse(event.target?.result as string);
         if (Array.isArray(imported)) {
+          // Rule-based profiles only load with rules the engine can run
+          const ruleErrors = imported.flatMap((p: Profile) =>
+            p?.config?.rules !== undefined ? validateRules(p.config.rules, !!p.config.leverage?.enabled).map(error => `${p.name}: ${error}`) : []
+          );
+          if (ruleErrors.length > 0) {
+            alert(`Invalid profiles data:\n${ruleErrors.join('\n')}`);
+            return;
+          }
           onProfilesChange(imported);
         }
       } catch (err) {
@@ -165,8 +337,11 @@ export const ConfigPanel: React.FC<ConfigPanelProps> = ({ profiles, onProfilesCh
     const profile = profiles.find(p => p.id === editingProfileId);
     if (!profile) return null;
 
-    const cashWeight = Math.max(0, 100 - profile.config.qqqWeight - profile.config.qldWeight);
-    const contribCashWeight = Math.max(0, 100 - profile.config.contributionQqqWeight - profile.config.contributionQldWeight);
+    const assets = getPortfolioAssets(profile.config);
+    const targetTotal = assets.reduce((sum, a) => sum + a.weight, 0);
+    const contribTotal = assets.reduce((sum, a) => sum + a.contributionWeight, 0);
+    const cashWeight = Math.max(0, 100 - targetTotal);
+    const contribCashWeight = Math.max(0, 100 - contribTotal);
 
     // Calculate Maintenance Ratio for UI display
     const currentMaxLtv = profile.config.leverage?.maxLtv ?? 100;
@@ -220,12 +395,576 @@ export const ConfigPanel: React.FC<ConfigPanelProps> = ({ profiles, onProfilesCh
                 <option key={opt.value} value={opt.value}>{opt.label}</option>
               ))}
             </select>
+            {profile.strategyType === 'REBALANCE' && (() => {
+              const schedule = { ...DEFAULT_REBALANCE_SCHEDULE, ...profile.config.rebalanceSchedule };
+              const isMultiYear = schedule.intervalMonths > 12;
+              return (
+                <div className="p-3 bg-white rounded-lg border border-slate-200 space-y-2">
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <label className="text-[10px] text-slate-500 uppercase font-bold">{t('rebalanceFrequency')}</label>
+                      <select
+                        value={isMultiYear ? 'YEARS' : schedule.intervalMonths}
+                        onChange={(e) => updateRebalanceSchedule(profile, { intervalMonths: e.target.value === 'YEARS' ? 24 : Number(e.target.value) })}
+                        disabled={schedule.contributionOnly}
+                        className="w-full px-2 py-1.5 border border-slate-300 rounded-lg outline-none bg-white text-sm disabled:opacity-50"
+                      >
+                        <option value={1}>{t('monthly')}</option>
+                        <option value={3}>{t('quarterly')}</option>
+                        <option value={6}>{t('semiAnnual')}</option>
+                        <option value={12}>{t('yearly')}</option>
+                        <option value="YEARS">{t('everyNYears')}</option>
+                      </select>
+                    </div>
+                    {isMultiYear ? (
+                      <div>
+                        <label className="text-[10px] text-slate-500 uppercase font-bold">{t('rebalanceYears')}</label>
+                        <input
+                          type="number"
+                          min="2"
+                          step="1"
+                          value={Math.round(schedule.intervalMonths / 12)}
+                          onChange={(e) => updateRebalanceSchedule(profile, { intervalMonths: Math.max(2, Math.round(Number(e.target.value))) * 12 })}
+                          disabled={schedule.contributionOnly}
+                          className="w-full px-2 py-1.5 border border-slate-300 rounded-lg outline-none text-sm disabled:opacity-50"
+                        />
+                      </div>
+                    ) : <div />}
+                  </div>
+                  {schedule.intervalMonths > 1 && (
+                    <div>
+                      <label className="text-[10px] text-slate-500 uppercase font-bold">{t('rebalanceAnchorMonth')}</label>
+                      <select
+                        value={schedule.anchorMonth}
+                        onChange={(e) => updateRebalanceSchedule(profile, { anchorMonth: Number(e.target.value) })}
+                        disabled={schedule.contributionOnly}
+                        className="w-full px-2 py-1.5 border border-slate-300 rounded-lg outline-none bg-white text-sm disabled:opacity-50"
+                      >
+                        {MONTH_KEYS.map((key, i) => <option key={key} value={i + 1}>{t(key)}</option>)}
+                      </select>
+                    </div>
+                  )}
+                  <label className="flex items-center gap-2 text-xs font-medium text-slate-600 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={schedule.contributionOnly}
+                      onChange={(e) => updateRebalanceSchedule(profile, { contributionOnly: e.target.checked })}
+                      className="rounded border-slate-300 text-blue-600"
+                    />
+                    {t('rebalanceContributionOnly')}
+                  </label>
+                  {schedule.contributionOnly && (
+                    <p className="text-[10px] text-slate-400 leading-tight">{t('rebalanceContributionOnlyHint')}</p>
+                  )}
+                </div>
+              );
+            })()}
+            {profile.strategyType === 'SMART' && (() => {
+              const smart = getSmartConfig(profile.config);
+              const tickers = getPortfolioAssets(profile.config).map(a => a.ticker);
+              return (
+                <div className="p-3 bg-white rounded-lg border border-slate-200 space-y-2">
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <label className="text-[10px] text-slate-500 uppercase font-bold">{t('smartEvaluationMonth')}</label>
+                      <select
+                        value={smart.evaluationMonth}
+                        onChange={(e) => updateSmart(profile, { evaluationMonth: Number(e.target.value) })}
+                        className="w-full px-2 py-1.5 border border-slate-300 rounded-lg outline-none bg-white text-sm"
+                      >
+                        {MONTH_KEYS.map((key, i) => <option key={key} value={i + 1}>{t(key)}</option>)}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="text-[10px] text-slate-500 uppercase font-bold">{t('smartHarvestFraction')}</label>
+                      <input
+                        type="number"
+                        step="1"
+                        min="0"
+                        max="100"
+                        value={Number(smart.harvestFraction.toFixed(2))}
+                        onChange={(e) => updateSmart(profile, { harvestFraction: Number(e.target.value) })}
+                        className="w-full px-2 py-1.5 border border-slate-300 rounded-lg outline-none text-sm"
+                      />
+                    </div>
+                    <div>
+                      <label className="text-[10px] text-slate-500 uppercase font-bold">{t('smartHarvestFrom')}</label>
+                      <select
+                        value={profile.config.smart?.harvestFrom ?? ''}
+                        onChange={(e) => updateSmart(profile, { harvestFrom: e.target.value || undefined })}
+                        className="w-full px-2 py-1.5 border border-slate-300 rounded-lg outline-none bg-white text-sm"
+                      >
+                        <option value="">{t('smartHighestBeta')}</option>
+                        {tickers.map(tk => <option key={tk} value={tk}>{tk}</option>)}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="text-[10px] text-slate-500 uppercase font-bold">{t('smartHarvestInto')}</label>
+                      <select
+                        value={smart.harvestInto}
+                        onChange={(e) => updateSmart(profile, { harvestInto: e.target.value })}
+                        className="w-full px-2 py-1.5 border border-slate-300 rounded-lg outline-none bg-white text-sm"
+                      >
+                        <option value={SMART_CASH_RESERVE}>{t('cash')}</option>
+                        {tickers.filter(tk => tk !== smart.harvestFrom).map(tk => <option key={tk} value={tk}>{tk}</option>)}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="text-[10px] text-slate-500 uppercase font-bold">{t('smartMaxReserve')}</label>
+                      <input
+                        type="number"
+                        step="5"
+                        min="0"
+                        max="100"
+                        value={smart.maxReservePercent}
+                        onChange={(e) => updateSmart(profile, { maxReservePercent: Number(e.target.value) })}
+                        className="w-full px-2 py-1.5 border border-slate-300 rounded-lg outline-none text-sm"
+                      />
+                    </div>
+                    <div>
+                      <label className="text-[10px] text-slate-500 uppercase font-bold">{t('smartDipBuy')}</label>
+                      <input
+                        type="number"
+                        step="0.5"
+                        min="0"
+                        value={smart.dipBuyPercent}
+                        onChange={(e) => updateSmart(profile, { dipBuyPercent: Number(e.target.value) })}
+                        className="w-full px-2 py-1.5 border border-slate-300 rounded-lg outline-none text-sm"
+                      />
+                    </div>
+                    <div>
+                      <label className="text-[10px] text-slate-500 uppercase font-bold">{t('smartDipTrigger')}</label>
+                      <select
+                        value={smart.dipTrigger}
+                        onChange={(e) => updateSmart(profile, { dipTrigger: e.target.value as SmartConfig['dipTrigger'] })}
+                        className="w-full px-2 py-1.5 border border-slate-300 rounded-lg outline-none bg-white text-sm"
+                      >
+                        <option value="YEARLY_LOSS">{t('smartTriggerYearlyLoss')}</option>
+                        <option value="DRAWDOWN">{t('smartTriggerDrawdown')}</option>
+                      </select>
+                    </div>
+                    {smart.dipTrigger === 'DRAWDOWN' && (
+                      <div>
+                        <label className="text-[10px] text-slate-500 uppercase font-bold">{t('smartDrawdownTrigger')}</label>
+                        <input
+                          type="number"
+                          step="1"
+                          min="0"
+                          max="100"
+                          value={smart.drawdownTrigger}
+                          onChange={(e) => updateSmart(profile, { drawdownTrigger: Number(e.target.value) })}
+                          className="w-full px-2 py-1.5 border border-slate-300 rounded-lg outline-none text-sm"
+                        />
+                      </div>
+                    )}
+                  </div>
+                  <p className="text-[10px] text-slate-400 leading-tight">{t('smartHint')}</p>
+                </div>
+              );
+            })()}
+            {profile.strategyType === 'TREND' && (() => {
+              const trend = { ...DEFAULT_TREND_CONFIG, ...profile.config.trend };
+              return (
+                <div className="p-3 bg-white rounded-lg border border-slate-200 space-y-2">
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <label className="text-[10px] text-slate-500 uppercase font-bold">{t('trendMaType')}</label>
+                      <select
+                        value={trend.maType}
+                        onChange={(e) => updateTrend(profile, { maType: e.target.value as TrendConfig['maType'] })}
+                        className="w-full px-2 py-1.5 border border-slate-300 rounded-lg outline-none bg-white text-sm"
+                      >
+                        <option value="SMA">{t('trendSma')}</option>
+                        <option value="EMA">{t('trendEma')}</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label className="text-[10px] text-slate-500 uppercase font-bold">{t('trendPeriod')}</label>
+                      <input
+                        type="number"
+                        step="1"
+                        min="1"
+                        value={trend.periodMonths}
+                        onChange={(e) => updateTrend(profile, { periodMonths: Math.max(1, Math.round(Number(e.target.value))) })}
+                        className="w-full px-2 py-1.5 border border-slate-300 rounded-lg outline-none text-sm"
+                      />
+                    </div>
+                    <div>
+                      <label className="text-[10px] text-slate-500 uppercase font-bold">{t('trendHysteresis')}</label>
+                      <input
+                        type="number"
+                        step="0.5"
+                        min="0"
+                        value={trend.hysteresis}
+                        onChange={(e) => updateTrend(profile, { hysteresis: Number(e.target.value) })}
+                        className="w-full px-2 py-1.5 border border-slate-300 rounded-lg outline-none text-sm"
+                      />
+                    </div>
+                    <div>
+                      <label className="text-[10px] text-slate-500 uppercase font-bold">{t('trendRiskOffFraction')}</label>
+                      <input
+                        type="number"
+                        step="5"
+                        min="0"
+                        max="100"
+                        value={trend.riskOffFraction}
+                        onChange={(e) => updateTrend(profile, { riskOffFraction: Number(e.target.value) })}
+                        className="w-full px-2 py-1.5 border border-slate-300 rounded-lg outline-none text-sm"
+                      />
+                    </div>
+                  </div>
+                  <p className="text-[10px] text-slate-400 leading-tight">{t('trendHint')}</p>
+                </div>
+              );
+            })()}
+            {profile.strategyType === 'VOL_TARGET' && (() => {
+              const volTarget = { ...DEFAULT_VOL_TARGET, ...profile.config.volTarget };
+              const fields: { key: keyof VolTargetConfig; label: string; step: string; min: string }[] = [
+                { key: 'targetVol', label: t('volTargetVol'), step: '1', min: '1' },
+                { key: 'windowMonths', label: t('volTargetWindow'), step: '1', min: '2' },
+                { key: 'maxBeta', label: t('volTargetMaxBeta'), step: '0.1', min: '0' },
+                { key: 'maxTurnover', label: t('volTargetMaxTurnover'), step: '5', min: '0' },
+                { key: 'rebalanceBand', label: t('volTargetBand'), step: '0.05', min: '0' }
+              ];
+              return (
+                <div className="p-3 bg-white rounded-lg border border-slate-200 space-y-2">
+                  <div className="grid grid-cols-2 gap-2">
+                    {fields.map(field => (
+                      <div key={field.key}>
+                        <label className="text-[10px] text-slate-500 uppercase font-bold">{field.label}</label>
+                        <input
+                          type="number"
+                          step={field.step}
+                          min={field.min}
+                          value={volTarget[field.key]}
+                          onChange={(e) => updateVolTarget(profile, { [field.key]: Number(e.target.value) })}
+                          className="w-full px-2 py-1.5 border border-slate-300 rounded-lg outline-none text-sm"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  <p className="text-[10px] text-slate-400 leading-tight">{t('volTargetHint')}</p>
+                </div>
+              );
+            })()}
+            {profile.strategyType === 'VALUE_AVERAGING' && (() => {
+              const va = { ...DEFAULT_VALUE_AVERAGING, ...profile.config.valueAveraging };
+              return (
+                <div className="p-3 bg-white rounded-lg border border-slate-200 space-y-2">
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <label className="text-[10px] text-slate-500 uppercase font-bold">{t('vaExpectedReturn')}</label>
+                      <input
+                        type="number"
+                        step="0.5"
+                        value={va.expectedReturn}
+                        onChange={(e) => updateValueAveraging(profile, { expectedReturn: Number(e.target.value) })}
+                        className="w-full px-2 py-1.5 border border-slate-300 rounded-lg outline-none text-sm"
+                      />
+                    </div>
+                    <div>
+                      <label className="text-[10px] text-slate-500 uppercase font-bold">{t('vaMaxContribution')}</label>
+                      <input
+                        type="number"
+                        step="100"
+                        min="0"
+                        value={va.maxContribution}
+                        onChange={(e) => updateValueAveraging(profile, { maxContribution: Number(e.target.value) })}
+                        className="w-full px-2 py-1.5 border border-slate-300 rounded-lg outline-none text-sm"
+                      />
+                    </div>
+                  </div>
+                  <label className="flex items-center gap-2 text-xs font-medium text-slate-600 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={va.allowWithdrawals}
+                      onChange={(e) => updateValueAveraging(profile, { allowWithdrawals: e.target.checked })}
+                      className="rounded border-slate-300 text-blue-600"
+                    />
+                    {t('vaAllowWithdrawals')}
+                  </label>
+                  {va.allowWithdrawals && (
+                    <div>
+                      <label className="text-[10px] text-slate-500 uppercase font-bold">{t('vaMaxWithdrawal')}</label>
+                      <input
+                        type="number"
+                        step="100"
+                        min="0"
+                        value={va.maxWithdrawal}
+                        onChange={(e) => updateValueAveraging(profile, { maxWithdrawal: Number(e.target.value) })}
+                        className="w-full px-2 py-1.5 border border-slate-300 rounded-lg outline-none text-sm"
+                      />
+                    </div>
+                  )}
+                  <p className="text-[10px] text-slate-400 leading-tight">{t('vaHint')}</p>
+                </div>
+              );
+            })()}
+            {profile.strategyType === 'CPPI' && (() => {
+              const cppi = { ...DEFAULT_CPPI, ...profile.config.cppi };
+              return (
+                <div className="p-3 bg-white rounded-lg border border-slate-200 space-y-2">
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <label className="text-[10px] text-slate-500 uppercase font-bold">{t('cppiFloorType')}</label>
+                      <select
+                        value={cppi.floorType}
+                        onChange={(e) => {
+                          const floorType = e.target.value as CppiConfig['floorType'];
+                          // Switch the floor to a sensible value in its new unit
+                          updateCppi(profile, { floorType, floorValue: floorType === 'RATCHET' ? DEFAULT_CPPI.floorValue : profile.config.initialCapital * 0.8 });
+                        }}
+                        className="w-full px-2 py-1.5 border border-slate-300 rounded-lg outline-none bg-white text-sm"
+                      >
+                        <option value="RATCHET">{t('cppiRatchet')}</option>
+                        <option value="ABSOLUTE">{t('cppiAbsolute')}</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label className="text-[10px] text-slate-500 uppercase font-bold">{cppi.floorType === 'RATCHET' ? t('cppiFloorPct') : t('cppiFloorAmount')}</label>
+                      <input
+                        type="number"
+                        step={cppi.floorType === 'RATCHET' ? '1' : '500'}
+                        min="0"
+                        value={cppi.floorValue}
+                        onChange={(e) => updateCppi(profile, { floorValue: Number(e.target.value) })}
+                        className="w-full px-2 py-1.5 border border-slate-300 rounded-lg outline-none text-sm"
+                      />
+                    </div>
+                    <div>
+                      <label className="text-[10px] text-slate-500 uppercase font-bold">{t('cppiMultiplier')}</label>
+                      <input
+                        type="number"
+                        step="0.5"
+                        min="0"
+                        value={cppi.multiplier}
+                        onChange={(e) => updateCppi(profile, { multiplier: Number(e.target.value) })}
+                        className="w-full px-2 py-1.5 border border-slate-300 rounded-lg outline-none text-sm"
+                      />
+                    </div>
+                    <div>
+                      <label className="text-[10px] text-slate-500 uppercase font-bold">{t('cppiMaxExposure')}</label>
+                      <input
+                        type="number"
+                        step="10"
+                        min="0"
+                        value={cppi.maxExposure}
+                        onChange={(e) => updateCppi(profile, { maxExposure: Number(e.target.value) })}
+                        className="w-full px-2 py-1.5 border border-slate-300 rounded-lg outline-none text-sm"
+                      />
+                    </div>
+                  </div>
+                  <p className="text-[10px] text-slate-400 leading-tight">{t('cppiHint')}</p>
+                </div>
+              );
+            })()}
+            {profile.strategyType === 'DRAWDOWN_LADDER' && (() => {
+              const ladder = { ...DEFAULT_DRAWDOWN_LADDER, ...profile.config.drawdownLadder };
+              const updateStep = (index: number, updates: Partial<DrawdownLadderConfig['steps'][number]>) =>
+                updateDrawdownLadder(profile, { steps: ladder.steps.map((step, i) => (i === index ? { ...step, ...updates } : step)) });
+              return (
+                <div className="p-3 bg-white rounded-lg border border-slate-200 space-y-2">
+                  <div className="grid grid-cols-[1fr_1fr_auto] gap-2 items-end">
+                    <label className="text-[10px] text-slate-500 uppercase font-bold">{t('ladderDrawdown')}</label>
+                    <label className="text-[10px] text-slate-500 uppercase font-bold">{t('ladderLeveragedWeight')}</label>
+                    <span />
+                    {ladder.steps.map((step, index) => (
+                      <React.Fragment key={index}>
+                        <input
+                          type="number"
+                          step="5"
+                          min="0"
+                          max="100"
+                          value={step.drawdown}
+                          onChange={(e) => updateStep(index, { drawdown: Number(e.target.value) })}
+                          className="w-full px-2 py-1.5 border border-slate-300 rounded-lg outline-none text-sm"
+                        />
+                        <input
+                          type="number"
+                          step="5"
+                          min="0"
+                          max="100"
+                          value={step.leveragedWeight}
+                          onChange={(e) => updateStep(index, { leveragedWeight: Number(e.target.value) })}
+                          className="w-full px-2 py-1.5 border border-slate-300 rounded-lg outline-none text-sm"
+                        />
+                        <button
+                          onClick={() => updateDrawdownLadder(profile, { steps: ladder.steps.filter((_, i) => i !== index) })}
+                          className="p-1.5 text-slate-400 hover:text-red-500 rounded transition-colors"
+                          title={t('ladderRemoveStep')}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </React.Fragment>
+                    ))}
+                  </div>
+                  <button
+                    onClick={() => {
+                      const last = ladder.steps[ladder.steps.length - 1];
+                      updateDrawdownLadder(profile, {
+                        steps: [...ladder.steps, last ? { drawdown: last.drawdown + 10, leveragedWeight: Math.min(100, last.leveragedWeight + 20) } : { drawdown: 10, leveragedWeight: 20 }]
+                      });
+                    }}
+                    className="flex items-center gap-1 text-xs font-bold text-blue-600 hover:text-blue-700"
+                  >
+                    <Plus className="w-3.5 h-3.5" /> {t('ladderAddStep')}
+                  </button>
+                  <label className="flex items-center gap-2 text-xs font-medium text-slate-600 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={ladder.gradualRecovery}
+                      onChange={(e) => updateDrawdownLadder(profile, { gradualRecovery: e.target.checked })}
+                      className="rounded border-slate-300 text-blue-600"
+                    />
+                    {t('ladderGradualRecovery')}
+                  </label>
+                  <p className="text-[10px] text-slate-400 leading-tight">{t('ladderHint')}</p>
+                </div>
+              );
+            })()}
+            {profile.strategyType === 'RULES' && (
+              <div className="p-3 bg-white rounded-lg border border-slate-200 space-y-2">
+                <RuleBuilder
+                  rules={profile.config.rules ?? DEFAULT_RULES}
+                  tickers={getPortfolioAssets(profile.config).map(a => a.ticker)}
+                  canBorrow={!!profile.config.leverage?.enabled}
+                  onChange={(rules) => updateProfile(profile.id, { rules })}
+                />
+                <p className="text-[10px] text-slate-400 leading-tight">{t('rulesHint')}</p>
+              </div>
+            )}
+            {profile.strategyType === 'SCRIPT' && (() => {
+              const script = { ...DEFAULT_SCRIPT_CONFIG, ...profile.config.script };
+              const syntaxError = checkScriptSyntax(script.code);
+              return (
+                <div className="p-3 bg-white rounded-lg border border-slate-200 space-y-2">
+                  <label className="text-[10px] text-slate-500 uppercase font-bold">{t('scriptCode')}</label>
+                  <textarea
+                    value={script.code}
+                    onChange={(e) => updateScript(profile, { code: e.target.value })}
+                    onKeyDown={(e) => {
+                      // Tab indents instead of leaving the editor
+                      if (e.key !== 'Tab') return;
+                      e.preventDefault();
+                      const { selectionStart, selectionEnd, value } = e.currentTarget;
+                      const target = e.currentTarget;
+                      updateScript(profile, { code: value.substring(0, selectionStart) + '  ' + value.substring(selectionEnd) });
+                      requestAnimationFrame(() => target.setSelectionRange(selectionStart + 2, selectionStart + 2));
+                    }}
+                    spellCheck={false}
+                    rows={16}
+                    className={`w-full px-2 py-1.5 border rounded-lg outline-none font-mono text-[11px] leading-snug bg-slate-900 text-slate-100 whitespace-pre ${syntaxError ? 'border-red-400' : 'border-slate-300'}`}
+                  />
+                  {syntaxError && <p className="text-[10px] text-red-600 font-mono">{syntaxError}</p>}
+                  <div className="flex items-center justify-between gap-2">
+                    <div>
+                      <label className="text-[10px] text-slate-500 uppercase font-bold">{t('scriptTimeLimit')}</label>
+                      <input
+                        type="number"
+                        min="1"
+                        step="1"
+                        value={script.timeLimitSeconds}
+                        onChange={(e) => updateScript(profile, { timeLimitSeconds: Math.max(1, Number(e.target.value)) })}
+                        className="w-full px-2 py-1.5 border border-slate-300 rounded-lg outline-none text-sm"
+                      />
+                    </div>
+                    <button
+                      onClick={() => updateScript(profile, { code: DEFAULT_SCRIPT_CONFIG.code })}
+                      className="text-xs font-bold text-blue-600 hover:text-blue-700 mt-4"
+                    >
+                      {t('scriptReset')}
+                    </button>
+                  </div>
+                  <p className="text-[10px] text-slate-400 leading-tight">{t('scriptHint')}</p>
+                </div>
+              );
+            })()}
+            {profile.strategyType === 'THRESHOLD' && (
+              <div className="p-3 bg-white rounded-lg border border-slate-200 space-y-2">
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="text-[10px] text-slate-500 uppercase font-bold">{t('driftBandMode')}</label>
+                    <select
+                      value={profile.config.driftBand?.mode ?? DEFAULT_DRIFT_BAND.mode}
+                      onChange={(e) => updateDriftBand(profile, { mode: e.target.value as DriftBandConfig['mode'] })}
+                      className="w-full px-2 py-1.5 border border-slate-300 rounded-lg outline-none bg-white text-sm"
+                    >
+                      <option value="ABSOLUTE">{t('driftBandAbsolute')}</option>
+                      <option value="RELATIVE">{t('driftBandRelative')}</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="text-[10px] text-slate-500 uppercase font-bold">{t('driftBandThreshold')}</label>
+                    <input
+                      type="number"
+                      step="0.5"
+                      min="0"
+                      value={profile.config.driftBand?.threshold ?? DEFAULT_DRIFT_BAND.threshold}
+                      onChange={(e) => updateDriftBand(profile, { threshold: Number(e.target.value) })}
+                      className="w-full px-2 py-1.5 border border-slate-300 rounded-lg outline-none text-sm"
+                    />
+                  </div>
+                </div>
+                <label className="flex items-center gap-2 text-xs font-medium text-slate-600 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={profile.config.driftBand?.partial ?? DEFAULT_DRIFT_BAND.partial}
+                    onChange={(e) => updateDriftBand(profile, { partial: e.target.checked })}
+                    className="rounded border-slate-300 text-blue-600"
+                  />
+                  {t('driftBandPartial')}
+                </label>
+                <p className="text-[10px] text-slate-400 leading-tight">{t('driftBandHint')}</p>
+              </div>
+            )}
+          </div>
+
+          {/* Backtest Period Override */}
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-sm font-medium text-slate-600 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={!!profile.dateRange}
+                onChange={(e) => updateProfile(profile.id, { dateRange: e.target.checked ? { ...dateRange } : undefined })}
+                className="rounded border-slate-300 text-blue-600"
+              />
+              <CalendarRange className="w-4 h-4" /> {t('customPeriod')}
+            </label>
+            {profile.dateRange ? (
+              <DateRangeInputs
+                range={profile.dateRange}
+                bounds={dataBounds}
+                onChange={(range) => updateProfile(profile.id, { dateRange: range })}
+                startLabel={t('periodStart')}
+                endLabel={t('periodEnd')}
+              />
+            ) : (
+              <p className="text-[10px] text-slate-400">{t('usesGlobalPeriod')}</p>
+            )}
           </div>
 
           <hr className="border-slate-100" />
 
           {/* Capital */}
           <div className="space-y-4">
+            <div className="space-y-2">
+              <label className="flex items-center gap-2 text-sm font-medium text-slate-600">
+                <Coins className="w-4 h-4" /> {t('baseCurrency')}
+              </label>
+              <select
+                value={profile.config.baseCurrency || PRICE_CURRENCY}
+                onChange={(e) => updateProfile(profile.id, { baseCurrency: e.target.value })}
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg outline-none bg-white text-sm"
+              >
+                {SUPPORTED_CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+              </select>
+              {(profile.config.baseCurrency || PRICE_CURRENCY) !== PRICE_CURRENCY && (
+                <p className="text-[10px] text-slate-400 leading-tight">
+                  {t('baseCurrencyHint').replace('{series}', fxSeriesName(profile.config.baseCurrency!))}
+                </p>
+              )}
+            </div>
+
             <div className="space-y-2">
               <label className="flex items-center gap-2 text-sm font-medium text-slate-600">
                 <DollarSign className="w-4 h-4" /> {t('initialCapital')}
@@ -242,13 +981,53 @@ export const ConfigPanel: React.FC<ConfigPanelProps> = ({ profiles, onProfilesCh
               <label className="flex items-center gap-2 text-sm font-medium text-slate-600">
                 <Percent className="w-4 h-4" /> {t('cashYield')}
               </label>
-              <input
-                type="number"
-                step="0.1"
-                value={profile.config.cashYieldAnnual}
-                onChange={(e) => updateProfile(profile.id, { cashYieldAnnual: Number(e.target.value) })}
-                className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
-              />
+              <div className="flex gap-2">
+                <select
+                  value={profile.config.cashYieldBasis || 'FIXED'}
+                  onChange={(e) => updateProfile(profile.id, { cashYieldBasis: e.target.value as AssetConfig['cashYieldBasis'] })}
+                  className="bg-white border border-slate-300 rounded-lg px-2 text-sm outline-none w-32"
+                >
+                  <option value="FIXED">{t('rateFixed')}</option>
+                  <option value="BENCHMARK">{t('rateBenchmarkMinus')}</option>
+                </select>
+                {profile.config.cashYieldBasis === 'BENCHMARK' ? (
+                  <input
+                    type="number"
+                    step="0.1"
+                    value={profile.config.cashYieldHaircut ?? 0}
+                    onChange={(e) => updateProfile(profile.id, { cashYieldHaircut: Number(e.target.value) })}
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                  />
+                ) : (
+                  <input
+                    type="number"
+                    step="0.1"
+                    value={profile.config.cashYieldAnnual}
+                    onChange={(e) => updateProfile(profile.id, { cashYieldAnnual: Number(e.target.value) })}
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                  />
+                )}
+              </div>
+              {profile.config.cashYieldBasis === 'BENCHMARK' && (
+                <p className="text-[10px] text-slate-400 leading-tight">{t('benchmarkFallbackHint')}</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <label className="flex items-center gap-2 text-sm font-medium text-slate-600">
+                <Hash className="w-4 h-4" /> {t('executionMode')}
+              </label>
+              <select
+                value={profile.config.executionMode || 'FRACTIONAL'}
+                onChange={(e) => updateProfile(profile.id, { executionMode: e.target.value as AssetConfig['executionMode'] })}
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg outline-none bg-white text-sm"
+              >
+                <option value="FRACTIONAL">{t('execFractional')}</option>
+                <option value="WHOLE_SHARES">{t('execWholeShares')}</option>
+              </select>
+              {profile.config.executionMode === 'WHOLE_SHARES' && (
+                <p className="text-[10px] text-slate-400 leading-tight">{t('execWholeSharesHint')}</p>
+              )}
             </div>
           </div>
 
@@ -304,99 +1083,128 @@ export const ConfigPanel: React.FC<ConfigPanelProps> = ({ profiles, onProfilesCh
                 </select>
               </div>
             )}
-          </div>
-
-          {/* Portfolio Allocation */}
-          <div className="space-y-4 pt-2">
-            <div className="flex items-center gap-2 text-sm font-medium text-slate-600 mb-2 border-b border-slate-100 pb-2">
-              <PieChart className="w-4 h-4" /> {t('targetAllocation')}
-            </div>
-
-            <div>
-              <div className="flex justify-between text-xs mb-1">
-                <span>QQQ</span>
-                <span className="font-bold">{profile.config.qqqWeight}%</span>
-              </div>
+            <label className="flex items-center gap-2 text-xs font-medium text-slate-600 cursor-pointer">
               <input
-                type="range" min="0" max="100"
-                value={profile.config.qqqWeight}
-                onChange={(e) => {
-                  const val = Number(e.target.value);
-                  let updates: any = { qqqWeight: val };
-                  if (val + profile.config.qldWeight > 100) updates.qldWeight = Math.max(0, 100 - val);
-                  updateProfile(profile.id, updates);
-                }}
-                className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+                type="checkbox"
+                checked={!!profile.config.indexContributions}
+                onChange={(e) => updateProfile(profile.id, { indexContributions: e.target.checked })}
+                className="rounded border-slate-300 text-green-600"
               />
-            </div>
-
-            <div>
-              <div className="flex justify-between text-xs mb-1">
-                <span>QLD (2x)</span>
-                <span className="font-bold">{profile.config.qldWeight}%</span>
+              {t('indexContributions')}
+            </label>
+            {profile.config.indexContributions && (
+              <div>
+                <label className="text-[10px] text-slate-500 uppercase font-bold">{t('inflationRate')}</label>
+                <input
+                  type="number"
+                  step="0.1"
+                  value={profile.config.leverage.inflationRate || 0}
+                  onChange={(e) => updateLeverage(profile.id, { inflationRate: Number(e.target.value) })}
+                  className="w-full px-2 py-2 border border-slate-300 rounded-lg outline-none"
+                />
+                <p className="text-[10px] text-slate-400 mt-1 leading-tight">{t('inflationFallbackHint')}</p>
               </div>
-              <input
-                type="range" min="0" max="100"
-                value={profile.config.qldWeight}
-                onChange={(e) => {
-                  const val = Number(e.target.value);
-                  let updates: any = { qldWeight: val };
-                  if (val + profile.config.qqqWeight > 100) updates.qqqWeight = Math.max(0, 100 - val);
-                  updateProfile(profile.id, updates);
-                }}
-                className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-purple-600"
-              />
-            </div>
-
-            <div className="text-xs text-center text-slate-400">
-              {t('cash')}: {cashWeight.toFixed(1)}%
-            </div>
+            )}
           </div>
 
-          {/* Contribution Allocation */}
-          <div className="space-y-4 pt-4">
+          {/* Asset Universe: target, contribution, pledge and beta per ticker */}
+          <div className="space-y-3 pt-2">
             <div className="flex items-center gap-2 text-sm font-medium text-slate-600 mb-2 border-b border-slate-100 pb-2">
-              <Coins className="w-4 h-4" /> {t('contributionAllocation')}
+              <PieChart className="w-4 h-4" /> {t('targetAllocation')}
             </div>
 
-            <div>
-              <div className="flex justify-between text-xs mb-1">
-                <span>DCA (QQQ)</span>
-                <span className="font-bold">{profile.config.contributionQqqWeight}%</span>
+            {assets.map((asset, idx) => (
+              <div key={idx} className="p-3 bg-white rounded-lg border border-slate-200 space-y-2">
+                <div className="flex items-center gap-2">
+                  <select
+                    value={asset.ticker}
+                    onChange={(e) => {
+                      const ticker = e.target.value;
+                      updateAsset(profile, idx, { ticker, beta: getDefaultBeta(ticker) });
+                    }}
+                    className="flex-1 px-2 py-1.5 border border-slate-300 rounded-lg outline-none bg-white text-sm font-bold"
+                  >
+                    {availableTickers
+                      .filter(tk => tk === asset.ticker || !assets.some(a => a.ticker === tk))
+                      .map(tk => <option key={tk} value={tk}>{tk}</option>)}
+                  </select>
+                  <label className="text-[10px] text-slate-500 uppercase font-bold" title={t('assetBetaHint')}>β</label>
+                  <input
+                    type="number"
+                    step="0.1"
+                    value={asset.beta}
+                    onChange={(e) => updateAsset(profile, idx, { beta: Number(e.target.value) })}
+                    className="w-16 px-2 py-1.5 border border-slate-300 rounded-lg outline-none text-sm"
+                  />
+                  <button
+                    onClick={() => removeAsset(profile, idx)}
+                    disabled={assets.length <= 1}
+                    className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded transition-all disabled:opacity-30"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+                <div className={`grid gap-2 ${profile.config.tradingCosts?.enabled ? 'grid-cols-4' : 'grid-cols-3'}`}>
+                  <div>
+                    <label className="text-[10px] text-slate-500 uppercase font-bold">{t('assetTarget')}</label>
+                    <input
+                      type="number" min="0" max="100"
+                      value={asset.weight}
+                      onChange={(e) => updateAsset(profile, idx, { weight: Number(e.target.value) })}
+                      className="w-full px-2 py-1.5 border border-slate-300 rounded-lg outline-none text-sm"
+                    />
+                  </div>
+                  <div>
+                    <label className="text-[10px] text-slate-500 uppercase font-bold">{t('assetContribution')}</label>
+                    <input
+                      type="number" min="0" max="100"
+                      value={asset.contributionWeight}
+                      onChange={(e) => updateAsset(profile, idx, { contributionWeight: Number(e.target.value) })}
+                      className="w-full px-2 py-1.5 border border-slate-300 rounded-lg outline-none text-sm"
+                    />
+                  </div>
+                  <div>
+                    <label className="text-[10px] text-slate-500 uppercase font-bold">{t('assetPledge')}</label>
+                    <input
+                      type="number" step="0.05" min="0" max="1"
+                      value={asset.pledgeRatio}
+                      onChange={(e) => updateAsset(profile, idx, { pledgeRatio: Number(e.target.value) })}
+                      className="w-full px-2 py-1.5 border border-slate-300 rounded-lg outline-none text-sm"
+                    />
+                  </div>
+                  {profile.config.tradingCosts?.enabled && (
+                    <div>
+                      <label className="text-[10px] text-slate-500 uppercase font-bold" title={t('assetSlippageHint')}>{t('assetSlippage')}</label>
+                      <input
+                        type="number" step="1" min="0"
+                        value={asset.slippageBps ?? 0}
+                        onChange={(e) => updateAsset(profile, idx, { slippageBps: Number(e.target.value) })}
+                        className="w-full px-2 py-1.5 border border-slate-300 rounded-lg outline-none text-sm"
+                      />
+                    </div>
+                  )}
+                </div>
               </div>
-              <input
-                type="range" min="0" max="100"
-                value={profile.config.contributionQqqWeight}
-                onChange={(e) => {
-                  const val = Number(e.target.value);
-                  let updates: any = { contributionQqqWeight: val };
-                  if (val + profile.config.contributionQldWeight > 100) updates.contributionQldWeight = Math.max(0, 100 - val);
-                  updateProfile(profile.id, updates);
-                }}
-                className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
-              />
-            </div>
+            ))}
 
-            <div>
-              <div className="flex justify-between text-xs mb-1">
-                <span>DCA (QLD)</span>
-                <span className="font-bold">{profile.config.contributionQldWeight}%</span>
-              </div>
-              <input
-                type="range" min="0" max="100"
-                value={profile.config.contributionQldWeight}
-                onChange={(e) => {
-                  const val = Number(e.target.value);
-                  let updates: any = { contributionQldWeight: val };
-                  if (val + profile.config.contributionQqqWeight > 100) updates.contributionQqqWeight = Math.max(0, 100 - val);
-                  updateProfile(profile.id, updates);
-                }}
-                className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-purple-600"
-              />
-            </div>
-            <div className="text-xs text-center text-slate-400">
-              {t('dcaCash')}: {contribCashWeight.toFixed(1)}%
+            {availableTickers.some(tk => !assets.some(a => a.ticker === tk)) && (
+              <button
+                onClick={() => addAsset(profile)}
+                className="w-full py-2 border border-dashed border-slate-300 rounded-lg text-slate-500 text-xs font-semibold flex items-center justify-center gap-1 hover:border-blue-400 hover:text-blue-500 transition-colors"
+              >
+                <Plus className="w-3.5 h-3.5" /> {t('addAsset')}
+              </button>
+            )}
+
+            <div className="flex justify-between text-xs text-slate-400 px-1">
+              <span className={targetTotal > 100 ? 'text-red-600 font-bold' : ''}>{t('cash')}: {cashWeight.toFixed(1)}%</span>
+              <span className={contribTotal > 100 ? 'text-red-600 font-bold' : ''}>
+                <Coins className="w-3 h-3 inline mr-1" />{t('dcaCash')}: {contribCashWeight.toFixed(1)}%
+              </span>
             </div>
+            {(targetTotal > 100 || contribTotal > 100) && (
+              <p className="text-[10px] text-red-600 leading-tight">{t('allocationOver100')}</p>
+            )}
           </div>
 
           {/* Stock Pledge / Leverage */}
@@ -422,13 +1230,36 @@ export const ConfigPanel: React.FC<ConfigPanelProps> = ({ profiles, onProfilesCh
                 <div className="grid grid-cols-1 gap-3">
                   <div>
                     <label className="text-[10px] text-yellow-700 uppercase font-bold">{t('loanRate')}</label>
-                    <input
-                      type="number"
-                      step="0.1"
-                      value={profile.config.leverage.interestRate}
-                      onChange={(e) => updateLeverage(profile.id, { interestRate: Number(e.target.value) })}
-                      className="w-full px-2 py-2 border border-yellow-200 rounded-lg outline-none"
-                    />
+                    <div className="flex gap-2">
+                      <select
+                        value={profile.config.leverage.interestRateBasis || 'FIXED'}
+                        onChange={(e) => updateLeverage(profile.id, { interestRateBasis: e.target.value as AssetConfig['leverage']['interestRateBasis'] })}
+                        className="bg-white border border-yellow-200 rounded-lg px-2 text-sm outline-none w-32"
+                      >
+                        <option value="FIXED">{t('rateFixed')}</option>
+                        <option value="BENCHMARK">{t('rateBenchmarkPlus')}</option>
+                      </select>
+                      {profile.config.leverage.interestRateBasis === 'BENCHMARK' ? (
+                        <input
+                          type="number"
+                          step="0.1"
+                          value={profile.config.leverage.interestSpread ?? 0}
+                          onChange={(e) => updateLeverage(profile.id, { interestSpread: Number(e.target.value) })}
+                          className="w-full px-2 py-2 border border-yellow-200 rounded-lg outline-none"
+                        />
+                      ) : (
+                        <input
+                          type="number"
+                          step="0.1"
+                          value={profile.config.leverage.interestRate}
+                          onChange={(e) => updateLeverage(profile.id, { interestRate: Number(e.target.value) })}
+                          className="w-full px-2 py-2 border border-yellow-200 rounded-lg outline-none"
+                        />
+                      )}
+                    </div>
+                    {profile.config.leverage.interestRateBasis === 'BENCHMARK' && (
+                      <p className="text-[10px] text-yellow-600 mt-1 leading-tight">{t('benchmarkFallbackHint')}</p>
+                    )}
                   </div>
 
                   <div className="bg-white p-3 rounded-lg border border-yellow-200">
@@ -482,20 +1313,9 @@ export const ConfigPanel: React.FC<ConfigPanelProps> = ({ profiles, onProfilesCh
                    </div>
                 </div>
 
-                {/* Row 2: Pledge Ratios */}
+                {/* Row 2: Pledge Ratios (per-asset ratios are set in the allocation list) */}
                 <div className="grid grid-cols-2 gap-3 bg-yellow-100/50 p-2 rounded-lg">
-                  <div>
-                    <label className="text-[10px] text-yellow-800 uppercase font-bold">{t('pledgeRatioQQQ')}</label>
-                    <input
-                      type="number"
-                      step="0.05"
-                      min="0" max="1"
-                      value={profile.config.leverage.qqqPledgeRatio ?? 0.7}
-                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateLeverage(profile.id, { qqqPledgeRatio: Number(e.target.value) })}
-                      className="w-full px-2 py-1.5 border border-yellow-200 rounded outline-none text-sm"
-                    />
-                  </div>
-                  <div>
+                  <div className="col-span-2">
                     <label className="text-[10px] text-yellow-800 uppercase font-bold">{t('pledgeRatioCash')}</label>
                     <input
                       type="number"
@@ -506,17 +1326,6 @@ export const ConfigPanel: React.FC<ConfigPanelProps> = ({ profiles, onProfilesCh
                       className="w-full px-2 py-1.5 border border-yellow-200 rounded outline-none text-sm"
                     />
                   </div>
-                  <div className="col-span-2">
-                    <label className="text-[10px] text-yellow-800 uppercase font-bold">{t('pledgeRatioQLD')}</label>
-                    <input
-                      type="number"
-                      step="0.05"
-                      min="0" max="1"
-                      value={profile.config.leverage.qldPledgeRatio ?? 0.0}
-                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateLeverage(profile.id, { qldPledgeRatio: Number(e.target.value) })}
-                      className="w-full px-2 py-1.5 border border-yellow-200 rounded outline-none text-sm text-yellow-900 bg-white focus:bg-white"
-                    />
-                  </div>
                 </div>
 
                 {/* Row 2.5: Interest Payment Type */}
@@ -563,6 +1372,7 @@ export const ConfigPanel: React.FC<ConfigPanelProps> = ({ profiles, onProfilesCh
                         onChange={(e) => updateLeverage(profile.id, { inflationRate: Number(e.target.value) })}
                         className="w-full px-2 py-2 border border-yellow-200 rounded-lg outline-none"
                       />
+                      <p className="text-[10px] text-yellow-600 mt-1 leading-tight">{t('inflationFallbackHint')}</p>
                     </div>
                   )}
                   <p className="text-[10px] text-yellow-600 mt-2 italic leading-tight">
@@ -573,6 +1383,149 @@ export const ConfigPanel: React.FC<ConfigPanelProps> = ({ profiles, onProfilesCh
             )}
           </div>
 
+          {/* Trading Costs */}
+          <div className="p-4 bg-slate-50 rounded-xl border border-slate-200 space-y-4">
+            <div className="flex items-center justify-between text-sm font-medium text-slate-700">
+              <div className="flex items-center gap-2">
+                <ArrowRightLeft className="w-4 h-4" /> {t('tradingCosts')}
+              </div>
+              <label className="relative inline-flex items-center cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={profile.config.tradingCosts?.enabled || false}
+                  onChange={(e) => updateTradingCosts(profile.id, { enabled: e.target.checked })}
+                  className="sr-only peer"
+                />
+                <div className="w-9 h-5 bg-slate-200 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-4 after:w-4 after:transition-all peer-checked:bg-slate-600"></div>
+              </label>
+            </div>
+
+            {profile.config.tradingCosts?.enabled && (
+              <div className="space-y-3 animate-in slide-in-from-top-2 duration-200">
+                <div className="grid grid-cols-3 gap-2">
+                  <div>
+                    <label className="text-[10px] text-slate-500 uppercase font-bold">{t('commissionFixed')}</label>
+                    <input
+                      type="number"
+                      step="0.1"
+                      min="0"
+                      value={profile.config.tradingCosts.commissionFixed}
+                      onChange={(e) => updateTradingCosts(profile.id, { commissionFixed: Number(e.target.value) })}
+                      className="w-full px-2 py-1.5 border border-slate-300 rounded-lg outline-none text-sm"
+                    />
+                  </div>
+                  <div>
+                    <label className="text-[10px] text-slate-500 uppercase font-bold">{t('commissionPerShare')}</label>
+                    <input
+                      type="number"
+                      step="0.001"
+                      min="0"
+                      value={profile.config.tradingCosts.commissionPerShare}
+                      onChange={(e) => updateTradingCosts(profile.id, { commissionPerShare: Number(e.target.value) })}
+                      className="w-full px-2 py-1.5 border border-slate-300 rounded-lg outline-none text-sm"
+                    />
+                  </div>
+                  <div>
+                    <label className="text-[10px] text-slate-500 uppercase font-bold">{t('minCommission')}</label>
+                    <input
+                      type="number"
+                      step="0.1"
+                      min="0"
+                      value={profile.config.tradingCosts.minCommission}
+                      onChange={(e) => updateTradingCosts(profile.id, { minCommission: Number(e.target.value) })}
+                      className="w-full px-2 py-1.5 border border-slate-300 rounded-lg outline-none text-sm"
+                    />
+                  </div>
+                </div>
+                <p className="text-[10px] text-slate-400 leading-tight">{t('tradingCostsNote')}</p>
+              </div>
+            )}
+          </div>
+
+          {/* Capital Gains Tax */}
+          <div className="p-4 bg-amber-50 rounded-xl border border-amber-100 space-y-4">
+            <div className="flex items-center justify-between text-sm font-medium text-amber-800">
+              <div className="flex items-center gap-2">
+                <Receipt className="w-4 h-4" /> {t('capitalGainsTax')}
+              </div>
+              <label className="relative inline-flex items-center cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={profile.config.tax?.enabled || false}
+                  onChange={(e) => updateTax(profile.id, { enabled: e.target.checked })}
+                  className="sr-only peer"
+                />
+                <div className="w-9 h-5 bg-slate-200 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-4 after:w-4 after:transition-all peer-checked:bg-amber-600"></div>
+              </label>
+            </div>
+
+            {profile.config.tax?.enabled && (
+              <div className="space-y-3 animate-in slide-in-from-top-2 duration-200">
+                <div className="grid grid-cols-3 gap-2">
+                  <div>
+                    <label className="text-[10px] text-amber-700 uppercase font-bold">{t('shortTermRate')}</label>
+                    <input
+                      type="number"
+                      step="0.5"
+                      min="0" max="100"
+                      value={profile.config.tax.shortTermRate}
+                      onChange={(e) => updateTax(profile.id, { shortTermRate: Number(e.target.value) })}
+                      className="w-full px-2 py-1.5 border border-amber-200 rounded-lg outline-none text-sm"
+                    />
+                  </div>
+                  <div>
+                    <label className="text-[10px] text-amber-700 uppercase font-bold">{t('longTermRate')}</label>
+                    <input
+                      type="number"
+                      step="0.5"
+                      min="0" max="100"
+                      value={profile.config.tax.longTermRate}
+                      onChange={(e) => updateTax(profile.id, { longTermRate: Number(e.target.value) })}
+                      className="w-full px-2 py-1.5 border border-amber-200 rounded-lg outline-none text-sm"
+                    />
+                  </div>
+                  <div>
+                    <label className="text-[10px] text-amber-700 uppercase font-bold">{t('holdingPeriod')}</label>
+                    <input
+                      type="number"
+                      min="0"
+                      value={profile.config.tax.holdingPeriodMonths}
+                      onChange={(e) => updateTax(profile.id, { holdingPeriodMonths: Number(e.target.value) })}
+                      className="w-full px-2 py-1.5 border border-amber-200 rounded-lg outline-none text-sm"
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="text-[10px] text-amber-700 uppercase font-bold">{t('lotSelection')}</label>
+                    <select
+                      value={profile.config.tax.lotSelection}
+                      onChange={(e) => updateTax(profile.id, { lotSelection: e.target.value as TaxConfig['lotSelection'] })}
+                      className="w-full bg-white border border-amber-200 rounded-lg px-2 py-1.5 text-sm outline-none"
+                    >
+                      <option value="FIFO">{t('lotFifo')}</option>
+                      <option value="LIFO">{t('lotLifo')}</option>
+                      <option value="HIFO">{t('lotHifo')}</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="text-[10px] text-amber-700 uppercase font-bold">{t('taxPayment')}</label>
+                    <select
+                      value={profile.config.tax.paymentMode}
+                      onChange={(e) => updateTax(profile.id, { paymentMode: e.target.value as TaxConfig['paymentMode'] })}
+                      className="w-full bg-white border border-amber-200 rounded-lg px-2 py-1.5 text-sm outline-none"
+                    >
+                      <option value="CASH">{t('taxPayFromCash')}</option>
+                      <option value="SELL">{t('taxPayBySelling')}</option>
+                    </select>
+                  </div>
+                </div>
+                <p className="text-[10px] text-amber-600 leading-tight">{t('taxNote')}</p>
+              </div>
+            )}
+          </div>
+
           <button
             onClick={() => setEditingProfileId(null)}
             className="w-full py-2 bg-slate-800 text-white rounded-lg flex items-center justify-center gap-2 hover:bg-slate-900 mt-4"
@@ -632,15 +1585,27 @@ export const ConfigPanel: React.FC<ConfigPanelProps> = ({ profiles, onProfilesCh
               </div>
             </div>
 
-            <div className="text-xs text-slate-500 mb-3">
+            <div className="text-xs text-slate-500 mb-3 flex items-center gap-2 flex-wrap">
               {getStrategyLabel(profile.strategyType)}
+              {profile.dateRange && (profile.dateRange.start || profile.dateRange.end) && (
+                <span className="flex items-center gap-1 text-[10px] font-mono bg-slate-100 text-slate-600 px-1.5 py-0.5 rounded">
+                  <CalendarRange className="w-3 h-3" />
+                  {profile.dateRange.start || dataBounds?.start} ~ {profile.dateRange.end || dataBounds?.end}
+                </span>
+              )}
             </div>
 
             <div className="flex flex-col gap-1">
-              <div className="flex gap-2 text-[10px] font-mono text-slate-600 items-center">
+              <div className="flex flex-wrap gap-2 text-[10px] font-mono text-slate-600 items-center">
                 <span className="text-slate-400 w-8">Init:</span>
-                <span className="px-2 py-0.5 bg-blue-100 text-blue-700 rounded">Q:{profile.config.qqqWeight}</span>
-                <span className="px-2 py-0.5 bg-purple-100 text-purple-700 rounded">2x:{profile.config.qldWeight}</span>
+                {getPortfolioAssets(profile.config).map(asset => (
+                  <span
+                    key={asset.ticker}
+                    className={`px-2 py-0.5 rounded ${asset.beta > 1 ? 'bg-purple-100 text-purple-700' : 'bg-blue-100 text-blue-700'}`}
+                  >
+                    {asset.ticker}:{asset.weight}
+                  </span>
+                ))}
               </div>
               {profile.config.leverage?.enabled && (
                 <div className="flex gap-2 text-[10px] font-mono text-yellow-700 items-center mt-1">
@@ -685,9 +1650,36 @@ export const ConfigPanel: React.FC<ConfigPanelProps> = ({ profiles, onProfilesCh
           </div>
         </div>
 
+        {/* Global Backtest Period */}
+        <div className="p-4 bg-white rounded-xl border border-slate-200 space-y-3 shadow-sm">
+          <div className="flex items-center justify-between text-sm font-medium text-slate-700">
+            <div className="flex items-center gap-2">
+              <CalendarRange className="w-4 h-4 text-blue-600" /> {t('backtestPeriod')}
+            </div>
+            {(dateRange.start || dateRange.end) && (
+              <button
+                onClick={() => onDateRangeChange({})}
+                className="p-1 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded transition-colors"
+                title={t('fullPeriod')}
+              >
+                <X className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+          <DateRangeInputs
+            range={dateRange}
+            bounds={dataBounds}
+            onChange={onDateRangeChange}
+            startLabel={t('periodStart')}
+            endLabel={t('periodEnd')}
+          />
+        </div>
+
         <button
           onClick={onRun}
-          className="w-full bg-blue-600 hover:bg-blue-700 text-white font-bold py-3 px-4 rounded-lg shadow-md transition-all active:scale-95 flex items-center justify-center gap-2 mt-2"
+          disabled={!canRun}
+          title={canRun ? undefined : t('runBlockedByData')}
+          className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-slate-300 disabled:cursor-not-allowed disabled:active:scale-100 text-white font-bold py-3 px-4 rounded-lg shadow-md transition-all active:scale-95 flex items-center justify-center gap-2 mt-2"
         >
           {t('runComparison')}
         </button>
@@ -0,0 +1,52 @@
+import React from 'react';
+import { ShieldCheck, ShieldAlert, AlertOctagon, AlertTriangle, Info } from 'lucide-react';
+import { useTranslation } from '../services/i18n';
+import { DataQualityReport, DiagnosticSeverity } from '../services/marketDataValidator';
+
+interface DataQualityPanelProps {
+  report: DataQualityReport;
+}
+
+const SEVERITY_STYLES: Record<DiagnosticSeverity, { icon: React.ReactNode; className: string }> = {
+  FATAL: { icon: <AlertOctagon className="w-3 h-3 flex-shrink-0 mt-0.5" />, className: 'text-red-700' },
+  WARNING: { icon: <AlertTriangle className="w-3 h-3 flex-shrink-0 mt-0.5" />, className: 'text-yellow-800' },
+  INFO: { icon: <Info className="w-3 h-3 flex-shrink-0 mt-0.5" />, className: 'text-slate-500' }
+};
+
+export const DataQualityPanel: React.FC<DataQualityPanelProps> = ({ report }) => {
+  const { t } = useTranslation();
+  const infoCount = report.diagnostics.filter(d => d.severity === 'INFO').length;
+
+  const status = !report.isValid
+    ? { icon: <ShieldAlert className="w-4 h-4 text-red-600" />, label: t('dataQualityFatal'), className: 'bg-red-50 border-red-200' }
+    : report.warningCount > 0
+      ? { icon: <ShieldAlert className="w-4 h-4 text-yellow-600" />, label: t('dataQualityWarnings'), className: 'bg-yellow-50 border-yellow-200' }
+      : { icon: <ShieldCheck className="w-4 h-4 text-green-600" />, label: t('dataQualityOk'), className: 'bg-white border-slate-200' };
+
+  return (
+    <details className={`rounded-xl border shadow-sm text-xs ${status.className}`} open={!report.isValid}>
+      <summary className="p-3 cursor-pointer flex items-center justify-between gap-2 font-medium text-slate-700">
+        <span className="flex items-center gap-2">{status.icon} {t('dataQuality')}: {status.label}</span>
+        <span className="font-mono text-[10px] text-slate-400">
+          {report.fatalCount}F / {report.warningCount}W / {infoCount}I
+        </span>
+      </summary>
+
+      <div className="px-3 pb-3 space-y-2">
+        {!report.isValid && <p className="text-red-700 font-semibold">{t('runBlockedByData')}</p>}
+        {report.diagnostics.length === 0 ? (
+          <p className="text-slate-400 italic">{t('dataQualityNoIssues')}</p>
+        ) : (
+          <ul className="space-y-1 max-h-48 overflow-y-auto">
+            {report.diagnostics.map((d, idx) => (
+              <li key={idx} className={`flex items-start gap-1.5 ${SEVERITY_STYLES[d.severity].className}`}>
+                {SEVERITY_STYLES[d.severity].icon}
+                <span>{d.message}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </details>
+  );
+};
@@ -1,29 +1,38 @@
 
 import React, { useState } from 'react';
-import { SimulationResult } from '../types';
-import { MARKET_DATA } from '../constants';
+import { MarketDataRow, SimulationResult } from '../types';
 import { useTranslation } from '../services/i18n';
+import { getAssetPrice } from '../services/assetUniverse';
+import { formatMoney } from '../services/currency';
 import { X, FileText, PieChart } from 'lucide-react';
 
 interface FinancialReportModalProps {
   result: SimulationResult;
+  marketData: MarketDataRow[];
   onClose: () => void;
 }
 
-export const FinancialReportModal: React.FC<FinancialReportModalProps> = ({ result, onClose }) => {
+export const FinancialReportModal: React.FC<FinancialReportModalProps> = ({ result, marketData, onClose }) => {
   const { t } = useTranslation();
   const [activeTab, setActiveTab] = useState<'JOURNAL' | 'BALANCE'>('BALANCE');
 
   // Helper to format currency
-  const fmt = (num: number) => `$${num.toLocaleString(undefined, { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
-  const fmtDec = (num: number) => `$${num.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+  const fmt = (num: number) => formatMoney(num, result.currency);
+  const fmtDec = (num: number) => formatMoney(num, result.currency, 2);
 
-  // Filter history for Balance Sheet (Every 6 months: June & Dec)
-  const balanceSheetHistory = result.history.filter((_, idx) => {
-    const month = parseInt(result.history[idx].date.substring(5, 7));
-    return month === 6 || month === 12 || idx === result.history.length - 1;
+  // Filter history for Balance Sheet (Every 6 months: June & Dec, last trading day of the month for daily runs)
+  const balanceSheetHistory = result.history.filter((state, idx) => {
+    const month = parseInt(state.date.substring(5, 7));
+    const next = result.history[idx + 1];
+    const isMonthEnd = !next || next.date.substring(0, 7) !== state.date.substring(0, 7);
+    return ((month === 6 || month === 12) && isMonthEnd) || idx === result.history.length - 1;
   });
 
+  // Daily runs produce a row per trading day; the journal only lists days with activity
+  const journalHistory = result.frequency === 'DAILY'
+    ? result.history.filter(state => state.events && state.events.length > 0)
+    : result.history;
+
   return (
     <div className="fixed inset-0 z-[100] bg-slate-900/50 backdrop-blur-sm flex items-center justify-center p-4">
       <div className="bg-white w-full max-w-5xl h-[90vh] rounded-2xl shadow-2xl flex flex-col overflow-hidden animate-in zoom-in-95 duration-200">
@@ -64,9 +73,11 @@ export const FinancialReportModal: React.FC<FinancialReportModalProps> = ({ resu
            {activeTab === 'BALANCE' && (
               <div className="space-y-6">
                  {balanceSheetHistory.map((state) => {
-                    const qqqVal = state.shares.QQQ * (MARKET_DATA.find(m => m.date === state.date)?.qqq || 0);
-                    const qldVal = state.shares.QLD * (MARKET_DATA.find(m => m.date === state.date)?.qld || 0);
-                    const totalAssets = qqqVal + qldVal + state.cashBalance;
+                    const row = marketData.find(m => m.date === state.date);
+                    const holdings = Object.entries(state.shares)
+                       .filter(([, count]) => count > 0)
+                       .map(([ticker, count]) => ({ ticker, count, value: row ? count * getAssetPrice(row, ticker) : 0 }));
+                    const totalAssets = holdings.reduce((sum, h) => sum + h.value, 0) + state.cashBalance;
                     
                     return (
                        <div key={state.date} className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
@@ -81,14 +92,12 @@ export const FinancialReportModal: React.FC<FinancialReportModalProps> = ({ resu
                              <div className="p-4">
                                 <h4 className="text-xs font-bold text-slate-400 uppercase mb-3 border-b pb-1">{t('assets')}</h4>
                                 <div className="space-y-2 text-sm">
-                                   <div className="flex justify-between">
-                                      <span className="text-slate-600">QQQ ({state.shares.QQQ.toFixed(1)} {t('shares')})</span>
-                                      <span className="font-mono font-medium">{fmt(qqqVal)}</span>
-                                   </div>
-                                   <div className="flex justify-between">
-                                      <span className="text-slate-600">QLD ({state.shares.QLD.toFixed(1)} {t('shares')})</span>
-                                      <span className="font-mono font-medium">{fmt(qldVal)}</span>
-                                   </div>
+                                   {holdings.map(h => (
+                                      <div key={h.ticker} className="flex justify-between">
+                                         <span className="text-slate-600">{h.ticker} ({h.count.toFixed(1)} {t('shares')})</span>
+                                         <span className="font-mono font-medium">{fmt(h.value)}</span>
+                                      </div>
+                                   ))}
                                    <div className="flex justify-between">
                                       <span className="text-slate-600">{t('cash')}</span>
                                       <span className="font-mono font-medium text-green-600">{fmt(state.cashBalance)}</span>
@@ -108,6 +117,12 @@ export const FinancialReportModal: React.FC<FinancialReportModalProps> = ({ resu
                                       <span className="text-slate-600">{t('totalDebt')}</span>
                                       <span className="font-mono font-medium text-red-600">{fmt(state.debtBalance)}</span>
                                    </div>
+                                   {(state.taxLiability ?? 0) > 0 && (
+                                      <div className="flex justify-between">
+                                         <span className="text-slate-600">{t('taxLiability')}</span>
+                                         <span className="font-mono font-medium text-amber-600">{fmt(state.taxLiability!)}</span>
+                                      </div>
+                                   )}
                                    
                                    <div className="mt-auto pt-4">
                                       <div className="flex justify-between items-end p-3 bg-blue-50 rounded-lg border border-blue-100">
@@ -136,7 +151,7 @@ export const FinancialReportModal: React.FC<FinancialReportModalProps> = ({ resu
                        </tr>
                     </thead>
                     <tbody className="divide-y divide-slate-100">
-                       {result.history.map((state, idx) => (
+                       {journalHistory.map((state, idx) => (
                           <tr key={idx} className="hover:bg-slate-50/80">
                              <td className="px-4 py-3 font-mono text-slate-600 align-top">{state.date}</td>
                              <td className="px-4 py-3 text-right font-mono text-green-700 align-top">{fmt(state.cashBalance)}</td>
@@ -152,10 +167,15 @@ export const FinancialReportModal: React.FC<FinancialReportModalProps> = ({ resu
                                             {evt.type === 'DEBT_INC' && <span className="bg-red-100 text-red-700 px-1.5 rounded font-bold text-[10px] min-w-[40px] text-center">DEBT</span>}
                                             {evt.type === 'DEPOSIT' && <span className="bg-blue-100 text-blue-700 px-1.5 rounded font-bold text-[10px] min-w-[40px] text-center">DEP</span>}
                                             {evt.type === 'WITHDRAW' && <span className="bg-purple-100 text-purple-700 px-1.5 rounded font-bold text-[10px] min-w-[40px] text-center">W/D</span>}
+                                            {evt.type === 'TAX' && <span className="bg-amber-100 text-amber-700 px-1.5 rounded font-bold text-[10px] min-w-[40px] text-center">TAX</span>}
+                                            {evt.type === 'FEE' && <span className="bg-slate-200 text-slate-700 px-1.5 rounded font-bold text-[10px] min-w-[40px] text-center">FEE</span>}
+                                            {evt.type === 'REBALANCE' && <span className="bg-indigo-100 text-indigo-700 px-1.5 rounded font-bold text-[10px] min-w-[40px] text-center">REBAL</span>}
+                                            {evt.type === 'SIGNAL' && <span className="bg-teal-100 text-teal-700 px-1.5 rounded font-bold text-[10px] min-w-[40px] text-center">SIGNAL</span>}
                                             {evt.type === 'INFO' && <span className="bg-red-600 text-white px-1.5 rounded font-bold text-[10px] min-w-[40px] text-center">ALERT</span>}
                                             
                                             <span className="text-slate-700">
                                                {evt.description} 
+                                               {evt.reason && <span className="italic text-slate-500 ml-1">({evt.reason})</span>}
                                                {evt.amount !== undefined && Math.abs(evt.amount) > 0.01 && (
                                                   <span className={`font-mono ml-1 font-bold ${evt.amount > 0 ? 'text-green-600' : 'text-red-500'}`}>
                                                      {evt.amount > 0 ? '+' : ''}{fmtDec(evt.amount)}
@@ -0,0 +1,306 @@
+import React, { useState } from 'react';
+import { MarketDataRow, MarketDataSource } from '../types';
+import { Database, Upload, RotateCcw, AlertOctagon, Info, FlaskConical } from 'lucide-react';
+import { useTranslation } from '../services/i18n';
+import { BENCHMARK_RATE_SERIES, buildMarketData, CPI_SERIES, findSeries, importPriceFiles, PriceFile } from '../services/marketDataImport';
+import { parseFxSeriesName } from '../services/currency';
+import { DEFAULT_SYNTHETIC_PARAMS, SyntheticSeriesParams, spliceSyntheticSeries } from '../services/syntheticSeries';
+
+interface MarketDataPanelProps {
+  source: MarketDataSource;
+  marketData: MarketDataRow[];
+  onSourceChange: (source: MarketDataSource) => void;
+  onReset: () => void;
+}
+
+const readFileAsText = (file: File): Promise<PriceFile> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = (event) => resolve({ name: file.name, content: event.target?.result as string });
+  reader.onerror = () => reject(reader.error);
+  reader.readAsText(file);
+});
+
+export const MarketDataPanel: React.FC<MarketDataPanelProps> = ({ source, marketData, onSourceChange, onReset }) => {
+  const { t } = useTranslation();
+  const [errors, setErrors] = useState<string[]>([]);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [syntheticTicker, setSyntheticTicker] = useState('QLD');
+  const [syntheticParams, setSyntheticParams] = useState<SyntheticSeriesParams>(DEFAULT_SYNTHETIC_PARAMS);
+  const [spliceMonth, setSpliceMonth] = useState(''); // YYYY-MM, empty = first real month
+  const [importDaily, setImportDaily] = useState(false);
+  const isDaily = source.frequency === 'DAILY';
+
+  const firstDate = marketData[0]?.date.substring(0, 7) ?? '-';
+  const lastDate = marketData[marketData.length - 1]?.date.substring(0, 7) ?? '-';
+  const cpiRows = marketData.filter(row => (row.cpi ?? 0) > 0);
+  const rateRows = marketData.filter(row => row.benchmarkRate !== undefined);
+  const fxCurrencies = Object.keys(source.series).map(parseFxSeriesName).filter((c): c is string => c !== null);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    // Reset input so the same files can be selected again
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    try {
+      const contents = await Promise.all(files.map(readFileAsText));
+      const frequency = importDaily ? 'DAILY' : 'MONTHLY';
+      const imported = importPriceFiles(contents, frequency);
+      const built = buildMarketData(imported.series);
+      const nextWarnings = [...imported.warnings];
+
+      if (imported.errors.length === 0 && built.data.length < 2) {
+        imported.errors.push('Fewer than 2 dates with prices');
+      }
+
+      setErrors(imported.errors);
+      setWarnings(nextWarnings);
+
+      // Only switch datasets when every file parsed cleanly
+      if (imported.errors.length === 0) {
+        onSourceChange({
+          name: files.map(f => f.name).join(', '),
+          isBuiltIn: false,
+          series: imported.series,
+          frequency
+        });
+      }
+    } catch (err) {
+      console.error('Market data import failed:', err);
+      setErrors([String(err)]);
+      setWarnings([]);
+    }
+  };
+
+  const handleApplySynthetic = () => {
+    const ticker = syntheticTicker.trim().toUpperCase();
+    const base = findSeries(source.series, 'QQQ');
+    if (!ticker || ticker === 'QQQ' || !base) return;
+
+    const actual = findSeries(source.series, ticker) || [];
+    // Default to the already-known start of real prices (e.g. QLD inception for the built-in data);
+    // on daily data the splice is the first trading day of the chosen month
+    const spliceDate = spliceMonth
+      ? actual.find(p => p.date >= `${spliceMonth}-01`)?.date ?? `${spliceMonth}-01`
+      : source.syntheticBefore?.[ticker];
+
+    const spliced = spliceSyntheticSeries(
+      base,
+      actual,
+      { ...syntheticParams, periodsPerYear: isDaily ? 252 : 12 },
+      spliceDate
+    );
+    setErrors(spliced.errors);
+    setWarnings(spliced.errors.length === 0 && spliced.syntheticDates.length === 0
+      ? [`No months before ${spliced.spliceDate} to reconstruct for ${ticker}`]
+      : []);
+    if (spliced.errors.length > 0 || spliced.syntheticDates.length === 0) return;
+
+    // Replace any existing key for the ticker (the built-in dataset uses lowercase keys)
+    const series = Object.fromEntries(
+      Object.entries(source.series).filter(([key]) => key.toUpperCase() !== ticker)
+    );
+    series[ticker] = spliced.series;
+
+    onSourceChange({
+      name: `${source.isBuiltIn ? t('builtInData') : source.name} + synthetic ${ticker}`,
+      isBuiltIn: false,
+      series,
+      frequency: source.frequency,
+      syntheticBefore: {
+        ...source.syntheticBefore,
+        [ticker]: spliced.spliceDate ?? '9999-12-31'
+      }
+    });
+  };
+
+  const updateSyntheticParam = (key: keyof SyntheticSeriesParams, value: string) => {
+    setSyntheticParams(prev => ({ ...prev, [key]: Number(value) }));
+  };
+
+  const handleReset = () => {
+    setErrors([]);
+    setWarnings([]);
+    onReset();
+  };
+
+  return (
+    <div className="p-4 bg-white rounded-xl border border-slate-200 space-y-3 shadow-sm">
+      <div className="flex items-center justify-between text-sm font-medium text-slate-700">
+        <div className="flex items-center gap-2">
+          <Database className="w-4 h-4 text-blue-600" /> {t('marketData')}
+        </div>
+        {!source.isBuiltIn && (
+          <button
+            onClick={handleReset}
+            className="p-1 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded transition-colors"
+            title={t('resetBuiltInData')}
+          >
+            <RotateCcw className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      <div className="text-xs text-slate-500 space-y-1">
+        <div className="flex justify-between gap-2">
+          <span className="text-slate-400">{t('dataSource')}</span>
+          <span className="font-medium text-slate-700 truncate" title={source.name}>
+            {source.isBuiltIn ? t('builtInData') : source.name}
+          </span>
+        </div>
+        <div className="flex justify-between gap-2">
+          <span className="text-slate-400">{t('dataRange')}</span>
+          <span className="font-mono text-slate-700">{firstDate} - {lastDate} ({marketData.length} {t(isDaily ? 'dataDays' : 'dataMonths')})</span>
+        </div>
+        <div className="flex justify-between gap-2">
+          <span className="text-slate-400">{t('dataTickers')}</span>
+          <span className="font-mono text-slate-700">{Object.keys(source.series).map(k => k.toUpperCase()).filter(k => k !== CPI_SERIES && k !== BENCHMARK_RATE_SERIES && !parseFxSeriesName(k)).join(', ')}</span>
+        </div>
+        <div className="flex justify-between gap-2">
+          <span className="text-slate-400">{t('cpiSeries')}</span>
+          <span className="font-mono text-slate-700">
+            {cpiRows.length > 0
+              ? `${cpiRows[0].date.substring(0, 7)} - ${cpiRows[cpiRows.length - 1].date.substring(0, 7)}`
+              : t('cpiNone')}
+          </span>
+        </div>
+        <div className="flex justify-between gap-2">
+          <span className="text-slate-400">{t('benchmarkRateSeries')}</span>
+          <span className="font-mono text-slate-700">
+            {rateRows.length > 0
+              ? `${rateRows[0].date.substring(0, 7)} - ${rateRows[rateRows.length - 1].date.substring(0, 7)}`
+              : t('benchmarkRateNone')}
+          </span>
+        </div>
+        <div className="flex justify-between gap-2">
+          <span className="text-slate-400">{t('fxSeries')}</span>
+          <span className="font-mono text-slate-700">{fxCurrencies.length > 0 ? fxCurrencies.map(c => `USD/${c}`).join(', ') : t('fxNone')}</span>
+        </div>
+        {Object.entries(source.syntheticBefore || {}).map(([ticker, date]) => (
+          <div key={ticker} className="flex justify-between gap-2">
+            <span className="text-amber-600">{t('syntheticData')}</span>
+            <span className="font-mono text-amber-700">
+              {ticker} {date > lastDate ? t('syntheticAllMonths') : `< ${date.substring(0, 7)}`}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <div className="relative">
+        <input
+          type="file"
+          accept=".csv,.json"
+          multiple
+          onChange={handleImport}
+          className="absolute inset-0 opacity-0 cursor-pointer w-full"
+        />
+        <button
+          className="w-full py-2 px-3 border border-slate-200 rounded-lg text-slate-600 hover:bg-slate-100 transition-colors flex items-center justify-center gap-2 text-xs font-semibold"
+        >
+          <Upload className="w-3.5 h-3.5" />
+          {t('importMarketData')}
+        </button>
+      </div>
+      <label className="flex items-center gap-2 text-xs text-slate-600 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={importDaily}
+          onChange={(e) => setImportDaily(e.target.checked)}
+          className="rounded border-slate-300 text-blue-600"
+        />
+        {t('importDailyPrices')}
+      </label>
+      <p className="text-[10px] text-slate-400 leading-tight">{t('importFormatHint')}</p>
+      <p className="text-[10px] text-slate-400 leading-tight">{t('cpiImportHint')}</p>
+      <p className="text-[10px] text-slate-400 leading-tight">{t('benchmarkRateImportHint')}</p>
+      <p className="text-[10px] text-slate-400 leading-tight">{t('fxImportHint')}</p>
+
+      <details className="border border-slate-200 rounded-lg text-xs">
+        <summary className="px-3 py-2 cursor-pointer font-semibold text-slate-600 flex items-center gap-2">
+          <FlaskConical className="w-3.5 h-3.5 text-amber-600" /> {t('syntheticExtension')}
+        </summary>
+        <div className="p-3 pt-1 space-y-2">
+          <p className="text-[10px] text-slate-400 leading-tight">{t('syntheticHint')}</p>
+          <div className="grid grid-cols-2 gap-2">
+            <label className="space-y-1">
+              <span className="text-[10px] text-slate-500">{t('syntheticTicker')}</span>
+              <input
+                type="text"
+                value={syntheticTicker}
+                onChange={(e) => setSyntheticTicker(e.target.value.toUpperCase())}
+                className="w-full px-2 py-1 border border-slate-200 rounded font-mono"
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-[10px] text-slate-500">{t('syntheticLeverage')}</span>
+              <input
+                type="number"
+                step="0.5"
+                value={syntheticParams.leverage}
+                onChange={(e) => updateSyntheticParam('leverage', e.target.value)}
+                className="w-full px-2 py-1 border border-slate-200 rounded font-mono"
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-[10px] text-slate-500">{t('syntheticExpense')}</span>
+              <input
+                type="number"
+                step="0.05"
+                value={syntheticParams.expenseRatio}
+                onChange={(e) => updateSyntheticParam('expenseRatio', e.target.value)}
+                className="w-full px-2 py-1 border border-slate-200 rounded font-mono"
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-[10px] text-slate-500">{t('syntheticFinancing')}</span>
+              <input
+                type="number"
+                step="0.1"
+                value={syntheticParams.financingRate}
+                onChange={(e) => updateSyntheticParam('financingRate', e.target.value)}
+                className="w-full px-2 py-1 border border-slate-200 rounded font-mono"
+              />
+            </label>
+            <label className="space-y-1 col-span-2">
+              <span className="text-[10px] text-slate-500">{t('syntheticSpliceDate')}</span>
+              <input
+                type="month"
+                value={spliceMonth}
+                onChange={(e) => setSpliceMonth(e.target.value)}
+                className="w-full px-2 py-1 border border-slate-200 rounded font-mono"
+              />
+            </label>
+          </div>
+          <button
+            onClick={handleApplySynthetic}
+            className="w-full py-1.5 px-3 bg-amber-50 border border-amber-200 rounded-lg text-amber-700 hover:bg-amber-100 transition-colors font-semibold"
+          >
+            {t('applySynthetic')}
+          </button>
+        </div>
+      </details>
+
+      {errors.length > 0 && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-2 text-[11px] text-red-700 space-y-1">
+          <div className="flex items-center gap-1 font-bold">
+            <AlertOctagon className="w-3 h-3" /> {t('importErrors')}
+          </div>
+          <ul className="list-disc pl-4 max-h-32 overflow-y-auto">
+            {errors.map((msg, idx) => <li key={idx}>{msg}</li>)}
+          </ul>
+        </div>
+      )}
+
+      {warnings.length > 0 && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-2 text-[11px] text-yellow-800 space-y-1">
+          <div className="flex items-center gap-1 font-bold">
+            <Info className="w-3 h-3" /> {t('importWarnings')}
+          </div>
+          <ul className="list-disc pl-4 max-h-32 overflow-y-auto">
+            {warnings.map((msg, idx) => <li key={idx}>{msg}</li>)}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -2,13 +2,31 @@
 import React from 'react';
 import { createPortal } from 'react-dom';
 import { X, Calculator } from 'lucide-react';
-import { useTranslation } from '../services/i18n';
+import { useTranslation, MONTH_KEYS } from '../services/i18n';
+import { Profile } from '../types';
+import { getSmartConfig, SMART_CASH_RESERVE } from '../services/strategies';
 
 interface MathModelModalProps {
   onClose: () => void;
+  smartProfiles?: Profile[]; // Smart Adjust profiles whose rule is spelled out with their parameters
 }
 
-export const MathModelModal: React.FC<MathModelModalProps> = ({ onClose }) => {
+// The Smart Adjust rule of one profile with its own numbers
+const describeSmartRule = (profile: Profile, monthName: string): string => {
+  const smart = getSmartConfig(profile.config);
+  const asset = smart.harvestFrom ?? '-';
+  const reserve = smart.harvestInto === SMART_CASH_RESERVE ? 'Cash' : smart.harvestInto;
+  const dip = smart.dipTrigger === 'DRAWDOWN'
+    ? `Drawdown(${asset}) >= ${smart.drawdownTrigger}%`
+    : 'Profit <= 0';
+  return [
+    `Every ${monthName}: Profit = V(${asset}) - V(${asset}, start of year) - Contributions(${asset})`,
+    `If ${dip}: buy ${asset} = min(${smart.dipBuyPercent}% x Equity, ${reserve})`,
+    `Else if Profit > 0: sell ${asset} = min(${Number(smart.harvestFraction.toFixed(2))}% x Profit, ${smart.maxReservePercent}% x Equity - ${reserve}) -> ${reserve}`
+  ].join('\n');
+};
+
+export const MathModelModal: React.FC<MathModelModalProps> = ({ onClose, smartProfiles = [] }) => {
   const { t } = useTranslation();
 
   const MetricBlock = ({ title, expl, formula }: { title: string, expl: string, formula: string }) => (
@@ -18,7 +36,7 @@ export const MathModelModal: React.FC<MathModelModalProps> = ({ onClose }) => {
         {title}
       </h3>
       <p className="text-sm text-slate-600 leading-relaxed">{expl}</p>
-      <div className="bg-slate-900 text-slate-50 p-3 rounded-lg font-mono text-xs overflow-x-auto">
+      <div className="bg-slate-900 text-slate-50 p-3 rounded-lg font-mono text-xs overflow-x-auto whitespace-pre">
         {formula}
       </div>
     </div>
@@ -75,6 +93,21 @@ export const MathModelModal: React.FC<MathModelModalProps> = ({ onClose }) => {
             expl={t('math_pain_expl')}
             formula={t('math_pain_formula')}
           />
+
+          <MetricBlock
+            title={t('math_turnover')}
+            expl={t('math_turnover_expl')}
+            formula={t('math_turnover_formula')}
+          />
+
+          {smartProfiles.map(profile => (
+            <MetricBlock
+              key={profile.id}
+              title={`${t('math_smart')}: ${profile.name}`}
+              expl={t('math_smart_expl')}
+              formula={describeSmartRule(profile, t(MONTH_KEYS[getSmartConfig(profile.config).evaluationMonth - 1]))}
+            />
+          ))}
         </div>
 
         <div className="p-4 border-t border-slate-200 bg-slate-50 text-center">
@@ -0,0 +1,247 @@
+import React, { useState } from 'react';
+import { Dices, Play } from 'lucide-react';
+import { DistributionSummary, MarketDataRow, Profile } from '../types';
+import { useTranslation } from '../services/i18n';
+import { getStrategyByType } from '../services/strategies';
+import { METRIC_KEYS, MetricKey, MonteCarloResult, runMonteCarlo } from '../services/monteCarlo';
+import { formatMoney, getBaseCurrency } from '../services/currency';
+import { PercentileBandChart } from './PercentileBandChart';
+
+interface MonteCarloPanelProps {
+  profiles: Profile[];
+  getProfileData: (profile: Profile) => { data: MarketDataRow[]; error?: string };
+  canRun: boolean;
+}
+
+type ProfileMonteCarloResult = MonteCarloResult & { profileId: string; currency: string };
+
+const PATH_OPTIONS = [500, 1000, 2000, 5000];
+const HORIZON_OPTIONS = [0, 10, 20, 30]; // Years; 0 = same length as the history
+const BLOCK_OPTIONS = [1, 6, 12, 24];
+
+const METRIC_LABELS: Record<MetricKey, string> = {
+  finalBalance: 'col_balance',
+  cagr: 'col_cagr',
+  maxDrawdown: 'col_maxDD',
+  sharpeRatio: 'col_sharpe',
+  irr: 'col_irr',
+  realFinalBalance: 'realValue',
+  worstYearReturn: 'worstYear',
+  maxRecoveryMonths: 'maxRecoveryTime',
+  calmarRatio: 'col_calmar',
+  painIndex: 'col_pain',
+  inflationRate: 'inflationRate',
+  tradingCosts: 'col_tradingCosts',
+  rebalanceCount: 'col_rebalances',
+  turnover: 'col_turnover',
+  volatility: 'col_volatility'
+};
+
+const formatMetric = (key: MetricKey, val: number, currency: string) => {
+  switch (key) {
+    case 'finalBalance':
+    case 'realFinalBalance':
+    case 'tradingCosts':
+      return formatMoney(val, currency);
+    case 'cagr':
+    case 'maxDrawdown':
+    case 'irr':
+    case 'worstYearReturn':
+    case 'inflationRate':
+    case 'turnover':
+    case 'volatility':
+      return `${val.toFixed(2)}%`;
+    case 'maxRecoveryMonths':
+    case 'rebalanceCount':
+      return val.toFixed(0);
+    default:
+      return val.toFixed(2);
+  }
+};
+
+const SelectField: React.FC<{ label: string; value: number; options: { value: number; label: string }[]; onChange: (v: number) => void }> = ({ label, value, options, onChange }) => (
+  <label className="flex flex-col gap-1 text-xs font-medium text-slate-500">
+    {label}
+    <select
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="text-sm border border-slate-200 rounded-lg px-2 py-1.5 bg-white text-slate-700"
+    >
+      {options.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+    </select>
+  </label>
+);
+
+export const MonteCarloPanel: React.FC<MonteCarloPanelProps> = ({ profiles, getProfileData, canRun }) => {
+  const { t } = useTranslation();
+  const [pathCount, setPathCount] = useState(1000);
+  const [horizonYears, setHorizonYears] = useState(0);
+  const [blockLength, setBlockLength] = useState(12);
+  const [seed, setSeed] = useState(42);
+  const [results, setResults] = useState<ProfileMonteCarloResult[]>([]);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const handleRun = () => {
+    setIsRunning(true);
+    // Let the button render its busy state before the (synchronous) batch of backtests
+    setTimeout(() => {
+      const newResults: ProfileMonteCarloResult[] = [];
+      const newErrors: string[] = [];
+      profiles.forEach(profile => {
+        const { data, error } = getProfileData(profile);
+        if (error) {
+          newErrors.push(error);
+          return;
+        }
+        // Scripts only run in a worker, one backtest at a time
+        if (profile.strategyType === 'SCRIPT') {
+          newErrors.push(`${profile.name}: scripted strategies only run in the main backtest`);
+          return;
+        }
+        newResults.push({
+          ...runMonteCarlo(data, getStrategyByType(profile.strategyType), profile.config, profile.name, profile.color, {
+            pathCount,
+            seed,
+            blockLength,
+            horizonMonths: horizonYears > 0 ? horizonYears * 12 : undefined
+          }),
+          profileId: profile.id,
+          currency: getBaseCurrency(profile.config)
+        });
+      });
+      setResults(newResults);
+      setErrors(newErrors);
+      setSelectedId(prev => (newResults.some(r => r.profileId === prev) ? prev : newResults[0]?.profileId ?? null));
+      setIsRunning(false);
+    }, 0);
+  };
+
+  const selected = results.find(r => r.profileId === selectedId);
+  const summaryColumns: (keyof DistributionSummary)[] = ['p5', 'p25', 'p50', 'p75', 'p95', 'mean'];
+
+  return (
+    <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm space-y-6">
+      <div>
+        <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+          <Dices className="w-5 h-5 text-blue-600" /> {t('monteCarlo')}
+        </h3>
+        <p className="text-sm text-slate-500">{t('monteCarloDesc')}</p>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <SelectField
+          label={t('mcPaths')}
+          value={pathCount}
+          onChange={setPathCount}
+          options={PATH_OPTIONS.map(v => ({ value: v, label: v.toLocaleString() }))}
+        />
+        <SelectField
+          label={t('rollingHorizon')}
+          value={horizonYears}
+          onChange={setHorizonYears}
+          options={HORIZON_OPTIONS.map(v => ({ value: v, label: v === 0 ? t('mcHorizonHistory') : t('rollingYears').replace('{years}', String(v)) }))}
+        />
+        <SelectField
+          label={t('mcBlockLength')}
+          value={blockLength}
+          onChange={setBlockLength}
+          options={BLOCK_OPTIONS.map(v => ({ value: v, label: t('mcMonths').replace('{months}', String(v)) }))}
+        />
+        <label className="flex flex-col gap-1 text-xs font-medium text-slate-500">
+          {t('mcSeed')}
+          <input
+            type="number"
+            value={seed}
+            onChange={(e) => setSeed(Math.floor(Number(e.target.value) || 0))}
+            className="w-24 text-sm border border-slate-200 rounded-lg px-2 py-1.5 text-slate-700"
+          />
+        </label>
+        <button
+          onClick={handleRun}
+          disabled={!canRun || isRunning}
+          className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold transition-all ${!canRun || isRunning
+            ? 'bg-slate-100 text-slate-400 cursor-not-allowed'
+            : 'bg-blue-600 text-white hover:bg-blue-700 shadow-sm hover:shadow-md'
+            }`}
+        >
+          <Play className="w-4 h-4" />
+          {isRunning ? '...' : t('runMonteCarlo')}
+        </button>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="list-disc pl-5 space-y-0.5 text-xs text-red-700 bg-red-50 border border-red-200 rounded-lg p-3">
+          {errors.map((msg, idx) => <li key={idx}>{msg}</li>)}
+        </ul>
+      )}
+
+      {results.length > 0 && (
+        <>
+          {/* Liquidation odds per profile */}
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {results.map(r => (
+              <button
+                key={r.profileId}
+                onClick={() => setSelectedId(r.profileId)}
+                className={`text-left p-4 rounded-xl border transition-all ${r.profileId === selectedId ? 'bg-blue-50 border-blue-200' : 'bg-white border-slate-100 hover:shadow-md'}`}
+              >
+                <div className="flex items-center gap-2 text-sm font-medium text-slate-700">
+                  <span className="w-2 h-2 rounded-full" style={{ backgroundColor: r.color }}></span>
+                  {r.strategyName}
+                </div>
+                <div className={`text-2xl font-bold mt-2 ${r.bankruptcyRate > 0 ? 'text-red-600' : 'text-slate-900'}`}>
+                  {r.bankruptcyRate.toFixed(1)}%
+                </div>
+                <div className="text-xs text-slate-400">
+                  {t('mcBankruptcyProbability')} · {t('mcPathSummary')
+                    .replace('{paths}', r.pathCount.toLocaleString())
+                    .replace('{months}', String(r.horizonMonths))}
+                </div>
+              </button>
+            ))}
+          </div>
+
+          {selected && selected.pathCount > 0 && (
+            <>
+              <div>
+                <h4 className="font-bold text-sm text-slate-700 mb-1 flex items-center gap-2">
+                  <span className="w-3 h-3 rounded-full" style={{ backgroundColor: selected.color }}></span>
+                  {selected.strategyName}: {t('mcFanChart')}
+                </h4>
+                <p className="text-xs text-slate-400 mb-3">{t('mcFanChartDesc')}</p>
+                <PercentileBandChart bands={selected.bands} color={selected.color} currency={selected.currency} />
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm text-left">
+                  <thead className="text-xs text-slate-500 uppercase bg-slate-50">
+                    <tr>
+                      <th className="px-4 py-3">{t('mcMetric')}</th>
+                      {summaryColumns.map(col => (
+                        <th key={col} className="px-4 py-3 text-right">{col === 'mean' ? t('mcMean') : col.toUpperCase()}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {METRIC_KEYS.map(key => (
+                      <tr key={key} className="hover:bg-slate-50">
+                        <td className="px-4 py-2 font-medium text-slate-700">{t(METRIC_LABELS[key])}</td>
+                        {summaryColumns.map(col => (
+                          <td key={col} className={`px-4 py-2 text-right font-mono ${col === 'p50' ? 'font-bold text-slate-900' : 'text-slate-600'}`}>
+                            {formatMetric(key, selected.metrics[key][col], selected.currency)}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,48 @@
+import React from 'react';
+import { ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { PercentileBandPoint } from '../types';
+import { useTranslation } from '../services/i18n';
+import { formatMoney, formatMoneyAxis } from '../services/currency';
+
+interface PercentileBandChartProps {
+  bands: PercentileBandPoint[];
+  color: string;
+  height?: number;
+  currency?: string;
+}
+
+const BandTooltip = ({ active, payload, label, currency }: any) => {
+  const { t } = useTranslation();
+  if (!active || !payload || payload.length === 0) return null;
+  const point = payload[0].payload;
+  return (
+    <div className="bg-white p-3 border border-slate-200 shadow-lg rounded-lg text-xs">
+      <p className="font-bold text-slate-700 mb-2">{t('rollingMonthsIn').replace('{months}', String(label))}</p>
+      {(['p95', 'p75', 'p50', 'p25', 'p5'] as const).map(key => (
+        <div key={key} className="flex justify-between gap-4">
+          <span className="text-slate-500">{key.toUpperCase()}</span>
+          <span className="font-mono font-bold text-slate-700">{formatMoney(point[key], currency)}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+/**
+ * Fan chart: 5th-95th and 25th-75th percentile bands around the median, by months since start
+ */
+export const PercentileBandChart: React.FC<PercentileBandChartProps> = ({ bands, color, height = 320, currency }) => (
+  <div style={{ height }}>
+    <ResponsiveContainer width="100%" height="100%">
+      <ComposedChart data={bands}>
+        <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+        <XAxis dataKey="month" tick={{ fontSize: 12 }} stroke="#94a3b8" tickFormatter={(val) => (val % 12 === 0 ? `${val / 12}y` : '')} interval={0} />
+        <YAxis tick={{ fontSize: 12 }} stroke="#94a3b8" tickFormatter={(val) => formatMoneyAxis(val, currency)} />
+        <Tooltip content={<BandTooltip currency={currency} />} />
+        <Area type="monotone" dataKey={(d: PercentileBandPoint) => [d.p5, d.p95]} stroke="none" fill={color} fillOpacity={0.15} />
+        <Area type="monotone" dataKey={(d: PercentileBandPoint) => [d.p25, d.p75]} stroke="none" fill={color} fillOpacity={0.3} />
+        <Line type="monotone" dataKey="p50" stroke={color} strokeWidth={2.5} dot={false} />
+      </ComposedChart>
+    </ResponsiveContainer>
+  </div>
+);
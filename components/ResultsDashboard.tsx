@@ -1,14 +1,16 @@
 
 import React, { useState } from 'react';
-import { SimulationResult } from '../types';
-import { ComposedChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line, Legend, BarChart, Bar } from 'recharts';
+import { PortfolioState, Profile, SimulationResult } from '../types';
+import { ComposedChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line, Legend, BarChart, Bar, ReferenceArea, ReferenceDot } from 'recharts';
 import { TrendingUp, Percent, Activity, Trophy, AlertTriangle, Scale, HelpCircle, Zap, ShieldAlert, Clock, ChevronUp, ChevronDown, ArrowUpDown, FileDown } from 'lucide-react';
 import { useTranslation } from '../services/i18n';
 import { MathModelModal } from './MathModelModal';
 import { generateProfessionalReport } from '../services/reportService';
+import { formatMoney, formatMoneyAxis, getCommonCurrency } from '../services/currency';
 
 interface ResultsDashboardProps {
   results: SimulationResult[];
+  profiles: Profile[];
 }
 
 const MetricCard: React.FC<{
@@ -40,7 +42,7 @@ const MetricCard: React.FC<{
   </div>
 );
 
-const CustomTooltip = ({ active, payload, label }: any) => {
+const CustomTooltip = ({ active, payload, label, currency }: any) => {
   if (active && payload && payload.length) {
     return (
       <div className="bg-white p-3 border border-slate-200 shadow-lg rounded-lg text-xs">
@@ -52,7 +54,7 @@ const CustomTooltip = ({ active, payload, label }: any) => {
             <span className="font-mono font-bold">
               {typeof p.value === 'number' && (p.name.includes('%') || p.name.includes('LTV') || p.name.includes('Beta'))
                 ? `${Number(p.value).toFixed(2)}${p.name.includes('Beta') ? '' : '%'}`
-                : `$${Number(p.value).toLocaleString(undefined, { maximumFractionDigits: 0 })}`}
+                : currency ? formatMoney(Number(p.value), currency) : Number(p.value).toLocaleString(undefined, { maximumFractionDigits: 0 })}
             </span>
           </div>
         ))}
@@ -62,11 +64,13 @@ const CustomTooltip = ({ active, payload, label }: any) => {
   return null;
 };
 
-export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ results }) => {
+export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ results, profiles }) => {
   const { t } = useTranslation();
   const [showMath, setShowMath] = useState(false);
   const [isGeneratingReport, setIsGeneratingReport] = useState(false);
   const [sortConfig, setSortConfig] = useState<{ key: keyof SimulationResult['metrics'] | 'strategyName', direction: 'asc' | 'desc' } | null>(null);
+  const [showReal, setShowReal] = useState(false); // Growth chart and table in start-of-backtest money
+  const [showFx, setShowFx] = useState(false); // Split base-currency returns into asset and FX parts
 
   const handleSort = (key: keyof SimulationResult['metrics'] | 'strategyName') => {
     let direction: 'asc' | 'desc' = 'desc';
@@ -84,47 +88,81 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ results }) =
 
 
 
-  // Prepare Chart Data (Growth)
-  const chartData = results[0].history.map((_, idx) => {
-    const row: any = { date: results[0].history[idx].date };
-    results.forEach(res => {
-      // If history stops early (due to bankruptcy optimization), use 0 or last val
-      const val = res.history[idx]?.totalValue ?? 0;
-      row[res.strategyName] = val;
+  // Histories can cover different months (e.g. a profile holding a younger ETF starts later),
+  // so every chart joins the series on date rather than on array index.
+  const allDates = Array.from(new Set(results.flatMap(r => r.history.map(h => h.date)))).sort();
+  const buildDateSeries = (
+    source: SimulationResult[],
+    valueOf: (res: SimulationResult) => (h: PortfolioState) => number
+  ) => {
+    const rows = new Map<string, any>(allDates.map(date => [date, { date }]));
+    source.forEach(res => {
+      const getValue = valueOf(res);
+      res.history.forEach(h => { rows.get(h.date)[res.strategyName] = getValue(h); });
     });
-    return row;
-  });
+    return allDates.map(date => rows.get(date));
+  };
+
+  // Period priced from reconstructed data, shaded on the time-series charts
+  const syntheticDates = results.flatMap(r => r.synthetic?.dates || []).sort();
+  const syntheticTickers = Array.from(new Set(results.flatMap(r => r.synthetic?.tickers || [])));
+  const syntheticArea = syntheticDates.length > 0 && (
+    <ReferenceArea
+      x1={syntheticDates[0]}
+      x2={syntheticDates[syntheticDates.length - 1]}
+      fill="#fde68a"
+      fillOpacity={0.35}
+      ifOverflow="extendDomain"
+      label={{ value: t('syntheticData'), position: 'insideTopLeft', fontSize: 11, fill: '#b45309' }}
+    />
+  );
+
+  // Money axes and tooltips carry a symbol only when every profile uses the same currency
+  const currency = getCommonCurrency(results);
+  const hasFx = results.some(r => r.fxAttribution);
+  const hasTradingCosts = results.some(r => r.metrics.tradingCosts > 0);
+  const driftResults = results.filter(r => r.executionDrift);
+  const volTargetResults = results.filter(r => r.targetVolatility !== undefined);
+  const hasRebalances = results.some(r => r.metrics.rebalanceCount > 0);
+
+  // Metrics shown in the table, nominal or on the deflated equity curve
+  const tableMetrics = (res: SimulationResult): SimulationResult['metrics'] =>
+    showReal && res.realMetrics ? { ...res.metrics, ...res.realMetrics } : res.metrics;
+
+  // Prepare Chart Data (Growth)
+  const chartData = buildDateSeries(results, () => (h) => (showReal ? h.realValue ?? h.totalValue : h.totalValue));
+
+  // Risk-on / risk-off switches of trend strategies, marked on the growth curve
+  const signalDots = results.flatMap(res => res.history
+    .filter(h => h.events?.some(e => e.type === 'SIGNAL'))
+    .map(h => (
+      <ReferenceDot
+        key={`${res.strategyName}-${h.date}`}
+        x={h.date}
+        y={showReal ? h.realValue ?? h.totalValue : h.totalValue}
+        r={4}
+        fill={h.strategyMemory?.riskOn ? '#16a34a' : '#dc2626'}
+        stroke={res.color}
+        strokeWidth={2}
+        ifOverflow="extendDomain"
+      />
+    )));
 
   // Prepare Drawdown Data
-  const drawdownData = results[0].history.map((h) => ({ date: h.date }));
-  results.forEach(res => {
+  const drawdownData = buildDateSeries(results, () => {
     let peak = -Infinity;
-    res.history.forEach((h, idx) => {
+    return (h) => {
       if (h.totalValue > peak) peak = h.totalValue;
-      const dd = peak === 0 ? 0 : ((h.totalValue - peak) / peak) * 100;
-      (drawdownData[idx] as any)[res.strategyName] = dd;
-    });
+      return peak === 0 ? 0 : ((h.totalValue - peak) / peak) * 100;
+    };
   });
 
   // Prepare LTV Data (Only for leveraged profiles)
   const leveragedProfiles = results.filter(r => r.isLeveraged);
-  let ltvData: any[] = [];
-  if (leveragedProfiles.length > 0) {
-    ltvData = results[0].history.map((h) => ({ date: h.date }));
-    leveragedProfiles.forEach(res => {
-      res.history.forEach((h, idx) => {
-        (ltvData[idx] as any)[res.strategyName] = h.ltv;
-      });
-    });
-  }
+  const ltvData = leveragedProfiles.length > 0 ? buildDateSeries(leveragedProfiles, () => (h) => h.ltv) : [];
 
   // Prepare Beta Data
-  const betaData = results[0].history.map((h) => ({ date: h.date }));
-  results.forEach(res => {
-    res.history.forEach((h, idx) => {
-      (betaData[idx] as any)[res.strategyName] = h.beta;
-    });
-  });
+  const betaData = buildDateSeries(results, () => (h) => h.beta);
 
   // Prepare Cash Data for ALL profiles that have cash usage
   const cashCharts = results.map(res => {
@@ -139,6 +177,30 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ results }) =
     return { res, data, hasCash: maxCash > 0.5 };
   }).filter(item => item.hasCash);
 
+  // CPPI profiles: floor, cushion and exposure per month, and how often the floor gapped
+  const cppiCharts = results
+    .filter(res => res.history.some(h => h.strategyMemory?.cppiFloor !== undefined))
+    .map(res => {
+      const data = res.history.map(h => ({
+        date: h.date,
+        [t('equity')]: h.totalValue,
+        [t('cppiFloor')]: h.strategyMemory?.cppiFloor ?? 0,
+        [t('cppiCushion')]: h.strategyMemory?.cppiCushion ?? 0,
+        [t('cppiExposure')]: h.strategyMemory?.cppiExposure ?? 0
+      }));
+      const gaps = res.history.map(h => h.strategyMemory?.cppiGap ?? 0);
+      const exposurePct = res.history.map(h => (h.totalValue > 0 ? ((h.strategyMemory?.cppiExposure ?? 0) / h.totalValue) * 100 : 0));
+      return {
+        res,
+        data,
+        gapMonths: gaps.filter(g => g > 0).length,
+        worstGap: Math.max(0, ...gaps),
+        avgExposure: exposurePct.reduce((a, b) => a + b, 0) / exposurePct.length,
+        // Share of months with no cushion left, i.e. stuck in cash
+        cashLocked: (res.history.filter(h => h.strategyMemory?.cppiFloor !== undefined && (h.strategyMemory?.cppiCushion ?? 0) <= 0).length / res.history.length) * 100
+      };
+    });
+
   // Calculate winners for each primary metric (using safeResults to prefer non-bankrupt)
   const bestBalance = [...safeResults].sort((a, b) => b.metrics.finalBalance - a.metrics.finalBalance)[0];
   const bestCAGR = [...safeResults].sort((a, b) => b.metrics.cagr - a.metrics.cagr)[0];
@@ -161,15 +223,15 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ results }) =
         aVal = a.strategyName;
         bVal = b.strategyName;
       } else {
-        aVal = a.metrics[sortConfig.key];
-        bVal = b.metrics[sortConfig.key];
+        aVal = tableMetrics(a)[sortConfig.key];
+        bVal = tableMetrics(b)[sortConfig.key];
       }
 
       if (aVal < bVal) return sortConfig.direction === 'asc' ? -1 : 1;
       if (aVal > bVal) return sortConfig.direction === 'asc' ? 1 : -1;
       return 0;
     });
-  }, [results, sortConfig]);
+  }, [results, sortConfig, showReal]);
 
   const handleDownloadReport = async () => {
     setIsGeneratingReport(true);
@@ -189,7 +251,12 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ results }) =
 
   return (
     <div className="space-y-8">
-      {showMath && <MathModelModal onClose={() => setShowMath(false)} />}
+      {showMath && (
+        <MathModelModal
+          onClose={() => setShowMath(false)}
+          smartProfiles={profiles.filter(p => p.strategyType === 'SMART' && results.some(r => r.profileId === p.id))}
+        />
+      )}
 
 
       {bankruptStrategies.length > 0 && (
@@ -214,14 +281,37 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ results }) =
 
       {/* Main Chart */}
       <div id="portfolio-growth-chart" className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm">
-        <h3 className="text-lg font-bold text-slate-800 mb-4">{t('portfolioGrowth')}</h3>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-bold text-slate-800">{t('portfolioGrowth')}</h3>
+          <div className="flex bg-slate-100 rounded-lg p-0.5 text-xs font-medium">
+            {[false, true].map(real => (
+              <button
+                key={String(real)}
+                onClick={() => setShowReal(real)}
+                className={`px-3 py-1 rounded-md transition-all ${showReal === real ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+              >
+                {t(real ? 'realTerms' : 'nominalTerms')}
+              </button>
+            ))}
+          </div>
+        </div>
+        {showReal && <p className="text-xs text-slate-400 -mt-2 mb-4">{t('realTermsDesc')}</p>}
+        {syntheticArea && (
+          <p className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2 mb-4">
+            {t('syntheticDataNote')
+              .replace('{tickers}', syntheticTickers.join(', '))
+              .replace('{start}', syntheticDates[0].substring(0, 7))
+              .replace('{end}', syntheticDates[syntheticDates.length - 1].substring(0, 7))}
+          </p>
+        )}
         <div className="h-[400px]">
           <ResponsiveContainer width="100%" height="100%">
             <LineChart data={chartData}>
               <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+              {syntheticArea}
               <XAxis dataKey="date" tick={{ fontSize: 12 }} tickFormatter={(val) => val.substring(0, 4)} stroke="#94a3b8" />
-              <YAxis tick={{ fontSize: 12 }} stroke="#94a3b8" tickFormatter={(val) => `$${val / 1000}k`} />
-              <Tooltip content={<CustomTooltip />} />
+              <YAxis tick={{ fontSize: 12 }} stroke="#94a3b8" tickFormatter={(val) => (currency ? formatMoneyAxis(val, currency) : `${val / 1000}k`)} />
+              <Tooltip content={<CustomTooltip currency={currency} />} />
               <Legend />
               {results.map((res) => (
                 <Line
@@ -233,9 +323,11 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ results }) =
                   dot={false}
                 />
               ))}
+              {signalDots}
             </LineChart>
           </ResponsiveContainer>
         </div>
+        {signalDots.length > 0 && <p className="text-xs text-slate-400 mt-2">{t('trendSignalsNote')}</p>}
       </div>
 
       {/* Annual Returns Chart */}
@@ -264,7 +356,7 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ results }) =
               <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
               <XAxis dataKey="year" tick={{ fontSize: 12 }} stroke="#94a3b8" />
               <YAxis tick={{ fontSize: 12 }} stroke="#94a3b8" unit="%" />
-              <Tooltip content={<CustomTooltip />} />
+              <Tooltip content={<CustomTooltip currency={currency} />} />
               <Legend />
               {results.map((res) => (
                 <Bar
@@ -286,9 +378,10 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ results }) =
           <ResponsiveContainer width="100%" height="100%">
             <LineChart data={drawdownData}>
               <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+              {syntheticArea}
               <XAxis dataKey="date" tick={{ fontSize: 12 }} tickFormatter={(val) => val.substring(0, 4)} stroke="#94a3b8" />
               <YAxis tick={{ fontSize: 12 }} stroke="#94a3b8" unit="%" />
-              <Tooltip content={<CustomTooltip />} />
+              <Tooltip content={<CustomTooltip currency={currency} />} />
               <Legend />
               {results.map((res) => (
                 <Line
@@ -318,9 +411,10 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ results }) =
           <ResponsiveContainer width="100%" height="100%">
             <LineChart data={betaData}>
               <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+              {syntheticArea}
               <XAxis dataKey="date" tick={{ fontSize: 12 }} tickFormatter={(val) => val.substring(0, 4)} stroke="#94a3b8" />
               <YAxis tick={{ fontSize: 12 }} stroke="#94a3b8" domain={[0, 'auto']} />
-              <Tooltip content={<CustomTooltip />} />
+              <Tooltip content={<CustomTooltip currency={currency} />} />
               <Legend />
               {results.map((res) => (
                 <Line
@@ -354,7 +448,7 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ results }) =
                 <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
                 <XAxis dataKey="date" tick={{ fontSize: 12 }} tickFormatter={(val) => val.substring(0, 4)} stroke="#94a3b8" />
                 <YAxis tick={{ fontSize: 12 }} stroke="#94a3b8" unit="%" domain={[0, 'auto']} allowDataOverflow={false} />
-                <Tooltip content={<CustomTooltip />} />
+                <Tooltip content={<CustomTooltip currency={currency} />} />
                 <Legend />
                 {leveragedProfiles.map((res) => (
                   <Line
@@ -392,8 +486,8 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ results }) =
                     <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
                     <XAxis dataKey="date" tick={{ fontSize: 10 }} tickFormatter={(val) => val.substring(0, 4)} stroke="#cbd5e1" minTickGap={50} />
                     <YAxis yAxisId="left" tick={{ fontSize: 10 }} stroke="#cbd5e1" unit="%" />
-                    <YAxis yAxisId="right" orientation="right" tick={{ fontSize: 10 }} stroke="#047857" tickFormatter={(val) => `$${val >= 1000 ? (val / 1000).toFixed(0) + 'k' : val}`} />
-                    <Tooltip content={<CustomTooltip />} />
+                    <YAxis yAxisId="right" orientation="right" tick={{ fontSize: 10 }} stroke="#047857" tickFormatter={(val) => (val >= 1000 ? formatMoneyAxis(Math.round(val / 1000) * 1000, res.currency) : formatMoney(val, res.currency))} />
+                    <Tooltip content={<CustomTooltip currency={res.currency} />} />
                     <Area yAxisId="left" type="monotone" dataKey="equityPct" stackId="1" stroke={res.color} fill={res.color} fillOpacity={0.6} name={t('equityPct')} />
                     <Area yAxisId="left" type="monotone" dataKey="cashPct" stackId="1" stroke="#16a34a" fill="#10b981" fillOpacity={0.5} name={t('cashPct')} />
                     <Line yAxisId="right" type="monotone" dataKey="cashAmount" stroke="#047857" strokeWidth={2} dot={false} name={t('cashAmount')} />
@@ -405,11 +499,62 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ results }) =
         </div>
       )}
 
+      {/* CPPI Floor / Cushion / Exposure */}
+      {cppiCharts.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="md:col-span-2">
+            <h3 className="text-lg font-bold text-slate-800">{t('cppiTitle')}</h3>
+            <p className="text-sm text-slate-500">{t('cppiDesc')}</p>
+          </div>
+          {cppiCharts.map(({ res, data, gapMonths, worstGap, avgExposure, cashLocked }) => (
+            <div key={res.strategyName} className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm flex flex-col">
+              <div className="flex items-center gap-2 mb-3">
+                <span className="w-3 h-3 rounded-full" style={{ backgroundColor: res.color }}></span>
+                <h4 className="font-bold text-sm text-slate-700">{res.strategyName}</h4>
+              </div>
+              <div className="grid grid-cols-4 gap-2 mb-3 text-xs">
+                <div className={`p-2 rounded-lg border ${gapMonths > 0 ? 'bg-red-50 border-red-100' : 'bg-slate-50 border-slate-100'}`}>
+                  <div className="text-slate-500">{t('cppiGapMonths')}</div>
+                  <div className={`font-bold ${gapMonths > 0 ? 'text-red-600' : 'text-slate-800'}`}>{gapMonths}</div>
+                </div>
+                <div className="p-2 rounded-lg border bg-slate-50 border-slate-100">
+                  <div className="text-slate-500">{t('cppiWorstGap')}</div>
+                  <div className="font-bold text-slate-800">{worstGap.toFixed(1)}%</div>
+                </div>
+                <div className="p-2 rounded-lg border bg-slate-50 border-slate-100">
+                  <div className="text-slate-500">{t('cppiAvgExposure')}</div>
+                  <div className="font-bold text-slate-800">{avgExposure.toFixed(1)}%</div>
+                </div>
+                <div className="p-2 rounded-lg border bg-slate-50 border-slate-100">
+                  <div className="text-slate-500">{t('cppiCashLocked')}</div>
+                  <div className="font-bold text-slate-800">{cashLocked.toFixed(1)}%</div>
+                </div>
+              </div>
+              <div className="h-[220px] w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ComposedChart data={data}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                    <XAxis dataKey="date" tick={{ fontSize: 10 }} tickFormatter={(val) => val.substring(0, 4)} stroke="#cbd5e1" minTickGap={50} />
+                    <YAxis tick={{ fontSize: 10 }} stroke="#cbd5e1" tickFormatter={(val) => formatMoneyAxis(val, res.currency)} />
+                    <Tooltip content={<CustomTooltip currency={res.currency} />} />
+                    <Legend wrapperStyle={{ fontSize: 11 }} />
+                    <Area type="monotone" dataKey={t('cppiCushion')} stroke="#10b981" fill="#10b981" fillOpacity={0.2} />
+                    <Line type="monotone" dataKey={t('equity')} stroke={res.color} strokeWidth={2} dot={false} />
+                    <Line type="stepAfter" dataKey={t('cppiFloor')} stroke="#dc2626" strokeWidth={1.5} strokeDasharray="4 2" dot={false} />
+                    <Line type="monotone" dataKey={t('cppiExposure')} stroke="#6366f1" strokeWidth={1.5} dot={false} />
+                  </ComposedChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Performance Table */}
       <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
         <div className="p-4 border-b border-slate-100 bg-slate-50 flex items-center justify-between">
           <div className="flex items-center gap-2">
-            <h3 className="font-bold text-slate-800">{t('perfComparison')}</h3>
+            <h3 className="font-bold text-slate-800">{t('perfComparison')}{showReal && ` (${t('realTerms')})`}</h3>
             <button
               onClick={() => setShowMath(true)}
               className="text-slate-400 hover:text-blue-600 hover:bg-blue-50 p-1 rounded-full transition-colors"
@@ -418,17 +563,30 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ results }) =
               <HelpCircle className="w-4 h-4" />
             </button>
           </div>
-          <button
-            onClick={handleDownloadReport}
-            disabled={isGeneratingReport}
-            className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold transition-all ${isGeneratingReport
-              ? 'bg-slate-100 text-slate-400 cursor-not-allowed'
-              : 'bg-blue-600 text-white hover:bg-blue-700 shadow-sm hover:shadow-md'
-              }`}
-          >
-            <FileDown className={`w-4 h-4 ${isGeneratingReport ? 'animate-bounce' : ''}`} />
-            {isGeneratingReport ? '...' : t('downloadReport')}
-          </button>
+          <div className="flex items-center gap-2">
+            {hasFx && (
+              <label className="flex items-center gap-2 text-xs font-medium text-slate-600 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={showFx}
+                  onChange={(e) => setShowFx(e.target.checked)}
+                  className="rounded border-slate-300 text-blue-600"
+                />
+                {t('showFxContribution')}
+              </label>
+            )}
+            <button
+              onClick={handleDownloadReport}
+              disabled={isGeneratingReport}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold transition-all ${isGeneratingReport
+                ? 'bg-slate-100 text-slate-400 cursor-not-allowed'
+                : 'bg-blue-600 text-white hover:bg-blue-700 shadow-sm hover:shadow-md'
+                }`}
+            >
+              <FileDown className={`w-4 h-4 ${isGeneratingReport ? 'animate-bounce' : ''}`} />
+              {isGeneratingReport ? '...' : t('downloadReport')}
+            </button>
+          </div>
         </div>
         <div className="overflow-x-auto">
           <table className="w-full text-sm text-left">
@@ -452,6 +610,12 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ results }) =
                     <SortIcon column="cagr" />
                   </div>
                 </th>
+                {showFx && hasFx && (
+                  <>
+                    <th className="px-4 py-3 text-right" title={t('col_localCagrDesc')}>{t('col_localCagr')}</th>
+                    <th className="px-4 py-3 text-right" title={t('col_fxCagrDesc')}>{t('col_fxCagr')}</th>
+                  </>
+                )}
                 <th className="px-4 py-3 text-right cursor-pointer group select-none" onClick={() => handleSort('irr')}>
                   <div className="flex items-center justify-end">
                     {t('col_irr')}
@@ -482,6 +646,30 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ results }) =
                     <SortIcon column="painIndex" />
                   </div>
                 </th>
+                {hasRebalances && (
+                  <>
+                    <th className="px-4 py-3 text-right cursor-pointer group select-none" onClick={() => handleSort('rebalanceCount')}>
+                      <div className="flex items-center justify-end">
+                        {t('col_rebalances')}
+                        <SortIcon column="rebalanceCount" />
+                      </div>
+                    </th>
+                    <th className="px-4 py-3 text-right cursor-pointer group select-none" title={t('col_turnoverDesc')} onClick={() => handleSort('turnover')}>
+                      <div className="flex items-center justify-end">
+                        {t('col_turnover')}
+                        <SortIcon column="turnover" />
+                      </div>
+                    </th>
+                  </>
+                )}
+                {hasTradingCosts && (
+                  <th className="px-4 py-3 text-right cursor-pointer group select-none" title={t('col_tradingCostsDesc')} onClick={() => handleSort('tradingCosts')}>
+                    <div className="flex items-center justify-end">
+                      {t('col_tradingCosts')}
+                      <SortIcon column="tradingCosts" />
+                    </div>
+                  </th>
+                )}
               </tr>
             </thead>
             <tbody>
@@ -496,13 +684,30 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ results }) =
                       </span>
                     )}
                   </td>
-                  <td className="px-4 py-3 text-right font-mono">${Math.round(res.metrics.finalBalance).toLocaleString()}</td>
-                  <td className="px-4 py-3 text-right text-green-600 font-medium">{res.metrics.cagr.toFixed(2)}%</td>
-                  <td className="px-4 py-3 text-right text-blue-600 font-medium">{res.metrics.irr.toFixed(2)}%</td>
-                  <td className="px-4 py-3 text-right text-red-500">{res.metrics.maxDrawdown.toFixed(2)}%</td>
-                  <td className="px-4 py-3 text-right text-slate-600">{res.metrics.sharpeRatio.toFixed(2)}</td>
-                  <td className="px-4 py-3 text-right text-orange-600 font-medium">{res.metrics.calmarRatio.toFixed(2)}</td>
-                  <td className="px-4 py-3 text-right text-purple-600 font-medium">{res.metrics.painIndex.toFixed(2)}</td>
+                  <td className="px-4 py-3 text-right font-mono">{formatMoney(tableMetrics(res).finalBalance, res.currency)}</td>
+                  <td className="px-4 py-3 text-right text-green-600 font-medium">{tableMetrics(res).cagr.toFixed(2)}%</td>
+                  {showFx && hasFx && (
+                    <>
+                      <td className="px-4 py-3 text-right text-slate-600">{res.fxAttribution ? `${res.fxAttribution.localCagr.toFixed(2)}%` : '-'}</td>
+                      <td className={`px-4 py-3 text-right font-medium ${(res.fxAttribution?.fxCagr ?? 0) < 0 ? 'text-red-500' : 'text-teal-600'}`}>
+                        {res.fxAttribution ? `${res.fxAttribution.fxCagr >= 0 ? '+' : ''}${res.fxAttribution.fxCagr.toFixed(2)}%` : '-'}
+                      </td>
+                    </>
+                  )}
+                  <td className="px-4 py-3 text-right text-blue-600 font-medium">{tableMetrics(res).irr.toFixed(2)}%</td>
+                  <td className="px-4 py-3 text-right text-red-500">{tableMetrics(res).maxDrawdown.toFixed(2)}%</td>
+                  <td className="px-4 py-3 text-right text-slate-600">{tableMetrics(res).sharpeRatio.toFixed(2)}</td>
+                  <td className="px-4 py-3 text-right text-orange-600 font-medium">{tableMetrics(res).calmarRatio.toFixed(2)}</td>
+                  <td className="px-4 py-3 text-right text-purple-600 font-medium">{tableMetrics(res).painIndex.toFixed(2)}</td>
+                  {hasRebalances && (
+                    <>
+                      <td className="px-4 py-3 text-right text-slate-600">{res.metrics.rebalanceCount}</td>
+                      <td className="px-4 py-3 text-right text-slate-600">{res.metrics.turnover.toFixed(1)}%</td>
+                    </>
+                  )}
+                  {hasTradingCosts && (
+                    <td className="px-4 py-3 text-right font-mono text-slate-600">{formatMoney(res.metrics.tradingCosts, res.currency)}</td>
+                  )}
                 </tr>
               ))}
             </tbody>
@@ -510,6 +715,99 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ results }) =
         </div>
       </div>
 
+      {/* Whole-share execution drift against the same profiles on fractional shares */}
+      {driftResults.length > 0 && (
+        <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+          <div className="p-4 border-b border-slate-100">
+            <h3 className="font-bold text-slate-800">{t('wholeShareDrift')}</h3>
+            <p className="text-xs text-slate-500 mt-1">{t('wholeShareDriftDesc')}</p>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left">
+              <thead className="text-xs text-slate-500 uppercase bg-slate-50">
+                <tr>
+                  <th className="px-4 py-3">{t('col_strategy')}</th>
+                  <th className="px-4 py-3 text-right">{t('col_cashDrag')}</th>
+                  <th className="px-4 py-3 text-right">{t('col_maxCashDrag')}</th>
+                  <th className="px-4 py-3 text-right">{t('col_weightDrift')}</th>
+                  <th className="px-4 py-3 text-right">{t('col_fractionalBalance')}</th>
+                  <th className="px-4 py-3 text-right">{t('col_cagrGap')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {driftResults.map(res => {
+                  const drift = res.executionDrift!;
+                  return (
+                    <tr key={res.strategyName} className={`border-b border-slate-100 last:border-0 ${drift.isMaterial ? 'bg-amber-50' : ''}`}>
+                      <td className="px-4 py-3 font-medium text-slate-900 flex items-center gap-2">
+                        <span className="w-2 h-2 rounded-full" style={{ backgroundColor: res.color }}></span>
+                        {res.strategyName}
+                        {drift.isMaterial && (
+                          <span title={t('wholeShareDriftMaterial')}>
+                            <AlertTriangle className="w-4 h-4 text-amber-500" />
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-right text-slate-600">{drift.cashDragPct.toFixed(2)}%</td>
+                      <td className="px-4 py-3 text-right text-slate-600">{drift.maxCashDragPct.toFixed(2)}%</td>
+                      <td className="px-4 py-3 text-right text-slate-600">{drift.maxWeightDrift.toFixed(2)}</td>
+                      <td className="px-4 py-3 text-right font-mono">{formatMoney(drift.fractionalFinalBalance, res.currency)}</td>
+                      <td className={`px-4 py-3 text-right font-medium ${drift.cagrGap < 0 ? 'text-red-500' : 'text-green-600'}`}>
+                        {drift.cagrGap >= 0 ? '+' : ''}{drift.cagrGap.toFixed(2)}%
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {volTargetResults.length > 0 && (
+        <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+          <div className="p-4 border-b border-slate-100">
+            <h3 className="font-bold text-slate-800">{t('volTargetTitle')}</h3>
+            <p className="text-xs text-slate-500 mt-1">{t('volTargetDesc')}</p>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left">
+              <thead className="text-xs text-slate-500 uppercase bg-slate-50">
+                <tr>
+                  <th className="px-4 py-3">{t('col_strategy')}</th>
+                  <th className="px-4 py-3 text-right">{t('col_targetVol')}</th>
+                  <th className="px-4 py-3 text-right">{t('col_volatility')}</th>
+                  <th className="px-4 py-3 text-right">{t('col_volGap')}</th>
+                  <th className="px-4 py-3 text-right">{t('col_avgBeta')}</th>
+                  <th className="px-4 py-3 text-right">{t('col_maxBeta')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {volTargetResults.map(res => {
+                  const gap = res.metrics.volatility - res.targetVolatility!;
+                  const betas = res.history.map(h => h.beta);
+                  return (
+                    <tr key={res.strategyName} className="border-b border-slate-100 last:border-0">
+                      <td className="px-4 py-3 font-medium text-slate-900 flex items-center gap-2">
+                        <span className="w-2 h-2 rounded-full" style={{ backgroundColor: res.color }}></span>
+                        {res.strategyName}
+                      </td>
+                      <td className="px-4 py-3 text-right text-slate-600">{res.targetVolatility!.toFixed(1)}%</td>
+                      <td className="px-4 py-3 text-right text-slate-600">{res.metrics.volatility.toFixed(1)}%</td>
+                      <td className={`px-4 py-3 text-right font-medium ${gap > 0 ? 'text-red-500' : 'text-green-600'}`}>
+                        {gap >= 0 ? '+' : ''}{gap.toFixed(1)}%
+                      </td>
+                      <td className="px-4 py-3 text-right text-slate-600">{(betas.reduce((a, b) => a + b, 0) / betas.length).toFixed(2)}</td>
+                      <td className="px-4 py-3 text-right text-slate-600">{Math.max(...betas).toFixed(2)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Results Perspectives */}
       <div className="space-y-6">
         {/* Perspective: Absolute Return */}
@@ -521,7 +819,7 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ results }) =
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <MetricCard
               title={t('bestBalance')}
-              value={`$${Math.round(bestBalance.metrics.finalBalance).toLocaleString()}`}
+              value={formatMoney(bestBalance.metrics.finalBalance, bestBalance.currency)}
               icon={<TrendingUp className="w-5 h-5" />}
               winnerName={bestBalance.strategyName}
               winnerColor={bestBalance.color}
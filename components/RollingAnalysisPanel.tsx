@@ -0,0 +1,214 @@
+import React, { useState } from 'react';
+import { CalendarRange, Play } from 'lucide-react';
+import { DataFrequency, MarketDataRow, Profile } from '../types';
+import { useTranslation } from '../services/i18n';
+import { getStrategyByType } from '../services/strategies';
+import { RollingAnalysisResult, RollingWindow, runRollingAnalysis } from '../services/rollingAnalysis';
+import { MarketDataValidationError } from '../services/marketDataValidator';
+import { formatMoney, getBaseCurrency } from '../services/currency';
+import { PercentileBandChart } from './PercentileBandChart';
+
+interface RollingAnalysisPanelProps {
+  profiles: Profile[];
+  getProfileData: (profile: Profile) => { data: MarketDataRow[]; error?: string };
+  frequency?: DataFrequency;
+  canRun: boolean;
+}
+
+type ProfileRollingResult = RollingAnalysisResult & { profileId: string; currency: string };
+
+const HORIZON_OPTIONS = [5, 10, 15, 20];
+
+const formatPct = (val: number) => `${val.toFixed(2)}%`;
+
+const WindowTable: React.FC<{ title: string; windows: RollingWindow[]; currency: string }> = ({ title, windows, currency }) => {
+  const { t } = useTranslation();
+  return (
+    <div>
+      <h4 className="font-bold text-sm text-slate-700 mb-2">{title}</h4>
+      <table className="w-full text-xs text-left">
+        <thead className="text-slate-500 uppercase bg-slate-50">
+          <tr>
+            <th className="px-3 py-2">{t('col_window')}</th>
+            <th className="px-3 py-2 text-right">{t('col_balance')}</th>
+            <th className="px-3 py-2 text-right">{t('col_cagr')}</th>
+            <th className="px-3 py-2 text-right">{t('col_maxDD')}</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100">
+          {windows.map(w => (
+            <tr key={w.startDate} className={w.isBankrupt ? 'text-red-600' : 'text-slate-700'}>
+              <td className="px-3 py-2 font-mono">{w.startDate.substring(0, 7)} – {w.endDate.substring(0, 7)}</td>
+              <td className="px-3 py-2 text-right font-mono">{formatMoney(w.finalBalance, currency)}</td>
+              <td className="px-3 py-2 text-right font-mono">{formatPct(w.cagr)}</td>
+              <td className="px-3 py-2 text-right font-mono">{formatPct(w.maxDrawdown)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export const RollingAnalysisPanel: React.FC<RollingAnalysisPanelProps> = ({ profiles, getProfileData, frequency, canRun }) => {
+  const { t } = useTranslation();
+  const [horizonYears, setHorizonYears] = useState(10);
+  const [results, setResults] = useState<ProfileRollingResult[]>([]);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const handleRun = () => {
+    setIsRunning(true);
+    // Let the button render its busy state before the (synchronous) batch of backtests
+    setTimeout(() => {
+      const newResults: ProfileRollingResult[] = [];
+      const newErrors: string[] = [];
+      profiles.forEach(profile => {
+        const { data, error } = getProfileData(profile);
+        if (error) {
+          newErrors.push(error);
+          return;
+        }
+        // Scripts only run in a worker, one backtest at a time
+        if (profile.strategyType === 'SCRIPT') {
+          newErrors.push(`${profile.name}: scripted strategies only run in the main backtest`);
+          return;
+        }
+        try {
+          newResults.push({
+            ...runRollingAnalysis(data, getStrategyByType(profile.strategyType), profile.config, profile.name, profile.color, { horizonYears, frequency }),
+            profileId: profile.id,
+            currency: getBaseCurrency(profile.config)
+          });
+        } catch (err) {
+          if (!(err instanceof MarketDataValidationError)) throw err;
+          newErrors.push(`${profile.name}: ${err.message}`);
+        }
+      });
+      setResults(newResults);
+      setErrors(newErrors);
+      setSelectedId(prev => (newResults.some(r => r.profileId === prev) ? prev : newResults[0]?.profileId ?? null));
+      setIsRunning(false);
+    }, 0);
+  };
+
+  const selected = results.find(r => r.profileId === selectedId);
+
+  return (
+    <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <CalendarRange className="w-5 h-5 text-blue-600" /> {t('rollingAnalysis')}
+          </h3>
+          <p className="text-sm text-slate-500">{t('rollingAnalysisDesc')}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="text-xs font-medium text-slate-500">{t('rollingHorizon')}</label>
+          <select
+            value={horizonYears}
+            onChange={(e) => setHorizonYears(Number(e.target.value))}
+            className="text-sm border border-slate-200 rounded-lg px-2 py-1.5 bg-white"
+          >
+            {HORIZON_OPTIONS.map(y => (
+              <option key={y} value={y}>{t('rollingYears').replace('{years}', String(y))}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleRun}
+            disabled={!canRun || isRunning}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold transition-all ${!canRun || isRunning
+              ? 'bg-slate-100 text-slate-400 cursor-not-allowed'
+              : 'bg-blue-600 text-white hover:bg-blue-700 shadow-sm hover:shadow-md'
+              }`}
+          >
+            <Play className="w-4 h-4" />
+            {isRunning ? '...' : t('runRollingAnalysis')}
+          </button>
+        </div>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="list-disc pl-5 space-y-0.5 text-xs text-red-700 bg-red-50 border border-red-200 rounded-lg p-3">
+          {errors.map((msg, idx) => <li key={idx}>{msg}</li>)}
+        </ul>
+      )}
+
+      {results.length > 0 && (
+        <>
+          {/* Distribution summary across all start months */}
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left">
+              <thead className="text-xs text-slate-500 uppercase bg-slate-50">
+                <tr>
+                  <th className="px-4 py-3">{t('col_strategy')}</th>
+                  <th className="px-4 py-3 text-right">{t('col_windows')}</th>
+                  <th className="px-4 py-3 text-right">{t('col_cagrP5')}</th>
+                  <th className="px-4 py-3 text-right">{t('col_cagrP50')}</th>
+                  <th className="px-4 py-3 text-right">{t('col_cagrP95')}</th>
+                  <th className="px-4 py-3 text-right">{t('col_balanceP5')}</th>
+                  <th className="px-4 py-3 text-right">{t('col_balanceP50')}</th>
+                  <th className="px-4 py-3 text-right">{t('col_maxDDP50')}</th>
+                  <th className="px-4 py-3 text-right">{t('col_maxDDWorst')}</th>
+                  <th className="px-4 py-3 text-right">{t('col_bankruptcyRate')}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {results.map(r => (
+                  <tr
+                    key={r.profileId}
+                    onClick={() => setSelectedId(r.profileId)}
+                    className={`cursor-pointer ${r.profileId === selectedId ? 'bg-blue-50' : 'hover:bg-slate-50'}`}
+                  >
+                    <td className="px-4 py-3 font-medium text-slate-800">
+                      <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ backgroundColor: r.color }}></span>
+                      {r.strategyName}
+                    </td>
+                    <td className="px-4 py-3 text-right font-mono">{r.windows.length}</td>
+                    {r.windows.length === 0 ? (
+                      <td colSpan={8} className="px-4 py-3 text-right text-xs text-slate-400 italic">
+                        {t('rollingNoWindows').replace('{years}', String(r.horizonYears))}
+                      </td>
+                    ) : (
+                      <>
+                        <td className="px-4 py-3 text-right font-mono">{formatPct(r.cagr.p5)}</td>
+                        <td className="px-4 py-3 text-right font-mono font-bold">{formatPct(r.cagr.p50)}</td>
+                        <td className="px-4 py-3 text-right font-mono">{formatPct(r.cagr.p95)}</td>
+                        <td className="px-4 py-3 text-right font-mono">{formatMoney(r.finalBalance.p5, r.currency)}</td>
+                        <td className="px-4 py-3 text-right font-mono">{formatMoney(r.finalBalance.p50, r.currency)}</td>
+                        <td className="px-4 py-3 text-right font-mono">{formatPct(r.maxDrawdown.p50)}</td>
+                        <td className="px-4 py-3 text-right font-mono text-red-600">{formatPct(r.maxDrawdown.max)}</td>
+                        <td className={`px-4 py-3 text-right font-mono ${r.bankruptcyRate > 0 ? 'text-red-600 font-bold' : ''}`}>
+                          {formatPct(r.bankruptcyRate)}
+                        </td>
+                      </>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {selected && selected.windows.length > 0 && (
+            <>
+              <div>
+                <h4 className="font-bold text-sm text-slate-700 mb-1 flex items-center gap-2">
+                  <span className="w-3 h-3 rounded-full" style={{ backgroundColor: selected.color }}></span>
+                  {selected.strategyName}: {t('rollingBands')}
+                </h4>
+                <p className="text-xs text-slate-400 mb-3">{t('rollingBandsDesc')}</p>
+                <PercentileBandChart bands={selected.bands} color={selected.color} currency={selected.currency} />
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <WindowTable title={t('bestStarts')} windows={selected.best} currency={selected.currency} />
+                <WindowTable title={t('worstStarts')} windows={selected.worst} currency={selected.currency} />
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,246 @@
+import React from 'react';
+import { RuleAction, RuleActionType, RuleCondition, RuleMetric, StrategyRule } from '../types';
+import { Plus, Trash2, X } from 'lucide-react';
+import { useTranslation } from '../services/i18n';
+import { BASE_TICKER } from '../services/assetUniverse';
+import { DEFAULT_MA_PERIOD, RULE_ACTIONS, RULE_METRICS, RULE_OPERATORS } from '../services/strategyRules';
+
+interface RuleBuilderProps {
+  rules: StrategyRule[];
+  tickers: string[]; // The profile's assets
+  canBorrow: boolean; // Leverage enabled: BORROW is offered and run
+  onChange: (rules: StrategyRule[]) => void;
+}
+
+const inputClass = 'w-full px-2 py-1.5 border border-slate-300 rounded-lg outline-none text-sm';
+const selectClass = 'w-full px-2 py-1.5 border border-slate-300 rounded-lg outline-none bg-white text-sm';
+
+// Sensible starting value of a condition when its metric changes
+const defaultCondition = (metric: RuleMetric, ticker?: string): RuleCondition => {
+  switch (metric) {
+    case 'MONTH': return { metric, operator: '==', value: 12 };
+    case 'DATE': return { metric, operator: '>=', value: `${new Date().getFullYear()}-01` };
+    case 'PRICE_VS_MA': return { metric, operator: '<', value: 0, ticker: ticker || BASE_TICKER, periodMonths: DEFAULT_MA_PERIOD };
+    case 'DRAWDOWN': return { metric, operator: '>=', value: 20, ticker: ticker || BASE_TICKER };
+    case 'LTV': return { metric, operator: '>', value: 30 };
+    case 'BETA': return { metric, operator: '>', value: 1.5 };
+    case 'CASH_PCT': return { metric, operator: '>', value: 10 };
+    case 'YTD_PROFIT': return { metric, operator: '>', value: 10 };
+  }
+};
+
+const defaultAction = (type: RuleActionType, tickers: string[]): RuleAction => {
+  switch (type) {
+    case 'SET_WEIGHTS': return { type, weights: Object.fromEntries(tickers.map(ticker => [ticker, Math.floor(100 / tickers.length)])) };
+    case 'BUY':
+    case 'SELL': return { type, ticker: tickers[0] || BASE_TICKER, amount: 50, unit: 'PERCENT' };
+    case 'MOVE_TO_CASH': return { type, amount: 100, unit: 'PERCENT' };
+    case 'BORROW': return { type, amount: 10, unit: 'PERCENT' };
+    case 'REPAY': return { type, amount: 100, unit: 'PERCENT' };
+  }
+};
+
+/**
+ * Editor of a RULES profile: a card per rule with its conditions (all must hold) and its actions
+ */
+export const RuleBuilder: React.FC<RuleBuilderProps> = ({ rules, tickers, canBorrow, onChange }) => {
+  const { t } = useTranslation();
+
+  const METRIC_LABELS: Record<RuleMetric, string> = {
+    MONTH: t('ruleMetricMonth'),
+    DATE: t('ruleMetricDate'),
+    PRICE_VS_MA: t('ruleMetricPriceVsMa'),
+    DRAWDOWN: t('ruleMetricDrawdown'),
+    LTV: t('ruleMetricLtv'),
+    BETA: t('ruleMetricBeta'),
+    CASH_PCT: t('ruleMetricCash'),
+    YTD_PROFIT: t('ruleMetricYtdProfit')
+  };
+  const ACTION_LABELS: Record<RuleActionType, string> = {
+    SET_WEIGHTS: t('ruleActionSetWeights'),
+    BUY: t('ruleActionBuy'),
+    SELL: t('ruleActionSell'),
+    MOVE_TO_CASH: t('ruleActionMoveToCash'),
+    BORROW: t('ruleActionBorrow'),
+    REPAY: t('ruleActionRepay')
+  };
+
+  const updateRule = (index: number, updates: Partial<StrategyRule>) =>
+    onChange(rules.map((rule, i) => (i === index ? { ...rule, ...updates } : rule)));
+  const updateCondition = (rule: StrategyRule, ruleIndex: number, index: number, updates: Partial<RuleCondition>) =>
+    updateRule(ruleIndex, { conditions: rule.conditions.map((c, i) => (i === index ? { ...c, ...updates } : c)) });
+  const updateAction = (rule: StrategyRule, ruleIndex: number, index: number, updates: Partial<RuleAction>) =>
+    updateRule(ruleIndex, { actions: rule.actions.map((a, i) => (i === index ? { ...a, ...updates } : a)) });
+
+  const tickerSelect = (value: string | undefined, onSelect: (ticker: string | undefined) => void, allowAll = false) => (
+    <select value={value ?? ''} onChange={(e) => onSelect(e.target.value || undefined)} className={selectClass}>
+      {allowAll && <option value="">{t('ruleAllHoldings')}</option>}
+      {Array.from(new Set([...tickers, ...(value ? [value] : [])])).map(ticker => <option key={ticker} value={ticker}>{ticker}</option>)}
+    </select>
+  );
+
+  return (
+    <div className="space-y-3">
+      {rules.length === 0 && <p className="text-xs text-slate-400 italic">{t('ruleNoRules')}</p>}
+      {rules.map((rule, ruleIndex) => (
+        <div key={ruleIndex} className="p-3 bg-slate-50 rounded-lg border border-slate-200 space-y-2">
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={rule.name}
+              onChange={(e) => updateRule(ruleIndex, { name: e.target.value })}
+              placeholder={t('ruleName')}
+              className={`${inputClass} font-bold`}
+            />
+            <button
+              onClick={() => onChange(rules.filter((_, i) => i !== ruleIndex))}
+              className="p-1.5 text-slate-400 hover:text-red-500 rounded transition-colors"
+              title={t('ruleRemove')}
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+
+          {/* When: every condition must hold */}
+          <label className="text-[10px] text-slate-500 uppercase font-bold">{t('ruleWhen')}</label>
+          {rule.conditions.map((condition, index) => (
+            <div key={index} className="flex items-center gap-1">
+              <select
+                value={condition.metric}
+                onChange={(e) => updateRule(ruleIndex, {
+                  conditions: rule.conditions.map((c, i) => (i === index ? defaultCondition(e.target.value as RuleMetric, c.ticker) : c))
+                })}
+                className={selectClass}
+              >
+                {RULE_METRICS.map(metric => <option key={metric} value={metric}>{METRIC_LABELS[metric]}</option>)}
+              </select>
+              {(condition.metric === 'PRICE_VS_MA' || condition.metric === 'DRAWDOWN') &&
+                tickerSelect(condition.ticker, ticker => updateCondition(rule, ruleIndex, index, { ticker }))}
+              {condition.metric === 'PRICE_VS_MA' && (
+                <input
+                  type="number"
+                  min="1"
+                  value={condition.periodMonths ?? DEFAULT_MA_PERIOD}
+                  onChange={(e) => updateCondition(rule, ruleIndex, index, { periodMonths: Number(e.target.value) })}
+                  className={`${inputClass} w-16`}
+                  title={t('rulePeriod')}
+                />
+              )}
+              <select
+                value={condition.operator}
+                onChange={(e) => updateCondition(rule, ruleIndex, index, { operator: e.target.value as RuleCondition['operator'] })}
+                className={`${selectClass} w-16`}
+              >
+                {RULE_OPERATORS.map(operator => <option key={operator} value={operator}>{operator}</option>)}
+              </select>
+              <input
+                type={condition.metric === 'DATE' ? 'month' : 'number'}
+                value={condition.value}
+                onChange={(e) => updateCondition(rule, ruleIndex, index, { value: condition.metric === 'DATE' ? e.target.value : Number(e.target.value) })}
+                className={inputClass}
+              />
+              <button
+                onClick={() => updateRule(ruleIndex, { conditions: rule.conditions.filter((_, i) => i !== index) })}
+                className="p-1 text-slate-400 hover:text-red-500"
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => updateRule(ruleIndex, { conditions: [...rule.conditions, defaultCondition('DRAWDOWN')] })}
+            className="flex items-center gap-1 text-xs font-bold text-blue-600 hover:text-blue-700"
+          >
+            <Plus className="w-3.5 h-3.5" /> {t('ruleAddCondition')}
+          </button>
+
+          {/* Then: actions applied in order */}
+          <label className="block text-[10px] text-slate-500 uppercase font-bold">{t('ruleThen')}</label>
+          {rule.actions.map((action, index) => (
+            <div key={index} className="flex items-start gap-1">
+              <select
+                value={action.type}
+                onChange={(e) => updateRule(ruleIndex, {
+                  actions: rule.actions.map((a, i) => (i === index ? defaultAction(e.target.value as RuleActionType, tickers) : a))
+                })}
+                className={selectClass}
+              >
+                {RULE_ACTIONS.filter(type => type !== 'BORROW' || canBorrow || action.type === 'BORROW').map(type => <option key={type} value={type}>{ACTION_LABELS[type]}</option>)}
+              </select>
+              {action.type === 'SET_WEIGHTS' ? (
+                <div className="grid grid-cols-2 gap-1 w-full">
+                  {Array.from(new Set([...tickers, ...Object.keys(action.weights || {})])).map(ticker => (
+                    <div key={ticker} className="flex items-center gap-1">
+                      <span className="text-xs font-bold text-slate-600 w-12 truncate">{ticker}</span>
+                      <input
+                        type="number"
+                        min="0"
+                        max="100"
+                        value={action.weights?.[ticker] ?? 0}
+                        onChange={(e) => updateAction(rule, ruleIndex, index, { weights: { ...action.weights, [ticker]: Number(e.target.value) } })}
+                        className={inputClass}
+                      />
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <>
+                  {(action.type === 'BUY' || action.type === 'SELL') &&
+                    tickerSelect(action.ticker, ticker => updateAction(rule, ruleIndex, index, { ticker }))}
+                  {action.type === 'MOVE_TO_CASH' &&
+                    tickerSelect(action.ticker, ticker => updateAction(rule, ruleIndex, index, { ticker }), true)}
+                  <input
+                    type="number"
+                    min="0"
+                    value={action.amount ?? 0}
+                    onChange={(e) => updateAction(rule, ruleIndex, index, { amount: Number(e.target.value) })}
+                    className={inputClass}
+                  />
+                  <select
+                    value={action.unit ?? 'PERCENT'}
+                    onChange={(e) => updateAction(rule, ruleIndex, index, { unit: e.target.value as RuleAction['unit'] })}
+                    className={`${selectClass} w-20`}
+                  >
+                    <option value="PERCENT">%</option>
+                    <option value="AMOUNT">{t('ruleUnitAmount')}</option>
+                  </select>
+                </>
+              )}
+              <button
+                onClick={() => updateRule(ruleIndex, { actions: rule.actions.filter((_, i) => i !== index) })}
+                className="p-1 text-slate-400 hover:text-red-500 mt-1.5"
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+          {!canBorrow && rule.actions.some(action => action.type === 'BORROW') && (
+            <p className="text-[10px] text-amber-600 leading-tight">{t('ruleBorrowNeedsLeverage')}</p>
+          )}
+          <button
+            onClick={() => updateRule(ruleIndex, { actions: [...rule.actions, defaultAction('BUY', tickers)] })}
+            className="flex items-center gap-1 text-xs font-bold text-blue-600 hover:text-blue-700"
+          >
+            <Plus className="w-3.5 h-3.5" /> {t('ruleAddAction')}
+          </button>
+
+          <label className="flex items-center gap-2 text-xs font-medium text-slate-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={!!rule.onlyOnEntry}
+              onChange={(e) => updateRule(ruleIndex, { onlyOnEntry: e.target.checked })}
+              className="rounded border-slate-300 text-blue-600"
+            />
+            {t('ruleOnlyOnEntry')}
+          </label>
+        </div>
+      ))}
+      <button
+        onClick={() => onChange([...rules, { name: `${t('ruleDefaultName')} ${rules.length + 1}`, conditions: [defaultCondition('DRAWDOWN')], actions: [defaultAction('BUY', tickers)], onlyOnEntry: true }])}
+        className="w-full py-2 border border-dashed border-slate-300 rounded-lg text-slate-500 text-xs font-semibold flex items-center justify-center gap-1 hover:border-blue-400 hover:text-blue-500 transition-colors"
+      >
+        <Plus className="w-3.5 h-3.5" /> {t('ruleAddRule')}
+      </button>
+    </div>
+  );
+};
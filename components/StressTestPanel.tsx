@@ -0,0 +1,354 @@
+import React, { useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { Flame, Play, Plus, Trash2, CheckCircle2, XCircle } from 'lucide-react';
+import { DataFrequency, MarketDataRow, Profile, SimulationResult } from '../types';
+import { useTranslation } from '../services/i18n';
+import { convertToBaseCurrency, formatMoney, formatMoneyAxis, getBaseCurrency } from '../services/currency';
+import {
+  BUILT_IN_SCENARIOS,
+  parseScenarioReturns,
+  replayStressScenario,
+  snapshotFromState,
+  StressReplayResult,
+  StressScenario,
+  StressSnapshot
+} from '../services/stressScenarios';
+
+interface StressTestPanelProps {
+  profiles: Profile[];
+  results: SimulationResult[];
+  getProfileData: (profile: Profile) => { data: MarketDataRow[]; error?: string };
+  marketData: MarketDataRow[];
+  availableTickers: string[];
+  frequency?: DataFrequency;
+}
+
+const MANUAL_SOURCE = 'MANUAL';
+
+
+export const StressTestPanel: React.FC<StressTestPanelProps> = ({ profiles, results, getProfileData, marketData, availableTickers, frequency }) => {
+  const { t } = useTranslation();
+  const [source, setSource] = useState<string>(profiles[0]?.id ?? MANUAL_SOURCE);
+  // Leverage rules (interest, withdrawals, max LTV) for a hand-entered book
+  const [rulesProfileId, setRulesProfileId] = useState<string>(profiles[0]?.id ?? '');
+  const [manualHoldings, setManualHoldings] = useState<Record<string, number>>({});
+  const [manualCash, setManualCash] = useState(0);
+  const [manualDebt, setManualDebt] = useState(0);
+
+  const [customScenarios, setCustomScenarios] = useState<StressScenario[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>(BUILT_IN_SCENARIOS.map(s => s.id));
+  const [draft, setDraft] = useState({ name: '', mode: 'HISTORICAL' as 'HISTORICAL' | 'HYPOTHETICAL', start: '', end: '', returns: '' });
+  const [draftError, setDraftError] = useState<string | null>(null);
+
+  const [replays, setReplays] = useState<StressReplayResult[]>([]);
+  const [replayCurrency, setReplayCurrency] = useState('USD'); // Base currency of the rules profile
+  const [runError, setRunError] = useState<string | null>(null);
+  const [detailId, setDetailId] = useState<string | null>(null);
+
+  const scenarios = [...BUILT_IN_SCENARIOS, ...customScenarios];
+
+  const toggleScenario = (id: string) =>
+    setSelectedIds(prev => (prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]));
+
+  const handleAddScenario = () => {
+    const name = draft.name.trim() || t('stressCustomScenario');
+    const id = `custom-${Date.now()}`;
+    let scenario: StressScenario;
+    if (draft.mode === 'HISTORICAL') {
+      if (!draft.start || !draft.end || draft.start > draft.end) {
+        setDraftError(t('stressInvalidRange'));
+        return;
+      }
+      scenario = { id, name, isBuiltIn: false, start: draft.start, end: draft.end };
+    } else {
+      try {
+        scenario = { id, name, isBuiltIn: false, returns: parseScenarioReturns(draft.returns) };
+      } catch (err) {
+        setDraftError((err as Error).message);
+        return;
+      }
+    }
+    setCustomScenarios(prev => [...prev, scenario]);
+    setSelectedIds(prev => [...prev, id]);
+    setDraft({ name: '', mode: draft.mode, start: '', end: '', returns: '' });
+    setDraftError(null);
+  };
+
+  const handleRemoveScenario = (id: string) => {
+    setCustomScenarios(prev => prev.filter(s => s.id !== id));
+    setSelectedIds(prev => prev.filter(x => x !== id));
+  };
+
+  const handleRun = () => {
+    let snapshot: StressSnapshot;
+    let rulesProfile: Profile | undefined;
+
+    if (source === MANUAL_SOURCE) {
+      rulesProfile = profiles.find(p => p.id === rulesProfileId);
+      snapshot = {
+        date: `${new Date().toISOString().substring(0, 7)}-01`,
+        holdings: Object.fromEntries(Object.entries(manualHoldings).filter(([, v]) => v > 0)),
+        cashBalance: manualCash,
+        debtBalance: manualDebt,
+        accruedInterest: 0
+      };
+    } else {
+      // A profile's book as it stands at the end of the last simulation run
+      rulesProfile = profiles.find(p => p.id === source);
+      const result = results.find(r => r.profileId === source);
+      const data = rulesProfile ? getProfileData(rulesProfile).data : [];
+      if (!result || data.length === 0) {
+        setRunError(t('stressNoResult'));
+        setReplays([]);
+        return;
+      }
+      snapshot = snapshotFromState(result.history[result.history.length - 1], data[data.length - 1]);
+    }
+
+    if (!rulesProfile) {
+      setRunError(t('stressNoRules'));
+      setReplays([]);
+      return;
+    }
+
+    // Historical paths replay the prices in the rules profile's currency, FX moves included
+    const currency = getBaseCurrency(rulesProfile.config);
+    const scenarioData = convertToBaseCurrency(marketData, currency);
+    const newReplays = scenarios
+      .filter(s => selectedIds.includes(s.id))
+      .map(s => replayStressScenario(snapshot, s, scenarioData, rulesProfile!.config, frequency));
+    setReplays(newReplays);
+    setReplayCurrency(currency);
+    setRunError(null);
+    setDetailId(prev => (newReplays.some(r => r.scenarioId === prev && !r.error) ? prev : newReplays.find(r => !r.error)?.scenarioId ?? null));
+  };
+
+  const detail = replays.find(r => r.scenarioId === detailId);
+
+  return (
+    <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm space-y-6">
+      <div>
+        <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+          <Flame className="w-5 h-5 text-red-500" /> {t('stressTest')}
+        </h3>
+        <p className="text-sm text-slate-500">{t('stressTestDesc')}</p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Portfolio state to stress */}
+        <div className="space-y-3">
+          <h4 className="font-bold text-sm text-slate-700">{t('stressPortfolio')}</h4>
+          <select
+            value={source}
+            onChange={(e) => setSource(e.target.value)}
+            className="w-full text-sm border border-slate-200 rounded-lg px-2 py-1.5 bg-white"
+          >
+            {profiles.map(p => (
+              <option key={p.id} value={p.id}>{t('stressFinalStateOf').replace('{name}', p.name)}</option>
+            ))}
+            <option value={MANUAL_SOURCE}>{t('stressManualSnapshot')}</option>
+          </select>
+
+          {source === MANUAL_SOURCE && (
+            <div className="space-y-2 bg-slate-50 border border-slate-100 rounded-lg p-3 text-xs">
+              <label className="flex items-center justify-between gap-2 text-slate-600">
+                {t('stressLeverageRules')}
+                <select
+                  value={rulesProfileId}
+                  onChange={(e) => setRulesProfileId(e.target.value)}
+                  className="text-xs border border-slate-200 rounded px-2 py-1 bg-white"
+                >
+                  {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                </select>
+              </label>
+              {availableTickers.map(ticker => (
+                <label key={ticker} className="flex items-center justify-between gap-2 text-slate-600">
+                  <span className="font-mono">{ticker}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={manualHoldings[ticker] ?? 0}
+                    onChange={(e) => setManualHoldings(prev => ({ ...prev, [ticker]: Number(e.target.value) || 0 }))}
+                    className="w-32 text-right border border-slate-200 rounded px-2 py-1"
+                  />
+                </label>
+              ))}
+              <label className="flex items-center justify-between gap-2 text-slate-600">
+                {t('stressCash')}
+                <input type="number" min={0} value={manualCash} onChange={(e) => setManualCash(Number(e.target.value) || 0)} className="w-32 text-right border border-slate-200 rounded px-2 py-1" />
+              </label>
+              <label className="flex items-center justify-between gap-2 text-slate-600">
+                {t('stressDebt')}
+                <input type="number" min={0} value={manualDebt} onChange={(e) => setManualDebt(Number(e.target.value) || 0)} className="w-32 text-right border border-slate-200 rounded px-2 py-1" />
+              </label>
+            </div>
+          )}
+        </div>
+
+        {/* Scenario library */}
+        <div className="space-y-3">
+          <h4 className="font-bold text-sm text-slate-700">{t('stressScenarios')}</h4>
+          <ul className="space-y-1 text-sm">
+            {scenarios.map(s => (
+              <li key={s.id} className="flex items-center justify-between gap-2">
+                <label className="flex items-center gap-2 text-slate-700 cursor-pointer">
+                  <input type="checkbox" checked={selectedIds.includes(s.id)} onChange={() => toggleScenario(s.id)} />
+                  {s.name}
+                  <span className="text-xs text-slate-400 font-mono">
+                    {s.returns ? Object.keys(s.returns).join(', ') : `${s.start} – ${s.end}`}
+                  </span>
+                </label>
+                {!s.isBuiltIn && (
+                  <button onClick={() => handleRemoveScenario(s.id)} className="text-slate-400 hover:text-red-600 p-1">
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          <details className="text-xs border border-slate-100 rounded-lg">
+            <summary className="p-2 cursor-pointer font-medium text-slate-600">{t('stressAddScenario')}</summary>
+            <div className="p-2 pt-0 space-y-2">
+              <input
+                type="text"
+                placeholder={t('stressScenarioName')}
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                className="w-full border border-slate-200 rounded px-2 py-1"
+              />
+              <div className="flex gap-3 text-slate-600">
+                <label className="flex items-center gap-1">
+                  <input type="radio" checked={draft.mode === 'HISTORICAL'} onChange={() => setDraft({ ...draft, mode: 'HISTORICAL' })} />
+                  {t('stressHistorical')}
+                </label>
+                <label className="flex items-center gap-1">
+                  <input type="radio" checked={draft.mode === 'HYPOTHETICAL'} onChange={() => setDraft({ ...draft, mode: 'HYPOTHETICAL' })} />
+                  {t('stressHypothetical')}
+                </label>
+              </div>
+              {draft.mode === 'HISTORICAL' ? (
+                <div className="flex items-center gap-2">
+                  <input type="month" value={draft.start} onChange={(e) => setDraft({ ...draft, start: e.target.value })} className="border border-slate-200 rounded px-2 py-1" />
+                  <span>–</span>
+                  <input type="month" value={draft.end} onChange={(e) => setDraft({ ...draft, end: e.target.value })} className="border border-slate-200 rounded px-2 py-1" />
+                </div>
+              ) : (
+                <textarea
+                  rows={3}
+                  placeholder={'QQQ: -10, -25, 5\nQLD: -20, -45, 9'}
+                  value={draft.returns}
+                  onChange={(e) => setDraft({ ...draft, returns: e.target.value })}
+                  className="w-full font-mono border border-slate-200 rounded px-2 py-1"
+                />
+              )}
+              {draft.mode === 'HYPOTHETICAL' && <p className="text-slate-400">{t('stressReturnsHint')}</p>}
+              {draftError && <p className="text-red-600">{draftError}</p>}
+              <button onClick={handleAddScenario} className="flex items-center gap-1 px-3 py-1.5 rounded bg-slate-800 text-white font-medium hover:bg-slate-700">
+                <Plus className="w-3 h-3" /> {t('stressAddScenario')}
+              </button>
+            </div>
+          </details>
+        </div>
+      </div>
+
+      <button
+        onClick={handleRun}
+        disabled={selectedIds.length === 0}
+        className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold transition-all ${selectedIds.length === 0
+          ? 'bg-slate-100 text-slate-400 cursor-not-allowed'
+          : 'bg-blue-600 text-white hover:bg-blue-700 shadow-sm hover:shadow-md'
+          }`}
+      >
+        <Play className="w-4 h-4" /> {t('runStressTest')}
+      </button>
+
+      {runError && <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg p-3">{runError}</p>}
+
+      {replays.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="text-xs text-slate-500 uppercase bg-slate-50">
+              <tr>
+                <th className="px-4 py-3">{t('stressScenario')}</th>
+                <th className="px-4 py-3">{t('stressOutcome')}</th>
+                <th className="px-4 py-3 text-right">{t('stressStartEquity')}</th>
+                <th className="px-4 py-3 text-right">{t('stressMinEquity')}</th>
+                <th className="px-4 py-3 text-right">{t('stressEndEquity')}</th>
+                <th className="px-4 py-3 text-right">{t('col_maxDD')}</th>
+                <th className="px-4 py-3 text-right">{t('stressPeakLtv')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {replays.map(r => (
+                <tr
+                  key={r.scenarioId}
+                  onClick={() => !r.error && setDetailId(r.scenarioId)}
+                  className={`${r.error ? '' : 'cursor-pointer'} ${r.scenarioId === detailId ? 'bg-blue-50' : 'hover:bg-slate-50'}`}
+                >
+                  <td className="px-4 py-3 font-medium text-slate-800">{r.scenarioName}</td>
+                  {r.error ? (
+                    <td colSpan={6} className="px-4 py-3 text-xs text-slate-400 italic">{r.error}</td>
+                  ) : (
+                    <>
+                      <td className="px-4 py-3">
+                        {r.survived ? (
+                          <span className="flex items-center gap-1 text-green-700"><CheckCircle2 className="w-4 h-4" /> {t('stressSurvived')}</span>
+                        ) : (
+                          <span className="flex items-center gap-1 text-red-600 font-bold"><XCircle className="w-4 h-4" /> {t('stressLiquidated')} {r.liquidationDate?.substring(0, 7)}</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-right font-mono">{formatMoney(r.startEquity, replayCurrency)}</td>
+                      <td className="px-4 py-3 text-right font-mono">{formatMoney(r.minEquity, replayCurrency)}</td>
+                      <td className="px-4 py-3 text-right font-mono">{formatMoney(r.endEquity, replayCurrency)}</td>
+                      <td className="px-4 py-3 text-right font-mono">{r.maxDrawdown.toFixed(2)}%</td>
+                      <td className="px-4 py-3 text-right font-mono">{r.peakLtv >= 9999 ? '∞' : `${r.peakLtv.toFixed(1)}%`}</td>
+                    </>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {detail && detail.path.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <h4 className="font-bold text-sm text-slate-700 mb-2">{detail.scenarioName}: {t('stressEquityPath')}</h4>
+            <div className="h-[260px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={detail.path}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+                  <XAxis dataKey="date" tick={{ fontSize: 11 }} tickFormatter={(val) => val.substring(0, 7)} stroke="#94a3b8" minTickGap={30} />
+                  <YAxis tick={{ fontSize: 11 }} stroke="#94a3b8" tickFormatter={(val) => formatMoneyAxis(val, replayCurrency)} />
+                  <Tooltip formatter={(val: number) => formatMoney(val, replayCurrency)} />
+                  <Line type="monotone" dataKey="equity" name={t('stressEquity')} stroke="#2563eb" strokeWidth={2} dot={false} />
+                  <Line type="monotone" dataKey="debt" name={t('stressDebt')} stroke="#dc2626" strokeWidth={1.5} strokeDasharray="4 4" dot={false} />
+                  <Legend />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+          <div>
+            <h4 className="font-bold text-sm text-slate-700 mb-2">{detail.scenarioName}: {t('stressRiskPath')}</h4>
+            <div className="h-[260px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={detail.path}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+                  <XAxis dataKey="date" tick={{ fontSize: 11 }} tickFormatter={(val) => val.substring(0, 7)} stroke="#94a3b8" minTickGap={30} />
+                  <YAxis yAxisId="ltv" tick={{ fontSize: 11 }} stroke="#94a3b8" unit="%" />
+                  <YAxis yAxisId="beta" orientation="right" tick={{ fontSize: 11 }} stroke="#7c3aed" />
+                  <Tooltip formatter={(val: number) => val.toFixed(2)} />
+                  <Line yAxisId="ltv" type="monotone" dataKey="ltv" name="LTV %" stroke="#ea580c" strokeWidth={2} dot={false} />
+                  <Line yAxisId="beta" type="monotone" dataKey="beta" name="Beta" stroke="#7c3aed" strokeWidth={2} dot={false} />
+                  <Legend />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,8 @@
-import { MarketDataRow } from "./types";
+import { MarketDataRow, PriceSeriesMap } from "./types";
+import { buildMarketData } from "./services/marketDataImport";
+import { QLD_INCEPTION_DATE } from "./services/syntheticSeries";
 
-const RAW_DATA = {
+export const RAW_DATA: PriceSeriesMap = {
   qqq: [
     { date: "2000-03-01", adjClose: 92.96 },
     { date: "2000-04-01", adjClose: 80.43 },
@@ -625,15 +627,4 @@ const RAW_DATA = {
   ]
 };
 
-export const MARKET_DATA: MarketDataRow[] = (() => {
-  const qqqMap = new Map(RAW_DATA.qqq.map((item: any) => [item.date, item.adjClose]));
-  const qldMap = new Map(RAW_DATA.qld.map((item: any) => [item.date, item.adjClose]));
-  
-  const dates = Array.from(new Set([...qqqMap.keys(), ...qldMap.keys()])).sort();
-  
-  return dates.map(date => ({
-    date,
-    qqq: qqqMap.get(date) || 0,
-    qld: qldMap.get(date) || 0
-  })).filter(row => row.qqq > 0 && row.qld > 0);
-})();
\ No newline at end of file
+export const MARKET_DATA: MarketDataRow[] = buildMarketData(RAW_DATA, { QLD: QLD_INCEPTION_DATE }).data;
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getPortfolioAssets,
+  getAssetPrice,
+  getHoldingsValue,
+  getLeveragedAsset,
+  getAvailableTickers,
+  filterRowsWithTickers
+} from '../assetUniverse';
+import { AssetConfig, MarketDataRow } from '../../types';
+
+const legacyConfig: AssetConfig = {
+  initialCapital: 10000,
+  contributionAmount: 0,
+  contributionIntervalMonths: 1,
+  yearlyContributionMonth: 12,
+  qqqWeight: 60,
+  qldWeight: 30,
+  contributionQqqWeight: 100,
+  contributionQldWeight: 0,
+  cashYieldAnnual: 0,
+  leverage: {
+    enabled: false,
+    interestRate: 0,
+    qqqPledgeRatio: 0.6,
+    qldPledgeRatio: 0.1,
+    cashPledgeRatio: 0.95,
+    maxLtv: 100,
+    withdrawType: 'PERCENT',
+    withdrawValue: 0,
+    inflationRate: 0,
+    interestType: 'CAPITALIZED',
+    ltvBasis: 'TOTAL_ASSETS'
+  }
+};
+
+const rows: MarketDataRow[] = [
+  { date: '2020-01-01', prices: { QQQ: 100, QLD: 50 } },
+  { date: '2020-02-01', prices: { QQQ: 110, QLD: 60, TQQQ: 20 } }
+];
+
+describe('assetUniverse', () => {
+  it('should map legacy qqq/qld fields onto an asset list', () => {
+    expect(getPortfolioAssets(legacyConfig)).toEqual([
+      { ticker: 'QQQ', weight: 60, contributionWeight: 100, pledgeRatio: 0.6, beta: 1 },
+      { ticker: 'QLD', weight: 30, contributionWeight: 0, pledgeRatio: 0.1, beta: 2 }
+    ]);
+  });
+
+  it('should prefer the explicit asset list', () => {
+    const assets = [{ ticker: 'TQQQ', weight: 100, contributionWeight: 100, pledgeRatio: 0, beta: 3 }];
+    expect(getPortfolioAssets({ ...legacyConfig, assets })).toBe(assets);
+    expect(getLeveragedAsset([...getPortfolioAssets(legacyConfig), ...assets])?.ticker).toBe('TQQQ');
+  });
+
+  it('should read prices from dedicated fields and the prices map', () => {
+    expect(getAssetPrice(rows[1], 'QQQ')).toBe(110);
+    expect(getAssetPrice(rows[1], 'QLD')).toBe(60);
+    expect(getAssetPrice(rows[1], 'TQQQ')).toBe(20);
+    expect(getAssetPrice(rows[0], 'TQQQ')).toBe(0);
+    expect(getHoldingsValue({ QQQ: 1, TQQQ: 2 }, rows[1])).toBe(150);
+  });
+
+  it('should list tickers and trim rows to their coverage', () => {
+    expect(getAvailableTickers(rows)).toEqual(['QQQ', 'QLD', 'TQQQ']);
+    expect(filterRowsWithTickers(rows, ['QQQ', 'TQQQ']).map(r => r.date)).toEqual(['2020-02-01']);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { attributeFxReturn, convertToBaseCurrency, formatMoney, freezeFxRate, parseFxSeriesName } from '../currency';
+import { runBacktest } from '../simulationEngine';
+import { strategyNoRebalance } from '../strategies';
+import { AssetConfig, MarketDataRow } from '../../types';
+
+const createConfig = (): AssetConfig => ({
+  initialCapital: 10000,
+  contributionAmount: 0,
+  contributionIntervalMonths: 1,
+  yearlyContributionMonth: 12,
+  baseCurrency: 'EUR',
+  qqqWeight: 100,
+  qldWeight: 0,
+  contributionQqqWeight: 100,
+  contributionQldWeight: 0,
+  cashYieldAnnual: 0,
+  leverage: {
+    enabled: false,
+    interestRate: 0,
+    qqqPledgeRatio: 0.7,
+    qldPledgeRatio: 0.0,
+    cashPledgeRatio: 0.95,
+    maxLtv: 100,
+    withdrawType: 'PERCENT',
+    withdrawValue: 0,
+    inflationRate: 0,
+    interestType: 'CAPITALIZED',
+    ltvBasis: 'TOTAL_ASSETS'
+  }
+});
+
+// Monthly rows from 2020-01 with the given USD/EUR rate per month
+const generateRows = (eurRates: (number | undefined)[], qqq: (i: number) => number = () => 100): MarketDataRow[] =>
+  eurRates.map((rate, i) => ({
+    date: `${2020 + Math.floor(i / 12)}-${String((i % 12) + 1).padStart(2, '0')}-01`,
+    prices: { QQQ: qqq(i), QLD: 50, TQQQ: 20 },
+    ...(rate !== undefined && { fxRates: { EUR: rate } })
+  }));
+
+describe('currency', () => {
+  it('should recognize FX series names', () => {
+    expect(parseFxSeriesName('USDEUR')).toBe('EUR');
+    expect(parseFxSeriesName('usdtwd')).toBe('TWD');
+    expect(parseFxSeriesName('USDUSD')).toBeNull();
+    expect(parseFxSeriesName('QQQ')).toBeNull();
+    expect(parseFxSeriesName('USD')).toBeNull();
+  });
+
+  it('should convert every price and drop rows without a rate', () => {
+    const rows = convertToBaseCurrency(generateRows([undefined, 0.9, 0.8]), 'EUR');
+    expect(rows.map(r => r.date)).toEqual(['2020-02-01', '2020-03-01']);
+    expect(rows[0]).toMatchObject({ prices: { QQQ: 90, QLD: 45, TQQQ: 18 }, fxRate: 0.9 });
+    expect(rows[1].prices.QQQ).toBeCloseTo(80);
+  });
+
+  it('should leave USD data untouched', () => {
+    const data = generateRows([1, 1]);
+    expect(convertToBaseCurrency(data, 'USD')).toBe(data);
+  });
+
+  it('should freeze the exchange rate at its first value', () => {
+    const rows = freezeFxRate(convertToBaseCurrency(generateRows([0.8, 1.0, 1.2], i => 100 + 10 * i), 'EUR'));
+    [80, 88, 96].forEach((price, i) => expect(rows[i].prices.QQQ).toBeCloseTo(price));
+    expect(rows.every(r => r.fxRate === 0.8)).toBe(true);
+  });
+
+  it('should split the base-currency return into asset and FX parts', () => {
+    // QQQ gains 5% a year in USD, the USD gains 10% a year against the EUR
+    const rates = Array.from({ length: 25 }, (_, i) => Math.pow(1.1, i / 12));
+    const data = convertToBaseCurrency(generateRows(rates, i => 100 * Math.pow(1.05, i / 12)), 'EUR');
+    const config = createConfig();
+    const result = runBacktest(data, strategyNoRebalance, config, 'EUR');
+    const hedged = runBacktest(freezeFxRate(data), strategyNoRebalance, config, 'EUR');
+    const fx = attributeFxReturn(result, hedged, data);
+
+    expect(result.currency).toBe('EUR');
+    // Two years of returns, annualized over the 25 months the run covers
+    expect(fx.localCagr).toBeCloseTo((Math.pow(1.05 * 1.05, 12 / 25) - 1) * 100);
+    expect(fx.fxCagr).toBeCloseTo((Math.pow(1.1 * 1.1, 12 / 25) - 1) * 100);
+    expect((1 + result.metrics.cagr / 100) / (1 + fx.localCagr / 100)).toBeCloseTo(1 + fx.fxCagr / 100);
+    expect(fx.fxChange).toBeCloseTo(21);
+    expect(fx.localFinalBalance).toBeCloseTo(hedged.metrics.finalBalance);
+  });
+
+  it('should format amounts with the currency symbol', () => {
+    expect(formatMoney(1234.5, 'USD')).toContain('$');
+    expect(formatMoney(1234.5, 'EUR')).toContain('€');
+    expect(formatMoney(1234.56, 'USD', 2)).toContain('1,234.56');
+  });
+});
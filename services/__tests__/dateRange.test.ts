@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { getEffectiveRange, resolveDateRange, sliceByDateRange } from '../dateRange';
+import { runBacktest } from '../simulationEngine';
+import { strategyNoRebalance } from '../strategies';
+import { AssetConfig, MarketDataRow } from '../../types';
+
+// QQQ flat through 2008, then +1% per month
+const data: MarketDataRow[] = Array.from({ length: 72 }, (_, i) => {
+  const date = new Date(Date.UTC(2006, i, 1)).toISOString().substring(0, 10);
+  const qqq = i < 36 ? 100 : 100 * Math.pow(1.01, i - 35);
+  return { date, prices: { QQQ: qqq, QLD: qqq } };
+});
+
+const config: AssetConfig = {
+  initialCapital: 10000,
+  contributionAmount: 0,
+  contributionIntervalMonths: 1,
+  yearlyContributionMonth: 12,
+  qqqWeight: 100,
+  qldWeight: 0,
+  contributionQqqWeight: 100,
+  contributionQldWeight: 0,
+  cashYieldAnnual: 0,
+  leverage: {
+    enabled: false,
+    interestRate: 0,
+    qqqPledgeRatio: 0.7,
+    qldPledgeRatio: 0,
+    cashPledgeRatio: 0.95,
+    maxLtv: 100,
+    withdrawType: 'PERCENT',
+    withdrawValue: 0,
+    inflationRate: 0,
+    interestType: 'CAPITALIZED',
+    ltvBasis: 'TOTAL_ASSETS'
+  }
+};
+
+describe('dateRange', () => {
+  it('should prefer profile bounds and fall back to the global ones', () => {
+    expect(resolveDateRange({ start: '2006-01', end: '2010-12' }, { start: '2009-01' })).toEqual({ start: '2009-01', end: '2010-12' });
+    expect(resolveDateRange({ start: '2006-01' })).toEqual({ start: '2006-01', end: undefined });
+  });
+
+  it('should slice inclusively by month', () => {
+    const rows = sliceByDateRange(data, { start: '2009-01', end: '2009-12' });
+    expect(rows).toHaveLength(12);
+    expect(getEffectiveRange(data, { end: '2006-03' })).toEqual({ start: '2006-01', end: '2006-03' });
+    expect(getEffectiveRange(data, { start: '2030-01' })).toBeNull();
+  });
+
+  it('should compute metrics on the selected window only', () => {
+    const full = runBacktest(data, strategyNoRebalance, config, 'Full');
+    const from2009 = runBacktest(sliceByDateRange(data, { start: '2009-01' }), strategyNoRebalance, config, 'From 2009');
+
+    expect(from2009.history[0].date).toBe('2009-01-01');
+    expect(from2009.history).toHaveLength(36);
+    // 35 monthly steps of +1% over a 3-year window
+    expect(from2009.metrics.finalBalance).toBeCloseTo(10000 * Math.pow(1.01, 35));
+    expect(from2009.metrics.cagr).toBeCloseTo((Math.pow(Math.pow(1.01, 35), 1 / 3) - 1) * 100);
+    expect(from2009.metrics.cagr).toBeGreaterThan(full.metrics.cagr);
+  });
+});
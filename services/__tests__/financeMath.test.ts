@@ -5,7 +5,12 @@ import {
   calculateSharpeRatio,
   calculateIRR,
   calculateRealValue,
-  calculateMaxRecoveryTime
+  calculateMaxRecoveryTime,
+  calculatePercentile,
+  summarizeDistribution,
+  buildPercentileBands,
+  calculateVolatility,
+  calculateCashFlowIRR
 } from '../financeMath';
 import { PortfolioState } from '../../types';
 
@@ -71,6 +76,28 @@ describe('financeMath', () => {
       // Returns: 0.1, -0.1. Avg = 0. StdDev > 0. Sharpe should be 0 (if RiskFree=0)
       expect(calculateSharpeRatio(historyVolatile)).toBeCloseTo(0);
     });
+
+    it('should accept one risk-free rate per period', () => {
+      const history = [
+        { totalValue: 100 },
+        { totalValue: 110 },
+        { totalValue: 99 },
+        { totalValue: 108.9 },
+      ] as PortfolioState[];
+      expect(calculateSharpeRatio(history, [2, 4, 6])).toBeCloseTo(calculateSharpeRatio(history, 4));
+    });
+  });
+
+  describe('calculateVolatility', () => {
+    it('annualizes the standard deviation of monthly returns', () => {
+      // +/-10% alternating: monthly std 10% -> 10% x sqrt(12)
+      expect(calculateVolatility([0.1, -0.1, 0.1, -0.1])).toBeCloseTo(10 * Math.sqrt(12));
+    });
+
+    it('is 0 for constant or too few returns', () => {
+      expect(calculateVolatility([0.01, 0.01, 0.01])).toBe(0);
+      expect(calculateVolatility([0.05])).toBe(0);
+    });
   });
 
   describe('calculateIRR', () => {
@@ -89,6 +116,21 @@ describe('financeMath', () => {
     });
   });
 
+  describe('calculateCashFlowIRR', () => {
+    it('should match the fixed-contribution IRR on the same flows', () => {
+      const flows = [1000, ...Array(11).fill(100)];
+      expect(calculateCashFlowIRR(flows, 2500, 12)).toBeCloseTo(calculateIRR(1000, 100, 1, 2500, 12));
+    });
+
+    it('should handle uneven contributions and withdrawals', () => {
+      // 100 in, 50 more in month 6, 60 taken out in month 9: ending with exactly what went in nets 0%
+      const flows: number[] = [100];
+      flows[6] = 50;
+      flows[9] = -60;
+      expect(calculateCashFlowIRR(flows, 90, 12)).toBeCloseTo(0, 4);
+    });
+  });
+
   describe('calculateRealValue', () => {
     it('should adjust for inflation', () => {
       // 100, 10% inflation, 1 year -> 100 / 1.1 = 90.909
@@ -107,4 +149,40 @@ describe('financeMath', () => {
       expect(calculateMaxRecoveryTime(history)).toBe(2);
     });
   });
+
+  describe('calculatePercentile', () => {
+    it('should interpolate between ranks', () => {
+      const values = [40, 10, 30, 20, 50];
+      expect(calculatePercentile(values, 0)).toBe(10);
+      expect(calculatePercentile(values, 50)).toBe(30);
+      expect(calculatePercentile(values, 100)).toBe(50);
+      expect(calculatePercentile(values, 10)).toBeCloseTo(14);
+    });
+
+    it('should return 0 for an empty sample', () => {
+      expect(calculatePercentile([], 50)).toBe(0);
+    });
+  });
+
+  describe('summarizeDistribution', () => {
+    it('should report percentiles, extremes and mean', () => {
+      const summary = summarizeDistribution([1, 2, 3, 4, 5]);
+      expect(summary.p50).toBe(3);
+      expect(summary.min).toBe(1);
+      expect(summary.max).toBe(5);
+      expect(summary.mean).toBe(3);
+    });
+
+    it('should summarize an empty sample as zeros', () => {
+      expect(summarizeDistribution([]).p50).toBe(0);
+    });
+  });
+
+  describe('buildPercentileBands', () => {
+    it('should number bands by month from 1', () => {
+      const bands = buildPercentileBands([[100, 200], [110, 220]]);
+      expect(bands.map(b => b.month)).toEqual([1, 2]);
+      expect(bands[1].p50).toBe(165);
+    });
+  });
 });
@@ -0,0 +1,204 @@
+import { describe, it, expect } from 'vitest';
+import {
+  normalizeMonthDate,
+  normalizeDayDate,
+  parseCsvPriceFile,
+  parseJsonPriceFile,
+  importPriceFiles,
+  buildMarketData
+} from '../marketDataImport';
+
+describe('marketDataImport', () => {
+  describe('normalizeMonthDate', () => {
+    it('should map any day of the month to the first', () => {
+      expect(normalizeMonthDate('2020-01-31')).toBe('2020-01-01');
+      expect(normalizeMonthDate('2020/3/15')).toBe('2020-03-01');
+      expect(normalizeMonthDate('2020-12')).toBe('2020-12-01');
+    });
+
+    it('should reject invalid dates', () => {
+      expect(normalizeMonthDate('2020-13-01')).toBeNull();
+      expect(normalizeMonthDate('01/02/2020')).toBeNull();
+      expect(normalizeMonthDate('')).toBeNull();
+    });
+  });
+
+  describe('normalizeDayDate', () => {
+    it('should keep the day and require a valid calendar date', () => {
+      expect(normalizeDayDate('2020/3/5')).toBe('2020-03-05');
+      expect(normalizeDayDate('2020-01-31T16:00:00')).toBe('2020-01-31');
+      expect(normalizeDayDate('2021-02-30')).toBeNull();
+      expect(normalizeDayDate('2020-12')).toBeNull();
+    });
+  });
+
+  describe('parseCsvPriceFile', () => {
+    it('should take the ticker from the file name for single series files', () => {
+      const csv = 'Date,Adj Close\n2020-01-31,100\n2020-02-29,110\n';
+      const result = parseCsvPriceFile(csv, 'qqq.csv');
+      expect(result.errors).toEqual([]);
+      expect(result.series.QQQ).toEqual([
+        { date: '2020-01-01', adjClose: 100 },
+        { date: '2020-02-01', adjClose: 110 }
+      ]);
+    });
+
+    it('should parse long format with a ticker column', () => {
+      const csv = 'date,ticker,adjClose\n2020-01-01,QQQ,100\n2020-01-01,qld,50\n';
+      const result = parseCsvPriceFile(csv, 'prices.csv');
+      expect(result.series.QQQ[0].adjClose).toBe(100);
+      expect(result.series.QLD[0].adjClose).toBe(50);
+    });
+
+    it('should parse wide format and skip blank cells', () => {
+      const csv = 'date;QQQ;QLD\n2020-01-01;100;\n2020-02-01;110;55\n';
+      const result = parseCsvPriceFile(csv, 'wide.csv');
+      expect(result.errors).toEqual([]);
+      expect(result.series.QQQ).toHaveLength(2);
+      expect(result.series.QLD).toEqual([{ date: '2020-02-01', adjClose: 55 }]);
+    });
+
+    it('should report bad prices and dates with their line', () => {
+      const csv = 'date,adjClose\n2020-01-01,abc\nnot-a-date,10\n2020-03-01,-5\n';
+      const result = parseCsvPriceFile(csv, 'QQQ.csv');
+      expect(result.errors).toHaveLength(3);
+      expect(result.errors[0]).toContain('line 2');
+      expect(result.errors[1]).toContain('invalid date');
+      expect(result.errors[2]).toContain('non-positive');
+    });
+
+    it('should accept non-positive benchmark rates', () => {
+      const result = parseCsvPriceFile('date,adjClose\n2020-01-01,0\n2020-02-01,-0.1\n', 'RATE.csv');
+      expect(result.errors).toEqual([]);
+      expect(result.series.RATE).toHaveLength(2);
+    });
+
+    it('should keep the last price when several fall in one month', () => {
+      const csv = 'date,adjClose\n2020-01-02,100\n2020-01-31,105\n';
+      const result = parseCsvPriceFile(csv, 'QQQ.csv');
+      expect(result.series.QQQ).toEqual([{ date: '2020-01-01', adjClose: 105 }]);
+      expect(result.warnings).toHaveLength(1);
+    });
+
+    it('should keep the latest dated price of a month in a file sorted newest first', () => {
+      const csv = 'date,adjClose\n2020-02-28,120\n2020-02-03,115\n2020-01-31,110\n2020-01-02,100\n';
+      const result = parseCsvPriceFile(csv, 'QQQ.csv');
+      expect(result.series.QQQ).toEqual([
+        { date: '2020-01-01', adjClose: 110 },
+        { date: '2020-02-01', adjClose: 120 }
+      ]);
+      expect(result.warnings[0]).toContain('latest dated');
+    });
+  });
+
+  describe('daily import', () => {
+    it('should keep one price per trading day', () => {
+      const csv = 'date,adjClose\n2020-01-02,100\n2020-01-03,101\n2020-01-03,102\n';
+      const result = parseCsvPriceFile(csv, 'QQQ.csv', 'DAILY');
+      expect(result.series.QQQ).toEqual([
+        { date: '2020-01-02', adjClose: 100 },
+        { date: '2020-01-03', adjClose: 102 }
+      ]);
+      expect(result.warnings[0]).toContain('same day');
+    });
+  });
+
+  describe('parseJsonPriceFile', () => {
+    it('should accept the built-in series shape', () => {
+      const json = JSON.stringify({ qqq: [{ date: '2020-01-01', adjClose: 100 }] });
+      const result = parseJsonPriceFile(json, 'data.json');
+      expect(result.series.QQQ).toEqual([{ date: '2020-01-01', adjClose: 100 }]);
+    });
+
+    it('should accept an array of rows', () => {
+      const json = JSON.stringify([{ date: '2020-01-01', qqq: 100, qld: 50 }]);
+      const result = parseJsonPriceFile(json, 'rows.json');
+      expect(result.series.QLD).toEqual([{ date: '2020-01-01', adjClose: 50 }]);
+    });
+
+    it('should report rows and points that are not objects', () => {
+      const rows = parseJsonPriceFile(JSON.stringify([42, { date: '2020-01-01', qqq: 100 }]), 'rows.json');
+      expect(rows.errors).toEqual(['rows.json row 1: expected an object']);
+      expect(rows.series.QQQ).toHaveLength(1);
+
+      const series = parseJsonPriceFile(JSON.stringify({ qqq: ['2020-01-01'] }), 'data.json');
+      expect(series.errors[0]).toContain('invalid date');
+    });
+
+    it('should report invalid JSON', () => {
+      const result = parseJsonPriceFile('{ nope', 'bad.json');
+      expect(result.errors[0]).toContain('invalid JSON');
+    });
+  });
+
+  describe('importPriceFiles', () => {
+    it('should merge files of any tickers', () => {
+      const merged = importPriceFiles([
+        { name: 'QQQ.csv', content: 'date,adjClose\n2020-01-01,100\n' },
+        { name: 'TLT.csv', content: 'date,adjClose\n2020-01-01,140\n' },
+        { name: 'GLD.csv', content: 'date,adjClose\n2020-01-01,150\n' }
+      ]);
+      expect(merged.errors).toEqual([]);
+      expect(Object.keys(merged.series).sort()).toEqual(['GLD', 'QQQ', 'TLT']);
+    });
+
+    it('should require at least one price series', () => {
+      const result = importPriceFiles([{ name: 'cpi.csv', content: 'date,CPI\n2020-01-01,258.8\n' }]);
+      expect(result.errors).toEqual(['No price series found']);
+    });
+  });
+
+  describe('buildMarketData', () => {
+    it('should key each row by the tickers priced on its date', () => {
+      const result = buildMarketData({
+        QQQ: [{ date: '2020-01-01', adjClose: 100 }, { date: '2020-02-01', adjClose: 110 }],
+        TLT: [{ date: '2020-01-01', adjClose: 140 }, { date: '2020-02-01', adjClose: 138 }],
+        gld: [{ date: '2020-02-01', adjClose: 150 }]
+      });
+      expect(result.data).toEqual([
+        { date: '2020-01-01', prices: { QQQ: 100, TLT: 140 } },
+        { date: '2020-02-01', prices: { QQQ: 110, TLT: 138, GLD: 150 } }
+      ]);
+      expect(result.droppedDates).toEqual([]);
+    });
+
+    it('should drop and report the dates a required ticker has no price', () => {
+      const result = buildMarketData({
+        qqq: [{ date: '2020-01-01', adjClose: 100 }, { date: '2020-02-01', adjClose: 110 }],
+        QLD: [{ date: '2020-02-01', adjClose: 55 }]
+      }, {}, ['QQQ', 'qld']);
+      expect(result.data).toEqual([{ date: '2020-02-01', prices: { QQQ: 110, QLD: 55 } }]);
+      expect(result.droppedDates).toEqual(['2020-01-01']);
+    });
+
+    it('should attach a CPI series to its month instead of as a price', () => {
+      const result = buildMarketData({
+        QQQ: [{ date: '2020-01-02', adjClose: 100 }, { date: '2020-01-03', adjClose: 101 }, { date: '2020-02-03', adjClose: 102 }],
+        QLD: [{ date: '2020-01-02', adjClose: 50 }, { date: '2020-01-03', adjClose: 51 }, { date: '2020-02-03', adjClose: 52 }],
+        cpi: [{ date: '2020-01-01', adjClose: 258.8 }]
+      });
+      expect(result.data.map(row => row.cpi)).toEqual([258.8, 258.8, undefined]);
+      expect(result.data.every(row => !('CPI' in row.prices))).toBe(true);
+      expect(result.droppedDates).toEqual([]);
+    });
+
+    it('should attach a benchmark rate series, zero and negative values included', () => {
+      const result = buildMarketData({
+        QQQ: [{ date: '2020-01-01', adjClose: 100 }, { date: '2020-02-01', adjClose: 101 }],
+        QLD: [{ date: '2020-01-01', adjClose: 50 }, { date: '2020-02-01', adjClose: 51 }],
+        RATE: [{ date: '2020-01-01', adjClose: 0 }, { date: '2020-02-01', adjClose: -0.25 }]
+      });
+      expect(result.data.map(row => row.benchmarkRate)).toEqual([0, -0.25]);
+    });
+
+    it('should attach FX series as rates per currency', () => {
+      const result = buildMarketData({
+        QQQ: [{ date: '2020-01-01', adjClose: 100 }, { date: '2020-02-01', adjClose: 101 }],
+        QLD: [{ date: '2020-01-01', adjClose: 50 }, { date: '2020-02-01', adjClose: 51 }],
+        USDEUR: [{ date: '2020-02-01', adjClose: 0.91 }]
+      });
+      expect(result.data.map(row => row.fxRates)).toEqual([undefined, { EUR: 0.91 }]);
+      expect(result.data[1].prices).toEqual({ QQQ: 101, QLD: 51 });
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { validateMarketData, detectFrequency } from '../marketDataValidator';
+import { MarketDataRow } from '../../types';
+
+// Monthly rows from 2020-01 with a gentle deterministic wiggle so jump detection has a scale
+const generateRows = (months: number): MarketDataRow[] =>
+  Array.from({ length: months }, (_, i) => {
+    const date = new Date(Date.UTC(2020, i, 1)).toISOString().substring(0, 10);
+    const qqq = 100 * Math.pow(1.01, i) * (1 + 0.03 * Math.sin(i));
+    return { date, prices: { QQQ: qqq, QLD: 50 * Math.pow(qqq / 100, 2) } };
+  });
+
+const codes = (rows: MarketDataRow[]) => validateMarketData(rows).diagnostics.map(d => d.code);
+
+describe('marketDataValidator', () => {
+  it('should pass clean monthly data', () => {
+    const report = validateMarketData(generateRows(36));
+    expect(report.isValid).toBe(true);
+    expect(report.diagnostics).toEqual([]);
+    expect(report.frequency).toBe('MONTHLY');
+    expect(report.coverage.map(c => c.ticker)).toEqual(['QQQ', 'QLD']);
+  });
+
+  it('should treat a missing month as fatal', () => {
+    const rows = generateRows(24);
+    rows.splice(5, 2);
+    const report = validateMarketData(rows);
+    expect(report.isValid).toBe(false);
+    expect(report.diagnostics[0].code).toBe('MISSING_PERIOD');
+    expect(report.diagnostics[0].message).toContain('2020-06, 2020-07');
+  });
+
+  it('should reject duplicate, unsorted and invalid dates', () => {
+    const rows = generateRows(12);
+    expect(codes([...rows.slice(0, 3), rows[2], ...rows.slice(3)])).toContain('DUPLICATE_DATE');
+    expect(codes([rows[1], rows[0], ...rows.slice(2)])).toContain('UNSORTED');
+    expect(codes([{ ...rows[0], date: '2020-02-30' }, ...rows.slice(1)])).toContain('INVALID_DATE');
+    expect(validateMarketData([]).diagnostics[0].code).toBe('EMPTY');
+  });
+
+  it('should reject non-positive prices', () => {
+    const rows = generateRows(12);
+    rows[4] = { ...rows[4], prices: { ...rows[4].prices, QLD: 0 } };
+    rows[6] = { ...rows[6], prices: { TQQQ: -1 } };
+    const report = validateMarketData(rows);
+    expect(report.fatalCount).toBe(2);
+    expect(report.diagnostics.filter(d => d.severity === 'FATAL').map(d => d.ticker)).toEqual(['QLD', 'TQQQ']);
+  });
+
+  it('should flag unadjusted splits but not leveraged moves that QQQ explains', () => {
+    const rows = generateRows(60);
+    // 2x fund halves while QQQ drops 30%: plausible
+    rows.forEach((r, i) => { if (i >= 20) { r.prices.QQQ *= 0.7; r.prices.QLD *= 0.49; } });
+    expect(codes(rows)).toEqual([]);
+
+    // QLD halves with QQQ flat: unadjusted 2:1 split
+    rows.forEach((r, i) => { if (i >= 40) r.prices.QLD /= 2; });
+    const report = validateMarketData(rows);
+    expect(report.isValid).toBe(true);
+    expect(report.warningCount).toBe(1);
+    expect(report.diagnostics[0].message).toContain('2:1 split');
+  });
+
+  it('should report partial and holed ticker coverage', () => {
+    const rows = generateRows(12).map((r, i) => (i >= 3 && i !== 6 ? { ...r, prices: { ...r.prices, TQQQ: 10 + i } } : r));
+    const report = validateMarketData(rows, { droppedDates: ['2019-12-01'] });
+    expect(report.coverage.find(c => c.ticker === 'TQQQ')).toMatchObject({ firstDate: '2020-04-01', holes: 1 });
+    expect(report.diagnostics.map(d => d.code)).toEqual(['COVERAGE_GAP', 'COVERAGE_MISMATCH', 'DROPPED_DATES']);
+    expect(report.isValid).toBe(true);
+  });
+
+  it('should note a CPI series that does not cover every row', () => {
+    const rows = generateRows(12);
+    expect(codes(rows.map(r => ({ ...r, cpi: 250 })))).toEqual([]);
+    expect(codes(rows.map((r, i) => (i < 6 ? { ...r, cpi: 250 } : r)))).toEqual(['CPI_PARTIAL']);
+  });
+
+  it('should only warn about gaps in daily data', () => {
+    const rows: MarketDataRow[] = ['2020-01-02', '2020-01-03', '2020-01-06', '2020-01-20'].map(date => ({ date, prices: { QQQ: 100, QLD: 50 } }));
+    expect(detectFrequency(rows)).toBe('DAILY');
+    const report = validateMarketData(rows);
+    expect(report.isValid).toBe(true);
+    expect(report.diagnostics[0]).toMatchObject({ severity: 'WARNING', code: 'MISSING_PERIOD' });
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'vitest';
+import { createPathSampler, createSeededRandom, runMonteCarlo, METRIC_KEYS } from '../monteCarlo';
+import { strategyNoRebalance } from '../strategies';
+import { AssetConfig, MarketDataRow } from '../../types';
+
+const createConfig = (): AssetConfig => ({
+  initialCapital: 10000,
+  contributionAmount: 0,
+  contributionIntervalMonths: 1,
+  yearlyContributionMonth: 12,
+  qqqWeight: 50,
+  qldWeight: 50,
+  contributionQqqWeight: 50,
+  contributionQldWeight: 50,
+  cashYieldAnnual: 0,
+  leverage: {
+    enabled: false,
+    interestRate: 0,
+    qqqPledgeRatio: 0.7,
+    qldPledgeRatio: 0.0,
+    cashPledgeRatio: 0.95,
+    maxLtv: 100,
+    withdrawType: 'PERCENT',
+    withdrawValue: 0,
+    inflationRate: 0,
+    interestType: 'CAPITALIZED',
+    ltvBasis: 'TOTAL_ASSETS'
+  }
+});
+
+// Alternating +10% / -5% months for QQQ, twice that for QLD
+const generateMarketData = (months: number): MarketDataRow[] => {
+  const data: MarketDataRow[] = [];
+  let qqq = 100;
+  let qld = 100;
+  for (let i = 0; i < months; i++) {
+    if (i > 0) {
+      const r = i % 2 === 1 ? 0.1 : -0.05;
+      qqq *= 1 + r;
+      qld *= 1 + 2 * r;
+    }
+    data.push({ date: `${2000 + Math.floor(i / 12)}-${String((i % 12) + 1).padStart(2, '0')}-01`, prices: { QQQ: qqq, QLD: qld } });
+  }
+  return data;
+};
+
+describe('monteCarlo', () => {
+  it('should produce a reproducible sequence for a seed', () => {
+    const a = createSeededRandom(42);
+    const b = createSeededRandom(42);
+    const c = createSeededRandom(43);
+    const seqA = [a(), a(), a()];
+    expect([b(), b(), b()]).toEqual(seqA);
+    expect([c(), c(), c()]).not.toEqual(seqA);
+    seqA.forEach(x => {
+      expect(x).toBeGreaterThanOrEqual(0);
+      expect(x).toBeLessThan(1);
+    });
+  });
+
+  it('should build monthly paths that reuse historical joint returns', () => {
+    const data = generateMarketData(24);
+    const path = createPathSampler(data, 6, createSeededRandom(1))(40);
+
+    expect(path).toHaveLength(40);
+    expect(path[0]).toEqual({ date: '2000-01-01', prices: { QQQ: 100, QLD: 100 } });
+    expect(path[39].date).toBe('2003-04-01');
+    for (let i = 1; i < path.length; i++) {
+      const r = path[i].prices.QQQ / path[i - 1].prices.QQQ - 1;
+      // Every month is one of the two historical returns, applied jointly to both tickers
+      expect([0.1, -0.05].some(x => Math.abs(r - x) < 1e-9)).toBe(true);
+      expect(path[i].prices.QLD / path[i - 1].prices.QLD - 1).toBeCloseTo(2 * r);
+    }
+  });
+
+  it('should keep each block as a run of consecutive historical months', () => {
+    // 24 returns, so a block wrapping past the last month still alternates
+    const data = generateMarketData(25);
+    const path = createPathSampler(data, 4, createSeededRandom(7))(9);
+    const returns = path.slice(1).map((row, i) => row.prices.QQQ / path[i].prices.QQQ - 1);
+    // Historical returns alternate, so within a block they must alternate too
+    for (let i = 1; i < 4; i++) expect(Math.sign(returns[i])).toBe(-Math.sign(returns[i - 1]));
+    for (let i = 5; i < 8; i++) expect(Math.sign(returns[i])).toBe(-Math.sign(returns[i - 1]));
+  });
+
+  it('should carry extra tickers through the paths', () => {
+    const data = generateMarketData(12).map(row => ({ ...row, prices: { ...row.prices, TQQQ: row.prices.QQQ * 3 } }));
+    const path = createPathSampler(data, 3, createSeededRandom(3))(6);
+    path.forEach(row => expect(row.prices.TQQQ).toBeCloseTo(row.prices.QQQ * 3));
+  });
+
+  it('should carry CPI, exchange rates and the benchmark rate with the drawn months', () => {
+    // CPI and the EUR rate move with QQQ; the benchmark rate tells up months from down months
+    const data = generateMarketData(12).map(row => ({
+      ...row,
+      cpi: row.prices.QQQ * 2,
+      fxRate: row.prices.QQQ / 100,
+      fxRates: { EUR: row.prices.QQQ / 100 },
+      benchmarkRate: row.prices.QQQ
+    }));
+    data.forEach((row, i) => { if (i > 0) row.benchmarkRate = row.prices.QQQ > data[i - 1].prices.QQQ ? 1 : -1; });
+    const path = createPathSampler(data, 3, createSeededRandom(3))(10);
+
+    expect(path[0]).toMatchObject({ cpi: 200, fxRate: 1, fxRates: { EUR: 1 }, benchmarkRate: 100 });
+    path.slice(1).forEach((row, i) => {
+      expect(row.cpi).toBeCloseTo(row.prices.QQQ * 2);
+      expect(row.fxRate).toBeCloseTo(row.prices.QQQ / 100);
+      expect(row.fxRates?.EUR).toBeCloseTo(row.prices.QQQ / 100);
+      expect(row.benchmarkRate).toBe(row.prices.QQQ > path[i].prices.QQQ ? 1 : -1);
+    });
+  });
+
+  it('should leave out a column some historical month lacks', () => {
+    const data = generateMarketData(12).map((row, i) => (i === 5 ? row : { ...row, cpi: 100, benchmarkRate: 3 }));
+    const path = createPathSampler(data, 3, createSeededRandom(3))(6);
+    path.forEach(row => {
+      expect(row.cpi).toBeUndefined();
+      expect(row.benchmarkRate).toBeUndefined();
+    });
+  });
+
+  it('should measure inflation along the simulated CPI', () => {
+    // CPI rises 1% every month of history, so every path compounds it
+    const data = generateMarketData(36).map((row, i) => ({ ...row, cpi: 100 * Math.pow(1.01, i) }));
+    const result = runMonteCarlo(data, strategyNoRebalance, createConfig(), 'Test', '#000', { pathCount: 10, seed: 1, horizonMonths: 24 });
+    const realShare = 1 / Math.pow(1.01, 23);
+    expect(result.metrics.realFinalBalance.p50).toBeCloseTo(result.metrics.finalBalance.p50 * realShare, 0);
+  });
+
+  it('should summarize every metric over all paths', () => {
+    const data = generateMarketData(36);
+    const result = runMonteCarlo(data, strategyNoRebalance, createConfig(), 'Test', '#000', { pathCount: 50, seed: 1, horizonMonths: 24 });
+
+    expect(result.pathCount).toBe(50);
+    expect(result.horizonMonths).toBe(24);
+    expect(result.bands).toHaveLength(24);
+    expect(result.bankruptcyRate).toBe(0);
+    METRIC_KEYS.forEach(key => expect(result.metrics[key]).toBeDefined());
+    expect(result.metrics.finalBalance.p5).toBeLessThanOrEqual(result.metrics.finalBalance.p95);
+    expect(result.bands[23].p50).toBeCloseTo(result.metrics.finalBalance.p50);
+  });
+
+  it('should give identical results for the same seed', () => {
+    const data = generateMarketData(36);
+    const run = (seed: number) => runMonteCarlo(data, strategyNoRebalance, createConfig(), 'Test', '#000', { pathCount: 20, seed });
+    expect(run(5).metrics).toEqual(run(5).metrics);
+    expect(run(5).metrics.finalBalance).not.toEqual(run(6).metrics.finalBalance);
+  });
+
+  it('should count liquidated paths', () => {
+    const config = createConfig();
+    config.leverage.enabled = true;
+    config.leverage.maxLtv = 50;
+    config.leverage.withdrawType = 'FIXED';
+    config.leverage.withdrawValue = 20000;
+    const result = runMonteCarlo(generateMarketData(24), strategyNoRebalance, config, 'Test', '#000', { pathCount: 10, seed: 1 });
+    expect(result.bankruptcyRate).toBe(100);
+  });
+
+  it('should return no paths without any historical return', () => {
+    const result = runMonteCarlo(generateMarketData(1), strategyNoRebalance, createConfig(), 'Test', '#000', { pathCount: 10, seed: 1 });
+    expect(result.pathCount).toBe(0);
+    expect(result.bands).toHaveLength(0);
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { runRollingAnalysis } from '../rollingAnalysis';
+import { strategyNoRebalance } from '../strategies';
+import { MarketDataValidationError } from '../marketDataValidator';
+import { AssetConfig, MarketDataRow } from '../../types';
+
+const createConfig = (): AssetConfig => ({
+  initialCapital: 10000,
+  contributionAmount: 0,
+  contributionIntervalMonths: 1,
+  yearlyContributionMonth: 12,
+  qqqWeight: 100,
+  qldWeight: 0,
+  contributionQqqWeight: 100,
+  contributionQldWeight: 0,
+  cashYieldAnnual: 0,
+  leverage: {
+    enabled: false,
+    interestRate: 0,
+    qqqPledgeRatio: 0.7,
+    qldPledgeRatio: 0.0,
+    cashPledgeRatio: 0.95,
+    maxLtv: 100,
+    withdrawType: 'PERCENT',
+    withdrawValue: 0,
+    inflationRate: 0,
+    interestType: 'CAPITALIZED',
+    ltvBasis: 'TOTAL_ASSETS'
+  }
+});
+
+// Monthly rows from January 2000 with the given QQQ prices
+const generateMarketData = (prices: number[]): MarketDataRow[] =>
+  prices.map((price, i) => ({
+    date: `${2000 + Math.floor(i / 12)}-${String((i % 12) + 1).padStart(2, '0')}-01`,
+    prices: { QQQ: price, QLD: price }
+  }));
+
+describe('rollingAnalysis', () => {
+  it('should run one window per start month that fits the horizon', () => {
+    const data = generateMarketData(Array.from({ length: 36 }, () => 100));
+    const result = runRollingAnalysis(data, strategyNoRebalance, createConfig(), 'Test', '#000', { horizonYears: 2 });
+
+    expect(result.windows).toHaveLength(13);
+    expect(result.windows[0].startDate).toBe('2000-01-01');
+    expect(result.windows[0].endDate).toBe('2001-12-01');
+    expect(result.windows[12].startDate).toBe('2001-01-01');
+    expect(result.windows[12].endDate).toBe('2002-12-01');
+    expect(result.bands).toHaveLength(24);
+  });
+
+  it('should respect the start step', () => {
+    const data = generateMarketData(Array.from({ length: 36 }, () => 100));
+    const result = runRollingAnalysis(data, strategyNoRebalance, createConfig(), 'Test', '#000', { horizonYears: 2, stepMonths: 6 });
+    expect(result.windows.map(w => w.startDate)).toEqual(['2000-01-01', '2000-07-01', '2001-01-01']);
+  });
+
+  it('should return no windows when the data is shorter than the horizon', () => {
+    const data = generateMarketData(Array.from({ length: 12 }, () => 100));
+    const result = runRollingAnalysis(data, strategyNoRebalance, createConfig(), 'Test', '#000', { horizonYears: 2 });
+    expect(result.windows).toHaveLength(0);
+    expect(result.bands).toHaveLength(0);
+    expect(result.bankruptcyRate).toBe(0);
+  });
+
+  it('should rank best and worst starts by final balance', () => {
+    // Price doubles in month 13, so only windows starting before it capture the jump
+    const prices = Array.from({ length: 24 }, (_, i) => (i < 12 ? 100 : 200));
+    const data = generateMarketData(prices);
+    const result = runRollingAnalysis(data, strategyNoRebalance, createConfig(), 'Test', '#000', { horizonYears: 1, tableSize: 2 });
+
+    expect(result.windows).toHaveLength(13);
+    expect(result.best[0].finalBalance).toBeCloseTo(20000);
+    expect(result.worst[0].startDate).toBe('2001-01-01');
+    expect(result.worst[0].finalBalance).toBeCloseTo(10000);
+    expect(result.finalBalance.max).toBeCloseTo(20000);
+    expect(result.finalBalance.min).toBeCloseTo(10000);
+  });
+
+  it('should band portfolio values by months since start', () => {
+    const prices = Array.from({ length: 24 }, (_, i) => 100 + i * 10);
+    const data = generateMarketData(prices);
+    const result = runRollingAnalysis(data, strategyNoRebalance, createConfig(), 'Test', '#000', { horizonYears: 1 });
+
+    expect(result.bands[0].month).toBe(1);
+    expect(result.bands[0].p50).toBeCloseTo(10000);
+    const last = result.bands[11];
+    expect(last.p5).toBeLessThanOrEqual(last.p50);
+    expect(last.p50).toBeLessThanOrEqual(last.p95);
+    expect(last.p95).toBeCloseTo(result.finalBalance.p95);
+  });
+
+  it('should report the bankruptcy rate across windows', () => {
+    const config = createConfig();
+    config.leverage.enabled = true;
+    config.leverage.maxLtv = 50;
+    config.leverage.withdrawType = 'FIXED';
+    config.leverage.withdrawValue = 20000;
+    // Borrowing to fund a large withdrawal breaches the LTV limit a few months in
+    const data = generateMarketData(Array.from({ length: 24 }, () => 100));
+    const result = runRollingAnalysis(data, strategyNoRebalance, config, 'Test', '#000', { horizonYears: 1 });
+
+    expect(result.windows.every(w => w.isBankrupt)).toBe(true);
+    expect(result.bankruptcyRate).toBe(100);
+  });
+
+  it('should group daily rows into calendar-month windows', () => {
+    const data: MarketDataRow[] = [];
+    for (let d = new Date('2020-01-01T00:00:00Z'); d < new Date('2021-07-01T00:00:00Z'); d.setUTCDate(d.getUTCDate() + 1)) {
+      if (d.getUTCDay() === 0 || d.getUTCDay() === 6) continue;
+      data.push({ date: d.toISOString().substring(0, 10), prices: { QQQ: 100, QLD: 100 } });
+    }
+    const result = runRollingAnalysis(data, strategyNoRebalance, createConfig(), 'Test', '#000', { horizonYears: 1, frequency: 'DAILY' });
+
+    expect(result.windows).toHaveLength(7);
+    expect(result.windows[0].startDate).toBe('2020-01-01');
+    expect(result.windows[0].endDate).toBe('2020-12-31');
+    expect(result.bands).toHaveLength(12);
+  });
+
+  it('should refuse data with fatal problems', () => {
+    const data = generateMarketData(Array.from({ length: 24 }, () => 100));
+    data[5].prices.QQQ = -1;
+    expect(() => runRollingAnalysis(data, strategyNoRebalance, createConfig(), 'Test', '#000', { horizonYears: 1 }))
+      .toThrow(MarketDataValidationError);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { blockWorkerGlobals, checkScriptSyntax, compileScriptStrategy, DEFAULT_SCRIPT, findStateViolation, ScriptStrategyError } from '../scriptStrategy';
+import { isScriptReply } from '../scriptRunner';
+import { runBacktest } from '../simulationEngine';
+import { AssetConfig, MarketDataRow } from '../../types';
+
+const config: AssetConfig = {
+  initialCapital: 10000,
+  contributionAmount: 1000,
+  contributionIntervalMonths: 1,
+  yearlyContributionMonth: 12,
+  qqqWeight: 60,
+  qldWeight: 40,
+  contributionQqqWeight: 60,
+  contributionQldWeight: 40,
+  cashYieldAnnual: 0,
+  leverage: {
+    enabled: false,
+    interestRate: 0,
+    qqqPledgeRatio: 0.7,
+    qldPledgeRatio: 0,
+    cashPledgeRatio: 0.95,
+    maxLtv: 100,
+    withdrawType: 'PERCENT',
+    withdrawValue: 0,
+    inflationRate: 0,
+    interestType: 'CAPITALIZED',
+    ltvBasis: 'TOTAL_ASSETS'
+  }
+};
+
+const data: MarketDataRow[] = Array.from({ length: 12 }, (_, i) => ({
+  date: `2020-${String(i + 1).padStart(2, '0')}-01`,
+  prices: { QQQ: 100 + i, QLD: 50 + i }
+}));
+
+const run = (code: string) => runBacktest(data, compileScriptStrategy(code, data), config, 'Script');
+
+// Fails the run with the error the script strategy threw
+const failure = (code: string): ScriptStrategyError => {
+  try {
+    run(code);
+  } catch (err) {
+    if (err instanceof ScriptStrategyError) return err;
+    throw err;
+  }
+  throw new Error('the run did not fail');
+};
+
+describe('Script Strategy', () => {
+  it('runs the example script', () => {
+    const result = run(DEFAULT_SCRIPT);
+    // QQQ rises every month, so it stays above its average: 60/40 plus 11 contributions, nothing in cash
+    expect(result.history[11].cashBalance).toBeCloseTo(0);
+    expect(result.history[11].shares.QLD * 61 / result.history[11].totalValue).toBeCloseTo(0.4);
+    expect(result.history[11].events!.filter(e => e.type === 'DEPOSIT')).toHaveLength(1);
+    expect(result.metrics.irr).toBeGreaterThan(0);
+  });
+
+  it('shows the script the rows up to the current month only', () => {
+    const result = run(`(state, marketData, config, monthIndex, history) => ({
+      ...state,
+      strategyMemory: { seen: history.length, last: history[history.length - 1].date === marketData.date }
+    })`);
+    expect(result.history[4].strategyMemory).toEqual({ seen: 5, last: true });
+  });
+
+  it('reports the month a script fails in', () => {
+    const error = failure(`(state, marketData, config, monthIndex) => {
+      if (monthIndex === 3) throw new Error('boom');
+      return state;
+    }`);
+    expect(error.message).toBe('Script failed in 2020-04 (month 4): boom');
+    expect(error.date).toBe('2020-04-01');
+  });
+
+  it('keeps past prices and the config read-only', () => {
+    expect(failure('(state, marketData, config, monthIndex, history) => { history[0].prices.QQQ = 1; return state; }').monthIndex).toBe(0);
+    expect(failure('(state, marketData, config) => { config.initialCapital = 0; return state; }').message).toMatch(/month 1/);
+  });
+
+  it('stops on negative shares or values that are not numbers', () => {
+    expect(failure('(state) => ({ ...state, shares: { QQQ: -1 } })').detail).toBe('shares.QQQ is negative (-1)');
+    expect(failure('(state, marketData, config, monthIndex) => ({ ...state, cashBalance: monthIndex > 1 ? NaN : 0 })').message)
+      .toBe('Script failed in 2020-03 (month 3): cashBalance is NaN');
+    expect(findStateViolation(undefined)).toBe('the script must return a PortfolioState object');
+  });
+
+  it('needs a script that evaluates to a function', () => {
+    expect(() => compileScriptStrategy('42', data)).toThrow('Script failed: the script must evaluate to a function');
+    expect(checkScriptSyntax(DEFAULT_SCRIPT)).toBeNull();
+    expect(checkScriptSyntax('(state) => {')).not.toBeNull();
+  });
+
+  it('hides the worker globals from the script', () => {
+    const result = run('(state) => ({ ...state, strategyMemory: { post: typeof postMessage, self: typeof self } })');
+    expect(result.history[0].strategyMemory).toEqual({ post: 'undefined', self: 'undefined' });
+  });
+
+  it('removes the blocked globals along the prototype chain of the worker scope', () => {
+    // Like a worker: postMessage on the prototype, fetch on the scope itself
+    const proto = { postMessage: () => 'sent' };
+    const scope = Object.assign(Object.create(proto), { fetch: () => 'fetched', setTimeout: () => 1 });
+    blockWorkerGlobals(scope);
+
+    expect(scope.postMessage).toBeUndefined();
+    expect(scope.fetch).toBeUndefined();
+    expect(typeof scope.setTimeout).toBe('function');
+    // Cannot be put back
+    expect(() => { scope.fetch = () => 'again'; }).toThrow(TypeError);
+  });
+
+  it('accepts only replies shaped like a result or an error', () => {
+    expect(isScriptReply({ result: { history: [], metrics: {} } })).toBe(true);
+    expect(isScriptReply({ error: { message: 'boom', date: '2020-03-01', monthIndex: 2 } })).toBe(true);
+    expect(isScriptReply({ result: { history: 'forged' } })).toBe(false);
+    expect(isScriptReply({ error: { message: 42 } })).toBe(false);
+    expect(isScriptReply('done')).toBe(false);
+  });
+});
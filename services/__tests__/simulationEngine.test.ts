@@ -1,7 +1,8 @@
 import { describe, it, expect } from 'vitest';
 import { runBacktest } from '../simulationEngine';
+import { detectFrequency, MarketDataValidationError } from '../marketDataValidator';
 import { AssetConfig, MarketDataRow } from '../../types';
-import { strategyNoRebalance, strategyRebalance, strategySmart } from '../strategies';
+import { strategyNoRebalance, strategyRebalance, strategySmart, strategyThreshold, strategyValueAveraging, strategyDrawdownLadder, strategyRules } from '../strategies';
 
 const createBaseConfig = (): AssetConfig => ({
   initialCapital: 10000,
@@ -36,13 +37,28 @@ const generateMarketData = (months: number, qqqPrice: number = 100, qldPrice: nu
     const dateStr = `${year}-${month.toString().padStart(2, '0')}-01`;
     data.push({
       date: dateStr,
-      qqq: qqqPrice,
-      qld: qldPrice
+      prices: { QQQ: qqqPrice, QLD: qldPrice }
     });
   }
   return data;
 };
 
+// Weekday rows from startDate (inclusive) to endDate (exclusive)
+const generateDailyMarketData = (
+  startDate: string,
+  endDate: string,
+  priceOf: (date: string) => number = () => 100,
+  weekdaysOnly: boolean = true
+): MarketDataRow[] => {
+  const data: MarketDataRow[] = [];
+  for (let d = new Date(`${startDate}T00:00:00Z`); d < new Date(`${endDate}T00:00:00Z`); d.setUTCDate(d.getUTCDate() + 1)) {
+    if (weekdaysOnly && (d.getUTCDay() === 0 || d.getUTCDay() === 6)) continue;
+    const date = d.toISOString().substring(0, 10);
+    data.push({ date, prices: { QQQ: priceOf(date), QLD: priceOf(date) } });
+  }
+  return data;
+};
+
 describe('simulationEngine - Comprehensive Matrix', () => {
 
   describe('DCA Patterns', () => {
@@ -274,11 +290,413 @@ describe('simulationEngine - Comprehensive Matrix', () => {
     });
   });
 
+  describe('Asset Universe', () => {
+    it('should value, pledge and weight beta per ticker', () => {
+      const config = createBaseConfig();
+      config.initialCapital = 10000;
+      config.contributionAmount = 0;
+      config.assets = [
+        { ticker: 'QQQ', weight: 50, contributionWeight: 0, pledgeRatio: 0.5, beta: 1 },
+        { ticker: 'TQQQ', weight: 30, contributionWeight: 0, pledgeRatio: 0, beta: 3 }
+      ];
+      config.leverage = {
+        ...config.leverage,
+        enabled: true,
+        withdrawType: 'FIXED',
+        withdrawValue: 1000,
+        cashPledgeRatio: 1,
+        maxLtv: 100,
+        ltvBasis: 'COLLATERAL'
+      };
+      const data = generateMarketData(2).map(row => ({ ...row, prices: { ...row.prices, TQQQ: 50 } }));
+      const result = runBacktest(data, strategyNoRebalance, config, 'Test');
+      const state = result.history[0];
+
+      expect(state.shares.TQQQ).toBe(60); // 3000 / 50
+      expect(state.cashBalance).toBe(2000);
+      // Collateral = 5000 * 0.5 + 3000 * 0 + 2000 * 1 = 4500
+      expect(state.ltv).toBeCloseTo((1000 / 4500) * 100);
+      // Beta = (5000 * 1 + 3000 * 3) / 9000
+      expect(state.beta).toBeCloseTo(14000 / 9000);
+      expect(result.history[0].events.some(e => e.description.includes('TQQQ'))).toBe(true);
+    });
+  });
+
+  describe('Synthetic Data', () => {
+    it('should report months where a held ticker is synthetic', () => {
+      const config = createBaseConfig();
+      config.qqqWeight = 100;
+      config.qldWeight = 0;
+      config.contributionQqqWeight = 100;
+      config.contributionQldWeight = 0;
+      const data = generateMarketData(3).map((row, i) => (i < 2 ? { ...row, syntheticTickers: ['QLD'] } : row));
+
+      expect(runBacktest(data, strategyNoRebalance, config, 'QQQ Only').synthetic).toBeUndefined();
+
+      config.qqqWeight = 50;
+      config.qldWeight = 50;
+      const result = runBacktest(data, strategyNoRebalance, config, 'Mixed');
+      expect(result.synthetic).toEqual({ tickers: ['QLD'], dates: [data[0].date, data[1].date] });
+    });
+  });
+
+  describe('Inflation', () => {
+    // CPI doubling every 12 months
+    const withCpi = (data: MarketDataRow[]) => data.map((row, i) => ({ ...row, cpi: 100 * Math.pow(2, i / 12) }));
+
+    it('should deflate the equity curve by the constant rate', () => {
+      const config = createBaseConfig();
+      config.contributionAmount = 0;
+      config.leverage.inflationRate = 100;
+      const result = runBacktest(generateMarketData(25), strategyNoRebalance, config, 'Test');
+
+      expect(result.history[12].realValue).toBeCloseTo(5000);
+      expect(result.metrics.realFinalBalance).toBeCloseTo(2500);
+      expect(result.metrics.inflationRate).toBe(100);
+    });
+
+    it('should deflate by the CPI series and report real metrics', () => {
+      const config = createBaseConfig();
+      config.contributionAmount = 0;
+      const result = runBacktest(withCpi(generateMarketData(25)), strategyNoRebalance, config, 'Test');
+
+      expect(result.history[6].realValue).toBeCloseTo(10000 / Math.SQRT2);
+      expect(result.metrics.realFinalBalance).toBeCloseTo(2500);
+      expect(result.metrics.inflationRate).toBeCloseTo(100);
+      expect(result.realMetrics!.finalBalance).toBeCloseTo(2500);
+      expect(result.realMetrics!.maxDrawdown).toBeCloseTo(75);
+      expect(result.metrics.maxDrawdown).toBeCloseTo(0);
+    });
+
+    it('should index fixed withdrawals by the CPI series', () => {
+      const config = createBaseConfig();
+      config.contributionAmount = 0;
+      config.leverage = { ...config.leverage, enabled: true, withdrawType: 'FIXED', withdrawValue: 1000, maxLtv: 100 };
+      const result = runBacktest(withCpi(generateMarketData(24)), strategyNoRebalance, config, 'Test');
+
+      expect(result.history[0].debtBalance).toBe(1000);
+      expect(result.history[12].debtBalance).toBeCloseTo(3000);
+    });
+
+    it('should index contributions when enabled', () => {
+      const config = createBaseConfig();
+      config.indexContributions = true;
+      const data = withCpi(generateMarketData(13));
+      const result = runBacktest(data, strategyNoRebalance, config, 'Test');
+      expect(result.history[12].totalValue - result.history[11].totalValue).toBeCloseTo(2000);
+      expect(result.history[6].totalValue - result.history[5].totalValue).toBeCloseTo(1000 * Math.SQRT2);
+
+      config.indexContributions = false;
+      const flat = runBacktest(data, strategyNoRebalance, config, 'Test');
+      expect(flat.history[12].totalValue - flat.history[11].totalValue).toBeCloseTo(1000);
+    });
+
+    it('should fall back to the constant rate when some rows lack CPI', () => {
+      const config = createBaseConfig();
+      config.contributionAmount = 0;
+      config.leverage.inflationRate = 0;
+      const data = withCpi(generateMarketData(13)).map((row, i) => (i === 5 ? { ...row, cpi: undefined } : row));
+      const result = runBacktest(data, strategyNoRebalance, config, 'Test');
+      expect(result.metrics.realFinalBalance).toBeCloseTo(10000);
+    });
+  });
+
+  describe('Benchmark Rates', () => {
+    const withRates = (data: MarketDataRow[], rates: number[]) => data.map((row, i) => ({ ...row, benchmarkRate: rates[i] }));
+
+    it('should accrue loan interest at benchmark + spread for each month', () => {
+      const config = createBaseConfig();
+      config.contributionAmount = 0;
+      config.leverage = { ...config.leverage, enabled: true, withdrawValue: 10, maxLtv: 100, interestRateBasis: 'BENCHMARK', interestSpread: 3 };
+      const result = runBacktest(withRates(generateMarketData(3), [3, 9, 9]), strategyNoRebalance, config, 'Test');
+
+      expect(result.history[0].debtBalance).toBe(1000);
+      expect(result.history[1].debtBalance).toBeCloseTo(1000 * Math.pow(1.06, 1 / 12));
+      expect(result.history[2].debtBalance).toBeCloseTo(1000 * Math.pow(1.06, 1 / 12) * Math.pow(1.12, 1 / 12));
+    });
+
+    it('should pay cash yield at benchmark - haircut, never below zero', () => {
+      const config = createBaseConfig();
+      config.contributionAmount = 0;
+      config.qqqWeight = 0;
+      config.qldWeight = 0;
+      config.cashYieldBasis = 'BENCHMARK';
+      config.cashYieldHaircut = 1;
+      const result = runBacktest(withRates(generateMarketData(3), [0.5, 5, 5]), strategyNoRebalance, config, 'Test');
+
+      expect(result.history[1].cashBalance).toBe(10000);
+      expect(result.history[2].cashBalance).toBeCloseTo(10000 * Math.pow(1.04, 1 / 12));
+    });
+
+    it('should fall back to the fixed rates without a full benchmark series', () => {
+      const config = createBaseConfig();
+      config.contributionAmount = 0;
+      config.qqqWeight = 0;
+      config.qldWeight = 0;
+      config.cashYieldAnnual = 12;
+      config.cashYieldBasis = 'BENCHMARK';
+      const data = withRates(generateMarketData(2), [5]);
+      expect(runBacktest(data, strategyNoRebalance, config, 'Test').history[1].cashBalance).toBeCloseTo(10000 * Math.pow(1.12, 1 / 12));
+    });
+
+    it('should use the benchmark as the risk-free rate', () => {
+      const config = createBaseConfig();
+      config.contributionAmount = 0;
+      const data = generateMarketData(13).map((row, i) => ({ ...row, prices: { QQQ: 100 * Math.pow(1.01, i) * (i % 2 ? 1.02 : 1), QLD: 100 } }));
+      const fixed = runBacktest(data, strategyNoRebalance, config, 'Test');
+      const linked = runBacktest(withRates(data, Array(13).fill(5)), strategyNoRebalance, config, 'Test');
+      expect(linked.metrics.sharpeRatio).toBeLessThan(fixed.metrics.sharpeRatio);
+    });
+  });
+
+  describe('Capital Gains Tax', () => {
+    // QQQ doubles mid-2020; the January 2021 rebalance sells 12.5 QQQ bought at 100 for 200
+    const createTaxedRun = (overrides: Partial<NonNullable<AssetConfig['tax']>> = {}) => {
+      const config = createBaseConfig();
+      config.contributionAmount = 0;
+      config.qqqWeight = 50;
+      config.qldWeight = 40;
+      config.tax = { enabled: true, shortTermRate: 30, longTermRate: 15, holdingPeriodMonths: 12, lotSelection: 'FIFO', paymentMode: 'CASH', ...overrides };
+      const data = generateMarketData(25).map((row, i) => ({ ...row, prices: { ...row.prices, QQQ: i >= 6 ? 200 : 100 } }));
+      return runBacktest(data, strategyRebalance, config, 'Taxed');
+    };
+
+    it('should deduct the tax owed on realized gains from equity', () => {
+      const result = createTaxedRun();
+      expect(result.history[11].taxLiability).toBe(0);
+      expect(result.history[12].taxLiability).toBeCloseTo(1250 * 0.15);
+      expect(result.history[12].totalValue).toBeCloseTo(15000 - 187.5);
+    });
+
+    it('should tax gains held for less than the holding period at the short-term rate', () => {
+      const result = createTaxedRun({ holdingPeriodMonths: 24 });
+      expect(result.history[12].taxLiability).toBeCloseTo(1250 * 0.3);
+    });
+
+    it('should pay the tax from cash in January as a TAX event', () => {
+      const result = createTaxedRun();
+      const taxEvent = result.history[24].events!.find(e => e.type === 'TAX');
+      expect(taxEvent?.amount).toBeCloseTo(-187.5);
+      // The 2022 rebalance trims QQQ again, which starts the new year's liability
+      expect(result.metrics.finalBalance).toBeCloseTo(15000 - 187.5 - result.history[24].taxLiability!);
+    });
+
+    it('should sell holdings to pay the tax in SELL mode', () => {
+      const result = createTaxedRun({ paymentMode: 'SELL' });
+      const events = result.history[24].events!;
+      expect(events.find(e => e.type === 'TAX')?.amount).toBeCloseTo(-187.5);
+      expect(events.some(e => e.type === 'TRADE' && e.description.includes('for tax'))).toBe(true);
+      // Selling appreciated QQQ realizes a new gain in 2022
+      expect(result.history[24].taxLiability).toBeGreaterThan(0);
+    });
+
+    it('should leave untaxed runs unchanged', () => {
+      const config = createBaseConfig();
+      const data = generateMarketData(25).map((row, i) => ({ ...row, prices: { ...row.prices, QQQ: 100 + i * 5 } }));
+      const plain = runBacktest(data, strategyRebalance, config, 'Plain');
+      config.tax = { enabled: false, shortTermRate: 30, longTermRate: 15, holdingPeriodMonths: 12, lotSelection: 'FIFO', paymentMode: 'CASH' };
+      expect(runBacktest(data, strategyRebalance, config, 'Off').metrics).toEqual(plain.metrics);
+    });
+  });
+
+  describe('Trading Costs', () => {
+    const withCosts = (config: AssetConfig): AssetConfig => ({
+      ...config,
+      tradingCosts: { enabled: true, commissionFixed: 5, commissionPerShare: 0, minCommission: 0 }
+    });
+
+    it('should charge every order and total the costs', () => {
+      // Initial purchase and 11 contributions, each into two tickers
+      const result = runBacktest(generateMarketData(12), strategyNoRebalance, withCosts(createBaseConfig()), 'Monthly');
+      expect(result.metrics.tradingCosts).toBeCloseTo(24 * 5);
+      expect(result.metrics.finalBalance).toBeCloseTo(21000 - 120);
+      expect(result.history[1].events!.filter(e => e.type === 'FEE')).toHaveLength(2);
+    });
+
+    it('should still report the full contribution as a deposit', () => {
+      const result = runBacktest(generateMarketData(3), strategyNoRebalance, withCosts(createBaseConfig()), 'Monthly');
+      expect(result.history[1].events!.find(e => e.type === 'DEPOSIT')?.amount).toBeCloseTo(1000);
+    });
+
+    it('should cost less when contributions are batched quarterly', () => {
+      const config = withCosts(createBaseConfig());
+      config.contributionAmount = 3000;
+      config.contributionIntervalMonths = 3;
+      const result = runBacktest(generateMarketData(12), strategyNoRebalance, config, 'Quarterly');
+      expect(result.metrics.tradingCosts).toBeCloseTo(8 * 5);
+    });
+
+    it('should apply each asset\'s slippage', () => {
+      const config = withCosts(createBaseConfig());
+      config.tradingCosts!.commissionFixed = 0;
+      config.contributionAmount = 0;
+      config.assets = [
+        { ticker: 'QQQ', weight: 50, contributionWeight: 0, pledgeRatio: 0.7, beta: 1, slippageBps: 10 },
+        { ticker: 'QLD', weight: 50, contributionWeight: 0, pledgeRatio: 0, beta: 2, slippageBps: 0 }
+      ];
+      const result = runBacktest(generateMarketData(2), strategyNoRebalance, config, 'Slippage');
+      expect(result.metrics.tradingCosts).toBeCloseTo(5000 * 0.001, 1);
+    });
+  });
+
+  describe('Rebalance Turnover', () => {
+    // QLD swings between 100 and 150 every quarter
+    const data = generateMarketData(36).map((row, i) => ({ ...row, prices: { ...row.prices, QLD: Math.floor(i / 3) % 2 ? 150 : 100 } }));
+
+    it('should count the REBALANCE events of each approach', () => {
+      const config = createBaseConfig();
+      config.contributionAmount = 0;
+      const yearly = runBacktest(data, strategyRebalance, config, 'Yearly');
+      expect(yearly.metrics.rebalanceCount).toBe(2);
+      expect(yearly.history[12].events!.some(e => e.type === 'REBALANCE')).toBe(true);
+
+      const banded = runBacktest(data, strategyThreshold, { ...config, driftBand: { mode: 'ABSOLUTE', threshold: 5, partial: false } }, 'Banded');
+      expect(banded.metrics.rebalanceCount).toBeGreaterThan(yearly.metrics.rebalanceCount);
+      expect(banded.metrics.turnover).toBeGreaterThan(yearly.metrics.turnover);
+    });
+
+    it('should report no turnover for buy and hold with contributions', () => {
+      const result = runBacktest(data, strategyNoRebalance, createBaseConfig(), 'Hold');
+      expect(result.metrics.rebalanceCount).toBe(0);
+      expect(result.metrics.turnover).toBe(0);
+    });
+  });
+
+  describe('Value Averaging', () => {
+    it('should log variable deposits and measure IRR on them', () => {
+      // Flat prices: the path's 12% growth must all be paid in, so contributions exceed the 1000 step
+      const config = { ...createBaseConfig(), valueAveraging: { expectedReturn: 12, maxContribution: 0, allowWithdrawals: false, maxWithdrawal: 0 } };
+      const result = runBacktest(generateMarketData(24), strategyValueAveraging, config, 'VA');
+
+      const deposits = result.history.slice(1).map(h => h.events!.find(e => e.type === 'DEPOSIT')!.amount!);
+      expect(deposits[0]).toBeCloseTo(1000 + 10000 * (Math.pow(1.12, 1 / 12) - 1));
+      expect(deposits[22]).toBeGreaterThan(deposits[0]);
+      // Nothing grew, so the money-weighted return is 0 however uneven the flows
+      expect(result.metrics.irr).toBeCloseTo(0, 2);
+    });
+
+    it('should log withdrawals when the portfolio runs ahead of the path', () => {
+      const config = { ...createBaseConfig(), contributionAmount: 100, valueAveraging: { expectedReturn: 0, maxContribution: 0, allowWithdrawals: true, maxWithdrawal: 300 } };
+      const data = generateMarketData(12).map((row, i) => ({ ...row, prices: { QQQ: 100 * Math.pow(1.05, i), QLD: 100 * Math.pow(1.05, i) } }));
+      const result = runBacktest(data, strategyValueAveraging, config, 'VA');
+
+      const withdrawals = result.history.flatMap(h => h.events!.filter(e => e.type === 'WITHDRAW'));
+      expect(withdrawals.length).toBeGreaterThan(0);
+      withdrawals.forEach(e => expect(e.amount!).toBeGreaterThanOrEqual(-300 - 1e-6));
+      expect(result.metrics.irr).toBeGreaterThan(0);
+    });
+  });
+
+  describe('Drawdown Ladder', () => {
+    it('should attach the ladder reason to the trades it records', () => {
+      const config = { ...createBaseConfig(), contributionAmount: 0 };
+      const data = generateMarketData(3).map((row, i) => (i === 2 ? { ...row, prices: { QQQ: 75, QLD: 55 } } : row));
+      const result = runBacktest(data, strategyDrawdownLadder, config, 'Ladder');
+
+      const trades = result.history[2].events!.filter(e => e.type === 'TRADE');
+      expect(trades.map(e => e.ticker).sort()).toEqual(['QLD', 'QQQ']);
+      trades.forEach(e => expect(e.reason).toContain('ladder step -20% -> 40% QLD'));
+      // Only the recorded trades are logged, not the strategy's own notes
+      expect(result.history[1].events!.filter(e => e.type === 'TRADE')).toHaveLength(0);
+    });
+  });
+
+  describe('Rules', () => {
+    it('should not count money a rule borrows as a deposit', () => {
+      const base = createBaseConfig();
+      const config: AssetConfig = {
+        ...base,
+        contributionAmount: 0,
+        leverage: { ...base.leverage, enabled: true, maxLtv: 100 },
+        rules: [{ name: 'Lever up', conditions: [{ metric: 'DATE', operator: '==', value: '2020-02' }], actions: [{ type: 'BORROW', amount: 2000, unit: 'AMOUNT' }, { type: 'BUY', ticker: 'QLD', amount: 100 }] }]
+      };
+      const result = runBacktest(generateMarketData(3), strategyRules, config, 'Rules');
+
+      const events = result.history[1].events!;
+      expect(events.some(e => e.type === 'DEPOSIT')).toBe(false);
+      expect(events).toContainEqual(expect.objectContaining({ type: 'TRADE', ticker: 'QLD', amount: -2000, reason: 'Rule "Lever up": date == 2020-02' }));
+      expect(result.history[1].debtBalance).toBe(2000);
+      expect(result.history[2].totalValue).toBeCloseTo(10000);
+    });
+  });
+
+  describe('Data Validation', () => {
+    it('should refuse to run over a missing month', () => {
+      const data = generateMarketData(12);
+      data.splice(4, 1);
+      expect(() => runBacktest(data, strategyNoRebalance, createBaseConfig(), 'Gap')).toThrow(MarketDataValidationError);
+    });
+  });
+
+  describe('Daily Frequency', () => {
+    it('should detect the row spacing', () => {
+      expect(detectFrequency(generateMarketData(24))).toBe('MONTHLY');
+      expect(detectFrequency(generateDailyMarketData('2020-01-01', '2020-03-01'))).toBe('DAILY');
+    });
+
+    it('should contribute on the first trading day of each month only', () => {
+      const config = createBaseConfig();
+      const data = generateDailyMarketData('2020-01-01', '2020-04-01');
+      const result = runBacktest(data, strategyNoRebalance, config, 'Daily DCA');
+
+      expect(result.frequency).toBe('DAILY');
+      expect(result.history).toHaveLength(data.length);
+      const depositDates = result.history.filter(h => h.events.some(e => e.type === 'DEPOSIT')).map(h => h.date);
+      // Initial capital, then DCA; 2020-02-01 is a Saturday
+      expect(depositDates).toEqual(['2020-01-01', '2020-02-03', '2020-03-02']);
+      expect(result.metrics.finalBalance).toBeCloseTo(12000);
+    });
+
+    it('should accrue cash interest by day count', () => {
+      const config = createBaseConfig();
+      config.contributionAmount = 0;
+      config.qqqWeight = 0;
+      config.qldWeight = 0;
+      config.cashYieldAnnual = 10;
+      const data = generateDailyMarketData('2021-01-01', '2022-01-02', () => 100, false);
+      const result = runBacktest(data, strategyNoRebalance, config, 'Cash');
+
+      // 365 days at 10% p.a., credited monthly
+      expect(result.metrics.finalBalance).toBeCloseTo(11000, -1);
+      expect(result.history[result.history.length - 1].events.some(e => e.type === 'INTEREST_INC')).toBe(true);
+      // The logged rate is the one applied over January's days, not a twelfth of the annual rate
+      const credit = result.history.flatMap(h => h.events!).find(e => e.type === 'INTEREST_INC')!;
+      expect(credit.description).toBe(`Cash Interest (+${(credit.amount! / 10000 * 100).toFixed(2)}%)`);
+      expect(credit.description).not.toBe('Cash Interest (+0.83%)');
+    });
+
+    it('should catch an intra-month margin call that monthly closes hide', () => {
+      const config = createBaseConfig();
+      config.contributionAmount = 0;
+      config.qqqWeight = 100;
+      config.qldWeight = 0;
+      config.leverage = {
+        ...config.leverage,
+        enabled: true,
+        maxLtv: 100,
+        withdrawType: 'FIXED',
+        withdrawValue: 6000, // LTV = 6000 / (10000 * 0.7) = 85.7%
+        ltvBasis: 'COLLATERAL'
+      };
+      // QQQ dips 20% in mid-February and recovers before March
+      const crash = (date: string) => (date >= '2020-02-10' && date < '2020-02-20' ? 80 : 100);
+      const daily = generateDailyMarketData('2020-01-01', '2020-04-01', crash);
+      const monthly = daily.filter((row, i) => i === 0 || row.date.substring(0, 7) !== daily[i - 1].date.substring(0, 7));
+
+      const dailyResult = runBacktest(daily, strategyNoRebalance, config, 'Daily');
+      expect(dailyResult.isBankrupt).toBe(true);
+      expect(dailyResult.bankruptcyDate).toBe('2020-02-10');
+
+      const monthlyResult = runBacktest(monthly, strategyNoRebalance, config, 'Monthly', '#000000', { frequency: 'MONTHLY' });
+      expect(monthlyResult.isBankrupt).toBe(false);
+    });
+  });
+
   describe('Strategies', () => {
     it('Yearly Rebalance', () => {
       const config = createBaseConfig();
       const data = generateMarketData(14);
-      data[1].qqq = 200; // Skew
+      data[1].prices.QQQ = 200; // Skew
       const result = runBacktest(data, strategyRebalance, config, 'Test');
       const state = result.history[12];
       const qqqVal = state.shares.QQQ * 100;
@@ -290,7 +708,7 @@ describe('simulationEngine - Comprehensive Matrix', () => {
       const config = createBaseConfig();
       config.initialCapital = 10000;
       const data = generateMarketData(13);
-      data[11].qld = 200; // Profit target
+      data[11].prices.QLD = 200; // Profit target
       const result = runBacktest(data, strategySmart, config, 'Test');
       expect(result.history[11].strategyMemory.lastAction).toMatch(/Sold Profit/);
     });
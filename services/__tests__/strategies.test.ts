@@ -2,7 +2,14 @@ import { describe, it, expect } from 'vitest';
 import {
   strategyNoRebalance,
   strategyRebalance,
-  strategySmart
+  strategySmart,
+  strategyThreshold,
+  isRebalanceMonth,
+  strategyTrend,
+  strategyVolTarget,
+  strategyValueAveraging,
+  strategyCppi,
+  strategyDrawdownLadder
 } from '../strategies';
 import { AssetConfig, MarketDataRow, PortfolioState } from '../../types';
 
@@ -33,8 +40,7 @@ const mockConfig: AssetConfig = {
 
 const mockMarketData: MarketDataRow = {
   date: '2020-01-01',
-  qqq: 100,
-  qld: 50,
+  prices: { QQQ: 100, QLD: 50 },
 };
 
 const mockState: PortfolioState = {
@@ -120,6 +126,355 @@ describe('Strategies', () => {
        expect(newState.shares.QQQ).toBe(105);
        expect(newState.shares.QLD).toBe(10);
     });
+
+    it('should follow a quarterly schedule anchored to February', () => {
+      const schedule = { intervalMonths: 3, anchorMonth: 2, contributionOnly: false };
+      const due = ['01', '02', '03', '04', '05', '06', '07', '08', '09', '10', '11', '12']
+        .filter(month => isRebalanceMonth(schedule, { ...mockMarketData, date: `2021-${month}-01` }, 13));
+
+      expect(due).toEqual(['02', '05', '08', '11']);
+    });
+
+    it('should rebalance every second anchor month for a two-year interval', () => {
+      const schedule = { intervalMonths: 24, anchorMonth: 1, contributionOnly: false };
+      // Run starting Feb 2020: Jan 2021 is index 11, Jan 2022 index 23, Jan 2023 index 35
+      expect(isRebalanceMonth(schedule, { ...mockMarketData, date: '2021-01-01' }, 11)).toBe(false);
+      expect(isRebalanceMonth(schedule, { ...mockMarketData, date: '2022-01-01' }, 23)).toBe(true);
+      expect(isRebalanceMonth(schedule, { ...mockMarketData, date: '2023-01-01' }, 35)).toBe(false);
+    });
+
+    it('should route contributions to the underweight asset without selling in contribution-only mode', () => {
+      const config: AssetConfig = { ...mockConfig, rebalanceSchedule: { intervalMonths: 12, anchorMonth: 1, contributionOnly: true } };
+      const janData = { ...mockMarketData, date: '2021-01-01' };
+      const state = { ...mockState, shares: { QQQ: 100, QLD: 0 }, totalValue: 10000 };
+
+      const newState = strategyRebalance(state, janData, config, 12);
+
+      // Value after contribution 11000 -> QLD target 4400, short 4400 > 1000: all of it buys QLD
+      expect(newState.shares.QQQ).toBe(100);
+      expect(newState.shares.QLD).toBeCloseTo(20);
+      expect(newState.events).toEqual([]);
+    });
+  });
+
+  describe('multi-asset universe', () => {
+    it('should rebalance every configured ticker', () => {
+      const config: AssetConfig = {
+        ...mockConfig,
+        contributionAmount: 0,
+        assets: [
+          { ticker: 'QQQ', weight: 50, contributionWeight: 0, pledgeRatio: 0.7, beta: 1 },
+          { ticker: 'TLT', weight: 25, contributionWeight: 0, pledgeRatio: 0.7, beta: 0 }
+        ]
+      };
+      const janData = { ...mockMarketData, date: '2021-01-01', prices: { ...mockMarketData.prices, TLT: 25 } };
+      const state = { ...mockState, shares: { QQQ: 100, QLD: 0, TLT: 0 } };
+
+      const newState = strategyRebalance(state, janData, config, 12);
+
+      // Value 10000 -> QQQ 5000 (50 sh), TLT 2500 (100 sh), Cash 2500
+      expect(newState.shares.QQQ).toBeCloseTo(50);
+      expect(newState.shares.TLT).toBeCloseTo(100);
+      expect(newState.shares.QLD).toBe(0);
+      expect(newState.cashBalance).toBeCloseTo(2500);
+    });
+  });
+
+  describe('strategyThreshold', () => {
+    const config: AssetConfig = { ...mockConfig, contributionAmount: 0 };
+    const marchData = { ...mockMarketData, date: '2020-03-01' };
+    // 70% QQQ / 30% QLD against a 60/40 target
+    const driftedState = { ...mockState, shares: { QQQ: 70, QLD: 60 }, totalValue: 10000 };
+
+    it('should rebalance fully to target once a weight leaves the absolute band', () => {
+      const newState = strategyThreshold(driftedState, marchData, { ...config, driftBand: { mode: 'ABSOLUTE', threshold: 5, partial: false } }, 2);
+      expect(newState.shares.QQQ).toBeCloseTo(60);
+      expect(newState.shares.QLD).toBeCloseTo(80);
+      expect(newState.events).toHaveLength(1);
+      expect(newState.events![0].type).toBe('REBALANCE');
+    });
+
+    it('should leave weights inside the band alone', () => {
+      const newState = strategyThreshold(driftedState, marchData, { ...config, driftBand: { mode: 'ABSOLUTE', threshold: 10, partial: false } }, 2);
+      expect(newState.shares).toEqual({ QQQ: 70, QLD: 60 });
+      expect(newState.events).toEqual([]);
+    });
+
+    it('should scale a relative band with the target weight', () => {
+      // 40% QLD +- 25% of 40 => 30%..50%: 30% is still inside, QQQ 60% +- 15 => 45%..75%
+      const newState = strategyThreshold(driftedState, marchData, { ...config, driftBand: { mode: 'RELATIVE', threshold: 25, partial: false } }, 2);
+      expect(newState.shares.QQQ).toBe(70);
+
+      const tight = strategyThreshold(driftedState, marchData, { ...config, driftBand: { mode: 'RELATIVE', threshold: 10, partial: false } }, 2);
+      expect(tight.shares.QQQ).toBeCloseTo(60);
+    });
+
+    it('should give a zero target a relative band of at least one point', () => {
+      // 0.5% cash against a 0% target, QQQ 59.7% and QLD 39.8% inside their bands
+      const nearTarget = { ...mockState, shares: { QQQ: 59.7, QLD: 79.6 }, cashBalance: 50, totalValue: 10000 };
+      const relative = { ...config, driftBand: { mode: 'RELATIVE' as const, threshold: 10, partial: false } };
+      expect(strategyThreshold(nearTarget, marchData, relative, 2).events).toEqual([]);
+
+      const drifted = strategyThreshold({ ...nearTarget, shares: { QQQ: 59, QLD: 78 }, cashBalance: 200 }, marchData, relative, 2);
+      expect(drifted.cashBalance).toBeCloseTo(0);
+      expect(drifted.events![0].description).toContain('CASH 2.0%');
+    });
+
+    it('should trade only back to the band edge in partial mode', () => {
+      const newState = strategyThreshold(driftedState, marchData, { ...config, driftBand: { mode: 'ABSOLUTE', threshold: 5, partial: true } }, 2);
+      expect(newState.shares.QQQ).toBeCloseTo(65);
+      expect(newState.shares.QLD).toBeCloseTo(70);
+      expect(newState.events![0].description).toContain('Partial');
+    });
+  });
+
+  describe('strategyTrend', () => {
+    const config: AssetConfig = {
+      ...mockConfig,
+      contributionAmount: 0,
+      trend: { maType: 'SMA', periodMonths: 3, hysteresis: 2, riskOffFraction: 100 }
+    };
+    // Runs the strategy over consecutive months with the given QQQ closes (QLD stays at 50)
+    const runCloses = (closes: number[], cfg: AssetConfig = config) => {
+      const states: PortfolioState[] = [];
+      let state = mockState;
+      closes.forEach((qqq, i) => {
+        const row = { ...mockMarketData, date: `2020-${String(i + 1).padStart(2, '0')}-01`, prices: { ...mockMarketData.prices, QQQ: qqq } };
+        state = strategyTrend({ ...state, events: [] }, row, cfg, i);
+        states.push(state);
+      });
+      return states;
+    };
+
+    it('moves the leveraged sleeve to cash below the average and back to target above the band', () => {
+      // MA(3) at month 3 = 93.3: 80 is below the band. Month 4: MA 90, 90 is inside the band. Month 5: MA 93.3, 110 is above it
+      const states = runCloses([100, 100, 100, 80, 90, 110]);
+
+      expect(states[2].strategyMemory.riskOn).toBe(true);
+      expect(states[3].strategyMemory.riskOn).toBe(false);
+      expect(states[3].shares.QLD).toBe(0);
+      expect(states[3].cashBalance).toBeCloseTo(4000);
+      expect(states[3].events[0]).toMatchObject({ type: 'SIGNAL' });
+      expect(states[3].events[0].description).toContain('Risk-Off');
+
+      expect(states[4].strategyMemory.riskOn).toBe(false);
+      expect(states[4].events).toEqual([]);
+
+      expect(states[5].strategyMemory.riskOn).toBe(true);
+      expect(states[5].events[0].description).toContain('Risk-On');
+      // Back to 60/40 of 6000 (QQQ 60 sh at 80 -> 110) + 4000 cash = 10600
+      expect(states[5].shares.QLD * 50).toBeCloseTo(10600 * 0.4);
+      expect(states[5].cashBalance).toBeCloseTo(0);
+    });
+
+    it('moves only the configured fraction of the sleeve when risk-off', () => {
+      const states = runCloses([100, 100, 100, 80], { ...config, trend: { ...config.trend!, riskOffFraction: 50 } });
+
+      expect(states[3].shares.QLD).toBeCloseTo(40);
+      expect(states[3].cashBalance).toBeCloseTo(2000);
+    });
+  });
+
+  describe('strategyVolTarget', () => {
+    const config: AssetConfig = {
+      ...mockConfig,
+      contributionAmount: 0,
+      volTarget: { targetVol: 20, windowMonths: 4, maxBeta: 2, maxTurnover: 100, rebalanceBand: 0.1 }
+    };
+    // Runs the strategy over consecutive months with the given QQQ closes (QLD stays at 50)
+    const runCloses = (closes: number[], cfg: AssetConfig, start: PortfolioState = mockState) => {
+      let state = start;
+      closes.forEach((qqq, i) => {
+        const row = { ...mockMarketData, date: `2020-${String(i + 1).padStart(2, '0')}-01`, prices: { ...mockMarketData.prices, QQQ: qqq } };
+        state = strategyVolTarget({ ...state, events: [] }, row, cfg, i);
+      });
+      return state;
+    };
+    const weightOf = (state: PortfolioState, value: number) => value / state.totalValue;
+    // +/-1% monthly: realized 3.5%
+    const calmCloses = [100, 101, 99.99, 100.9899, 99.980001];
+
+    it('scales exposure down to the target in a volatile market', () => {
+      // +/-10% monthly: realized 34.6% -> beta 20 / 34.6 = 0.577, all in QQQ
+      const state = runCloses([100, 110, 99, 108.9, 98.01], config);
+
+      expect(state.strategyMemory.realizedVol).toBeCloseTo(10 * Math.sqrt(12));
+      expect(weightOf(state, state.shares.QQQ * 98.01)).toBeCloseTo(20 / (10 * Math.sqrt(12)));
+      expect(state.shares.QLD).toBeCloseTo(0);
+      expect(state.events[0]).toMatchObject({ type: 'REBALANCE' });
+    });
+
+    it('adds the leveraged sleeve in a calm market up to the beta cap', () => {
+      // +/-1% monthly: beta 5.8 capped at 1.8 -> 20% QQQ (beta 1), 80% QLD (beta 2)
+      const state = runCloses(calmCloses, { ...config, volTarget: { ...config.volTarget!, maxBeta: 1.8 } });
+
+      expect(weightOf(state, state.shares.QQQ * 99.980001)).toBeCloseTo(0.2);
+      expect(weightOf(state, state.shares.QLD * 50)).toBeCloseTo(0.8);
+      expect(state.cashBalance).toBeCloseTo(0);
+    });
+
+    it('holds while the beta is within the band of its target', () => {
+      // The 60/40 DCA mix has beta 1.4, the target 1.5 is within 0.1
+      const state = runCloses(calmCloses, { ...config, volTarget: { ...config.volTarget!, maxBeta: 1.5 } });
+
+      expect(state.shares).toEqual({ QQQ: 60, QLD: 80 });
+      expect(state.events).toHaveLength(0);
+    });
+
+    it('sizes against equity net of debt and keeps the loan in cash', () => {
+      const levered = { ...config, leverage: { ...config.leverage, enabled: true, maxLtv: 100 } };
+      const state = runCloses([100, 110, 99, 108.9, 98.01], levered, { ...mockState, debtBalance: 3000 });
+      const equity = state.totalValue - 3000;
+
+      expect(state.shares.QQQ * 98.01 / equity).toBeCloseTo(20 / (10 * Math.sqrt(12)));
+      expect(state.cashBalance).toBeCloseTo(state.totalValue - state.shares.QQQ * 98.01);
+      expect(state.cashBalance).toBeGreaterThan(3000);
+    });
+
+    it('keeps enough collateral for the loan at 80% of the max LTV', () => {
+      // All-in QLD (pledge 0) would leave only the cash as collateral: QQQ makes up the rest of 3000 / 40%
+      const levered = { ...config, leverage: { ...config.leverage, enabled: true, maxLtv: 50, ltvBasis: 'COLLATERAL' as const } };
+      const state = runCloses(calmCloses, levered, { ...mockState, debtBalance: 3000 });
+      const collateral = state.cashBalance * 0.95 + state.shares.QQQ * 99.980001 * 0.7;
+
+      expect(collateral).toBeCloseTo(7500);
+      expect(state.shares.QLD).toBeGreaterThan(0);
+      expect(state.cashBalance).toBeCloseTo(3000);
+    });
+
+    it('caps the value traded in a month', () => {
+      const state = runCloses([100, 110, 99, 108.9, 98.01], { ...config, volTarget: { ...config.volTarget!, maxTurnover: 10 } });
+
+      // Only cash is bought: it receives exactly the 10% that may trade
+      expect(weightOf(state, state.cashBalance)).toBeCloseTo(0.1);
+      expect(state.events[0].description).toContain('capped');
+    });
+  });
+
+  describe('strategyValueAveraging', () => {
+    const config: AssetConfig = {
+      ...mockConfig,
+      valueAveraging: { expectedReturn: 0, maxContribution: 1500, allowWithdrawals: false, maxWithdrawal: 0 }
+    };
+    const start = strategyValueAveraging(mockState, mockMarketData, config, 0);
+    const febData = { ...mockMarketData, date: '2020-02-01' };
+
+    it('contributes the gap to the path, up to the cap', () => {
+      // Path 11000; prices halved -> value 5000, gap 6000 capped at 1500
+      const newState = strategyValueAveraging(start, { ...febData, prices: { QQQ: 50, QLD: 25 } }, config, 1);
+
+      expect(newState.strategyMemory.vaTarget).toBe(11000);
+      expect(newState.strategyMemory.vaLastFlow).toBe(1500);
+      expect(newState.totalValue).toBeCloseTo(6500);
+    });
+
+    it('contributes nothing above the path unless withdrawals are allowed', () => {
+      // Prices doubled -> value 20000 against a path of 11000
+      const doubled = { ...febData, prices: { QQQ: 200, QLD: 100 } };
+      expect(strategyValueAveraging(start, doubled, config, 1).totalValue).toBeCloseTo(20000);
+
+      const withdrawing = { ...config, valueAveraging: { ...config.valueAveraging!, allowWithdrawals: true, maxWithdrawal: 0 } };
+      const newState = strategyValueAveraging(start, doubled, withdrawing, 1);
+      expect(newState.totalValue).toBeCloseTo(11000);
+      // Taken out pro rata: the 60/40 mix is unchanged
+      expect(newState.shares.QQQ * 200 / newState.totalValue).toBeCloseTo(0.6);
+    });
+  });
+
+  describe('strategyCppi', () => {
+    const config: AssetConfig = {
+      ...mockConfig,
+      contributionAmount: 0,
+      cppi: { floorType: 'RATCHET', floorValue: 80, multiplier: 3, maxExposure: 100 }
+    };
+
+    it('invests multiplier x cushion split by target weights', () => {
+      const newState = strategyCppi(mockState, mockMarketData, config, 0);
+
+      // Floor 8000, cushion 2000, exposure 6000: QQQ 3600, QLD 2400, cash 4000
+      expect(newState.strategyMemory).toMatchObject({ cppiFloor: 8000, cppiCushion: 2000, cppiExposure: 6000, cppiGap: 0 });
+      expect(newState.shares.QQQ).toBeCloseTo(36);
+      expect(newState.shares.QLD).toBeCloseTo(48);
+      expect(newState.cashBalance).toBeCloseTo(4000);
+    });
+
+    it('reports a gap when a crash opens below the floor', () => {
+      const start = strategyCppi(mockState, mockMarketData, config, 0);
+      // Risky assets halve: 3000 + 4000 cash = 7000, 12.5% under the 8000 floor
+      const newState = strategyCppi(start, { ...mockMarketData, date: '2020-02-01', prices: { QQQ: 50, QLD: 25 } }, config, 1);
+
+      expect(newState.strategyMemory.cppiGap).toBeCloseTo(12.5);
+      expect(newState.strategyMemory.cppiExposure).toBe(0);
+      expect(newState.cashBalance).toBeCloseTo(7000);
+      expect(newState.events[0]).toMatchObject({ type: 'INFO' });
+    });
+
+    it('supports an absolute floor', () => {
+      const newState = strategyCppi(mockState, mockMarketData, { ...config, cppi: { ...config.cppi!, floorType: 'ABSOLUTE', floorValue: 9000 } }, 0);
+
+      expect(newState.strategyMemory.cppiExposure).toBeCloseTo(3000);
+      expect(newState.cashBalance).toBeCloseTo(7000);
+    });
+
+    it('measures the cushion on equity net of the loan, its interest and the tax owed', () => {
+      const indebted = { ...mockState, debtBalance: 1000, accruedInterest: 500, taxLiability: 500 };
+      const newState = strategyCppi(indebted, mockMarketData, config, 0);
+
+      // Equity 8000: floor 6400, cushion 1600, exposure 4800
+      expect(newState.strategyMemory).toMatchObject({ cppiPeak: 8000, cppiFloor: 6400, cppiCushion: 1600, cppiExposure: 4800 });
+    });
+
+    it('does not count a contribution as a new high of the ratchet', () => {
+      const contributing = { ...config, contributionAmount: 1000 };
+      const start = strategyCppi(mockState, mockMarketData, contributing, 0);
+      // Risky assets -10%: 5400 + 4000 cash = 9400, then 1000 comes in
+      const newState = strategyCppi(start, { ...mockMarketData, date: '2020-02-01', prices: { QQQ: 90, QLD: 45 } }, contributing, 1);
+
+      // Peak 10000 plus the 1000, not the 10400 of equity: floor 8800, cushion 1600
+      expect(newState.strategyMemory).toMatchObject({ cppiPeak: 11000, cppiGap: 0 });
+      expect(newState.strategyMemory.cppiFloor).toBeCloseTo(8800);
+      expect(newState.strategyMemory.cppiCushion).toBeCloseTo(1600);
+    });
+  });
+
+  describe('strategyDrawdownLadder', () => {
+    const config: AssetConfig = {
+      ...mockConfig,
+      contributionAmount: 0,
+      drawdownLadder: {
+        steps: [{ drawdown: 20, leveragedWeight: 60 }, { drawdown: 10, leveragedWeight: 20 }],
+        gradualRecovery: false
+      }
+    };
+    const start = strategyDrawdownLadder(mockState, mockMarketData, config, 0);
+    const dip = strategyDrawdownLadder(start, { ...mockMarketData, date: '2020-02-01', prices: { QQQ: 85, QLD: 35 } }, config, 1);
+
+    it('climbs the ladder as QQQ falls and logs the reason', () => {
+      // 15% below the high: the -10% rung, 20% of 5100 + 2800 in QLD, the rest in QQQ
+      expect(dip.strategyMemory.ladderLevel).toBe(0);
+      expect(dip.shares.QLD * 35).toBeCloseTo(1580);
+      expect(dip.shares.QQQ * 85).toBeCloseTo(6320);
+      expect(dip.events).toContainEqual(expect.objectContaining({ type: 'TRADE', ticker: 'QLD', reason: expect.stringContaining('ladder step -10% -> 20% QLD') }));
+    });
+
+    it('holds the deepest rung until a new high, then returns to the base allocation', () => {
+      const bounce = strategyDrawdownLadder({ ...dip, events: [] }, { ...mockMarketData, date: '2020-03-01', prices: { QQQ: 95, QLD: 45 } }, config, 2);
+      expect(bounce.strategyMemory.ladderLevel).toBe(0);
+      expect(bounce.events).toHaveLength(0);
+
+      const high = strategyDrawdownLadder({ ...bounce, events: [] }, { ...mockMarketData, date: '2020-04-01', prices: { QQQ: 110, QLD: 60 } }, config, 3);
+      expect(high.strategyMemory.ladderLevel).toBe(-1);
+      expect(high.shares.QLD * 60 / high.totalValue).toBeCloseTo(0.4);
+      expect(high.events[0].reason).toContain('new high');
+    });
+
+    it('steps back down on the way up with gradual recovery', () => {
+      const gradual: AssetConfig = { ...config, drawdownLadder: { ...config.drawdownLadder!, gradualRecovery: true } };
+      const bounce = strategyDrawdownLadder({ ...dip, events: [] }, { ...mockMarketData, date: '2020-03-01', prices: { QQQ: 95, QLD: 45 } }, gradual, 2);
+
+      expect(bounce.strategyMemory.ladderLevel).toBe(-1);
+      expect(bounce.shares.QLD * 45 / bounce.totalValue).toBeCloseTo(0.4);
+    });
   });
 
   describe('strategySmart', () => {
@@ -129,7 +484,49 @@ describe('Strategies', () => {
          expect(newState.strategyMemory.startQLDVal).toBeDefined();
      });
      
-     // More complex tests for profit taking/dip buying could be added here
-     // simulating a December check.
+     // QLD held 100 shares worth 5000 at the start of the year, now priced 60
+     const config: AssetConfig = { ...mockConfig, contributionAmount: 0 };
+     const juneData = { ...mockMarketData, date: '2020-06-01', prices: { ...mockMarketData.prices, QLD: 60, TLT: 20 } };
+     const state = {
+       ...mockState,
+       shares: { QQQ: 0, QLD: 100, TLT: 0 },
+       strategyMemory: { currentYear: 2020, startQLDVal: 5000, yearInflow: 0, peakPrice: 100 }
+     };
+
+     it('harvests the configured fraction of profit into the reserve asset in the evaluation month', () => {
+         const smartConfig: AssetConfig = {
+           ...config,
+           smart: { evaluationMonth: 6, harvestFraction: 50, dipBuyPercent: 2, harvestInto: 'TLT', maxReservePercent: 100, dipTrigger: 'YEARLY_LOSS', drawdownTrigger: 20 }
+         };
+         const newState = strategySmart(state, juneData, smartConfig, 5);
+
+         // Profit 6000 - 5000 = 1000, half of it (500) moves to TLT
+         expect(newState.shares.QLD).toBeCloseTo(100 - 500 / 60);
+         expect(newState.shares.TLT).toBeCloseTo(25);
+         expect(newState.strategyMemory.lastAction).toBe('Sold Profit 500.00');
+     });
+
+     it('stops harvesting at the reserve cap', () => {
+         const smartConfig: AssetConfig = {
+           ...config,
+           smart: { evaluationMonth: 6, harvestFraction: 50, dipBuyPercent: 2, maxReservePercent: 5, dipTrigger: 'YEARLY_LOSS', drawdownTrigger: 20 }
+         };
+         const newState = strategySmart(state, juneData, smartConfig, 5);
+
+         // Reserve capped at 5% of 6000
+         expect(newState.cashBalance).toBeCloseTo(300);
+     });
+
+     it('buys the dip on a drawdown trigger even in a profitable year', () => {
+         const smartConfig: AssetConfig = {
+           ...config,
+           smart: { evaluationMonth: 6, harvestFraction: 50, dipBuyPercent: 2, maxReservePercent: 100, dipTrigger: 'DRAWDOWN', drawdownTrigger: 30 }
+         };
+         const newState = strategySmart({ ...state, cashBalance: 1000 }, juneData, smartConfig, 5);
+
+         // 40% below the peak of 100: buys 2% of 7000 from cash
+         expect(newState.cashBalance).toBeCloseTo(860);
+         expect(newState.shares.QLD).toBeCloseTo(100 + 140 / 60);
+     });
   });
 });
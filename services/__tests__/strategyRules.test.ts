@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_RULES, applyRuleAction, getRuleMetric, validateRules } from '../strategyRules';
+import { strategyRules } from '../strategies';
+import { AssetConfig, MarketDataRow, PortfolioState, StrategyRule } from '../../types';
+
+const config: AssetConfig = {
+  initialCapital: 10000,
+  contributionAmount: 0,
+  contributionIntervalMonths: 1,
+  yearlyContributionMonth: 12,
+  qqqWeight: 60,
+  qldWeight: 40,
+  contributionQqqWeight: 60,
+  contributionQldWeight: 40,
+  cashYieldAnnual: 0,
+  leverage: {
+    enabled: false,
+    interestRate: 0,
+    qqqPledgeRatio: 0.7,
+    qldPledgeRatio: 0,
+    cashPledgeRatio: 0.95,
+    maxLtv: 100,
+    withdrawType: 'PERCENT',
+    withdrawValue: 0,
+    inflationRate: 0,
+    interestType: 'CAPITALIZED',
+    ltvBasis: 'TOTAL_ASSETS'
+  }
+};
+
+const row = (date: string, qqq: number, qld: number): MarketDataRow => ({ date, prices: { QQQ: qqq, QLD: qld } });
+
+const emptyState: PortfolioState = {
+  date: '2019-12-01',
+  shares: { QQQ: 0, QLD: 0 },
+  cashBalance: 0,
+  debtBalance: 0,
+  accruedInterest: 0,
+  totalValue: 0,
+  strategyMemory: {},
+  ltv: 0,
+  beta: 0,
+  events: []
+};
+
+// Runs the strategy over the rows the way the engine does: one call a month with an empty event list
+const run = (rules: StrategyRule[], rows: MarketDataRow[]) => {
+  const states: PortfolioState[] = [];
+  rows.forEach((r, i) => states.push(strategyRules({ ...(states[i - 1] || emptyState), events: [] }, r, { ...config, rules }, i)));
+  return states;
+};
+
+describe('Strategy Rules', () => {
+  describe('validateRules', () => {
+    it('accepts the default rules, also after a JSON round trip', () => {
+      expect(validateRules(DEFAULT_RULES)).toEqual([]);
+      expect(validateRules(JSON.parse(JSON.stringify(DEFAULT_RULES)))).toEqual([]);
+    });
+
+    it('lists what is wrong with each rule', () => {
+      const errors = validateRules([
+        {
+          name: 'Broken',
+          conditions: [{ metric: 'RSI', operator: '>', value: 70 }, { metric: 'DATE', operator: '>=', value: '2020' }],
+          actions: [{ type: 'BUY', amount: 10 }, { type: 'SET_WEIGHTS', weights: { QQQ: 80, QLD: 40 } }]
+        }
+      ]);
+      expect(errors).toEqual([
+        'Rule 1, condition 1: unknown metric "RSI"',
+        'Rule 1, condition 2: value must be a YYYY-MM month',
+        'Rule 1, action 1: BUY needs a ticker',
+        'Rule 1, action 2: weights add up to more than 100%'
+      ]);
+      expect(validateRules({ rules: [] })).toEqual(['Rules must be a list']);
+    });
+
+    it('only accepts borrowing with leverage enabled', () => {
+      const rules = [{ name: 'Lever up', conditions: [], actions: [{ type: 'BORROW', amount: 10 }] }];
+      expect(validateRules(rules, true)).toEqual([]);
+      expect(validateRules(rules, false)).toEqual(['Rule 1, action 1: BORROW needs leverage enabled']);
+    });
+  });
+
+  describe('metrics', () => {
+    it('needs a full window before comparing the price to its moving average', () => {
+      const memory = { ruleCloses: { QQQ: [100, 110] } };
+      const condition = { metric: 'PRICE_VS_MA' as const, operator: '>' as const, value: 0, periodMonths: 3 };
+      expect(getRuleMetric(condition, emptyState, row('2020-03-01', 120, 50), memory)).toBeUndefined();
+      expect(getRuleMetric(condition, emptyState, row('2020-03-01', 120, 50), { ruleCloses: { QQQ: [100, 110, 120] } })).toBeCloseTo(9.0909, 3);
+    });
+
+    it('measures the profit since January net of contributions', () => {
+      // Started the year at 10000, paid in 1000, now worth 12100
+      const state = { ...emptyState, cashBalance: 12100 };
+      const memory = { ruleYearStart: 10000, ruleYearInflow: 1000 };
+      expect(getRuleMetric({ metric: 'YTD_PROFIT', operator: '>', value: 0 }, state, row('2020-06-01', 100, 50), memory)).toBeCloseTo(10);
+    });
+  });
+
+  describe('actions', () => {
+    it('borrows into cash and repays no more than the cash held', () => {
+      const state = { ...emptyState, shares: { QQQ: 100 }, cashBalance: 500, debtBalance: 2000 };
+      const market = row('2020-01-01', 100, 50);
+
+      applyRuleAction({ type: 'REPAY', amount: 100, unit: 'PERCENT' }, state, market);
+      expect(state.debtBalance).toBe(1500);
+      expect(state.cashBalance).toBe(0);
+
+      const events = applyRuleAction({ type: 'BORROW', amount: 10, unit: 'PERCENT' }, state, market);
+      // 10% of 10000 - 1500 equity
+      expect(state.debtBalance).toBeCloseTo(2350);
+      expect(state.cashBalance).toBeCloseTo(850);
+      expect(events[0]).toMatchObject({ type: 'DEBT_INC', amount: 850 });
+    });
+
+    it('moves a fixed amount to cash out of every holding pro rata', () => {
+      const state = { ...emptyState, shares: { QQQ: 60, QLD: 80 } };
+      applyRuleAction({ type: 'MOVE_TO_CASH', amount: 1000, unit: 'AMOUNT' }, state, row('2020-01-01', 100, 50));
+      expect(state.shares.QQQ).toBeCloseTo(54);
+      expect(state.shares.QLD).toBeCloseTo(72);
+      expect(state.cashBalance).toBeCloseTo(1000);
+    });
+  });
+
+  describe('strategyRules', () => {
+    const rows = [row('2020-01-01', 100, 50), row('2020-02-01', 75, 30), row('2020-03-01', 70, 28), row('2020-04-01', 98, 48)];
+
+    it('fires a rule when its conditions hold and gives the rule as the reason of its trades', () => {
+      const states = run(DEFAULT_RULES, rows);
+      const dip = states[1];
+
+      expect(dip.shares.QLD * 30 / dip.totalValue).toBeCloseTo(0.6);
+      expect(dip.events).toContainEqual(expect.objectContaining({ type: 'TRADE', ticker: 'QLD', reason: 'Rule "Correction": QQQ drawdown >= 20' }));
+      expect(dip.events).toContainEqual(expect.objectContaining({ type: 'REBALANCE' }));
+    });
+
+    it('fires an on-entry rule once while its conditions keep holding', () => {
+      const states = run(DEFAULT_RULES, rows);
+
+      expect(states[2].events).toHaveLength(0);
+      // Back within 5% of the high: the recovery rule restores the base mix
+      expect(states[3].shares.QLD * 48 / states[3].totalValue).toBeCloseTo(0.4);
+      expect(states[3].events).toContainEqual(expect.objectContaining({ reason: 'Rule "Recovered": QQQ drawdown <= 5' }));
+    });
+
+    it('fires every month a rule without on-entry holds', () => {
+      const rules: StrategyRule[] = [{ name: 'Trim', conditions: [{ metric: 'MONTH', operator: '>=', value: 2 }], actions: [{ type: 'SELL', ticker: 'QLD', amount: 50 }] }];
+      const states = run(rules, rows);
+
+      expect(states[0].shares.QLD).toBeCloseTo(80);
+      expect(states[1].shares.QLD).toBeCloseTo(40);
+      expect(states[2].shares.QLD).toBeCloseTo(20);
+    });
+
+    it('skips borrowing while leverage is disabled', () => {
+      const rules: StrategyRule[] = [{ name: 'Lever up', conditions: [], actions: [{ type: 'BORROW', amount: 10 }, { type: 'BUY', ticker: 'QLD', amount: 100 }] }];
+      const [state] = run(rules, rows.slice(0, 1));
+
+      expect(state.debtBalance).toBe(0);
+      expect(state.events.some(e => e.type === 'DEBT_INC')).toBe(false);
+
+      const levered = strategyRules({ ...emptyState, events: [] }, rows[0], { ...config, rules, leverage: { ...config.leverage, enabled: true } }, 0);
+      expect(levered.debtBalance).toBeCloseTo(1000);
+    });
+  });
+});
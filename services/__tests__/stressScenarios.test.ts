@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { BUILT_IN_SCENARIOS, buildScenarioRows, parseScenarioReturns, replayStressScenario, snapshotFromState, StressScenario, StressSnapshot } from '../stressScenarios';
+import { MARKET_DATA } from '../../constants';
+import { AssetConfig, MarketDataRow, PortfolioState } from '../../types';
+
+const createConfig = (): AssetConfig => ({
+  initialCapital: 10000,
+  contributionAmount: 1000,
+  contributionIntervalMonths: 1,
+  yearlyContributionMonth: 12,
+  qqqWeight: 50,
+  qldWeight: 50,
+  contributionQqqWeight: 50,
+  contributionQldWeight: 50,
+  cashYieldAnnual: 0,
+  leverage: {
+    enabled: true,
+    interestRate: 0,
+    qqqPledgeRatio: 0.7,
+    qldPledgeRatio: 0.0,
+    cashPledgeRatio: 0.95,
+    maxLtv: 50,
+    withdrawType: 'PERCENT',
+    withdrawValue: 0,
+    inflationRate: 0,
+    interestType: 'CAPITALIZED',
+    ltvBasis: 'TOTAL_ASSETS'
+  }
+});
+
+const snapshot = (holdings: Record<string, number>, debtBalance: number = 0): StressSnapshot => ({
+  date: '2024-06-01',
+  holdings,
+  cashBalance: 0,
+  debtBalance,
+  accruedInterest: 0
+});
+
+const crash = (returns: number[]): StressScenario => ({ id: 'custom', name: 'Custom', isBuiltIn: false, returns: { QQQ: returns } });
+
+describe('stressScenarios', () => {
+  it('should build every built-in scenario from the bundled history', () => {
+    BUILT_IN_SCENARIOS.forEach(scenario => {
+      const { rows, error } = buildScenarioRows(scenario, MARKET_DATA, ['QQQ', 'QLD'], '2024-06-01');
+      expect(error).toBeUndefined();
+      expect(rows[0].prices.QQQ).toBe(1);
+      expect(rows[0].prices.QLD).toBe(1);
+    });
+  });
+
+  it('should start historical paths on the month before the scenario', () => {
+    const covid = BUILT_IN_SCENARIOS.find(s => s.id === 'covid')!;
+    const { rows } = buildScenarioRows(covid, MARKET_DATA, ['QQQ'], '2024-06-01');
+    expect(rows.map(r => r.date)).toEqual(['2020-01-01', '2020-02-01', '2020-03-01']);
+    const jan = MARKET_DATA.find(r => r.date === '2020-01-01')!;
+    const mar = MARKET_DATA.find(r => r.date === '2020-03-01')!;
+    expect(rows[2].prices.QQQ).toBeCloseTo(mar.prices.QQQ / jan.prices.QQQ);
+  });
+
+  it('should report history that does not cover the scenario', () => {
+    const data: MarketDataRow[] = MARKET_DATA.filter(r => r.date >= '2010-01-01');
+    const { rows, error } = buildScenarioRows(BUILT_IN_SCENARIOS[0], data, ['QQQ'], '2024-06-01');
+    expect(rows).toHaveLength(0);
+    expect(error).toContain('does not cover');
+  });
+
+  it('should report held tickers without prices in the scenario window', () => {
+    const { error } = buildScenarioRows(BUILT_IN_SCENARIOS[1], MARKET_DATA, ['QQQ', 'TQQQ'], '2024-06-01');
+    expect(error).toContain('TQQQ');
+  });
+
+  it('should compound hypothetical returns from the snapshot month', () => {
+    const { rows } = buildScenarioRows(crash([-10, -20]), [], ['QQQ', 'QLD'], '2024-06-15');
+    expect(rows.map(r => r.date)).toEqual(['2024-06-01', '2024-07-01', '2024-08-01']);
+    expect(rows[2].prices.QQQ).toBeCloseTo(0.72);
+    expect(rows[2].prices.QLD).toBe(1); // Not listed in the scenario: flat
+  });
+
+  it('should replay the equity path of an unlevered book', () => {
+    const result = replayStressScenario(snapshot({ QQQ: 100000 }), crash([-10, -20, 10]), [], createConfig());
+
+    expect(result.error).toBeUndefined();
+    expect(result.survived).toBe(true);
+    expect(result.path.map(p => Math.round(p.equity))).toEqual([100000, 90000, 72000, 79200]);
+    expect(result.path[0].beta).toBeCloseTo(1);
+    expect(result.minEquity).toBeCloseTo(72000);
+    expect(result.endEquity).toBeCloseTo(79200);
+    expect(result.maxDrawdown).toBeCloseTo(28);
+  });
+
+  it('should track LTV and liquidate when it breaches max LTV', () => {
+    // 40% LTV at the start; a 30% fall pushes it to 40 / 70 = 57% > 50%
+    const result = replayStressScenario(snapshot({ QQQ: 100000 }, 40000), crash([-10, -20, 10]), [], createConfig());
+
+    expect(result.path[0].ltv).toBeCloseTo(40);
+    expect(result.path[1].ltv).toBeCloseTo(44.44, 1);
+    expect(result.survived).toBe(false);
+    expect(result.liquidationDate).toBe('2024-08-01');
+    expect(result.endEquity).toBe(0);
+  });
+
+  it('should not draw the initial withdrawal again from an existing book', () => {
+    const config = createConfig();
+    config.leverage.withdrawValue = 10;
+    const result = replayStressScenario(snapshot({ QQQ: 100000 }), crash([0, 0]), [], config);
+    expect(result.path.every(p => p.debt === 0)).toBe(true);
+  });
+
+  it('should value a backtest state at the given prices', () => {
+    const state = {
+      date: '2024-01-01',
+      shares: { QQQ: 10, QLD: 0 },
+      cashBalance: 500,
+      debtBalance: 200,
+      accruedInterest: 0
+    } as unknown as PortfolioState;
+    const snap = snapshotFromState(state, { date: '2024-01-01', prices: { QQQ: 400, QLD: 90 } });
+    expect(snap.holdings).toEqual({ QQQ: 4000 });
+    expect(snap.cashBalance).toBe(500);
+    expect(snap.debtBalance).toBe(200);
+  });
+
+  it('should parse hypothetical returns per ticker', () => {
+    expect(parseScenarioReturns('qqq: -10, -25, 5\n\nQLD: -20,-45')).toEqual({ QQQ: [-10, -25, 5], QLD: [-20, -45] });
+    expect(() => parseScenarioReturns('QQQ: -10, abc')).toThrow('QQQ: -10, abc');
+    expect(() => parseScenarioReturns('QQQ')).toThrow();
+  });
+});
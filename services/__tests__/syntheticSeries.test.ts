@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildSyntheticSeries,
+  getSyntheticReturn,
+  spliceSyntheticSeries,
+  SyntheticSeriesParams
+} from '../syntheticSeries';
+import { buildMarketData } from '../marketDataImport';
+import { PricePoint } from '../../types';
+
+const noCost: SyntheticSeriesParams = { leverage: 2, expenseRatio: 0, financingRate: 0, volatilityWindow: 12 };
+
+const base: PricePoint[] = [
+  { date: '2020-01-01', adjClose: 100 },
+  { date: '2020-02-01', adjClose: 110 },
+  { date: '2020-03-01', adjClose: 99 },
+  { date: '2020-04-01', adjClose: 108.9 }
+];
+
+describe('syntheticSeries', () => {
+  it('should reproduce the base series at 1x without costs', () => {
+    const series = buildSyntheticSeries(base, { ...noCost, leverage: 1 }, 100);
+    series.forEach((p, i) => expect(p.adjClose).toBeCloseTo(base[i].adjClose));
+  });
+
+  it('should compound leverage without drag when returns are constant', () => {
+    const steady = [0, 1, 2, 3].map(i => ({ date: `2020-0${i + 1}-01`, adjClose: 100 * Math.pow(1.01, i) }));
+    const logReturns = steady.map((p, i) => (i === 0 ? 0 : Math.log(p.adjClose / steady[i - 1].adjClose)));
+    // Zero variance within the window: 2x log return exactly
+    expect(getSyntheticReturn(logReturns, 3, { ...noCost, volatilityWindow: 2 })).toBeCloseTo(1.01 * 1.01 - 1);
+  });
+
+  it('should deduct volatility drag, financing and expenses', () => {
+    const logReturns = base.map((p, i) => (i === 0 ? 0 : Math.log(p.adjClose / base[i - 1].adjClose)));
+    const gross = getSyntheticReturn(logReturns, 3, noCost);
+    expect(gross).toBeLessThan(Math.pow(108.9 / 99, 2) - 1);
+
+    const net = getSyntheticReturn(logReturns, 3, { ...noCost, expenseRatio: 1.2, financingRate: 2.4 });
+    // (1 * 2.4% + 1.2%) / 12 = 0.3% per month
+    expect(gross - net).toBeCloseTo(0.003);
+  });
+
+  it('should back-cast from the splice month and keep real prices after it', () => {
+    const actual = [
+      { date: '2020-03-01', adjClose: 40 },
+      { date: '2020-04-01', adjClose: 48 }
+    ];
+    const result = spliceSyntheticSeries(base, actual, noCost);
+
+    expect(result.errors).toEqual([]);
+    expect(result.spliceDate).toBe('2020-03-01');
+    expect(result.syntheticDates).toEqual(['2020-01-01', '2020-02-01']);
+    expect(result.series.slice(2)).toEqual(actual);
+
+    // Synthetic return into the splice month continues into the real price
+    const logReturns = base.map((p, i) => (i === 0 ? 0 : Math.log(p.adjClose / base[i - 1].adjClose)));
+    expect(40 / result.series[1].adjClose - 1).toBeCloseTo(getSyntheticReturn(logReturns, 2, noCost));
+  });
+
+  it('should override real prices before an explicit splice month', () => {
+    const actual = base.map(p => ({ date: p.date, adjClose: p.adjClose / 2 }));
+    const result = spliceSyntheticSeries(base, actual, noCost, '2020-04-01');
+    expect(result.syntheticDates).toHaveLength(3);
+    expect(result.series[3]).toEqual(actual[3]);
+  });
+
+  it('should report a splice month without real data', () => {
+    const result = spliceSyntheticSeries(base, [{ date: '2020-03-01', adjClose: 40 }], noCost, '2020-02-01');
+    expect(result.errors[0]).toContain('2020-02-01');
+  });
+
+  it('should tag synthetic months when building market data', () => {
+    const { data } = buildMarketData({ QQQ: base, QLD: base }, { QLD: '2020-03-01' });
+    expect(data.map(r => r.syntheticTickers)).toEqual([['QLD'], ['QLD'], undefined, undefined]);
+  });
+});
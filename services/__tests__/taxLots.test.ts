@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { calculateCapitalGainsTax, reconcileLots, sellFromLots } from '../taxLots';
+import { TaxConfig, TaxLot } from '../../types';
+
+const createTax = (overrides: Partial<TaxConfig> = {}): TaxConfig => ({
+  enabled: true,
+  shortTermRate: 30,
+  longTermRate: 15,
+  holdingPeriodMonths: 12,
+  lotSelection: 'FIFO',
+  paymentMode: 'CASH',
+  ...overrides
+});
+
+const lots: TaxLot[] = [
+  { ticker: 'QQQ', shares: 10, costBasis: 100, acquired: '2020-01-01' },
+  { ticker: 'QQQ', shares: 10, costBasis: 150, acquired: '2020-06-01' },
+  { ticker: 'QQQ', shares: 10, costBasis: 120, acquired: '2020-12-01' },
+  { ticker: 'QLD', shares: 5, costBasis: 50, acquired: '2020-01-01' }
+];
+
+describe('taxLots', () => {
+  describe('sellFromLots', () => {
+    it('should sell the oldest lots first under FIFO', () => {
+      const sale = sellFromLots(lots, 'QQQ', 15, 200, '2021-03-01', createTax());
+      // 10 @100 held 14 months, 5 @150 held 9 months
+      expect(sale.gains).toEqual({ longTerm: 1000, shortTerm: 250 });
+      expect(sale.lots.filter(l => l.ticker === 'QQQ').map(l => l.shares)).toEqual([5, 10]);
+      expect(sale.lots.find(l => l.ticker === 'QLD')!.shares).toBe(5);
+    });
+
+    it('should sell the newest lots first under LIFO', () => {
+      const sale = sellFromLots(lots, 'QQQ', 10, 200, '2021-03-01', createTax({ lotSelection: 'LIFO' }));
+      expect(sale.gains).toEqual({ longTerm: 0, shortTerm: 800 });
+    });
+
+    it('should sell the highest cost lots first under HIFO', () => {
+      const sale = sellFromLots(lots, 'QQQ', 10, 200, '2021-03-01', createTax({ lotSelection: 'HIFO' }));
+      expect(sale.gains).toEqual({ longTerm: 0, shortTerm: 500 });
+      expect(sale.lots.filter(l => l.ticker === 'QQQ').map(l => l.costBasis)).toEqual([100, 120]);
+    });
+
+    it('should realize losses below the cost basis', () => {
+      const sale = sellFromLots(lots, 'QLD', 5, 30, '2020-06-01', createTax());
+      expect(sale.gains).toEqual({ longTerm: 0, shortTerm: -100 });
+      expect(sale.lots.some(l => l.ticker === 'QLD')).toBe(false);
+    });
+  });
+
+  describe('reconcileLots', () => {
+    it('should open a lot for each purchase and sell out of the lots for each sale', () => {
+      const row = { date: '2021-01-01', prices: { QQQ: 200, QLD: 80 } };
+      const result = reconcileLots(lots, { QQQ: 30, QLD: 5 }, { QQQ: 25, QLD: 8 }, row, createTax());
+      expect(result.gains).toEqual({ longTerm: 500, shortTerm: 0 });
+      expect(result.lots).toContainEqual({ ticker: 'QLD', shares: 3, costBasis: 80, acquired: '2021-01-01' });
+    });
+  });
+
+  describe('calculateCapitalGainsTax', () => {
+    it('should tax short and long-term gains at their own rates', () => {
+      expect(calculateCapitalGainsTax({ shortTerm: 1000, longTerm: 2000 }, 0, createTax()))
+        .toEqual({ tax: 600, lossCarryforward: 0 });
+    });
+
+    it('should net a loss on one side against the gain on the other', () => {
+      expect(calculateCapitalGainsTax({ shortTerm: -500, longTerm: 2000 }, 0, createTax()).tax).toBeCloseTo(225);
+      expect(calculateCapitalGainsTax({ shortTerm: 2000, longTerm: -500 }, 0, createTax()).tax).toBeCloseTo(450);
+    });
+
+    it('should carry a net loss forward and use it against later gains', () => {
+      const loss = calculateCapitalGainsTax({ shortTerm: -800, longTerm: 300 }, 0, createTax());
+      expect(loss).toEqual({ tax: 0, lossCarryforward: 500 });
+
+      const next = calculateCapitalGainsTax({ shortTerm: 200, longTerm: 1000 }, loss.lossCarryforward, createTax());
+      expect(next.tax).toBeCloseTo(700 * 0.15);
+      expect(next.lossCarryforward).toBe(0);
+    });
+  });
+});
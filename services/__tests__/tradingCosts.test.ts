@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { applyTradingCosts, calculateCommission } from '../tradingCosts';
+import { TradingCostConfig } from '../../types';
+
+const createCosts = (overrides: Partial<TradingCostConfig> = {}): TradingCostConfig => ({
+  enabled: true,
+  commissionFixed: 1,
+  commissionPerShare: 0,
+  minCommission: 0,
+  ...overrides
+});
+
+const row = { date: '2020-01-01', prices: { QQQ: 100, QLD: 50 } };
+
+describe('tradingCosts', () => {
+  describe('calculateCommission', () => {
+    it('should charge the fixed and per-share parts, at least the minimum ticket', () => {
+      expect(calculateCommission(100, createCosts({ commissionPerShare: 0.01 }))).toBeCloseTo(2);
+      expect(calculateCommission(-100, createCosts({ commissionPerShare: 0.01 }))).toBeCloseTo(2);
+      expect(calculateCommission(10, createCosts({ minCommission: 5 }))).toBe(5);
+    });
+
+    it('should not charge without an order', () => {
+      expect(calculateCommission(0, createCosts({ minCommission: 5 }))).toBe(0);
+    });
+  });
+
+  describe('applyTradingCosts', () => {
+    it('should charge commission and slippage on a sale out of the proceeds', () => {
+      const execution = applyTradingCosts({ QQQ: 10 }, { QQQ: 5 }, 500, row, createCosts(), { QQQ: 10 });
+      expect(execution.cost).toBeCloseTo(1 + 500 * 0.001);
+      expect(execution.cashBalance).toBeCloseTo(498.5);
+      expect(execution.shares.QQQ).toBe(5);
+      expect(execution.events).toHaveLength(1);
+      expect(execution.events[0].type).toBe('FEE');
+    });
+
+    it('should charge every traded ticker separately', () => {
+      const execution = applyTradingCosts({ QQQ: 10, QLD: 0 }, { QQQ: 5, QLD: 10 }, 100, row, createCosts(), {});
+      expect(execution.cost).toBe(2);
+      expect(execution.events.map(e => e.description.split(' ')[2])).toEqual(['QQQ', 'QLD']);
+    });
+
+    it('should scale the buys down when cash cannot cover the costs', () => {
+      const execution = applyTradingCosts({ QQQ: 0 }, { QQQ: 10 }, 0, row, createCosts(), { QQQ: 10 });
+      expect(execution.shares.QQQ).toBeLessThan(10);
+      expect(execution.shares.QQQ).toBeGreaterThan(9.9);
+      expect(execution.cashBalance).toBeCloseTo(0);
+      expect(execution.cost).toBeCloseTo(1 + execution.shares.QQQ * 100 * 0.001);
+    });
+
+    it('should leave an untraded book alone', () => {
+      const execution = applyTradingCosts({ QQQ: 10 }, { QQQ: 10 }, 100, row, createCosts(), {});
+      expect(execution).toEqual({ shares: { QQQ: 10 }, cashBalance: 100, cost: 0, events: [] });
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { roundOrdersToWholeShares, summarizeExecutionDrift } from '../wholeShares';
+import { runBacktest } from '../simulationEngine';
+import { strategyNoRebalance, strategyRebalance } from '../strategies';
+import { AssetConfig, MarketDataRow } from '../../types';
+
+const row = { date: '2020-01-01', prices: { QQQ: 100, QLD: 300 } };
+
+const createConfig = (): AssetConfig => ({
+  initialCapital: 1000,
+  contributionAmount: 250,
+  contributionIntervalMonths: 1,
+  yearlyContributionMonth: 12,
+  qqqWeight: 0,
+  qldWeight: 100,
+  contributionQqqWeight: 0,
+  contributionQldWeight: 100,
+  cashYieldAnnual: 0,
+  executionMode: 'WHOLE_SHARES',
+  leverage: {
+    enabled: false,
+    interestRate: 0,
+    qqqPledgeRatio: 0.7,
+    qldPledgeRatio: 0.0,
+    cashPledgeRatio: 0.95,
+    maxLtv: 100,
+    withdrawType: 'PERCENT',
+    withdrawValue: 0,
+    inflationRate: 0,
+    interestType: 'CAPITALIZED',
+    ltvBasis: 'TOTAL_ASSETS'
+  }
+});
+
+const generateMarketData = (months: number): MarketDataRow[] =>
+  Array.from({ length: months }, (_, i) => ({
+    date: `${2020 + Math.floor(i / 12)}-${String((i % 12) + 1).padStart(2, '0')}-01`,
+    prices: { QQQ: 100, QLD: 300 }
+  }));
+
+describe('wholeShares', () => {
+  describe('roundOrdersToWholeShares', () => {
+    it('should round a buy down and keep the rest in cash for the ticker', () => {
+      // Strategy bought 2.5 QLD for 750 out of 1000
+      const execution = roundOrdersToWholeShares({ QLD: 0 }, { QLD: 2.5 }, 250, row, {});
+      expect(execution.shares.QLD).toBe(2);
+      expect(execution.cashBalance).toBeCloseTo(400);
+      expect(execution.residuals.QLD).toBeCloseTo(150);
+    });
+
+    it('should add the residual to the next buy of the ticker', () => {
+      // 400 left over plus a 250 contribution, of which the strategy spent 150 on half a share
+      const execution = roundOrdersToWholeShares({ QLD: 2 }, { QLD: 2.5 }, 500, row, { QLD: 150 });
+      expect(execution.shares.QLD).toBe(3);
+      expect(execution.cashBalance).toBeCloseTo(350);
+      expect(execution.residuals.QLD).toBeCloseTo(0);
+    });
+
+    it('should never spend more cash than there is', () => {
+      const execution = roundOrdersToWholeShares({ QLD: 2 }, { QLD: 2.5 }, 0, row, { QLD: 150 });
+      expect(execution.shares.QLD).toBe(2);
+      expect(execution.cashBalance).toBeCloseTo(150);
+    });
+
+    it('should round sells down but close whole positions', () => {
+      const partial = roundOrdersToWholeShares({ QQQ: 10 }, { QQQ: 7.5 }, 250, row, {});
+      expect(partial.shares.QQQ).toBe(8);
+      expect(partial.cashBalance).toBeCloseTo(200);
+
+      const closed = roundOrdersToWholeShares({ QQQ: 10.4 }, { QQQ: 0 }, 1040, row, {});
+      expect(closed.shares.QQQ).toBe(0);
+      expect(closed.cashBalance).toBe(1040);
+    });
+
+    it('should fund the buys only with what the rounded sells bring in', () => {
+      // Strategy sold 2.5 QQQ and bought 1 QLD with the proceeds and its 50 of cash
+      const execution = roundOrdersToWholeShares({ QQQ: 10, QLD: 0 }, { QQQ: 7.5, QLD: 1 }, 0, row, {});
+      expect(execution.shares.QQQ).toBe(8);
+      // 2 QQQ sold leave 250: short of a QLD share
+      expect(execution.shares.QLD).toBe(0);
+      expect(execution.cashBalance).toBeCloseTo(250);
+      expect(execution.residuals.QLD).toBeCloseTo(300);
+    });
+  });
+
+  describe('engine execution', () => {
+    it('should hold whole shares only and keep the remainder as cash', () => {
+      const result = runBacktest(generateMarketData(6), strategyNoRebalance, createConfig(), 'Whole');
+      result.history.forEach(h => expect(Number.isInteger(h.shares.QLD)).toBe(true));
+      // 1000 buys 3 shares; then 250 a month: 100 + 250 -> 1 share, 50 + 250 -> 1 share, ...
+      expect(result.history[0].shares.QLD).toBe(3);
+      expect(result.history[0].cashBalance).toBeCloseTo(100);
+      expect(result.history[1].shares.QLD).toBe(4);
+      expect(result.history[1].cashBalance).toBeCloseTo(50);
+      expect(result.metrics.finalBalance).toBeCloseTo(1000 + 5 * 250);
+    });
+
+    it('should reinvest the leftover cash when rebalancing', () => {
+      const config = createConfig();
+      config.contributionAmount = 0;
+      const data = generateMarketData(13).map((r, i) => ({ ...r, prices: { ...r.prices, QLD: i === 12 ? 200 : 300 } }));
+      const result = runBacktest(data, strategyRebalance, config, 'Whole');
+      // January: 3 shares @200 + 100 cash = 700 -> 3.5 shares, rounded down to 3
+      expect(result.history[12].shares.QLD).toBe(3);
+      expect(result.history[12].cashBalance).toBeCloseTo(100);
+    });
+  });
+
+  describe('summarizeExecutionDrift', () => {
+    it('should measure the cash drag against the fractional run', () => {
+      const data = generateMarketData(6);
+      const whole = runBacktest(data, strategyNoRebalance, createConfig(), 'Whole');
+      const fractional = runBacktest(data, strategyNoRebalance, { ...createConfig(), executionMode: 'FRACTIONAL' }, 'Fractional');
+      const drift = summarizeExecutionDrift(whole, fractional, data);
+
+      // Month 3: 250 waits in cash out of 1750
+      expect(drift.maxCashDragPct).toBeCloseTo(100 * 250 / 1750);
+      expect(drift.cashDragPct).toBeGreaterThan(1);
+      expect(drift.maxWeightDrift).toBeCloseTo(100 * 250 / 1750);
+      expect(drift.cagrGap).toBeCloseTo(0); // Flat prices: cash loses nothing
+      expect(drift.isMaterial).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { AssetConfig, MarketDataRow, PortfolioAsset } from "../types";
+
+// Built-in tickers that live on the dedicated MarketDataRow fields
+export const BASE_TICKER = 'QQQ';
+export const LEVERAGED_TICKER = 'QLD';
+
+/**
+ * Resolves the asset universe of a profile.
+ * Profiles saved before per-asset configuration existed only carry qqq/qld weights,
+ * so those are mapped onto an equivalent two-asset list.
+ */
+export const getPortfolioAssets = (config: AssetConfig): PortfolioAsset[] => {
+  if (config.assets && config.assets.length > 0) return config.assets;
+
+  return [
+    {
+      ticker: BASE_TICKER,
+      weight: config.qqqWeight,
+      contributionWeight: config.contributionQqqWeight,
+      pledgeRatio: config.leverage?.qqqPledgeRatio ?? 0.7,
+      beta: 1
+    },
+    {
+      ticker: LEVERAGED_TICKER,
+      weight: config.qldWeight,
+      contributionWeight: config.contributionQldWeight,
+      pledgeRatio: config.leverage?.qldPledgeRatio ?? 0.0,
+      beta: 2
+    }
+  ];
+};
+
+/**
+ * Price of a ticker on a given row, 0 when the dataset has no price for it.
+ */
+export const getAssetPrice = (row: MarketDataRow, ticker: string): number => {
+  return row.prices[ticker] ?? 0;
+};
+
+/**
+ * Market value of all share holdings (excluding cash)
+ */
+export const getHoldingsValue = (shares: Record<string, number>, row: MarketDataRow): number =>
+  Object.entries(shares).reduce((sum, [ticker, count]) => sum + count * getAssetPrice(row, ticker), 0);
+
+/**
+ * The asset with the highest beta, i.e. the leveraged sleeve used by profit-harvesting logic.
+ */
+export const getLeveragedAsset = (assets: PortfolioAsset[]): PortfolioAsset | undefined =>
+  assets.reduce<PortfolioAsset | undefined>((best, asset) => (!best || asset.beta > best.beta ? asset : best), undefined);
+
+/**
+ * Every ticker with at least one price in the dataset
+ */
+export const getAvailableTickers = (data: MarketDataRow[]): string[] => {
+  const tickers = new Set<string>();
+  data.forEach(row => Object.keys(row.prices).forEach(t => tickers.add(t)));
+  return Array.from(tickers);
+};
+
+/**
+ * Keeps only the rows where every given ticker has a price,
+ * so a profile holding e.g. TQQQ starts when TQQQ data starts.
+ */
+export const filterRowsWithTickers = (data: MarketDataRow[], tickers: string[]): MarketDataRow[] =>
+  data.filter(row => tickers.every(ticker => getAssetPrice(row, ticker) > 0));
+
+// Default betas for well-known Nasdaq-100 products; anything else starts at 1
+const KNOWN_BETAS: Record<string, number> = { QQQ: 1, QLD: 2, TQQQ: 3, PSQ: -1, QID: -2, SQQQ: -3 };
+
+export const getDefaultBeta = (ticker: string): number => KNOWN_BETAS[ticker] ?? 1;
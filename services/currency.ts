@@ -0,0 +1,98 @@
+import { AssetConfig, MarketDataRow, SimulationResult } from "../types";
+
+// Currency the market data is priced in
+export const PRICE_CURRENCY = 'USD';
+
+export const SUPPORTED_CURRENCIES = ['USD', 'EUR', 'CNY', 'TWD'];
+
+// FX series are named USD<CCY> and quote units of <CCY> per US dollar (e.g. USDEUR ~ 0.92)
+export const fxSeriesName = (currency: string): string => `${PRICE_CURRENCY}${currency}`;
+
+/**
+ * Currency code of an FX series name (e.g. "USDEUR" -> "EUR"), or null for any other series
+ */
+export const parseFxSeriesName = (name: string): string | null => {
+  const match = name.toUpperCase().match(/^USD([A-Z]{3})$/);
+  return match && match[1] !== PRICE_CURRENCY ? match[1] : null;
+};
+
+export const getBaseCurrency = (config: AssetConfig): string => config.baseCurrency || PRICE_CURRENCY;
+
+/**
+ * Reprices USD rows in `currency`: every price is multiplied by the row's USD<CCY> rate.
+ * Rows without a rate are dropped, so a profile starts when its FX history starts.
+ * Each converted row keeps the rate it was converted at in `fxRate`.
+ */
+export const convertToBaseCurrency = (data: MarketDataRow[], currency: string): MarketDataRow[] => {
+  if (currency === PRICE_CURRENCY) return data;
+  return data
+    .filter(row => (row.fxRates?.[currency] ?? 0) > 0)
+    .map(row => {
+      const rate = row.fxRates![currency];
+      const prices = Object.fromEntries(Object.entries(row.prices).map(([ticker, price]) => [ticker, price * rate]));
+      return { ...row, prices, fxRate: rate };
+    });
+};
+
+/**
+ * The same converted rows with the exchange rate frozen at its first value, i.e. the assets'
+ * own return with the currency fully hedged. Rows that were not converted are returned as is.
+ */
+export const freezeFxRate = (data: MarketDataRow[]): MarketDataRow[] => {
+  const startRate = data[0]?.fxRate;
+  if (!startRate) return data;
+  return data.map(row => {
+    const factor = startRate / row.fxRate!;
+    const prices = Object.fromEntries(Object.entries(row.prices).map(([ticker, price]) => [ticker, price * factor]));
+    return { ...row, prices, fxRate: startRate };
+  });
+};
+
+/**
+ * Splits a base-currency return into the local (currency-hedged) return and the FX part:
+ * (1 + base) = (1 + local) * (1 + fx), with `local` the CAGR of the run on frozen FX rates.
+ */
+export const attributeFxReturn = (
+  result: SimulationResult,
+  hedged: SimulationResult,
+  data: MarketDataRow[]
+): NonNullable<SimulationResult['fxAttribution']> => {
+  const first = data[0]?.fxRate ?? 1;
+  const last = data[data.length - 1]?.fxRate ?? 1;
+  const localCagr = hedged.metrics.cagr;
+  return {
+    localFinalBalance: hedged.metrics.finalBalance,
+    localCagr,
+    fxCagr: localCagr <= -100 ? 0 : ((1 + result.metrics.cagr / 100) / (1 + localCagr / 100) - 1) * 100,
+    fxChange: (last / first - 1) * 100
+  };
+};
+
+/**
+ * Formats an amount with the currency's symbol, e.g. "$1,234", "€1,234", "NT$1,234"
+ */
+export const formatMoney = (value: number, currency: string = PRICE_CURRENCY, fractionDigits: number = 0): string =>
+  new Intl.NumberFormat(undefined, {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits
+  }).format(value);
+
+/**
+ * Short axis label in thousands, e.g. "$250k" or "€250k"
+ */
+export const formatMoneyAxis = (value: number, currency: string = PRICE_CURRENCY): string => {
+  const symbol = new Intl.NumberFormat(undefined, { style: 'currency', currency })
+    .formatToParts(0)
+    .find(part => part.type === 'currency')?.value ?? currency;
+  return `${symbol}${value / 1000}k`;
+};
+
+/**
+ * The currency shared by all results, or undefined when they mix currencies
+ */
+export const getCommonCurrency = (results: SimulationResult[]): string | undefined => {
+  const currencies = new Set(results.map(r => r.currency || PRICE_CURRENCY));
+  return currencies.size === 1 ? Array.from(currencies)[0] : undefined;
+};
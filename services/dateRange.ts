@@ -0,0 +1,27 @@
+import { DateRange, MarketDataRow } from "../types";
+
+/**
+ * Window a profile is simulated over: its own bounds where set, otherwise the global ones.
+ */
+export const resolveDateRange = (global: DateRange, profile?: DateRange): DateRange => ({
+  start: profile?.start || global.start,
+  end: profile?.end || global.end
+});
+
+/**
+ * Rows whose month lies inside the range (bounds inclusive, works for monthly and daily rows)
+ */
+export const sliceByDateRange = (data: MarketDataRow[], range: DateRange): MarketDataRow[] =>
+  data.filter(row => {
+    const month = row.date.substring(0, 7);
+    return (!range.start || month >= range.start) && (!range.end || month <= range.end);
+  });
+
+/**
+ * First and last month actually covered after slicing, e.g. for labels
+ */
+export const getEffectiveRange = (data: MarketDataRow[], range: DateRange): { start: string; end: string } | null => {
+  const rows = sliceByDateRange(data, range);
+  if (rows.length === 0) return null;
+  return { start: rows[0].date.substring(0, 7), end: rows[rows.length - 1].date.substring(0, 7) };
+};
@@ -1,4 +1,4 @@
-import { PortfolioState } from "../types";
+import { DistributionSummary, PercentileBandPoint, PortfolioState } from "../types";
 
 /**
  * Calculates Compound Annual Growth Rate
@@ -31,8 +31,13 @@ export const calculateMaxDrawdown = (history: PortfolioState[]): number => {
 /**
  * Calculates Sharpe Ratio
  * Assuming risk-free rate is roughly captured by the cash yield or simplified to 0 for comparison
+ * periodsPerYear: 12 for monthly history, ~252 for daily history
  */
-export const calculateSharpeRatio = (history: PortfolioState[], annualRiskFreeRate: number = 0): number => {
+export const calculateSharpeRatio = (
+  history: PortfolioState[],
+  annualRiskFreeRate: number | number[] = 0, // Constant, or one annual % per period (history.length - 1)
+  periodsPerYear: number = 12
+): number => {
   if (history.length < 2) return 0;
 
   const returns: number[] = [];
@@ -42,20 +47,35 @@ export const calculateSharpeRatio = (history: PortfolioState[], annualRiskFreeRa
     returns.push((curr - prev) / prev);
   }
 
-  // Calculate average monthly return
-  const avgMonthlyReturn = returns.reduce((a, b) => a + b, 0) / returns.length;
+  // Calculate average periodic return
+  const avgReturn = returns.reduce((a, b) => a + b, 0) / returns.length;
 
-  // Calculate standard deviation of monthly returns
-  const variance = returns.reduce((sum, val) => sum + Math.pow(val - avgMonthlyReturn, 2), 0) / returns.length;
-  const stdDevMonthly = Math.sqrt(variance);
+  // Calculate standard deviation of periodic returns
+  const variance = returns.reduce((sum, val) => sum + Math.pow(val - avgReturn, 2), 0) / returns.length;
+  const stdDev = Math.sqrt(variance);
 
-  if (stdDevMonthly === 0) return 0;
+  if (stdDev === 0) return 0;
 
   // Annualize
-  const annualizedReturn = avgMonthlyReturn * 12;
-  const annualizedVol = stdDevMonthly * Math.sqrt(12);
+  const annualizedReturn = avgReturn * periodsPerYear;
+  const annualizedVol = stdDev * Math.sqrt(periodsPerYear);
+
+  const riskFree = Array.isArray(annualRiskFreeRate)
+    ? annualRiskFreeRate.reduce((a, b) => a + b, 0) / Math.max(annualRiskFreeRate.length, 1)
+    : annualRiskFreeRate;
+
+  return (annualizedReturn - (riskFree / 100)) / annualizedVol;
+};
 
-  return (annualizedReturn - (annualRiskFreeRate / 100)) / annualizedVol;
+/**
+ * Annualized volatility (%) of a series of periodic returns
+ * periodsPerYear: 12 for monthly returns, ~252 for daily returns
+ */
+export const calculateVolatility = (returns: number[], periodsPerYear: number = 12): number => {
+  if (returns.length < 2) return 0;
+  const avgReturn = returns.reduce((a, b) => a + b, 0) / returns.length;
+  const variance = returns.reduce((sum, val) => sum + Math.pow(val - avgReturn, 2), 0) / returns.length;
+  return Math.sqrt(variance * periodsPerYear) * 100;
 };
 
 /**
@@ -73,6 +93,26 @@ export const calculateIRR = (
   // T=0: -Initial
   // T=N*Interval: -Contribution (if T > 0 and T < totalMonths)
   // T=totalMonths: +FinalValue
+  const contributions: number[] = [initialInvestment];
+  // Note: Strategy applies contribution if (index % interval === 0) where index 0 is start.
+  // If Interval=1 (Monthly): Index 1, 2, 3... are contributions.
+  // If Interval=3 (Qtly): Index 3, 6, 9... are contributions.
+  for (let t = contributionInterval; t < totalMonths; t += contributionInterval) {
+    contributions[t] = contributionAmount;
+  }
+  return calculateCashFlowIRR(contributions, finalValue, totalMonths);
+};
+
+/**
+ * Newton-Raphson IRR of monthly investor cash flows.
+ * contributions[t]: money paid in at month t (negative when taken out; gaps count as 0).
+ * The final value is received at month totalMonths.
+ */
+export const calculateCashFlowIRR = (contributions: number[], finalValue: number, totalMonths: number): number => {
+  // Investor's view: contributions are outflows, the final value an inflow
+  const cashFlows: number[] = [];
+  for (let t = 0; t <= totalMonths; t++) cashFlows[t] = -(contributions[t] || 0);
+  cashFlows[totalMonths] += finalValue;
 
   // Initial guess: 10% annual
   let rate = 0.1 / 12;
@@ -83,38 +123,13 @@ export const calculateIRR = (
     let npv = 0;
     let d_npv = 0; // Derivative of NPV
 
-    // T=0
-    npv += -initialInvestment;
-    d_npv += 0;
-
-    // Iterate through all months to place cashflows correctly
-    for (let t = 1; t <= totalMonths; t++) {
-      let cashFlow = 0;
-
-      // Add final value at the end
-      if (t === totalMonths) {
-        cashFlow += finalValue;
-      }
-
-      // Add contribution if it matches interval
-      // Note: Strategy applies contribution if (index % interval === 0) where index 0 is start.
-      // Usually index 0 = Initial. index 1...
-      // If Interval=1 (Monthly): Index 1, 2, 3... are contributions.
-      // If Interval=3 (Qtly): Index 3, 6, 9... are contributions.
-      if (t < totalMonths && t % contributionInterval === 0) {
-        cashFlow -= contributionAmount;
-      }
-
-      if (cashFlow !== 0) {
-        const disc = Math.pow(1 + rate, t);
-        // Derivative of (1+r)^-t is -t * (1+r)^(-t-1)
-        const termVal = cashFlow / disc;
-        const termDeriv = cashFlow * (-t) * Math.pow(1 + rate, -t - 1);
-
-        npv += termVal;
-        d_npv += termDeriv;
-      }
-    }
+    cashFlows.forEach((cashFlow, t) => {
+      if (cashFlow === 0) return;
+      const disc = Math.pow(1 + rate, t);
+      // Derivative of (1+r)^-t is -t * (1+r)^(-t-1)
+      npv += cashFlow / disc;
+      d_npv += cashFlow * (-t) * Math.pow(1 + rate, -t - 1);
+    });
 
     if (Math.abs(d_npv) < 1e-10) break; // Avoid division by zero
 
@@ -133,8 +148,9 @@ export const calculateIRR = (
 /**
  * Calculates Recovery Time (in months)
  * Returns the maximum duration the portfolio spent below its previous peak
+ * (daily histories are converted from trading days using periodsPerYear)
  */
-export const calculateMaxRecoveryTime = (history: PortfolioState[]): number => {
+export const calculateMaxRecoveryTime = (history: PortfolioState[], periodsPerYear: number = 12): number => {
   let peak = -Infinity;
   let maxRecovery = 0;
   let currentUnderperformingMonths = 0;
@@ -152,7 +168,8 @@ export const calculateMaxRecoveryTime = (history: PortfolioState[]): number => {
   }
 
   // Check if still in recovery at the end
-  return Math.max(maxRecovery, currentUnderperformingMonths);
+  const maxPeriods = Math.max(maxRecovery, currentUnderperformingMonths);
+  return periodsPerYear === 12 ? maxPeriods : Math.round((maxPeriods * 12) / periodsPerYear);
 };
 
 /**
@@ -205,4 +222,43 @@ export const calculateUlcerIndex = (history: PortfolioState[]): number => {
   });
 
   return Math.sqrt(sumSquaredDrawdowns / history.length);
-};
\ No newline at end of file
+};
+
+/**
+ * Linear-interpolated percentile (p in 0-100) of an unsorted sample
+ */
+export const calculatePercentile = (values: number[], p: number): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (Math.min(Math.max(p, 0), 100) / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+};
+
+export const summarizeDistribution = (values: number[]): DistributionSummary => {
+  if (values.length === 0) return { p5: 0, p25: 0, p50: 0, p75: 0, p95: 0, min: 0, max: 0, mean: 0 };
+  return {
+    p5: calculatePercentile(values, 5),
+    p25: calculatePercentile(values, 25),
+    p50: calculatePercentile(values, 50),
+    p75: calculatePercentile(values, 75),
+    p95: calculatePercentile(values, 95),
+    min: Math.min(...values),
+    max: Math.max(...values),
+    mean: values.reduce((a, b) => a + b, 0) / values.length
+  };
+};
+
+/**
+ * Percentile bands of many value paths; paths[m - 1] holds every path's value m months in
+ */
+export const buildPercentileBands = (paths: number[][]): PercentileBandPoint[] =>
+  paths.map((values, i) => ({
+    month: i + 1,
+    p5: calculatePercentile(values, 5),
+    p25: calculatePercentile(values, 25),
+    p50: calculatePercentile(values, 50),
+    p75: calculatePercentile(values, 75),
+    p95: calculatePercentile(values, 95)
+  }));
@@ -43,7 +43,7 @@ const dictionaries: Record<Language, Translations> = {
     dcaCash: "DCA Cash",
     // Strategies
     strat_noRebalance: "No Rebalancing",
-    strat_rebalance: "Yearly Rebalancing",
+    strat_rebalance: "Calendar Rebalancing",
     strat_smart: "Smart Adjust",
     // Leverage
     stockPledge: "Asset Pledge",
@@ -159,7 +159,317 @@ const dictionaries: Record<Language, Translations> = {
     executiveSummary: "Executive Summary",
     visualAnalysis: "Visual Performance Analysis",
     aiAnalysisNote: "AI-Analysis Segment: The following data is structured for AI parsing.",
-    legalDisclaimer: "Disclaimer: This report is for simulation purposes only. Past performance does not guarantee future results."
+    legalDisclaimer: "Disclaimer: This report is for simulation purposes only. Past performance does not guarantee future results.",
+    // Market Data
+    marketData: "Market Data",
+    dataSource: "Source",
+    builtInData: "Built-in (QQQ / QLD)",
+    dataMonths: "months",
+    dataTickers: "Tickers",
+    importMarketData: "Import Prices (CSV / JSON)",
+    resetBuiltInData: "Reset to built-in data",
+    importFormatHint: "Monthly adjusted closes. CSV: date,adjClose (ticker from file name), date,ticker,adjClose or date,QQQ,QLD. JSON: { \"qqq\": [{ \"date\", \"adjClose\" }] }. Any tickers will do: each profile runs over the months its own assets have prices.",
+    importErrors: "Import failed",
+    importWarnings: "Import notes",
+    // Asset Universe
+    assetTarget: "Target %",
+    assetContribution: "DCA %",
+    assetPledge: "Pledge",
+    assetBetaHint: "Beta relative to QQQ (QQQ=1, QLD=2)",
+    addAsset: "Add Asset",
+    allocationOver100: "Weights add up to more than 100%.",
+    syntheticData: "Synthetic data",
+    syntheticDataNote: "Shaded months ({start} – {end}) use synthetic {tickers} prices reconstructed from QQQ, not traded prices.",
+    syntheticAllMonths: "all months",
+    syntheticExtension: "Synthetic History",
+    syntheticHint: "Reconstructs a daily-reset leveraged ETF from QQQ (incl. expense ratio, financing cost and volatility drag) and splices it before the first real month.",
+    syntheticTicker: "Ticker",
+    syntheticLeverage: "Leverage (x)",
+    syntheticExpense: "Expense Ratio (%)",
+    syntheticFinancing: "Financing Rate (%)",
+    syntheticSpliceDate: "Real data from (blank = first real month)",
+    applySynthetic: "Build & Splice",
+    dataDays: "days",
+    importDailyPrices: "Keep daily prices (daily simulation)",
+    dataQuality: "Data Quality",
+    dataQualityOk: "OK",
+    dataQualityWarnings: "Warnings",
+    dataQualityFatal: "Fatal errors",
+    dataQualityNoIssues: "No issues found.",
+    runBlockedByData: "Simulation is blocked until the fatal data errors are fixed.",
+    profilesNotSimulated: "Some profiles could not be simulated",
+    backtestPeriod: "Backtest Period",
+    periodStart: "Start",
+    periodEnd: "End",
+    fullPeriod: "Use full period",
+    customPeriod: "Custom period for this profile",
+    usesGlobalPeriod: "Uses the global backtest period.",
+    // Rolling start-date analysis
+    rollingAnalysis: "Rolling Start-Date Analysis",
+    rollingAnalysisDesc: "Runs every profile from each possible start month over a fixed horizon to show how much the outcome depends on when you start.",
+    rollingHorizon: "Horizon",
+    rollingYears: "{years} years",
+    runRollingAnalysis: "Run Rolling Analysis",
+    rollingNoWindows: "Not enough history for a {years}-year window.",
+    rollingBands: "Portfolio Value Percentile Bands",
+    rollingBandsDesc: "Shaded bands span the 5th–95th and 25th–75th percentiles across all start months; the line is the median.",
+    rollingMonthsIn: "Month {months}",
+    bestStarts: "Best Start Months",
+    worstStarts: "Worst Start Months",
+    col_window: "Window",
+    col_windows: "Windows",
+    col_cagrP5: "CAGR P5",
+    col_cagrP50: "CAGR Median",
+    col_cagrP95: "CAGR P95",
+    col_balanceP5: "Balance P5",
+    col_balanceP50: "Balance Median",
+    col_maxDDP50: "Max DD Median",
+    col_maxDDWorst: "Max DD Worst",
+    col_bankruptcyRate: "Bankruptcy Rate",
+    // Monte Carlo
+    monteCarlo: "Monte Carlo Simulation",
+    monteCarloDesc: "Builds synthetic price paths by drawing blocks of consecutive historical months (QQQ and QLD together) and runs every profile through each of them. History has too few independent crashes to size leverage from a single backtest.",
+    mcPaths: "Paths",
+    mcHorizonHistory: "Same as history",
+    mcBlockLength: "Block Length",
+    mcMonths: "{months} months",
+    mcSeed: "Seed",
+    runMonteCarlo: "Run Monte Carlo",
+    mcBankruptcyProbability: "Bankruptcy / liquidation probability",
+    mcPathSummary: "{paths} paths × {months} months",
+    mcFanChart: "Equity Fan Chart",
+    mcFanChartDesc: "Shaded bands span the 5th–95th and 25th–75th percentiles across all paths; the line is the median.",
+    mcMetric: "Metric",
+    mcMean: "Mean",
+    // Stress scenarios
+    stressTest: "Stress Scenarios",
+    stressTestDesc: "Replays crisis paths against a portfolio as it stands today. The book is held through each scenario while interest, withdrawals and the max LTV check keep running.",
+    stressPortfolio: "Portfolio State",
+    stressFinalStateOf: "Final state of {name}",
+    stressManualSnapshot: "Hand-entered snapshot",
+    stressLeverageRules: "Leverage settings from",
+    stressCash: "Cash",
+    stressDebt: "Debt",
+    stressEquity: "Equity",
+    stressScenarios: "Scenario Library",
+    stressScenario: "Scenario",
+    stressAddScenario: "Add Scenario",
+    stressScenarioName: "Scenario name",
+    stressCustomScenario: "Custom scenario",
+    stressHistorical: "Historical months",
+    stressHypothetical: "Hypothetical returns",
+    stressReturnsHint: "Monthly % returns, one ticker per line. Held tickers not listed stay flat.",
+    stressInvalidRange: "Enter a start month on or before the end month.",
+    runStressTest: "Run Stress Test",
+    stressNoResult: "Run the simulation first: this profile has no final state yet.",
+    stressNoRules: "Choose a profile whose leverage settings apply.",
+    stressOutcome: "Outcome",
+    stressSurvived: "Survived",
+    stressLiquidated: "Liquidated",
+    stressStartEquity: "Start Equity",
+    stressMinEquity: "Min Equity",
+    stressEndEquity: "End Equity",
+    stressPeakLtv: "Peak LTV",
+    stressEquityPath: "Equity & Debt",
+    stressRiskPath: "LTV & Beta",
+    // CPI series / real terms
+    cpiSeries: "CPI",
+    cpiNone: "None (constant rate)",
+    cpiImportHint: "Add a monthly CPI series (e.g. FRED CPIAUCSL) as a ticker named CPI to deflate results and index flows by realized inflation.",
+    indexContributions: "Index contributions to inflation",
+    inflationFallbackHint: "Used when the market data has no CPI series; otherwise amounts follow the CPI.",
+    nominalTerms: "Nominal",
+    realTerms: "Real",
+    realTermsDesc: "Values deflated to start-of-backtest money by the CPI series, or by the constant inflation rate without one.",
+    // Benchmark rate series
+    benchmarkRateSeries: "Benchmark rate",
+    benchmarkRateNone: "None (fixed rates)",
+    benchmarkRateImportHint: "Add a monthly benchmark rate in % (e.g. FRED FEDFUNDS or TB3MS) as a ticker named RATE to link loan rates and cash yields to it.",
+    rateFixed: "Fixed",
+    rateBenchmarkPlus: "Benchmark +",
+    rateBenchmarkMinus: "Benchmark −",
+    benchmarkFallbackHint: "Follows the RATE series month by month (never below 0%); the fixed rate applies when the data has none.",
+    // Base currency
+    baseCurrency: "Base Currency",
+    baseCurrencyHint: "Capital, contributions, cash and the loan are in this currency; USD prices are converted monthly with the {series} series.",
+    fxSeries: "FX rates",
+    fxNone: "None (USD only)",
+    fxImportHint: "Add exchange rates as tickers named USD<CCY> (units of the currency per dollar, e.g. USDEUR, USDCNY, USDTWD) to run profiles in that base currency.",
+    showFxContribution: "Show FX contribution",
+    col_localCagr: "Asset CAGR",
+    col_localCagrDesc: "CAGR with the exchange rate frozen at its start value (currency hedged)",
+    col_fxCagr: "FX",
+    col_fxCagrDesc: "Annual return added by the currency: (1 + CAGR) / (1 + Asset CAGR) - 1",
+    // Capital Gains Tax
+    capitalGainsTax: "Capital Gains Tax",
+    shortTermRate: "Short-Term %",
+    longTermRate: "Long-Term %",
+    holdingPeriod: "Long After (Mo)",
+    lotSelection: "Lot Selection",
+    lotFifo: "FIFO (oldest first)",
+    lotLifo: "LIFO (newest first)",
+    lotHifo: "HIFO (highest cost first)",
+    taxPayment: "Paid",
+    taxPayFromCash: "From Cash",
+    taxPayBySelling: "By Selling Holdings",
+    taxNote: "Each year's tax is paid in January. Gains and losses are netted, net losses carry forward, and tax owed counts against equity until paid.",
+    taxLiability: "Tax Owed",
+    // Trading Costs
+    tradingCosts: "Trading Costs",
+    commissionFixed: "Per Order",
+    commissionPerShare: "Per Share",
+    minCommission: "Min Ticket",
+    tradingCostsNote: "Charged on every buy and sell out of cash; buys are scaled down when cash cannot cover them. Set each asset's slippage in the allocation list.",
+    assetSlippage: "Slip bps",
+    assetSlippageHint: "Half the bid/ask spread in basis points: buys fill this far above the price, sells this far below",
+    col_tradingCosts: "Trading Costs",
+    col_tradingCostsDesc: "Commissions and slippage paid over the whole run",
+    // Whole-Share Execution
+    executionMode: "Order Execution",
+    execFractional: "Fractional Shares",
+    execWholeShares: "Whole Shares Only",
+    execWholeSharesHint: "Orders round down to whole shares. Unspent money stays in cash, earns the cash yield and is added to the next buy of the same asset.",
+    wholeShareDrift: "Whole-Share Drift",
+    wholeShareDriftDesc: "Whole-share profiles compared with the same profile on fractional shares.",
+    wholeShareDriftMaterial: "Rounding leaves a noticeable share of this portfolio in cash",
+    col_cashDrag: "Avg Extra Cash",
+    col_maxCashDrag: "Max Extra Cash",
+    col_weightDrift: "Max Weight Gap (pp)",
+    col_fractionalBalance: "Fractional Balance",
+    col_cagrGap: "CAGR Gap",
+    // Threshold Rebalancing
+    strat_threshold: "Threshold (Drift-Band) Rebalancing",
+    driftBandMode: "Band",
+    driftBandAbsolute: "Absolute (± pts)",
+    driftBandRelative: "Relative (± % of target)",
+    driftBandThreshold: "Threshold",
+    driftBandPartial: "Partial: trade back to the band edge only",
+    driftBandHint: "Checked every month. E.g. a 40% target with an absolute 5 band rebalances below 35% or above 45%; with a relative 25 band, below 30% or above 50%. A relative band is never narrower than ± 1 point, so a 0% target still has room. Cash counts as an asset.",
+    col_rebalances: "Rebalances",
+    col_turnover: "Turnover",
+    col_turnoverDesc: "Value sold by the strategy per year, as % of average equity",
+    math_turnover: "Turnover",
+    math_turnover_expl: "How much of the portfolio the strategy sells in a typical year. Contributions only buy, so sales measure the trading done by rebalancing and other rules; compare it with the number of rebalances to see what each rule costs in activity.",
+    math_turnover_formula: "Turnover = (Σ Sales / Average Equity) / Years × 100%",
+    // Rebalance calendar
+    rebalanceFrequency: "Rebalance Frequency",
+    semiAnnual: "Semi-Annual",
+    everyNYears: "Every N Years",
+    rebalanceYears: "Years Between",
+    rebalanceAnchorMonth: "Anchor Month",
+    rebalanceContributionOnly: "Contribution-only (never sell)",
+    rebalanceContributionOnlyHint: "Each contribution goes to the assets furthest below target; nothing is sold, so drift can persist in strong trends.",
+    // Smart Adjust parameters
+    smartEvaluationMonth: "Evaluation Month",
+    smartHarvestFraction: "Profit Harvest %",
+    smartHarvestFrom: "Harvest From",
+    smartHighestBeta: "Auto (highest beta)",
+    smartHarvestInto: "Harvest Into (Reserve)",
+    smartMaxReserve: "Max Reserve % of Portfolio",
+    smartDipBuy: "Dip-Buy % of Portfolio",
+    smartDipTrigger: "Dip Trigger",
+    smartTriggerYearlyLoss: "No profit over the year",
+    smartTriggerDrawdown: "Drawdown from peak",
+    smartDrawdownTrigger: "Drawdown Trigger %",
+    smartHint: "Checked once a year in the evaluation month: on a dip the reserve buys the harvested asset, otherwise part of its profit moves to the reserve.",
+    math_smart: "Smart Adjust Rule",
+    math_smart_expl: "Once a year in the evaluation month, the profit of the harvested asset over the year (value now minus value at the start of the year and the contributions it received) decides the action. These are the parameters of each Smart Adjust profile:",
+    // Trend following
+    strat_trend: "Trend Following (Moving Average)",
+    trendMaType: "Moving Average",
+    trendSma: "Simple (SMA)",
+    trendEma: "Exponential (EMA)",
+    trendPeriod: "Period (Months)",
+    trendHysteresis: "Hysteresis Band %",
+    trendRiskOffFraction: "Leveraged Sleeve to Cash %",
+    trendHint: "Checks QQQ against its moving average each month. Below the band it moves the leveraged asset to cash; above the band it returns to the target mix.",
+    trendSignalsNote: "Dots mark trend signals: green = risk-on, red = risk-off.",
+    // Volatility targeting
+    strat_volTarget: "Volatility Targeting",
+    volTargetVol: "Target Volatility %",
+    volTargetWindow: "Window (Months)",
+    volTargetMaxBeta: "Max Beta",
+    volTargetMaxTurnover: "Max Monthly Turnover %",
+    volTargetBand: "Beta Band",
+    volTargetHint: "Each month, sets the QQQ / leveraged asset / cash split so that beta x QQQ's realized volatility meets the target. Beta is measured on equity net of debt; trades only once it drifts past the band, and with leverage keeps enough collateral for the max LTV.",
+    volTargetTitle: "Volatility Target",
+    volTargetDesc: "Realized annualized volatility of each volatility-targeting profile against its target, with the portfolio beta it ran at.",
+    col_targetVol: "Target",
+    col_volatility: "Volatility",
+    col_volGap: "Gap",
+    col_avgBeta: "Avg Beta",
+    col_maxBeta: "Max Beta",
+    // Value averaging
+    strat_valueAveraging: "Value Averaging",
+    vaExpectedReturn: "Path Growth % / Year",
+    vaMaxContribution: "Max Contribution (0 = none)",
+    vaAllowWithdrawals: "Withdraw when above the path",
+    vaMaxWithdrawal: "Max Withdrawal (0 = none)",
+    vaHint: "The target path starts at the initial capital, grows by the contribution amount each period and compounds at the path growth rate. Each period's contribution is what closes the gap to the path.",
+    // CPPI
+    strat_cppi: "CPPI (Portfolio Insurance)",
+    cppiFloorType: "Floor",
+    cppiRatchet: "Ratchet (% of peak)",
+    cppiAbsolute: "Absolute amount",
+    cppiFloorPct: "Floor % of Peak Equity",
+    cppiFloorAmount: "Floor Amount",
+    cppiMultiplier: "Multiplier",
+    cppiMaxExposure: "Max Exposure % of Equity",
+    cppiHint: "Each month the risky assets are reset to multiplier x cushion (equity net of the loan, interest and tax owed, above the floor), split by their target weights; the rest earns the cash yield. Contributions raise the ratchet peak by their amount only, never to a new high.",
+    cppiTitle: "CPPI Floor, Cushion & Exposure",
+    cppiDesc: "Monthly floor, cushion and risky exposure of each CPPI profile. A gap month opened below the floor: the risky assets fell more than 1 / multiplier before the rebalance.",
+    cppiFloor: "Floor",
+    cppiCushion: "Cushion",
+    cppiExposure: "Exposure",
+    cppiGapMonths: "Gap Months",
+    cppiWorstGap: "Worst Gap",
+    cppiAvgExposure: "Avg Exposure",
+    cppiCashLocked: "Cash-Locked",
+    // Drawdown Ladder
+    strat_drawdownLadder: "Drawdown Ladder",
+    ladderDrawdown: "QQQ Drawdown (%)",
+    ladderLeveragedWeight: "Leveraged Weight (%)",
+    ladderAddStep: "Add Step",
+    ladderRemoveStep: "Remove Step",
+    ladderGradualRecovery: "Step back down as QQQ recovers",
+    ladderHint: "Each step raises the leveraged sleeve once QQQ is that far below its all-time high. The base allocation is restored at a new high (or step by step with gradual recovery). Every ladder trade is logged with its reason in the report.",
+    // Rule-Based Strategy
+    strat_rules: "Custom Rules",
+    rulesHint: "Rules are checked every month in order, after the regular contribution. A rule fires when all its conditions hold and applies its actions in order. Percentages are of the cash for a buy, of the position for a sale, of equity to borrow and of the debt to repay. The journal shows which rule placed each trade. Rules are saved with the profile export.",
+    ruleName: "Rule name",
+    ruleDefaultName: "Rule",
+    ruleNoRules: "No rules yet: the profile only invests its contributions.",
+    ruleAddRule: "Add Rule",
+    ruleRemove: "Remove Rule",
+    ruleWhen: "When (all of)",
+    ruleThen: "Then",
+    ruleAddCondition: "Add Condition",
+    ruleAddAction: "Add Action",
+    ruleOnlyOnEntry: "Only when the conditions start holding",
+    rulePeriod: "Moving average months",
+    ruleAllHoldings: "All holdings",
+    ruleUnitAmount: "Amount",
+    ruleMetricMonth: "Month (1-12)",
+    ruleMetricDate: "Date",
+    ruleMetricPriceVsMa: "Price vs MA (%)",
+    ruleMetricDrawdown: "Drawdown (%)",
+    ruleMetricLtv: "LTV (%)",
+    ruleMetricBeta: "Beta",
+    ruleMetricCash: "Cash (%)",
+    ruleMetricYtdProfit: "Profit YTD (%)",
+    ruleActionSetWeights: "Set weights",
+    ruleActionBuy: "Buy",
+    ruleActionSell: "Sell",
+    ruleActionMoveToCash: "Move to cash",
+    ruleActionBorrow: "Borrow",
+    ruleActionRepay: "Repay loan",
+    // Scripted Strategy
+    strat_script: "Custom Script (JavaScript)",
+    scriptCode: "Strategy Function",
+    scriptTimeLimit: "Time Limit (s)",
+    scriptReset: "Restore Example",
+    scriptHint: "The script must evaluate to a function (state, marketData, config, monthIndex, history) returning the new portfolio state. It is called once a month and runs in a Web Worker, outside the page, that is stopped past the time limit. The worker removes fetch, WebSocket and the other usual network and storage APIs, but it is not a sandbox: the script runs with this site's permissions and can still load code from the internet, and send your data out, with import(). Only run scripts you trust. history holds the rows up to this month and cannot be changed. A run stops with the month of the error when the script throws or returns negative shares or a value that is not a number. Scripted profiles are left out of the rolling and Monte Carlo analyses.",
+    ruleBorrowNeedsLeverage: "Borrowing only runs with leverage enabled: turn it on to charge interest and check the LTV."
   },
   fr: {
     appTitle: "Backtesteur QQQ",
@@ -196,7 +506,7 @@ const dictionaries: Record<Language, Translations> = {
     cash: "Cash",
     dcaCash: "DCA Cash",
     strat_noRebalance: "Sans Rééquilibrage",
-    strat_rebalance: "Rééquilibrage Annuel",
+    strat_rebalance: "Rééquilibrage Calendaire",
     strat_smart: "Ajustement Intelligent",
     stockPledge: "Nantissement",
     loanRate: "Taux d'emprunt %",
@@ -309,7 +619,296 @@ const dictionaries: Record<Language, Translations> = {
     executiveSummary: "Résumé exécutif",
     visualAnalysis: "Analyse visuelle de performance",
     aiAnalysisNote: "Segment d'analyse IA : Les données suivantes sont structurées pour l'analyse par IA.",
-    legalDisclaimer: "Avertissement : Ce rapport est fourni à des fins de simulation uniquement. Les performances passées ne garantissent pas les résultats futurs."
+    legalDisclaimer: "Avertissement : Ce rapport est fourni à des fins de simulation uniquement. Les performances passées ne garantissent pas les résultats futurs.",
+    marketData: "Données de marché",
+    dataSource: "Source",
+    builtInData: "Intégrées (QQQ / QLD)",
+    dataMonths: "mois",
+    dataTickers: "Tickers",
+    importMarketData: "Importer des prix (CSV / JSON)",
+    resetBuiltInData: "Revenir aux données intégrées",
+    importFormatHint: "Clôtures ajustées mensuelles. CSV : date,adjClose (ticker tiré du nom du fichier), date,ticker,adjClose ou date,QQQ,QLD. JSON : { \"qqq\": [{ \"date\", \"adjClose\" }] }. Tous les tickers sont acceptés : chaque profil s'exécute sur les mois où ses propres actifs ont un prix.",
+    importErrors: "Échec de l'import",
+    importWarnings: "Remarques sur l'import",
+    assetTarget: "Cible %",
+    assetContribution: "DCA %",
+    assetPledge: "Nantissement",
+    assetBetaHint: "Bêta par rapport à QQQ (QQQ=1, QLD=2)",
+    addAsset: "Ajouter un actif",
+    allocationOver100: "La somme des pondérations dépasse 100 %.",
+    syntheticData: "Données synthétiques",
+    syntheticDataNote: "Les mois ombrés ({start} – {end}) utilisent des prix {tickers} synthétiques reconstruits à partir du QQQ, et non des prix réels.",
+    syntheticAllMonths: "tous les mois",
+    syntheticExtension: "Historique synthétique",
+    syntheticHint: "Reconstruit un ETF à effet de levier quotidien à partir du QQQ (frais, coût de financement et effet de volatilité inclus) et le raccorde avant le premier mois réel.",
+    syntheticTicker: "Symbole",
+    syntheticLeverage: "Levier (x)",
+    syntheticExpense: "Frais de gestion (%)",
+    syntheticFinancing: "Taux de financement (%)",
+    syntheticSpliceDate: "Données réelles à partir de (vide = premier mois réel)",
+    applySynthetic: "Construire et raccorder",
+    dataDays: "jours",
+    importDailyPrices: "Conserver les prix quotidiens (simulation journalière)",
+    dataQuality: "Qualité des données",
+    dataQualityOk: "OK",
+    dataQualityWarnings: "Avertissements",
+    dataQualityFatal: "Erreurs bloquantes",
+    dataQualityNoIssues: "Aucun problème détecté.",
+    runBlockedByData: "La simulation est bloquée tant que les erreurs de données bloquantes ne sont pas corrigées.",
+    profilesNotSimulated: "Certains profils n'ont pas pu être simulés",
+    backtestPeriod: "Période de backtest",
+    periodStart: "Début",
+    periodEnd: "Fin",
+    fullPeriod: "Utiliser toute la période",
+    customPeriod: "Période propre à ce profil",
+    usesGlobalPeriod: "Utilise la période de backtest globale.",
+    rollingAnalysis: "Analyse par date de départ glissante",
+    rollingAnalysisDesc: "Simule chaque profil à partir de chaque mois de départ possible sur un horizon fixe, pour mesurer l'influence du point d'entrée.",
+    rollingHorizon: "Horizon",
+    rollingYears: "{years} ans",
+    runRollingAnalysis: "Lancer l'analyse glissante",
+    rollingNoWindows: "Historique insuffisant pour une fenêtre de {years} ans.",
+    rollingBands: "Bandes de percentiles de la valeur du portefeuille",
+    rollingBandsDesc: "Les bandes couvrent les percentiles 5–95 et 25–75 sur tous les mois de départ ; la ligne est la médiane.",
+    rollingMonthsIn: "Mois {months}",
+    bestStarts: "Meilleurs mois de départ",
+    worstStarts: "Pires mois de départ",
+    col_window: "Fenêtre",
+    col_windows: "Fenêtres",
+    col_cagrP5: "TCAC P5",
+    col_cagrP50: "TCAC médian",
+    col_cagrP95: "TCAC P95",
+    col_balanceP5: "Solde P5",
+    col_balanceP50: "Solde médian",
+    col_maxDDP50: "Perte max. médiane",
+    col_maxDDWorst: "Pire perte max.",
+    col_bankruptcyRate: "Taux de faillite",
+    monteCarlo: "Simulation de Monte-Carlo",
+    monteCarloDesc: "Construit des trajectoires de prix synthétiques en tirant des blocs de mois historiques consécutifs (QQQ et QLD ensemble) et simule chaque profil sur chacune. L'historique compte trop peu de krachs indépendants pour calibrer le levier sur un seul backtest.",
+    mcPaths: "Trajectoires",
+    mcHorizonHistory: "Comme l'historique",
+    mcBlockLength: "Longueur de bloc",
+    mcMonths: "{months} mois",
+    mcSeed: "Graine",
+    runMonteCarlo: "Lancer Monte-Carlo",
+    mcBankruptcyProbability: "Probabilité de faillite / liquidation",
+    mcPathSummary: "{paths} trajectoires × {months} mois",
+    mcFanChart: "Éventail de la valeur du portefeuille",
+    mcFanChartDesc: "Les bandes couvrent les percentiles 5–95 et 25–75 sur toutes les trajectoires ; la ligne est la médiane.",
+    mcMetric: "Indicateur",
+    mcMean: "Moyenne",
+    stressTest: "Scénarios de stress",
+    stressTestDesc: "Rejoue des trajectoires de crise sur un portefeuille tel qu'il est aujourd'hui. Les positions sont conservées pendant le scénario ; intérêts, retraits et contrôle du LTV max continuent de s'appliquer.",
+    stressPortfolio: "État du portefeuille",
+    stressFinalStateOf: "État final de {name}",
+    stressManualSnapshot: "Instantané saisi manuellement",
+    stressLeverageRules: "Paramètres de levier de",
+    stressCash: "Liquidités",
+    stressDebt: "Dette",
+    stressEquity: "Valeur nette",
+    stressScenarios: "Bibliothèque de scénarios",
+    stressScenario: "Scénario",
+    stressAddScenario: "Ajouter un scénario",
+    stressScenarioName: "Nom du scénario",
+    stressCustomScenario: "Scénario personnalisé",
+    stressHistorical: "Mois historiques",
+    stressHypothetical: "Rendements hypothétiques",
+    stressReturnsHint: "Rendements mensuels en %, un ticker par ligne. Les tickers détenus non listés restent stables.",
+    stressInvalidRange: "Saisissez un mois de début antérieur ou égal au mois de fin.",
+    runStressTest: "Lancer le test de stress",
+    stressNoResult: "Lancez d'abord la simulation : ce profil n'a pas encore d'état final.",
+    stressNoRules: "Choisissez un profil dont les paramètres de levier s'appliquent.",
+    stressOutcome: "Résultat",
+    stressSurvived: "Tient",
+    stressLiquidated: "Liquidé",
+    stressStartEquity: "Valeur initiale",
+    stressMinEquity: "Valeur min.",
+    stressEndEquity: "Valeur finale",
+    stressPeakLtv: "LTV max.",
+    stressEquityPath: "Valeur nette et dette",
+    stressRiskPath: "LTV et bêta",
+    cpiSeries: "IPC",
+    cpiNone: "Aucun (taux constant)",
+    cpiImportHint: "Ajoutez une série IPC mensuelle (ex. FRED CPIAUCSL) sous le ticker CPI pour déflater les résultats et indexer les flux sur l'inflation réalisée.",
+    indexContributions: "Indexer les versements sur l'inflation",
+    inflationFallbackHint: "Utilisé si les données n'ont pas de série IPC ; sinon les montants suivent l'IPC.",
+    nominalTerms: "Nominal",
+    realTerms: "Réel",
+    realTermsDesc: "Valeurs déflatées en monnaie du début du backtest par la série IPC, ou par le taux d'inflation constant à défaut.",
+    benchmarkRateSeries: "Taux de référence",
+    benchmarkRateNone: "Aucun (taux fixes)",
+    benchmarkRateImportHint: "Ajoutez un taux de référence mensuel en % (ex. FRED FEDFUNDS ou TB3MS) sous le ticker RATE pour y indexer le taux d'emprunt et le rendement du cash.",
+    rateFixed: "Fixe",
+    rateBenchmarkPlus: "Référence +",
+    rateBenchmarkMinus: "Référence −",
+    benchmarkFallbackHint: "Suit la série RATE mois par mois (jamais sous 0 %) ; le taux fixe s'applique si les données n'en ont pas.",
+    baseCurrency: "Devise de référence",
+    baseCurrencyHint: "Capital, versements, cash et emprunt sont dans cette devise ; les prix en USD sont convertis chaque mois avec la série {series}.",
+    fxSeries: "Taux de change",
+    fxNone: "Aucun (USD uniquement)",
+    fxImportHint: "Ajoutez les taux de change sous les tickers USD<DEV> (unités de devise par dollar, ex. USDEUR, USDCNY, USDTWD) pour utiliser cette devise de référence.",
+    showFxContribution: "Afficher l'effet de change",
+    col_localCagr: "TCAC actifs",
+    col_localCagrDesc: "TCAC avec le taux de change figé à sa valeur initiale (couvert)",
+    col_fxCagr: "Change",
+    col_fxCagrDesc: "Rendement annuel dû à la devise : (1 + TCAC) / (1 + TCAC actifs) - 1",
+    capitalGainsTax: "Impôt sur les plus-values",
+    shortTermRate: "Court terme %",
+    longTermRate: "Long terme %",
+    holdingPeriod: "Long après (mois)",
+    lotSelection: "Choix des lots",
+    lotFifo: "FIFO (plus anciens d'abord)",
+    lotLifo: "LIFO (plus récents d'abord)",
+    lotHifo: "HIFO (coût le plus élevé d'abord)",
+    taxPayment: "Paiement",
+    taxPayFromCash: "Depuis la trésorerie",
+    taxPayBySelling: "En vendant des titres",
+    taxNote: "L'impôt de chaque année est payé en janvier. Gains et pertes se compensent, les pertes nettes sont reportées, et l'impôt dû est déduit des fonds propres jusqu'au paiement.",
+    taxLiability: "Impôt dû",
+    tradingCosts: "Frais de transaction",
+    commissionFixed: "Par ordre",
+    commissionPerShare: "Par titre",
+    minCommission: "Minimum",
+    tradingCostsNote: "Prélevés sur la trésorerie à chaque achat et vente ; les achats sont réduits si la trésorerie ne suffit pas. Le glissement de chaque actif se règle dans la liste d'allocation.",
+    assetSlippage: "Gliss. pb",
+    assetSlippageHint: "Demi-écart achat/vente en points de base : les achats sont exécutés d'autant au-dessus du prix, les ventes en dessous",
+    col_tradingCosts: "Frais",
+    col_tradingCostsDesc: "Commissions et glissement payés sur toute la période",
+    executionMode: "Exécution des ordres",
+    execFractional: "Fractions d'actions",
+    execWholeShares: "Actions entières uniquement",
+    execWholeSharesHint: "Les ordres sont arrondis à l'action entière inférieure. Le reliquat reste en trésorerie, rapporte le rendement du cash et s'ajoute au prochain achat du même actif.",
+    wholeShareDrift: "Écart dû aux actions entières",
+    wholeShareDriftDesc: "Profils en actions entières comparés au même profil en fractions d'actions.",
+    wholeShareDriftMaterial: "L'arrondi laisse une part notable de ce portefeuille en trésorerie",
+    col_cashDrag: "Cash en plus moy.",
+    col_maxCashDrag: "Cash en plus max",
+    col_weightDrift: "Écart de poids max (pts)",
+    col_fractionalBalance: "Solde en fractions",
+    col_cagrGap: "Écart de TCAC",
+    strat_threshold: "Rééquilibrage par seuil (bande)",
+    driftBandMode: "Bande",
+    driftBandAbsolute: "Absolue (± pts)",
+    driftBandRelative: "Relative (± % de la cible)",
+    driftBandThreshold: "Seuil",
+    driftBandPartial: "Partiel : revenir seulement au bord de la bande",
+    driftBandHint: "Vérifié chaque mois. Ex. : une cible de 40 % avec une bande absolue de 5 rééquilibre sous 35 % ou au-dessus de 45 % ; avec une bande relative de 25, sous 30 % ou au-dessus de 50 %. Une bande relative n'est jamais plus étroite que ± 1 point, pour qu'une cible de 0 % garde une marge. La trésorerie compte comme un actif.",
+    col_rebalances: "Rééquilibrages",
+    col_turnover: "Rotation",
+    col_turnoverDesc: "Valeur vendue par la stratégie chaque année, en % des fonds propres moyens",
+    math_turnover: "Rotation",
+    math_turnover_expl: "Part du portefeuille vendue par la stratégie en une année type. Les versements ne font qu'acheter : les ventes mesurent donc l'activité des rééquilibrages et autres règles ; à comparer au nombre de rééquilibrages.",
+    math_turnover_formula: "Rotation = (Σ Ventes / Fonds propres moyens) / Années × 100 %",
+    rebalanceFrequency: "Fréquence de Rééquilibrage",
+    semiAnnual: "Semestriel",
+    everyNYears: "Tous les N ans",
+    rebalanceYears: "Années d'Intervalle",
+    rebalanceAnchorMonth: "Mois d'Ancrage",
+    rebalanceContributionOnly: "Par les apports uniquement (sans vente)",
+    rebalanceContributionOnlyHint: "Chaque apport va aux actifs les plus sous leur cible ; rien n'est vendu, l'écart peut donc persister en forte tendance.",
+    smartEvaluationMonth: "Mois d'Évaluation",
+    smartHarvestFraction: "Part des Gains Récoltée %",
+    smartHarvestFrom: "Récolter Depuis",
+    smartHighestBeta: "Auto (bêta le plus élevé)",
+    smartHarvestInto: "Récolter Vers (Réserve)",
+    smartMaxReserve: "Réserve Max % du Portefeuille",
+    smartDipBuy: "Achat sur Baisse % du Portefeuille",
+    smartDipTrigger: "Déclencheur de Baisse",
+    smartTriggerYearlyLoss: "Aucun gain sur l'année",
+    smartTriggerDrawdown: "Baisse depuis le sommet",
+    smartDrawdownTrigger: "Seuil de Baisse %",
+    smartHint: "Vérifié une fois par an au mois d'évaluation : en cas de baisse la réserve achète l'actif récolté, sinon une part de son gain passe en réserve.",
+    math_smart: "Règle Smart Adjust",
+    math_smart_expl: "Une fois par an au mois d'évaluation, le gain de l'actif récolté sur l'année (valeur actuelle moins valeur en début d'année et apports reçus) décide de l'action. Voici les paramètres de chaque profil Smart Adjust :",
+    strat_trend: "Suivi de Tendance (Moyenne Mobile)",
+    trendMaType: "Moyenne Mobile",
+    trendSma: "Simple (SMA)",
+    trendEma: "Exponentielle (EMA)",
+    trendPeriod: "Période (Mois)",
+    trendHysteresis: "Bande d'Hystérésis %",
+    trendRiskOffFraction: "Part Levier en Liquidités %",
+    trendHint: "Compare chaque mois le QQQ à sa moyenne mobile. Sous la bande, l'actif à levier passe en liquidités ; au-dessus, retour à l'allocation cible.",
+    trendSignalsNote: "Les points marquent les signaux de tendance : vert = exposition, rouge = repli.",
+    strat_volTarget: "Ciblage de Volatilité",
+    volTargetVol: "Volatilité Cible %",
+    volTargetWindow: "Fenêtre (Mois)",
+    volTargetMaxBeta: "Bêta Max",
+    volTargetMaxTurnover: "Rotation Mensuelle Max %",
+    volTargetBand: "Bande de Bêta",
+    volTargetHint: "Chaque mois, ajuste la répartition QQQ / actif à levier / liquidités pour que bêta x volatilité réalisée du QQQ atteigne la cible. Le bêta est mesuré sur les fonds propres nets de dette ; ne négocie qu'au-delà de la bande et, avec effet de levier, garde assez de collatéral pour le LTV max.",
+    volTargetTitle: "Cible de Volatilité",
+    volTargetDesc: "Volatilité annualisée réalisée de chaque profil à volatilité cible face à sa cible, avec le bêta du portefeuille.",
+    col_targetVol: "Cible",
+    col_volatility: "Volatilité",
+    col_volGap: "Écart",
+    col_avgBeta: "Bêta Moyen",
+    col_maxBeta: "Bêta Max",
+    strat_valueAveraging: "Value Averaging (Moyenne de Valeur)",
+    vaExpectedReturn: "Croissance du Chemin % / An",
+    vaMaxContribution: "Apport Max (0 = aucun)",
+    vaAllowWithdrawals: "Retirer au-dessus du chemin",
+    vaMaxWithdrawal: "Retrait Max (0 = aucun)",
+    vaHint: "Le chemin cible part du capital initial, augmente du montant d'apport à chaque période et se capitalise au taux de croissance. L'apport de chaque période comble l'écart avec le chemin.",
+    strat_cppi: "CPPI (Assurance de Portefeuille)",
+    cppiFloorType: "Plancher",
+    cppiRatchet: "Cliquet (% du sommet)",
+    cppiAbsolute: "Montant absolu",
+    cppiFloorPct: "Plancher % du Sommet",
+    cppiFloorAmount: "Montant du Plancher",
+    cppiMultiplier: "Multiplicateur",
+    cppiMaxExposure: "Exposition Max % du Capital",
+    cppiHint: "Chaque mois, les actifs risqués sont ramenés à multiplicateur x coussin (capital net du prêt, des intérêts et de l'impôt dû, au-dessus du plancher), répartis selon leurs poids cibles ; le reste rapporte le rendement des liquidités. Les apports relèvent le pic du cliquet de leur seul montant, sans jamais créer un nouveau sommet.",
+    cppiTitle: "CPPI : Plancher, Coussin et Exposition",
+    cppiDesc: "Plancher, coussin et exposition risquée mensuels de chaque profil CPPI. Un mois de gap a ouvert sous le plancher : les actifs risqués ont chuté de plus de 1 / multiplicateur avant le rééquilibrage.",
+    cppiFloor: "Plancher",
+    cppiCushion: "Coussin",
+    cppiExposure: "Exposition",
+    cppiGapMonths: "Mois de Gap",
+    cppiWorstGap: "Pire Gap",
+    cppiAvgExposure: "Exposition Moy.",
+    cppiCashLocked: "Bloqué en Cash",
+    strat_drawdownLadder: "Échelle de Drawdown",
+    ladderDrawdown: "Drawdown QQQ (%)",
+    ladderLeveragedWeight: "Poids Levier (%)",
+    ladderAddStep: "Ajouter un Palier",
+    ladderRemoveStep: "Supprimer le Palier",
+    ladderGradualRecovery: "Redescendre l'échelle pendant la reprise",
+    ladderHint: "Chaque palier augmente la poche à levier lorsque QQQ est à cette distance de son plus haut historique. L'allocation de base est rétablie à un nouveau plus haut (ou palier par palier avec la reprise graduelle). Chaque transaction de l'échelle est journalisée avec sa raison dans le rapport.",
+    strat_rules: "Règles Personnalisées",
+    rulesHint: "Les règles sont vérifiées chaque mois dans l'ordre, après la contribution régulière. Une règle se déclenche quand toutes ses conditions sont remplies et applique ses actions dans l'ordre. Les pourcentages portent sur les liquidités pour un achat, la position pour une vente, les fonds propres pour un emprunt et la dette pour un remboursement. Le journal indique quelle règle a passé chaque transaction. Les règles sont enregistrées avec l'export des profils.",
+    ruleName: "Nom de la règle",
+    ruleDefaultName: "Règle",
+    ruleNoRules: "Aucune règle : le profil investit seulement ses contributions.",
+    ruleAddRule: "Ajouter une Règle",
+    ruleRemove: "Supprimer la Règle",
+    ruleWhen: "Quand (toutes)",
+    ruleThen: "Alors",
+    ruleAddCondition: "Ajouter une Condition",
+    ruleAddAction: "Ajouter une Action",
+    ruleOnlyOnEntry: "Seulement quand les conditions deviennent vraies",
+    rulePeriod: "Mois de la moyenne mobile",
+    ruleAllHoldings: "Toutes les positions",
+    ruleUnitAmount: "Montant",
+    ruleMetricMonth: "Mois (1-12)",
+    ruleMetricDate: "Date",
+    ruleMetricPriceVsMa: "Prix vs MM (%)",
+    ruleMetricDrawdown: "Drawdown (%)",
+    ruleMetricLtv: "LTV (%)",
+    ruleMetricBeta: "Bêta",
+    ruleMetricCash: "Liquidités (%)",
+    ruleMetricYtdProfit: "Gain depuis janvier (%)",
+    ruleActionSetWeights: "Fixer les poids",
+    ruleActionBuy: "Acheter",
+    ruleActionSell: "Vendre",
+    ruleActionMoveToCash: "Passer en liquidités",
+    ruleActionBorrow: "Emprunter",
+    ruleActionRepay: "Rembourser",
+    strat_script: "Script Personnalisé (JavaScript)",
+    scriptCode: "Fonction de Stratégie",
+    scriptTimeLimit: "Limite de Temps (s)",
+    scriptReset: "Restaurer l'Exemple",
+    scriptHint: "Le script doit produire une fonction (state, marketData, config, monthIndex, history) qui renvoie le nouvel état du portefeuille. Elle est appelée une fois par mois et s'exécute dans un Web Worker, hors de la page, arrêté au-delà de la limite de temps. Le worker retire fetch, WebSocket et les autres API réseau et de stockage usuelles, mais ce n'est pas un bac à sable : le script s'exécute avec les droits de ce site et peut encore charger du code depuis internet, et envoyer vos données, avec import(). N'exécutez que des scripts de confiance. history contient les lignes jusqu'au mois en cours et ne peut pas être modifié. Une simulation s'arrête en indiquant le mois de l'erreur si le script lève une exception ou renvoie des parts négatives ou une valeur non numérique. Les profils scriptés sont exclus des analyses glissantes et Monte Carlo.",
+    ruleBorrowNeedsLeverage: "L'emprunt ne s'exécute qu'avec l'effet de levier activé : activez-le pour facturer les intérêts et contrôler le LTV."
   },
   'zh-CN': {
     appTitle: "QQQ 回测工具",
@@ -346,7 +945,7 @@ const dictionaries: Record<Language, Translations> = {
     cash: "现金",
     dcaCash: "定投现金",
     strat_noRebalance: "无再平衡",
-    strat_rebalance: "年度再平衡",
+    strat_rebalance: "定期再平衡",
     strat_smart: "智能调整",
     stockPledge: "资产质押融资",
     loanRate: "贷款利率 %",
@@ -459,7 +1058,296 @@ const dictionaries: Record<Language, Translations> = {
     executiveSummary: "核心绩效摘要",
     visualAnalysis: "图表可视化分析",
     aiAnalysisNote: "AI 分析专用 segment：以下数据已为 AI 解析进行结构化处理。",
-    legalDisclaimer: "风险提示：本报告仅供模拟参考，过往业绩不代表未来表现。投资有风险，入市需谨慎。"
+    legalDisclaimer: "风险提示：本报告仅供模拟参考，过往业绩不代表未来表现。投资有风险，入市需谨慎。",
+    marketData: "市场数据",
+    dataSource: "来源",
+    builtInData: "内置数据 (QQQ / QLD)",
+    dataMonths: "个月",
+    dataTickers: "标的",
+    importMarketData: "导入价格 (CSV / JSON)",
+    resetBuiltInData: "恢复内置数据",
+    importFormatHint: "月度复权收盘价。CSV：date,adjClose（标的取自文件名）、date,ticker,adjClose 或 date,QQQ,QLD。JSON：{ \"qqq\": [{ \"date\", \"adjClose\" }] }。标的不限：每个配置在其自身资产有价格的月份内运行。",
+    importErrors: "导入失败",
+    importWarnings: "导入提示",
+    assetTarget: "目标 %",
+    assetContribution: "定投 %",
+    assetPledge: "质押率",
+    assetBetaHint: "相对 QQQ 的 Beta (QQQ=1, QLD=2)",
+    addAsset: "添加资产",
+    allocationOver100: "权重合计超过 100%。",
+    syntheticData: "合成数据",
+    syntheticDataNote: "阴影月份（{start} – {end}）使用由 QQQ 重建的 {tickers} 合成价格，并非真实成交价格。",
+    syntheticAllMonths: "全部月份",
+    syntheticExtension: "合成历史",
+    syntheticHint: "由 QQQ 重建每日重置的杠杆 ETF（含管理费、融资成本和波动损耗），并拼接在第一个真实月份之前。",
+    syntheticTicker: "代码",
+    syntheticLeverage: "杠杆倍数",
+    syntheticExpense: "管理费率 (%)",
+    syntheticFinancing: "融资利率 (%)",
+    syntheticSpliceDate: "真实数据起始月（留空 = 首个真实月份）",
+    applySynthetic: "生成并拼接",
+    dataDays: "天",
+    importDailyPrices: "保留每日价格（按日模拟）",
+    dataQuality: "数据质量",
+    dataQualityOk: "正常",
+    dataQualityWarnings: "有警告",
+    dataQualityFatal: "严重错误",
+    dataQualityNoIssues: "未发现问题。",
+    runBlockedByData: "修复严重数据错误之前无法运行模拟。",
+    profilesNotSimulated: "部分配置无法模拟",
+    backtestPeriod: "回测区间",
+    periodStart: "开始",
+    periodEnd: "结束",
+    fullPeriod: "使用完整区间",
+    customPeriod: "此配置使用自定义区间",
+    usesGlobalPeriod: "使用全局回测区间。",
+    rollingAnalysis: "滚动起点分析",
+    rollingAnalysisDesc: "以固定期限从每个可能的起始月份运行各配置，展示结果对入场时点的依赖程度。",
+    rollingHorizon: "期限",
+    rollingYears: "{years} 年",
+    runRollingAnalysis: "运行滚动分析",
+    rollingNoWindows: "历史数据不足 {years} 年窗口。",
+    rollingBands: "组合价值百分位区间",
+    rollingBandsDesc: "阴影区间为所有起始月份的第 5–95 与第 25–75 百分位；实线为中位数。",
+    rollingMonthsIn: "第 {months} 个月",
+    bestStarts: "最佳起始月份",
+    worstStarts: "最差起始月份",
+    col_window: "区间",
+    col_windows: "窗口数",
+    col_cagrP5: "CAGR P5",
+    col_cagrP50: "CAGR 中位数",
+    col_cagrP95: "CAGR P95",
+    col_balanceP5: "余额 P5",
+    col_balanceP50: "余额中位数",
+    col_maxDDP50: "最大回撤中位数",
+    col_maxDDWorst: "最差最大回撤",
+    col_bankruptcyRate: "破产率",
+    monteCarlo: "蒙特卡洛模拟",
+    monteCarloDesc: "通过抽取连续历史月份区块（QQQ 与 QLD 同步）构建合成价格路径，并在每条路径上运行各配置。单次回测中独立崩盘次数太少，不足以确定杠杆规模。",
+    mcPaths: "路径数",
+    mcHorizonHistory: "与历史相同",
+    mcBlockLength: "区块长度",
+    mcMonths: "{months} 个月",
+    mcSeed: "随机种子",
+    runMonteCarlo: "运行蒙特卡洛",
+    mcBankruptcyProbability: "破产/强平概率",
+    mcPathSummary: "{paths} 条路径 × {months} 个月",
+    mcFanChart: "权益扇形图",
+    mcFanChartDesc: "阴影区间为所有路径的第 5–95 与第 25–75 百分位；实线为中位数。",
+    mcMetric: "指标",
+    mcMean: "均值",
+    stressTest: "压力情景",
+    stressTestDesc: "将危机路径重放于当前组合。情景期间持仓不变，利息、提取与最大 LTV 检查照常执行。",
+    stressPortfolio: "组合状态",
+    stressFinalStateOf: "{name} 的最终状态",
+    stressManualSnapshot: "手动输入快照",
+    stressLeverageRules: "杠杆设置来自",
+    stressCash: "现金",
+    stressDebt: "负债",
+    stressEquity: "净值",
+    stressScenarios: "情景库",
+    stressScenario: "情景",
+    stressAddScenario: "添加情景",
+    stressScenarioName: "情景名称",
+    stressCustomScenario: "自定义情景",
+    stressHistorical: "历史月份",
+    stressHypothetical: "假设收益",
+    stressReturnsHint: "每行一个代码的月度收益 %。未列出的持仓保持不变。",
+    stressInvalidRange: "请输入不晚于结束月份的开始月份。",
+    runStressTest: "运行压力测试",
+    stressNoResult: "请先运行模拟：该配置尚无最终状态。",
+    stressNoRules: "请选择适用其杠杆设置的配置。",
+    stressOutcome: "结果",
+    stressSurvived: "存活",
+    stressLiquidated: "被强平",
+    stressStartEquity: "初始净值",
+    stressMinEquity: "最低净值",
+    stressEndEquity: "期末净值",
+    stressPeakLtv: "峰值 LTV",
+    stressEquityPath: "净值与负债",
+    stressRiskPath: "LTV 与 Beta",
+    cpiSeries: "CPI",
+    cpiNone: "无（使用固定通胀率）",
+    cpiImportHint: "以代码 CPI 导入月度 CPI 序列（如 FRED CPIAUCSL），即可按实际通胀折算结果并调整现金流。",
+    indexContributions: "定投金额随通胀调整",
+    inflationFallbackHint: "仅在行情数据没有 CPI 序列时使用；否则金额按 CPI 调整。",
+    nominalTerms: "名义",
+    realTerms: "实际",
+    realTermsDesc: "按 CPI 序列（无则按固定通胀率）折算为回测起点的购买力。",
+    benchmarkRateSeries: "基准利率",
+    benchmarkRateNone: "无（使用固定利率）",
+    benchmarkRateImportHint: "以代码 RATE 导入月度基准利率（%，如 FRED FEDFUNDS 或 TB3MS），即可让贷款利率和现金收益率随之浮动。",
+    rateFixed: "固定",
+    rateBenchmarkPlus: "基准 +",
+    rateBenchmarkMinus: "基准 −",
+    benchmarkFallbackHint: "逐月跟随 RATE 序列（不低于 0%）；数据中没有该序列时使用固定利率。",
+    baseCurrency: "本位币",
+    baseCurrencyHint: "本金、定投、现金和贷款均以此币种计价；美元价格按 {series} 序列逐月换算。",
+    fxSeries: "汇率",
+    fxNone: "无（仅美元）",
+    fxImportHint: "以 USD<币种> 为代码导入汇率（每美元兑换的该币种数量，如 USDEUR、USDCNY、USDTWD），即可以该币种为本位币回测。",
+    showFxContribution: "显示汇率贡献",
+    col_localCagr: "资产年化",
+    col_localCagrDesc: "汇率固定在期初水平（完全对冲）时的年化收益",
+    col_fxCagr: "汇率",
+    col_fxCagrDesc: "汇率带来的年化收益：(1 + 年化) / (1 + 资产年化) - 1",
+    capitalGainsTax: "资本利得税",
+    shortTermRate: "短期税率 %",
+    longTermRate: "长期税率 %",
+    holdingPeriod: "长期门槛 (月)",
+    lotSelection: "批次选择",
+    lotFifo: "先进先出 (FIFO)",
+    lotLifo: "后进先出 (LIFO)",
+    lotHifo: "最高成本优先 (HIFO)",
+    taxPayment: "缴纳方式",
+    taxPayFromCash: "以现金缴纳",
+    taxPayBySelling: "卖出持仓缴纳",
+    taxNote: "每年的税款于次年一月缴纳。收益与亏损相抵，净亏损向后结转，应缴税款在缴纳前从净值中扣除。",
+    taxLiability: "应缴税款",
+    tradingCosts: "交易成本",
+    commissionFixed: "每笔佣金",
+    commissionPerShare: "每股佣金",
+    minCommission: "最低佣金",
+    tradingCostsNote: "每次买卖均从现金中扣除；现金不足时会减少买入数量。各资产的滑点在配置列表中设置。",
+    assetSlippage: "滑点 bps",
+    assetSlippageHint: "买卖价差的一半（基点）：买入按高于价格此幅度成交，卖出按低于价格此幅度成交",
+    col_tradingCosts: "交易成本",
+    col_tradingCostsDesc: "整个回测期间支付的佣金与滑点",
+    executionMode: "下单方式",
+    execFractional: "零股（可分割）",
+    execWholeShares: "仅整股",
+    execWholeSharesHint: "订单向下取整为整股。未用完的资金留作现金、赚取现金收益，并计入同一资产的下一次买入。",
+    wholeShareDrift: "整股偏差",
+    wholeShareDriftDesc: "整股配置与相同配置使用零股时的对比。",
+    wholeShareDriftMaterial: "取整使该组合有相当比例的资金闲置为现金",
+    col_cashDrag: "平均多余现金",
+    col_maxCashDrag: "最大多余现金",
+    col_weightDrift: "最大权重偏差 (百分点)",
+    col_fractionalBalance: "零股期末资产",
+    col_cagrGap: "年化差异",
+    strat_threshold: "阈值（偏离区间）再平衡",
+    driftBandMode: "区间类型",
+    driftBandAbsolute: "绝对 (± 百分点)",
+    driftBandRelative: "相对 (± 目标的 %)",
+    driftBandThreshold: "阈值",
+    driftBandPartial: "部分再平衡：仅调回区间边缘",
+    driftBandHint: "每月检查。例如目标 40%、绝对区间 5 时，低于 35% 或高于 45% 即再平衡；相对区间 25 时为低于 30% 或高于 50%。相对区间至少为 ± 1 个百分点，目标为 0% 的资产也有余地。现金也视为一项资产。",
+    col_rebalances: "再平衡次数",
+    col_turnover: "换手率",
+    col_turnoverDesc: "策略每年卖出的金额占平均净值的百分比",
+    math_turnover: "换手率",
+    math_turnover_expl: "策略在一般年份卖出组合的比例。定投只买入，因此卖出额反映再平衡等规则产生的交易；可结合再平衡次数比较各规则的交易量。",
+    math_turnover_formula: "换手率 = (Σ 卖出额 / 平均净值) / 年数 × 100%",
+    rebalanceFrequency: "再平衡频率",
+    semiAnnual: "每半年",
+    everyNYears: "每 N 年",
+    rebalanceYears: "间隔年数",
+    rebalanceAnchorMonth: "锚定月份",
+    rebalanceContributionOnly: "仅用新增资金再平衡（不卖出）",
+    rebalanceContributionOnlyHint: "每笔投入资金优先买入低于目标最多的资产；不卖出任何持仓，因此在强趋势中偏离可能持续。",
+    smartEvaluationMonth: "评估月份",
+    smartHarvestFraction: "获利了结比例 %",
+    smartHarvestFrom: "获利来源资产",
+    smartHighestBeta: "自动（最高 Beta）",
+    smartHarvestInto: "转入储备",
+    smartMaxReserve: "储备上限（占组合 %）",
+    smartDipBuy: "逢低买入（占组合 %）",
+    smartDipTrigger: "逢低触发条件",
+    smartTriggerYearlyLoss: "年度无盈利",
+    smartTriggerDrawdown: "自高点回撤",
+    smartDrawdownTrigger: "回撤触发 %",
+    smartHint: "每年在评估月份检查一次：触发逢低时用储备买入该资产，否则将其部分盈利转入储备。",
+    math_smart: "智能调整规则",
+    math_smart_expl: "每年在评估月份，根据该资产的年度盈利（当前价值减去年初价值及当年投入）决定操作。以下为各智能调整方案的参数：",
+    strat_trend: "趋势跟踪（均线）",
+    trendMaType: "均线类型",
+    trendSma: "简单均线 (SMA)",
+    trendEma: "指数均线 (EMA)",
+    trendPeriod: "周期（月）",
+    trendHysteresis: "滞后区间 %",
+    trendRiskOffFraction: "杠杆仓位转现金 %",
+    trendHint: "每月比较 QQQ 与其均线。跌破区间时将杠杆资产转为现金；升破区间时恢复目标配置。",
+    trendSignalsNote: "圆点标记趋势信号：绿色 = 进场，红色 = 避险。",
+    strat_volTarget: "目标波动率",
+    volTargetVol: "目标波动率 %",
+    volTargetWindow: "统计窗口（月）",
+    volTargetMaxBeta: "最大 Beta",
+    volTargetMaxTurnover: "每月最大换手 %",
+    volTargetBand: "Beta 容差带",
+    volTargetHint: "每月调整 QQQ / 杠杆资产 / 现金配比，使 Beta × QQQ 实际波动率达到目标。Beta 按扣除负债后的净值计算；仅在偏离超过容差带时交易，启用杠杆时保留足够抵押品以满足最高 LTV。",
+    volTargetTitle: "波动率目标",
+    volTargetDesc: "各目标波动率方案的实际年化波动率与目标对比，以及组合 Beta。",
+    col_targetVol: "目标",
+    col_volatility: "波动率",
+    col_volGap: "偏差",
+    col_avgBeta: "平均 Beta",
+    col_maxBeta: "最大 Beta",
+    strat_valueAveraging: "价值平均",
+    vaExpectedReturn: "目标路径年增长 %",
+    vaMaxContribution: "单期最大投入（0 = 不限）",
+    vaAllowWithdrawals: "高于路径时取出资金",
+    vaMaxWithdrawal: "单期最大取出（0 = 不限）",
+    vaHint: "目标路径从初始资金出发，每期增加一笔定投金额，并按路径增长率复利。每期投入金额即补足与路径的差距。",
+    strat_cppi: "CPPI（固定比例投资组合保险）",
+    cppiFloorType: "保底线",
+    cppiRatchet: "棘轮（峰值 %）",
+    cppiAbsolute: "固定金额",
+    cppiFloorPct: "保底线（峰值净值 %）",
+    cppiFloorAmount: "保底金额",
+    cppiMultiplier: "乘数",
+    cppiMaxExposure: "最大风险敞口（净值 %）",
+    cppiHint: "每月将风险资产重设为 乘数 × 缓冲（扣除借款、利息和应缴税款后的净值高于保底线的部分），按目标权重分配；其余现金获得现金收益。投入资金只按其金额抬高棘轮峰值，不会单独创出新高。",
+    cppiTitle: "CPPI 保底线、缓冲与敞口",
+    cppiDesc: "各 CPPI 方案每月的保底线、缓冲与风险敞口。跳空月份指月初净值已低于保底线：风险资产在再平衡前的跌幅超过 1 / 乘数。",
+    cppiFloor: "保底线",
+    cppiCushion: "缓冲",
+    cppiExposure: "风险敞口",
+    cppiGapMonths: "跳空月数",
+    cppiWorstGap: "最大跳空",
+    cppiAvgExposure: "平均敞口",
+    cppiCashLocked: "锁定现金",
+    strat_drawdownLadder: "回撤阶梯加仓",
+    ladderDrawdown: "QQQ 回撤 (%)",
+    ladderLeveragedWeight: "杠杆仓位 (%)",
+    ladderAddStep: "添加阶梯",
+    ladderRemoveStep: "删除阶梯",
+    ladderGradualRecovery: "随 QQQ 回升逐级减仓",
+    ladderHint: "当 QQQ 较历史高点回撤达到该幅度时，提高杠杆仓位。创新高时恢复基础配置（勾选逐级减仓则随回升逐级恢复）。每笔阶梯交易及其原因都会记录在报告中。",
+    strat_rules: "自定义规则",
+    rulesHint: "每月在定投之后按顺序检查规则。规则的所有条件都满足时触发，并按顺序执行其动作。百分比分别以现金（买入）、持仓（卖出）、净值（借款）和负债（还款）为基数。日志会显示每笔交易由哪条规则发出。规则随配置导出一并保存。",
+    ruleName: "规则名称",
+    ruleDefaultName: "规则",
+    ruleNoRules: "暂无规则：该配置仅执行定投。",
+    ruleAddRule: "添加规则",
+    ruleRemove: "删除规则",
+    ruleWhen: "当（全部满足）",
+    ruleThen: "则",
+    ruleAddCondition: "添加条件",
+    ruleAddAction: "添加动作",
+    ruleOnlyOnEntry: "仅在条件开始成立时触发",
+    rulePeriod: "均线月数",
+    ruleAllHoldings: "全部持仓",
+    ruleUnitAmount: "金额",
+    ruleMetricMonth: "月份 (1-12)",
+    ruleMetricDate: "日期",
+    ruleMetricPriceVsMa: "价格相对均线 (%)",
+    ruleMetricDrawdown: "回撤 (%)",
+    ruleMetricLtv: "LTV (%)",
+    ruleMetricBeta: "Beta",
+    ruleMetricCash: "现金占比 (%)",
+    ruleMetricYtdProfit: "年初至今收益 (%)",
+    ruleActionSetWeights: "设定权重",
+    ruleActionBuy: "买入",
+    ruleActionSell: "卖出",
+    ruleActionMoveToCash: "转为现金",
+    ruleActionBorrow: "借款",
+    ruleActionRepay: "还款",
+    strat_script: "自定义脚本 (JavaScript)",
+    scriptCode: "策略函数",
+    scriptTimeLimit: "时间限制 (秒)",
+    scriptReset: "恢复示例",
+    scriptHint: "脚本需返回一个函数 (state, marketData, config, monthIndex, history)，该函数返回新的组合状态。它每月调用一次，在页面之外的 Web Worker 中运行，超过时间限制即被终止。Worker 移除了 fetch、WebSocket 等常见的网络和存储接口，但这并不是沙箱：脚本以本站点的权限运行，仍可通过 import() 从网络加载代码并把你的数据发送出去。请只运行可信的脚本。history 为截至本月的只读行情。若脚本抛出异常，或返回负持仓、非数值，回测将停止并报告出错月份。脚本配置不参与滚动分析和蒙特卡洛分析。",
+    ruleBorrowNeedsLeverage: "仅在启用杠杆时执行借款：启用后才会计息并检查 LTV。"
   },
   'zh-TW': {
     appTitle: "QQQ 回測工具",
@@ -496,7 +1384,7 @@ const dictionaries: Record<Language, Translations> = {
     cash: "現金",
     dcaCash: "定投現金",
     strat_noRebalance: "無再平衡",
-    strat_rebalance: "年度再平衡",
+    strat_rebalance: "定期再平衡",
     strat_smart: "智能調整",
     stockPledge: "資產質押融資",
     loanRate: "貸款利率 %",
@@ -609,10 +1497,305 @@ const dictionaries: Record<Language, Translations> = {
     executiveSummary: "核心績效摘要",
     visualAnalysis: "圖表視覺化分析",
     aiAnalysisNote: "AI 分析專用 segment：以下數據已為 AI 解析進行結構化處理。",
-    legalDisclaimer: "風險提示：本報告僅供模擬參考，過往業績不代表未來表現。投資有風險，入市需謹慎。"
+    legalDisclaimer: "風險提示：本報告僅供模擬參考，過往業績不代表未來表現。投資有風險，入市需謹慎。",
+    marketData: "市場數據",
+    dataSource: "來源",
+    builtInData: "內建數據 (QQQ / QLD)",
+    dataMonths: "個月",
+    dataTickers: "標的",
+    importMarketData: "匯入價格 (CSV / JSON)",
+    resetBuiltInData: "恢復內建數據",
+    importFormatHint: "月度還原收盤價。CSV：date,adjClose（標的取自檔名）、date,ticker,adjClose 或 date,QQQ,QLD。JSON：{ \"qqq\": [{ \"date\", \"adjClose\" }] }。標的不限：每個配置在其自身資產有價格的月份內執行。",
+    importErrors: "匯入失敗",
+    importWarnings: "匯入提示",
+    assetTarget: "目標 %",
+    assetContribution: "定投 %",
+    assetPledge: "質押率",
+    assetBetaHint: "相對 QQQ 的 Beta (QQQ=1, QLD=2)",
+    addAsset: "新增資產",
+    allocationOver100: "權重合計超過 100%。",
+    syntheticData: "合成數據",
+    syntheticDataNote: "陰影月份（{start} – {end}）使用由 QQQ 重建的 {tickers} 合成價格，並非真實成交價格。",
+    syntheticAllMonths: "全部月份",
+    syntheticExtension: "合成歷史",
+    syntheticHint: "由 QQQ 重建每日重置的槓桿 ETF（含管理費、融資成本和波動損耗），並拼接在第一個真實月份之前。",
+    syntheticTicker: "代碼",
+    syntheticLeverage: "槓桿倍數",
+    syntheticExpense: "管理費率 (%)",
+    syntheticFinancing: "融資利率 (%)",
+    syntheticSpliceDate: "真實數據起始月（留空 = 首個真實月份）",
+    applySynthetic: "生成並拼接",
+    dataDays: "天",
+    importDailyPrices: "保留每日價格（按日模擬）",
+    dataQuality: "數據品質",
+    dataQualityOk: "正常",
+    dataQualityWarnings: "有警告",
+    dataQualityFatal: "嚴重錯誤",
+    dataQualityNoIssues: "未發現問題。",
+    runBlockedByData: "修復嚴重數據錯誤之前無法執行模擬。",
+    profilesNotSimulated: "部分配置無法模擬",
+    backtestPeriod: "回測區間",
+    periodStart: "開始",
+    periodEnd: "結束",
+    fullPeriod: "使用完整區間",
+    customPeriod: "此配置使用自訂區間",
+    usesGlobalPeriod: "使用全域回測區間。",
+    rollingAnalysis: "滾動起點分析",
+    rollingAnalysisDesc: "以固定期限從每個可能的起始月份執行各配置，展示結果對進場時點的依賴程度。",
+    rollingHorizon: "期限",
+    rollingYears: "{years} 年",
+    runRollingAnalysis: "執行滾動分析",
+    rollingNoWindows: "歷史資料不足 {years} 年視窗。",
+    rollingBands: "組合價值百分位區間",
+    rollingBandsDesc: "陰影區間為所有起始月份的第 5–95 與第 25–75 百分位；實線為中位數。",
+    rollingMonthsIn: "第 {months} 個月",
+    bestStarts: "最佳起始月份",
+    worstStarts: "最差起始月份",
+    col_window: "區間",
+    col_windows: "視窗數",
+    col_cagrP5: "CAGR P5",
+    col_cagrP50: "CAGR 中位數",
+    col_cagrP95: "CAGR P95",
+    col_balanceP5: "餘額 P5",
+    col_balanceP50: "餘額中位數",
+    col_maxDDP50: "最大回撤中位數",
+    col_maxDDWorst: "最差最大回撤",
+    col_bankruptcyRate: "破產率",
+    monteCarlo: "蒙地卡羅模擬",
+    monteCarloDesc: "透過抽取連續歷史月份區塊（QQQ 與 QLD 同步）建構合成價格路徑，並在每條路徑上執行各配置。單次回測中獨立崩盤次數太少，不足以確定槓桿規模。",
+    mcPaths: "路徑數",
+    mcHorizonHistory: "與歷史相同",
+    mcBlockLength: "區塊長度",
+    mcMonths: "{months} 個月",
+    mcSeed: "隨機種子",
+    runMonteCarlo: "執行蒙地卡羅",
+    mcBankruptcyProbability: "破產/強平機率",
+    mcPathSummary: "{paths} 條路徑 × {months} 個月",
+    mcFanChart: "權益扇形圖",
+    mcFanChartDesc: "陰影區間為所有路徑的第 5–95 與第 25–75 百分位；實線為中位數。",
+    mcMetric: "指標",
+    mcMean: "均值",
+    stressTest: "壓力情境",
+    stressTestDesc: "將危機路徑重播於當前組合。情境期間持倉不變，利息、提領與最大 LTV 檢查照常執行。",
+    stressPortfolio: "組合狀態",
+    stressFinalStateOf: "{name} 的最終狀態",
+    stressManualSnapshot: "手動輸入快照",
+    stressLeverageRules: "槓桿設定來自",
+    stressCash: "現金",
+    stressDebt: "負債",
+    stressEquity: "淨值",
+    stressScenarios: "情境庫",
+    stressScenario: "情境",
+    stressAddScenario: "新增情境",
+    stressScenarioName: "情境名稱",
+    stressCustomScenario: "自訂情境",
+    stressHistorical: "歷史月份",
+    stressHypothetical: "假設報酬",
+    stressReturnsHint: "每行一個代碼的月度報酬 %。未列出的持倉維持不變。",
+    stressInvalidRange: "請輸入不晚於結束月份的開始月份。",
+    runStressTest: "執行壓力測試",
+    stressNoResult: "請先執行模擬：此配置尚無最終狀態。",
+    stressNoRules: "請選擇適用其槓桿設定的配置。",
+    stressOutcome: "結果",
+    stressSurvived: "存活",
+    stressLiquidated: "被強平",
+    stressStartEquity: "初始淨值",
+    stressMinEquity: "最低淨值",
+    stressEndEquity: "期末淨值",
+    stressPeakLtv: "峰值 LTV",
+    stressEquityPath: "淨值與負債",
+    stressRiskPath: "LTV 與 Beta",
+    cpiSeries: "CPI",
+    cpiNone: "無（使用固定通膨率）",
+    cpiImportHint: "以代碼 CPI 匯入月度 CPI 序列（如 FRED CPIAUCSL），即可按實際通膨折算結果並調整現金流。",
+    indexContributions: "定投金額隨通膨調整",
+    inflationFallbackHint: "僅在行情資料沒有 CPI 序列時使用；否則金額按 CPI 調整。",
+    nominalTerms: "名目",
+    realTerms: "實質",
+    realTermsDesc: "按 CPI 序列（無則按固定通膨率）折算為回測起點的購買力。",
+    benchmarkRateSeries: "基準利率",
+    benchmarkRateNone: "無（使用固定利率）",
+    benchmarkRateImportHint: "以代碼 RATE 匯入月度基準利率（%，如 FRED FEDFUNDS 或 TB3MS），即可讓貸款利率和現金收益率隨之浮動。",
+    rateFixed: "固定",
+    rateBenchmarkPlus: "基準 +",
+    rateBenchmarkMinus: "基準 −",
+    benchmarkFallbackHint: "逐月跟隨 RATE 序列（不低於 0%）；資料中沒有該序列時使用固定利率。",
+    baseCurrency: "本位幣",
+    baseCurrencyHint: "本金、定投、現金和貸款均以此幣別計價；美元價格按 {series} 序列逐月換算。",
+    fxSeries: "匯率",
+    fxNone: "無（僅美元）",
+    fxImportHint: "以 USD<幣別> 為代碼匯入匯率（每美元兌換的該幣別數量，如 USDEUR、USDCNY、USDTWD），即可以該幣別為本位幣回測。",
+    showFxContribution: "顯示匯率貢獻",
+    col_localCagr: "資產年化",
+    col_localCagrDesc: "匯率固定在期初水準（完全避險）時的年化報酬",
+    col_fxCagr: "匯率",
+    col_fxCagrDesc: "匯率帶來的年化報酬：(1 + 年化) / (1 + 資產年化) - 1",
+    capitalGainsTax: "資本利得稅",
+    shortTermRate: "短期稅率 %",
+    longTermRate: "長期稅率 %",
+    holdingPeriod: "長期門檻 (月)",
+    lotSelection: "批次選擇",
+    lotFifo: "先進先出 (FIFO)",
+    lotLifo: "後進先出 (LIFO)",
+    lotHifo: "最高成本優先 (HIFO)",
+    taxPayment: "繳納方式",
+    taxPayFromCash: "以現金繳納",
+    taxPayBySelling: "賣出持股繳納",
+    taxNote: "每年的稅款於次年一月繳納。收益與虧損相抵，淨虧損向後結轉，應繳稅款在繳納前從淨值中扣除。",
+    taxLiability: "應繳稅款",
+    tradingCosts: "交易成本",
+    commissionFixed: "每筆手續費",
+    commissionPerShare: "每股手續費",
+    minCommission: "最低手續費",
+    tradingCostsNote: "每次買賣均從現金中扣除；現金不足時會減少買進數量。各資產的滑價在配置列表中設定。",
+    assetSlippage: "滑價 bps",
+    assetSlippageHint: "買賣價差的一半（基點）：買進以高於價格此幅度成交，賣出以低於價格此幅度成交",
+    col_tradingCosts: "交易成本",
+    col_tradingCostsDesc: "整個回測期間支付的手續費與滑價",
+    executionMode: "下單方式",
+    execFractional: "零股（可分割）",
+    execWholeShares: "僅整股",
+    execWholeSharesHint: "訂單向下取整為整股。未用完的資金留作現金、賺取現金收益，並計入同一資產的下一次買進。",
+    wholeShareDrift: "整股偏差",
+    wholeShareDriftDesc: "整股配置與相同配置使用零股時的對比。",
+    wholeShareDriftMaterial: "取整使該組合有相當比例的資金閒置為現金",
+    col_cashDrag: "平均多餘現金",
+    col_maxCashDrag: "最大多餘現金",
+    col_weightDrift: "最大權重偏差 (百分點)",
+    col_fractionalBalance: "零股期末資產",
+    col_cagrGap: "年化差異",
+    strat_threshold: "門檻（偏離區間）再平衡",
+    driftBandMode: "區間類型",
+    driftBandAbsolute: "絕對 (± 百分點)",
+    driftBandRelative: "相對 (± 目標的 %)",
+    driftBandThreshold: "門檻",
+    driftBandPartial: "部分再平衡：僅調回區間邊緣",
+    driftBandHint: "每月檢查。例如目標 40%、絕對區間 5 時，低於 35% 或高於 45% 即再平衡；相對區間 25 時為低於 30% 或高於 50%。相對區間至少為 ± 1 個百分點，目標為 0% 的資產也有餘地。現金也視為一項資產。",
+    col_rebalances: "再平衡次數",
+    col_turnover: "週轉率",
+    col_turnoverDesc: "策略每年賣出的金額占平均淨值的百分比",
+    math_turnover: "週轉率",
+    math_turnover_expl: "策略在一般年份賣出組合的比例。定期定額只買進，因此賣出額反映再平衡等規則產生的交易；可結合再平衡次數比較各規則的交易量。",
+    math_turnover_formula: "週轉率 = (Σ 賣出額 / 平均淨值) / 年數 × 100%",
+    rebalanceFrequency: "再平衡頻率",
+    semiAnnual: "每半年",
+    everyNYears: "每 N 年",
+    rebalanceYears: "間隔年數",
+    rebalanceAnchorMonth: "錨定月份",
+    rebalanceContributionOnly: "僅用新增資金再平衡（不賣出）",
+    rebalanceContributionOnlyHint: "每筆投入資金優先買入低於目標最多的資產；不賣出任何持倉，因此在強趨勢中偏離可能持續。",
+    smartEvaluationMonth: "評估月份",
+    smartHarvestFraction: "獲利了結比例 %",
+    smartHarvestFrom: "獲利來源資產",
+    smartHighestBeta: "自動（最高 Beta）",
+    smartHarvestInto: "轉入儲備",
+    smartMaxReserve: "儲備上限（占組合 %）",
+    smartDipBuy: "逢低買入（占組合 %）",
+    smartDipTrigger: "逢低觸發條件",
+    smartTriggerYearlyLoss: "年度無盈利",
+    smartTriggerDrawdown: "自高點回撤",
+    smartDrawdownTrigger: "回撤觸發 %",
+    smartHint: "每年在評估月份檢查一次：觸發逢低時用儲備買入該資產，否則將其部分盈利轉入儲備。",
+    math_smart: "智慧調整規則",
+    math_smart_expl: "每年在評估月份，根據該資產的年度盈利（當前價值減去年初價值及當年投入）決定操作。以下為各智慧調整方案的參數：",
+    strat_trend: "趨勢追蹤（均線）",
+    trendMaType: "均線類型",
+    trendSma: "簡單均線 (SMA)",
+    trendEma: "指數均線 (EMA)",
+    trendPeriod: "週期（月）",
+    trendHysteresis: "遲滯區間 %",
+    trendRiskOffFraction: "槓桿倉位轉現金 %",
+    trendHint: "每月比較 QQQ 與其均線。跌破區間時將槓桿資產轉為現金；升破區間時恢復目標配置。",
+    trendSignalsNote: "圓點標記趨勢訊號：綠色 = 進場，紅色 = 避險。",
+    strat_volTarget: "目標波動率",
+    volTargetVol: "目標波動率 %",
+    volTargetWindow: "統計窗口（月）",
+    volTargetMaxBeta: "最大 Beta",
+    volTargetMaxTurnover: "每月最大換手 %",
+    volTargetBand: "Beta 容差帶",
+    volTargetHint: "每月調整 QQQ / 槓桿資產 / 現金配比，使 Beta × QQQ 實際波動率達到目標。Beta 按扣除負債後的淨值計算；僅在偏離超過容差帶時交易，啟用槓桿時保留足夠抵押品以滿足最高 LTV。",
+    volTargetTitle: "波動率目標",
+    volTargetDesc: "各目標波動率方案的實際年化波動率與目標對比，以及組合 Beta。",
+    col_targetVol: "目標",
+    col_volatility: "波動率",
+    col_volGap: "偏差",
+    col_avgBeta: "平均 Beta",
+    col_maxBeta: "最大 Beta",
+    strat_valueAveraging: "價值平均",
+    vaExpectedReturn: "目標路徑年增長 %",
+    vaMaxContribution: "單期最大投入（0 = 不限）",
+    vaAllowWithdrawals: "高於路徑時取出資金",
+    vaMaxWithdrawal: "單期最大取出（0 = 不限）",
+    vaHint: "目標路徑從初始資金出發，每期增加一筆定投金額，並按路徑增長率複利。每期投入金額即補足與路徑的差距。",
+    strat_cppi: "CPPI（固定比例投資組合保險）",
+    cppiFloorType: "保底線",
+    cppiRatchet: "棘輪（峰值 %）",
+    cppiAbsolute: "固定金額",
+    cppiFloorPct: "保底線（峰值淨值 %）",
+    cppiFloorAmount: "保底金額",
+    cppiMultiplier: "乘數",
+    cppiMaxExposure: "最大風險敞口（淨值 %）",
+    cppiHint: "每月將風險資產重設為 乘數 × 緩衝（扣除借款、利息和應繳稅款後的淨值高於保底線的部分），按目標權重分配；其餘現金獲得現金收益。投入資金只按其金額抬高棘輪峰值，不會單獨創出新高。",
+    cppiTitle: "CPPI 保底線、緩衝與敞口",
+    cppiDesc: "各 CPPI 方案每月的保底線、緩衝與風險敞口。跳空月份指月初淨值已低於保底線：風險資產在再平衡前的跌幅超過 1 / 乘數。",
+    cppiFloor: "保底線",
+    cppiCushion: "緩衝",
+    cppiExposure: "風險敞口",
+    cppiGapMonths: "跳空月數",
+    cppiWorstGap: "最大跳空",
+    cppiAvgExposure: "平均敞口",
+    cppiCashLocked: "鎖定現金",
+    strat_drawdownLadder: "回撤階梯加倉",
+    ladderDrawdown: "QQQ 回撤 (%)",
+    ladderLeveragedWeight: "槓桿倉位 (%)",
+    ladderAddStep: "新增階梯",
+    ladderRemoveStep: "刪除階梯",
+    ladderGradualRecovery: "隨 QQQ 回升逐級減倉",
+    ladderHint: "當 QQQ 較歷史高點回撤達到該幅度時，提高槓桿倉位。創新高時恢復基礎配置（勾選逐級減倉則隨回升逐級恢復）。每筆階梯交易及其原因都會記錄在報告中。",
+    strat_rules: "自訂規則",
+    rulesHint: "每月在定投之後按順序檢查規則。規則的所有條件都滿足時觸發，並按順序執行其動作。百分比分別以現金（買入）、持倉（賣出）、淨值（借款）和負債（還款）為基數。日誌會顯示每筆交易由哪條規則發出。規則隨配置匯出一併儲存。",
+    ruleName: "規則名稱",
+    ruleDefaultName: "規則",
+    ruleNoRules: "暫無規則：該配置僅執行定投。",
+    ruleAddRule: "新增規則",
+    ruleRemove: "刪除規則",
+    ruleWhen: "當（全部滿足）",
+    ruleThen: "則",
+    ruleAddCondition: "新增條件",
+    ruleAddAction: "新增動作",
+    ruleOnlyOnEntry: "僅在條件開始成立時觸發",
+    rulePeriod: "均線月數",
+    ruleAllHoldings: "全部持倉",
+    ruleUnitAmount: "金額",
+    ruleMetricMonth: "月份 (1-12)",
+    ruleMetricDate: "日期",
+    ruleMetricPriceVsMa: "價格相對均線 (%)",
+    ruleMetricDrawdown: "回撤 (%)",
+    ruleMetricLtv: "LTV (%)",
+    ruleMetricBeta: "Beta",
+    ruleMetricCash: "現金占比 (%)",
+    ruleMetricYtdProfit: "年初至今收益 (%)",
+    ruleActionSetWeights: "設定權重",
+    ruleActionBuy: "買入",
+    ruleActionSell: "賣出",
+    ruleActionMoveToCash: "轉為現金",
+    ruleActionBorrow: "借款",
+    ruleActionRepay: "還款",
+    strat_script: "自訂腳本 (JavaScript)",
+    scriptCode: "策略函數",
+    scriptTimeLimit: "時間限制 (秒)",
+    scriptReset: "恢復範例",
+    scriptHint: "腳本需回傳一個函數 (state, marketData, config, monthIndex, history)，該函數回傳新的組合狀態。它每月呼叫一次，在頁面之外的 Web Worker 中執行，超過時間限制即被終止。Worker 移除了 fetch、WebSocket 等常見的網路和儲存介面，但這並不是沙箱：腳本以本網站的權限執行，仍可透過 import() 從網路載入程式碼並把你的資料傳送出去。請只執行可信的腳本。history 為截至本月的唯讀行情。若腳本拋出例外，或回傳負持倉、非數值，回測將停止並報告出錯月份。腳本配置不參與滾動分析和蒙地卡羅分析。",
+    ruleBorrowNeedsLeverage: "僅在啟用槓桿時執行借款：啟用後才會計息並檢查 LTV。"
   }
 };
 
+// Translation keys of the calendar months, January first
+export const MONTH_KEYS = [
+  'month_jan', 'month_feb', 'month_mar', 'month_apr', 'month_may', 'month_jun',
+  'month_jul', 'month_aug', 'month_sep', 'month_oct', 'month_nov', 'month_dec'
+];
+
 interface LanguageContextType {
   language: Language;
   setLanguage: (lang: Language) => void;
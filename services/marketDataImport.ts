@@ -0,0 +1,353 @@
+import { DataFrequency, MarketDataRow, PricePoint, PriceSeriesMap } from "../types";
+import { parseFxSeriesName } from "./currency";
+
+// Series name of an imported consumer price index (e.g. FRED CPIAUCSL, monthly)
+export const CPI_SERIES = 'CPI';
+
+// Series name of an imported annual % benchmark rate (e.g. FRED FEDFUNDS or TB3MS, monthly)
+export const BENCHMARK_RATE_SERIES = 'RATE';
+
+export interface PriceFile {
+  name: string;
+  content: string;
+}
+
+export interface MarketDataImportResult {
+  series: PriceSeriesMap;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface MarketDataBuildResult {
+  data: MarketDataRow[];
+  droppedDates: string[]; // Dates where at least one required ticker had no price (see buildMarketData)
+}
+
+/**
+ * Normalizes a date string to the first day of its month (YYYY-MM-01).
+ * Accepts YYYY-MM-DD, YYYY-MM, and the same forms with "/" separators.
+ * Monthly closes dated at month end (e.g. 2020-01-31) map to the same month as the built-in data.
+ */
+export const normalizeMonthDate = (raw: string): string | null => {
+  const match = raw.trim().match(/^(\d{4})[-/](\d{1,2})(?:[-/](\d{1,2}))?(?:[T\s].*)?$/);
+  if (!match) return null;
+
+  const month = parseInt(match[2]);
+  if (month < 1 || month > 12) return null;
+  if (match[3] !== undefined) {
+    const day = parseInt(match[3]);
+    if (day < 1 || day > 31) return null;
+  }
+
+  return `${match[1]}-${month.toString().padStart(2, '0')}-01`;
+};
+
+/**
+ * Normalizes a full date string to YYYY-MM-DD, keeping the day (used for daily datasets).
+ * Accepts the same separators as normalizeMonthDate but requires a day component.
+ */
+export const normalizeDayDate = (raw: string): string | null => {
+  const match = raw.trim().match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})(?:[T\s].*)?$/);
+  if (!match || !normalizeMonthDate(raw)) return null;
+
+  const [year, month, day] = [parseInt(match[1]), parseInt(match[2]), parseInt(match[3])];
+  // Reject days past the end of the month (e.g. 2021-02-30)
+  if (new Date(Date.UTC(year, month - 1, day)).getUTCDate() !== day) return null;
+
+  return `${match[1]}-${month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`;
+};
+
+const parsePrice = (raw: unknown): number => {
+  if (typeof raw === 'number') return raw;
+  if (typeof raw !== 'string' || raw.trim() === '') return NaN;
+  return Number(raw.trim().replace(/^"|"$/g, ''));
+};
+
+const tickerFromFileName = (fileName: string) =>
+  fileName.replace(/^.*[\\/]/, '').replace(/\.[^.]+$/, '').trim().toUpperCase();
+
+/**
+ * Collects dated prices into a series map, rejecting bad values and
+ * resolving several observations in the same period to the latest dated one (month or day close),
+ * whatever order the file lists them in. Observations on the same date keep the last one in the file.
+ */
+const collectPoints = (
+  points: { ticker: string; date: unknown; price: unknown; location: string }[],
+  result: MarketDataImportResult,
+  frequency: DataFrequency
+) => {
+  const byTicker: Record<string, Map<string, { day: string; value: number }>> = {};
+  const resampled = new Set<string>();
+  const normalizeDate = frequency === 'DAILY' ? normalizeDayDate : normalizeMonthDate;
+
+  points.forEach(({ ticker, date, price, location }) => {
+    const period = typeof date === 'string' ? normalizeDate(date) : null;
+    if (!period) {
+      result.errors.push(`${location}: invalid date "${String(date)}"`);
+      return;
+    }
+
+    const value = parsePrice(price);
+    if (!Number.isFinite(value)) {
+      result.errors.push(`${location}: missing or non-numeric ${ticker} price`);
+      return;
+    }
+    // Rates may be zero or negative; prices and index levels may not
+    if (value <= 0 && ticker !== BENCHMARK_RATE_SERIES) {
+      result.errors.push(`${location}: non-positive ${ticker} price ${value}`);
+      return;
+    }
+
+    if (!byTicker[ticker]) byTicker[ticker] = new Map();
+    // Month-only dates (e.g. 2020-01) sort before any day of their month
+    const day = normalizeDayDate(date as string) ?? period;
+    const kept = byTicker[ticker].get(period);
+    if (kept) resampled.add(ticker);
+    if (!kept || day >= kept.day) byTicker[ticker].set(period, { day, value });
+  });
+
+  resampled.forEach(ticker => {
+    result.warnings.push(frequency === 'DAILY'
+      ? `${ticker}: several prices on the same day, the last one was kept`
+      : `${ticker}: several prices in the same month, the latest dated one was kept as the monthly close`);
+  });
+
+  Object.entries(byTicker).forEach(([ticker, prices]) => {
+    result.series[ticker] = Array.from(prices.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, { value }]) => ({ date, adjClose: value }));
+  });
+};
+
+/**
+ * Parses a CSV price file. Supported layouts (header row required, "," or ";" delimited):
+ * - Single series: date,adjClose (ticker taken from the file name, e.g. QQQ.csv)
+ * - Long format:   date,ticker,adjClose
+ * - Wide format:   date,QQQ,QLD,... (one column per ticker)
+ */
+export const parseCsvPriceFile = (
+  content: string,
+  fileName: string,
+  frequency: DataFrequency = 'MONTHLY'
+): MarketDataImportResult => {
+  const result: MarketDataImportResult = { series: {}, errors: [], warnings: [] };
+  const lines = content.split(/\r?\n/).filter(line => line.trim() !== '');
+
+  if (lines.length < 2) {
+    result.errors.push(`${fileName}: file has no data rows`);
+    return result;
+  }
+
+  const delimiter = lines[0].includes(';') && !lines[0].includes(',') ? ';' : ',';
+  const split = (line: string) => line.split(delimiter).map(cell => cell.trim().replace(/^"|"$/g, ''));
+  const header = split(lines[0]);
+
+  const dateCol = header.findIndex(h => /^date$/i.test(h));
+  if (dateCol < 0) {
+    result.errors.push(`${fileName}: missing "date" column`);
+    return result;
+  }
+
+  const priceCol = header.findIndex(h => /^adj[\s_]*close$/i.test(h));
+  const tickerCol = header.findIndex(h => /^(ticker|symbol)$/i.test(h));
+  const points: { ticker: string; date: unknown; price: unknown; location: string }[] = [];
+
+  lines.slice(1).forEach((line, idx) => {
+    const cells = split(line);
+    const location = `${fileName} line ${idx + 2}`;
+
+    if (priceCol >= 0) {
+      const ticker = tickerCol >= 0 ? (cells[tickerCol] || '').toUpperCase() : tickerFromFileName(fileName);
+      points.push({ ticker, date: cells[dateCol], price: cells[priceCol], location });
+    } else {
+      header.forEach((h, col) => {
+        // Blank cells mean the ticker has no price that month (e.g. before its inception)
+        if (col === dateCol || h === '' || (cells[col] ?? '') === '') return;
+        points.push({ ticker: h.toUpperCase(), date: cells[dateCol], price: cells[col], location });
+      });
+    }
+  });
+
+  if (priceCol < 0 && header.filter(h => h !== '').length < 2) {
+    result.errors.push(`${fileName}: no price columns found`);
+    return result;
+  }
+
+  collectPoints(points, result, frequency);
+  return result;
+};
+
+/**
+ * Parses a JSON price file. Supported shapes:
+ * - { "qqq": [{ "date": "...", "adjClose": 1.23 }], "qld": [...] } (same shape as the built-in data)
+ * - [{ "date": "...", "qqq": 1.23, "qld": 4.56 }] (rows, e.g. an exported MarketDataRow[])
+ */
+export const parseJsonPriceFile = (
+  content: string,
+  fileName: string,
+  frequency: DataFrequency = 'MONTHLY'
+): MarketDataImportResult => {
+  const result: MarketDataImportResult = { series: {}, errors: [], warnings: [] };
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (err) {
+    result.errors.push(`${fileName}: invalid JSON (${(err as Error).message})`);
+    return result;
+  }
+
+  const points: { ticker: string; date: unknown; price: unknown; location: string }[] = [];
+
+  if (Array.isArray(parsed)) {
+    parsed.forEach((item: unknown, idx) => {
+      if (!item || typeof item !== 'object' || Array.isArray(item)) {
+        result.errors.push(`${fileName} row ${idx + 1}: expected an object`);
+        return;
+      }
+      const row = item as Record<string, unknown>;
+      Object.entries(row).forEach(([key, price]) => {
+        if (key === 'date' || price === null || price === undefined || price === '') return;
+        points.push({ ticker: key.toUpperCase(), date: row.date, price, location: `${fileName} row ${idx + 1}` });
+      });
+    });
+  } else if (parsed && typeof parsed === 'object') {
+    Object.entries(parsed as Record<string, unknown>).forEach(([ticker, series]) => {
+      if (!Array.isArray(series)) {
+        result.errors.push(`${fileName}: "${ticker}" must be an array of { date, adjClose }`);
+        return;
+      }
+      series.forEach((item: unknown, idx) => {
+        const point = item && typeof item === 'object' ? item as Record<string, unknown> : {};
+        points.push({
+          ticker: ticker.toUpperCase(),
+          date: point.date,
+          price: point.adjClose,
+          location: `${fileName} ${ticker}[${idx}]`
+        });
+      });
+    });
+  } else {
+    result.errors.push(`${fileName}: unsupported JSON structure`);
+    return result;
+  }
+
+  collectPoints(points, result, frequency);
+  return result;
+};
+
+/**
+ * Parses several user files and merges them into one series map.
+ * A ticker supplied by a later file replaces the same ticker from an earlier one.
+ * MONTHLY resamples to month closes; DAILY keeps one price per trading day.
+ */
+export const importPriceFiles = (files: PriceFile[], frequency: DataFrequency = 'MONTHLY'): MarketDataImportResult => {
+  const merged: MarketDataImportResult = { series: {}, errors: [], warnings: [] };
+
+  files.forEach(file => {
+    const isJson = /\.json$/i.test(file.name) || file.content.trim().startsWith('{') || file.content.trim().startsWith('[');
+    const parsed = isJson
+      ? parseJsonPriceFile(file.content, file.name, frequency)
+      : parseCsvPriceFile(file.content, file.name, frequency);
+
+    Object.entries(parsed.series).forEach(([ticker, points]) => {
+      if (merged.series[ticker]) {
+        merged.warnings.push(`${ticker}: series from ${file.name} replaces an earlier file`);
+      }
+      merged.series[ticker] = points;
+    });
+    merged.errors.push(...parsed.errors);
+    merged.warnings.push(...parsed.warnings);
+  });
+
+  // Any universe will do (e.g. QQQ/TLT/GLD); a profile holding a ticker without prices reports it when it runs
+  const hasPrices = Object.keys(merged.series).some(ticker =>
+    !parseFxSeriesName(ticker) && ticker !== CPI_SERIES && ticker !== BENCHMARK_RATE_SERIES
+  );
+  if (!hasPrices && files.length > 0) merged.errors.push('No price series found');
+
+  return merged;
+};
+
+/**
+ * Looks up a ticker's series regardless of key casing (the built-in dataset uses lowercase keys)
+ */
+export const findSeries = (series: PriceSeriesMap, ticker: string): PricePoint[] | undefined => {
+  const key = Object.keys(series).find(k => k.toUpperCase() === ticker.toUpperCase());
+  return key ? series[key] : undefined;
+};
+
+/**
+ * Aligns the per-ticker series on a common date axis (monthly or daily, as imported): each row holds
+ * the price of every ticker priced on its date. Dates where one of `requiredTickers` has no price are
+ * dropped and reported; by default nothing is required, and each profile is trimmed to the dates its
+ * own tickers cover when it runs (see filterRowsWithTickers). CPI and benchmark
+ * rate series are not prices: each row gets its month's `cpi` level and `benchmarkRate` instead.
+ * FX series (USD<CCY>) go to `fxRates`, matched by date or else by month.
+ * `syntheticBefore` maps a ticker to its first month of real prices; rows before it are tagged as synthetic for that ticker.
+ */
+export const buildMarketData = (
+  series: PriceSeriesMap,
+  syntheticBefore: Record<string, string> = {},
+  requiredTickers: string[] = []
+): MarketDataBuildResult => {
+  const priceMaps: Record<string, Map<string, number>> = {};
+  let cpiByMonth: Map<string, number> | undefined;
+  let rateByMonth: Map<string, number> | undefined;
+  // FX rates by date, and by month for monthly series joined to daily rows
+  const fxByDate: Record<string, Map<string, number>> = {};
+  const fxByMonth: Record<string, Map<string, number>> = {};
+  Object.entries(series).forEach(([ticker, points]) => {
+    const fxCurrency = parseFxSeriesName(ticker);
+    if (fxCurrency) {
+      fxByDate[fxCurrency] = new Map(points.map((p: PricePoint) => [p.date, p.adjClose]));
+      fxByMonth[fxCurrency] = new Map(points.map((p: PricePoint) => [p.date.substring(0, 7), p.adjClose]));
+      return;
+    }
+    if (ticker.toUpperCase() === CPI_SERIES || ticker.toUpperCase() === BENCHMARK_RATE_SERIES) {
+      const byMonth = new Map(points.map((p: PricePoint) => [p.date.substring(0, 7), p.adjClose]));
+      if (ticker.toUpperCase() === CPI_SERIES) cpiByMonth = byMonth;
+      else rateByMonth = byMonth;
+      return;
+    }
+    priceMaps[ticker.toUpperCase()] = new Map(points.map((p: PricePoint) => [p.date, p.adjClose]));
+  });
+
+  const dates = Array.from(new Set(Object.values(priceMaps).flatMap(m => Array.from(m.keys())))).sort();
+  const data: MarketDataRow[] = [];
+  const droppedDates: string[] = [];
+
+  dates.forEach(date => {
+    const prices: Record<string, number> = {};
+    Object.entries(priceMaps).forEach(([ticker, byDate]) => {
+      const price = byDate.get(date);
+      if (price !== undefined && price > 0) prices[ticker] = price;
+    });
+    if (requiredTickers.every(ticker => (prices[ticker.toUpperCase()] ?? 0) > 0)) {
+      const row: MarketDataRow = { date, prices };
+
+      const syntheticTickers = Object.keys(syntheticBefore)
+        .filter(ticker => date < syntheticBefore[ticker])
+        .map(ticker => ticker.toUpperCase());
+      if (syntheticTickers.length > 0) row.syntheticTickers = syntheticTickers;
+
+      const cpi = cpiByMonth?.get(date.substring(0, 7));
+      if (cpi !== undefined && cpi > 0) row.cpi = cpi;
+      const benchmarkRate = rateByMonth?.get(date.substring(0, 7));
+      if (benchmarkRate !== undefined) row.benchmarkRate = benchmarkRate;
+
+      const fxRates: Record<string, number> = {};
+      Object.keys(fxByDate).forEach(currency => {
+        const rate = fxByDate[currency].get(date) ?? fxByMonth[currency].get(date.substring(0, 7));
+        if (rate !== undefined && rate > 0) fxRates[currency] = rate;
+      });
+      if (Object.keys(fxRates).length > 0) row.fxRates = fxRates;
+
+      data.push(row);
+    } else {
+      droppedDates.push(date);
+    }
+  });
+
+  return { data, droppedDates };
+};
@@ -0,0 +1,310 @@
+import { DataFrequency, MarketDataRow } from "../types";
+import { BASE_TICKER } from "./assetUniverse";
+
+export type DiagnosticSeverity = 'FATAL' | 'WARNING' | 'INFO';
+
+export type DiagnosticCode =
+  | 'EMPTY'
+  | 'INVALID_DATE'
+  | 'UNSORTED'
+  | 'DUPLICATE_DATE'
+  | 'MISSING_PERIOD'
+  | 'NON_POSITIVE_PRICE'
+  | 'PRICE_JUMP'
+  | 'COVERAGE_MISMATCH'
+  | 'COVERAGE_GAP'
+  | 'DROPPED_DATES'
+  | 'CPI_PARTIAL'
+  | 'BENCHMARK_PARTIAL';
+
+export interface DataDiagnostic {
+  severity: DiagnosticSeverity;
+  code: DiagnosticCode;
+  message: string;
+  date?: string;
+  ticker?: string;
+}
+
+export interface TickerCoverage {
+  ticker: string;
+  firstDate: string;
+  lastDate: string;
+  rows: number;
+  holes: number; // Rows inside [firstDate, lastDate] without a price
+}
+
+export interface DataQualityReport {
+  frequency: DataFrequency;
+  rowCount: number;
+  startDate: string | null;
+  endDate: string | null;
+  coverage: TickerCoverage[];
+  diagnostics: DataDiagnostic[];
+  fatalCount: number;
+  warningCount: number;
+  isValid: boolean; // No FATAL diagnostics
+}
+
+export interface ValidationOptions {
+  frequency?: DataFrequency; // Defaults to detection from the row spacing
+  jumpThreshold?: number; // Robust z-score above which a move is flagged (default 6)
+  minJump?: number; // Absolute (QQQ-adjusted) log move below which nothing is flagged (default 0.4, ~ +49% / -33%)
+  maxDailyGap?: number; // Calendar days between daily rows before a gap is reported (default 5)
+  droppedDates?: string[]; // Dates removed while building the rows (see buildMarketData)
+}
+
+/**
+ * Thrown by runBacktest when the market data has FATAL diagnostics
+ */
+export class MarketDataValidationError extends Error {
+  report: DataQualityReport;
+
+  constructor(report: DataQualityReport) {
+    const first = report.diagnostics.find(d => d.severity === 'FATAL');
+    super(`Market data failed validation (${report.fatalCount} fatal): ${first?.message ?? 'unknown error'}`);
+    this.name = 'MarketDataValidationError';
+    this.report = report;
+  }
+}
+
+// Diagnostics kept per code; the rest are summarized so a bad daily file cannot flood the UI
+const MAX_PER_CODE = 20;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const daysBetween = (from: string, to: string): number =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+
+// Calendar months between two dates (e.g. 2020-01-15 -> 2020-03-02 = 2)
+export const monthsBetween = (from: string, to: string): number =>
+  (parseInt(to.substring(0, 4)) - parseInt(from.substring(0, 4))) * 12 +
+  (parseInt(to.substring(5, 7)) - parseInt(from.substring(5, 7)));
+
+// First day of the month `months` after the date's month (e.g. 2020-11-15 + 3 -> 2021-02-01)
+export const addMonths = (date: string, months: number): string => {
+  const total = parseInt(date.substring(0, 4)) * 12 + parseInt(date.substring(5, 7)) - 1 + months;
+  return `${Math.floor(total / 12)}-${String((total % 12) + 1).padStart(2, '0')}-01`;
+};
+
+/**
+ * Guesses the dataset frequency from the median spacing between rows.
+ */
+export const detectFrequency = (marketData: MarketDataRow[]): DataFrequency => {
+  if (marketData.length < 2) return 'MONTHLY';
+  const gaps = marketData.slice(1).map((row, i) => daysBetween(marketData[i].date, row.date)).sort((a, b) => a - b);
+  return gaps[Math.floor(gaps.length / 2)] < 20 ? 'DAILY' : 'MONTHLY';
+};
+
+const isValidIsoDate = (date: unknown): date is string => {
+  if (typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date)) return false;
+  const parsed = new Date(`${date}T00:00:00Z`);
+  return !isNaN(parsed.getTime()) && parsed.toISOString().substring(0, 10) === date;
+};
+
+// Recognizable split ratios, used to hint at an unadjusted series
+const SPLIT_RATIOS = [2, 3, 4, 5, 8, 10, 1.5];
+
+const describeSplit = (ratio: number): string => {
+  const factor = ratio < 1 ? 1 / ratio : ratio;
+  const match = SPLIT_RATIOS.find(r => Math.abs(factor / r - 1) < 0.03);
+  if (!match) return '';
+  return ratio < 1 ? ` (looks like an unadjusted ${match}:1 split)` : ` (looks like an unadjusted 1:${match} reverse split)`;
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+/**
+ * Checks a MarketDataRow[] before it is simulated.
+ *
+ * FATAL: no rows, invalid/unsorted/duplicate dates, non-positive prices and missing months in a
+ * monthly series (a missing month shifts every contribution and withdrawal after it).
+ * WARNING: implausible jumps (robust z-score of log returns, typically an unadjusted split),
+ * holes inside a ticker's coverage and long gaps between daily rows.
+ * INFO: tickers that start late or end early, and dates dropped while building the rows.
+ */
+export const validateMarketData = (data: MarketDataRow[], options: ValidationOptions = {}): DataQualityReport => {
+  const frequency = options.frequency ?? detectFrequency(data);
+  const jumpThreshold = options.jumpThreshold ?? 6;
+  const minJump = options.minJump ?? 0.4;
+  const maxDailyGap = options.maxDailyGap ?? 5;
+
+  const diagnostics: DataDiagnostic[] = [];
+  const counts: Partial<Record<DiagnosticCode, number>> = {};
+  const severityCounts: Record<DiagnosticSeverity, number> = { FATAL: 0, WARNING: 0, INFO: 0 };
+  const report = (diagnostic: DataDiagnostic) => {
+    severityCounts[diagnostic.severity]++;
+    counts[diagnostic.code] = (counts[diagnostic.code] ?? 0) + 1;
+    if (counts[diagnostic.code]! <= MAX_PER_CODE) diagnostics.push(diagnostic);
+  };
+
+  if (data.length === 0) {
+    report({ severity: 'FATAL', code: 'EMPTY', message: 'No market data rows' });
+  }
+
+  // 1. Dates: format, order, duplicates and gaps
+  data.forEach((row, i) => {
+    if (!isValidIsoDate(row.date)) {
+      report({ severity: 'FATAL', code: 'INVALID_DATE', date: String(row.date), message: `Row ${i + 1}: invalid date "${String(row.date)}"` });
+      return;
+    }
+    const prev = data[i - 1];
+    if (!prev || !isValidIsoDate(prev.date)) return;
+
+    if (row.date === prev.date) {
+      report({ severity: 'FATAL', code: 'DUPLICATE_DATE', date: row.date, message: `Duplicate date ${row.date}` });
+    } else if (row.date < prev.date) {
+      report({ severity: 'FATAL', code: 'UNSORTED', date: row.date, message: `${row.date} comes after ${prev.date}` });
+    } else if (frequency === 'MONTHLY') {
+      const step = monthsBetween(prev.date, row.date);
+      if (step === 0) {
+        report({ severity: 'FATAL', code: 'DUPLICATE_DATE', date: row.date, message: `Two rows in month ${row.date.substring(0, 7)}` });
+      } else if (step > 1) {
+        const missing = Array.from({ length: step - 1 }, (_, k) => addMonths(prev.date, k + 1).substring(0, 7));
+        report({
+          severity: 'FATAL',
+          code: 'MISSING_PERIOD',
+          date: row.date,
+          message: `${missing.length} missing month(s) between ${prev.date.substring(0, 7)} and ${row.date.substring(0, 7)}: ${missing.slice(0, 3).join(', ')}${missing.length > 3 ? ', ...' : ''}`
+        });
+      }
+    } else {
+      const gap = daysBetween(prev.date, row.date);
+      if (gap > maxDailyGap) {
+        report({ severity: 'WARNING', code: 'MISSING_PERIOD', date: row.date, message: `${gap} calendar days without prices between ${prev.date} and ${row.date}` });
+      }
+    }
+  });
+
+  // 2. Prices: positivity and per-ticker series
+  const seriesByTicker: Record<string, { index: number; date: string; price: number }[]> = {};
+  data.forEach((row, i) => {
+    Object.entries(row.prices ?? {}).forEach(([ticker, price]) => {
+      if (typeof price !== 'number' || !Number.isFinite(price) || price <= 0) {
+        report({ severity: 'FATAL', code: 'NON_POSITIVE_PRICE', date: row.date, ticker, message: `${row.date}: ${ticker} price ${price} is not a positive number` });
+        return;
+      }
+      (seriesByTicker[ticker] ??= []).push({ index: i, date: row.date, price });
+    });
+  });
+
+  // 3. Implausible jumps, judged against each ticker's own typical move.
+  // Other tickers are compared after removing their QQQ-explained move, so a 2x fund falling
+  // 50% while QQQ falls 25% is not flagged but the same drop in a flat market (a split) is.
+  const basePrices = data.map(row => row.prices?.[BASE_TICKER]);
+  const brokenBaseRows = new Set<number>(); // Rows where QQQ itself jumped, unusable as a reference
+  const tickers = Object.keys(seriesByTicker).sort((a, b) => (a === BASE_TICKER ? -1 : b === BASE_TICKER ? 1 : 0));
+
+  tickers.forEach(ticker => {
+    const points = seriesByTicker[ticker];
+    if (points.length < 3) return;
+    const moves = points.slice(1).map((p, k) => Math.log(p.price / points[k].price));
+
+    let residuals = moves;
+    if (ticker !== BASE_TICKER) {
+      const baseMoves = points.slice(1).map((p, k) => {
+        const move = Math.log(basePrices[p.index] / basePrices[points[k].index]);
+        return Number.isFinite(move) && !brokenBaseRows.has(p.index) ? move : 0;
+      });
+      const denominator = baseMoves.reduce((sum, x) => sum + x * x, 0);
+      const beta = denominator > 0 ? baseMoves.reduce((sum, x, k) => sum + x * moves[k], 0) / denominator : 0;
+      residuals = moves.map((m, k) => m - beta * baseMoves[k]);
+    }
+
+    const center = median(residuals);
+    const scale = 1.4826 * median(residuals.map(r => Math.abs(r - center)));
+
+    residuals.forEach((residual, k) => {
+      const z = scale > 0 ? Math.abs(residual - center) / scale : Infinity;
+      if (Math.abs(residual) < minJump || z < jumpThreshold) return;
+      const ratio = points[k + 1].price / points[k].price;
+      if (ticker === BASE_TICKER) brokenBaseRows.add(points[k + 1].index);
+      report({
+        severity: 'WARNING',
+        code: 'PRICE_JUMP',
+        date: points[k + 1].date,
+        ticker,
+        message: `${points[k + 1].date}: ${ticker} moved ${((ratio - 1) * 100).toFixed(1)}% from ${points[k].date}${describeSplit(ratio)}`
+      });
+    });
+  });
+
+  // 4. Coverage of each ticker
+  const coverage: TickerCoverage[] = Object.entries(seriesByTicker).map(([ticker, points]) => ({
+    ticker,
+    firstDate: points[0].date,
+    lastDate: points[points.length - 1].date,
+    rows: points.length,
+    holes: points[points.length - 1].index - points[0].index + 1 - points.length
+  }));
+
+  if (data.length > 0) {
+    const startDate = data[0].date;
+    const endDate = data[data.length - 1].date;
+    coverage.forEach(c => {
+      if (c.holes > 0) {
+        report({
+          severity: 'WARNING',
+          code: 'COVERAGE_GAP',
+          ticker: c.ticker,
+          message: `${c.ticker} has no price on ${c.holes} date(s) between ${c.firstDate} and ${c.lastDate}; profiles holding it cannot run`
+        });
+      }
+      if (c.firstDate > startDate || c.lastDate < endDate) {
+        report({
+          severity: 'INFO',
+          code: 'COVERAGE_MISMATCH',
+          ticker: c.ticker,
+          message: `${c.ticker} covers ${c.firstDate} to ${c.lastDate} only; profiles holding it are trimmed to that range`
+        });
+      }
+    });
+  }
+
+  // 5. CPI and benchmark rate: backtests only use them when every row of their window has a value
+  const monthlySeries: { code: DiagnosticCode; label: string; fallback: string; has: (row: MarketDataRow) => boolean }[] = [
+    { code: 'CPI_PARTIAL', label: 'CPI', fallback: 'the constant inflation rate', has: row => (row.cpi ?? 0) > 0 },
+    { code: 'BENCHMARK_PARTIAL', label: 'Benchmark rate', fallback: 'the fixed loan rate and cash yield', has: row => row.benchmarkRate !== undefined }
+  ];
+  monthlySeries.forEach(({ code, label, fallback, has }) => {
+    const covered = data.filter(has);
+    if (covered.length > 0 && covered.length < data.length) {
+      report({
+        severity: 'INFO',
+        code,
+        message: `${label} covers ${covered.length} of ${data.length} rows (${covered[0].date} to ${covered[covered.length - 1].date}); backtests reaching outside it use ${fallback}`
+      });
+    }
+  });
+
+  if (options.droppedDates && options.droppedDates.length > 0) {
+    const dropped = options.droppedDates;
+    report({
+      severity: 'INFO',
+      code: 'DROPPED_DATES',
+      message: `${dropped.length} date(s) dropped because a required ticker had no price: ${dropped.slice(0, 3).join(', ')}${dropped.length > 3 ? ', ...' : ''}`
+    });
+  }
+
+  Object.entries(counts).forEach(([code, count]) => {
+    if (count! > MAX_PER_CODE) {
+      const sample = diagnostics.find(d => d.code === code)!;
+      diagnostics.push({ severity: sample.severity, code: code as DiagnosticCode, message: `... and ${count! - MAX_PER_CODE} more ${code} issue(s)` });
+    }
+  });
+
+  return {
+    frequency,
+    rowCount: data.length,
+    startDate: data[0]?.date ?? null,
+    endDate: data[data.length - 1]?.date ?? null,
+    coverage,
+    diagnostics,
+    fatalCount: severityCounts.FATAL,
+    warningCount: severityCounts.WARNING,
+    isValid: severityCounts.FATAL === 0
+  };
+};
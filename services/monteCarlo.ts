@@ -0,0 +1,168 @@
+import { AssetConfig, DistributionSummary, MarketDataRow, PercentileBandPoint, SimulationResult, StrategyFunction } from "../types";
+import { runBacktest } from "./simulationEngine";
+import { buildPercentileBands, summarizeDistribution } from "./financeMath";
+import { getAvailableTickers, getAssetPrice } from "./assetUniverse";
+import { addMonths } from "./marketDataValidator";
+
+export interface MonteCarloOptions {
+  pathCount: number; // Number of synthetic price paths
+  seed: number; // Same seed, data and options => same paths
+  blockLength?: number; // Consecutive months drawn together, keeping momentum / volatility clustering (default 12)
+  horizonMonths?: number; // Length of every path (default: length of the historical data)
+}
+
+export type MetricKey = keyof SimulationResult['metrics'];
+
+export const METRIC_KEYS: MetricKey[] = [
+  'finalBalance', 'cagr', 'maxDrawdown', 'sharpeRatio', 'irr', 'realFinalBalance',
+  'worstYearReturn', 'maxRecoveryMonths', 'calmarRatio', 'painIndex', 'inflationRate', 'tradingCosts',
+  'rebalanceCount', 'turnover', 'volatility'
+];
+
+export interface MonteCarloResult {
+  strategyName: string;
+  color: string;
+  pathCount: number;
+  horizonMonths: number;
+  seed: number;
+  bankruptcyRate: number; // % of paths that were liquidated
+  metrics: Record<MetricKey, DistributionSummary>;
+  bands: PercentileBandPoint[];
+}
+
+/**
+ * Mulberry32: small, fast seeded PRNG returning floats in [0, 1)
+ */
+export const createSeededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * First row of every calendar month, so daily data is resampled on monthly returns
+ */
+const toMonthlyRows = (marketData: MarketDataRow[]): MarketDataRow[] =>
+  marketData.filter((row, i) => i === 0 || row.date.slice(0, 7) !== marketData[i - 1].date.slice(0, 7));
+
+/**
+ * Returns a function that builds synthetic monthly price paths by circular block bootstrap.
+ *
+ * Blocks of `blockLength` consecutive historical months are drawn with replacement (wrapping
+ * around the end of history) and their returns applied to every ticker at once, so the
+ * cross-asset correlation of each month is preserved. Paths start from the first historical
+ * prices and their dates run monthly from the first historical month.
+ *
+ * The columns every historical month carries travel with the same draws: CPI and exchange rates
+ * move by the drawn month's relatives, the benchmark rate is the one of the month each drawn
+ * return ends in. Inflation-adjusted and base-currency runs therefore see a consistent path.
+ */
+export const createPathSampler = (
+  marketData: MarketDataRow[],
+  blockLength: number,
+  random: () => number
+): ((horizonMonths: number) => MarketDataRow[]) => {
+  const rows = toMonthlyRows(marketData);
+  const tickers = getAvailableTickers(rows);
+  // returns[i] = price relatives from month i to i + 1, per ticker
+  const returns = rows.slice(1).map((row, i) =>
+    Object.fromEntries(tickers.map(ticker => {
+      const prev = getAssetPrice(rows[i], ticker);
+      return [ticker, prev > 0 ? getAssetPrice(row, ticker) / prev : 1];
+    }))
+  );
+
+  // Index levels found on every month: CPI, the conversion rate and each exchange rate
+  const currencies = Object.keys(rows[0]?.fxRates ?? {});
+  const levelOf: Record<string, (row: MarketDataRow) => number | undefined> = {
+    cpi: row => row.cpi,
+    fxRate: row => row.fxRate,
+    ...Object.fromEntries(currencies.map(currency => [currency, (row: MarketDataRow) => row.fxRates?.[currency]]))
+  };
+  const levels = Object.keys(levelOf).filter(key => rows.every(row => (levelOf[key](row) ?? 0) > 0));
+  const levelReturns = rows.slice(1).map((row, i) =>
+    Object.fromEntries(levels.map(key => [key, levelOf[key](row)! / levelOf[key](rows[i])!]))
+  );
+  const hasBenchmark = rows.every(row => row.benchmarkRate !== undefined);
+
+  return (horizonMonths: number) => {
+    const prices: Record<string, number> = Object.fromEntries(tickers.map(ticker => [ticker, getAssetPrice(rows[0], ticker)]));
+    const current: Record<string, number> = Object.fromEntries(levels.map(key => [key, levelOf[key](rows[0])!]));
+    let benchmarkRate = rows[0].benchmarkRate;
+    const toRow = (m: number): MarketDataRow => {
+      const { cpi, fxRate, ...fxRates } = current;
+      return {
+        date: addMonths(rows[0].date, m),
+        prices: { ...prices },
+        ...(cpi !== undefined && { cpi }),
+        ...(fxRate !== undefined && { fxRate }),
+        ...(Object.keys(fxRates).length > 0 && { fxRates }),
+        ...(hasBenchmark && { benchmarkRate })
+      };
+    };
+
+    const path: MarketDataRow[] = [toRow(0)];
+    let blockStart = 0;
+    for (let m = 1; m < horizonMonths; m++) {
+      const offset = (m - 1) % blockLength;
+      if (offset === 0) blockStart = Math.floor(random() * returns.length);
+      const drawn = (blockStart + offset) % returns.length;
+      tickers.forEach(ticker => { prices[ticker] *= returns[drawn][ticker]; });
+      levels.forEach(key => { current[key] *= levelReturns[drawn][key]; });
+      benchmarkRate = rows[drawn + 1].benchmarkRate;
+      path.push(toRow(m));
+    }
+    return path;
+  };
+};
+
+/**
+ * Runs a profile through `pathCount` block-bootstrapped histories.
+ *
+ * History contains only a handful of independent crashes; reshuffling blocks of it produces
+ * many more plausible sequences, so bankruptcy odds and metric tails can be read as frequencies.
+ * `marketData` is expected to be validated already (the paths themselves are not re-validated).
+ */
+export const runMonteCarlo = (
+  marketData: MarketDataRow[],
+  strategyFunc: StrategyFunction,
+  config: AssetConfig,
+  strategyName: string,
+  color: string,
+  options: MonteCarloOptions
+): MonteCarloResult => {
+  const monthlyCount = toMonthlyRows(marketData).length;
+  const horizonMonths = Math.max(2, Math.round(options.horizonMonths ?? monthlyCount));
+  const blockLength = Math.max(1, Math.round(options.blockLength ?? 12));
+  // Bootstrapping needs at least one historical return
+  const pathCount = monthlyCount >= 2 ? options.pathCount : 0;
+  const samplePath = createPathSampler(marketData, blockLength, createSeededRandom(options.seed));
+
+  const metricValues = Object.fromEntries(METRIC_KEYS.map(key => [key, [] as number[]])) as Record<MetricKey, number[]>;
+  const paths: number[][] = Array.from({ length: horizonMonths }, () => []);
+  let bankruptCount = 0;
+
+  for (let p = 0; p < pathCount; p++) {
+    const result = runBacktest(samplePath(horizonMonths), strategyFunc, config, strategyName, color, { frequency: 'MONTHLY', skipValidation: true });
+
+    if (result.isBankrupt) bankruptCount++;
+    METRIC_KEYS.forEach(key => metricValues[key].push(result.metrics[key]));
+    result.history.forEach((state, m) => paths[m].push(state.totalValue));
+  }
+
+  return {
+    strategyName,
+    color,
+    pathCount,
+    horizonMonths,
+    seed: options.seed,
+    bankruptcyRate: pathCount > 0 ? (bankruptCount / pathCount) * 100 : 0,
+    metrics: Object.fromEntries(METRIC_KEYS.map(key => [key, summarizeDistribution(metricValues[key])])) as Record<MetricKey, DistributionSummary>,
+    bands: pathCount > 0 ? buildPercentileBands(paths) : []
+  };
+};
@@ -10,6 +10,10 @@ declare module 'jspdf' {
     }
 }
 
+// The standard PDF fonts lack some currency symbols, so non-USD amounts carry the ISO code
+const formatPdfMoney = (value: number, currency: string = 'USD') =>
+    `${currency === 'USD' ? '$' : `${currency} `}${Math.round(value).toLocaleString()}`;
+
 export const generateProfessionalReport = async (
     results: SimulationResult[]
 ) => {
@@ -56,7 +60,7 @@ export const generateProfessionalReport = async (
     doc.setTextColor(...mutedColor);
 
     const summaryText = [
-        `Best Final Balance: ${bestByBalance.strategyName} ($${Math.round(bestByBalance.metrics.finalBalance).toLocaleString()})`,
+        `Best Final Balance: ${bestByBalance.strategyName} (${formatPdfMoney(bestByBalance.metrics.finalBalance, bestByBalance.currency)})`,
         `Highest IRR: ${bestByIRR.strategyName} (${bestByIRR.metrics.irr.toFixed(2)}%)`,
         `Lowest Max Drawdown: ${lowestDrawdown.strategyName} (${lowestDrawdown.metrics.maxDrawdown.toFixed(2)}%)`
     ];
@@ -87,7 +91,7 @@ export const generateProfessionalReport = async (
 
     const tableData = results.map(r => [
         r.strategyName,
-        `$${Math.round(r.metrics.finalBalance).toLocaleString()}`,
+        formatPdfMoney(r.metrics.finalBalance, r.currency),
         `${r.metrics.cagr.toFixed(2)}%`,
         `${r.metrics.irr.toFixed(2)}%`,
         `${r.metrics.maxDrawdown.toFixed(2)}%`,
@@ -129,6 +133,57 @@ export const generateProfessionalReport = async (
 
     yPos = doc.lastAutoTable.finalY + 15;
 
+    // === DATA NOTES (synthetic history) ===
+    const syntheticResults = results.filter(r => r.synthetic && r.synthetic.dates.length > 0);
+    if (syntheticResults.length > 0) {
+        doc.setTextColor(...textColor);
+        doc.setFontSize(14);
+        doc.setFont('helvetica', 'bold');
+        doc.text('Data Notes', margin, yPos);
+        yPos += 6;
+
+        doc.setFontSize(9);
+        doc.setFont('helvetica', 'normal');
+        doc.setTextColor(180, 83, 9); // Amber-700, matches the shaded chart band
+
+        const notes = [
+            ...syntheticResults.map(r => {
+                const dates = r.synthetic!.dates;
+                return `${r.strategyName}: synthetic ${r.synthetic!.tickers.join(', ')} prices from ${dates[0].substring(0, 7)} to ${dates[dates.length - 1].substring(0, 7)} (${dates.length} months).`;
+            }),
+            'Synthetic prices are reconstructed from QQQ (leverage, expense ratio, financing cost and volatility drag) and are shaded in the charts below.'
+        ];
+        notes.forEach(note => {
+            const wrapped = doc.splitTextToSize(note, pageWidth - 2 * margin);
+            doc.text(wrapped, margin, yPos);
+            yPos += wrapped.length * 4.5;
+        });
+        yPos += 8;
+    }
+
+    // === CURRENCY NOTES (non-USD base currencies) ===
+    const fxResults = results.filter(r => r.fxAttribution);
+    if (fxResults.length > 0) {
+        doc.setTextColor(...textColor);
+        doc.setFontSize(14);
+        doc.setFont('helvetica', 'bold');
+        doc.text('Currency', margin, yPos);
+        yPos += 6;
+
+        doc.setFontSize(9);
+        doc.setFont('helvetica', 'normal');
+        doc.setTextColor(...mutedColor);
+
+        fxResults.forEach(r => {
+            const fx = r.fxAttribution!;
+            const note = `${r.strategyName} (${r.currency}): CAGR ${r.metrics.cagr.toFixed(2)}% = asset return ${fx.localCagr.toFixed(2)}% with the exchange rate frozen, ${fx.fxCagr >= 0 ? '+' : ''}${fx.fxCagr.toFixed(2)}%/yr from USD/${r.currency} (${fx.fxChange >= 0 ? '+' : ''}${fx.fxChange.toFixed(1)}% over the period).`;
+            const wrapped = doc.splitTextToSize(note, pageWidth - 2 * margin);
+            doc.text(wrapped, margin, yPos);
+            yPos += wrapped.length * 4.5;
+        });
+        yPos += 8;
+    }
+
     // === CHART CAPTURES ===
     const captureChart = async (elementId: string, title: string): Promise<void> => {
         const element = document.getElementById(elementId);
@@ -196,6 +251,9 @@ export const generateProfessionalReport = async (
         name: r.strategyName,
         leveraged: r.isLeveraged,
         bankrupt: r.isBankrupt,
+        syntheticMonths: r.synthetic?.dates.length ?? 0,
+        currency: r.currency ?? 'USD',
+        ...(r.fxAttribution && { fxAttribution: r.fxAttribution }),
         metrics: {
             finalBalance: r.metrics.finalBalance,
             cagr: r.metrics.cagr,
@@ -205,7 +263,8 @@ export const generateProfessionalReport = async (
             calmarRatio: r.metrics.calmarRatio,
             painIndex: r.metrics.painIndex,
             worstYearReturn: r.metrics.worstYearReturn,
-            maxRecoveryMonths: r.metrics.maxRecoveryMonths
+            maxRecoveryMonths: r.metrics.maxRecoveryMonths,
+            tradingCosts: r.metrics.tradingCosts
         }
     }));
 
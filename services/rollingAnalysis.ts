@@ -0,0 +1,115 @@
+import { AssetConfig, DataFrequency, DistributionSummary, MarketDataRow, PercentileBandPoint, StrategyFunction } from "../types";
+import { runBacktest } from "./simulationEngine";
+import { buildPercentileBands, summarizeDistribution } from "./financeMath";
+import { detectFrequency, MarketDataValidationError, validateMarketData } from "./marketDataValidator";
+
+export interface RollingAnalysisOptions {
+  horizonYears: number; // Length of every window, e.g. 10 or 15
+  stepMonths?: number; // Spacing between consecutive start months (default 1 = every month)
+  frequency?: DataFrequency; // Defaults to detection from the row spacing
+  tableSize?: number; // Number of best / worst starts to keep (default 5)
+}
+
+export interface RollingWindow {
+  startDate: string;
+  endDate: string;
+  finalBalance: number;
+  cagr: number;
+  maxDrawdown: number;
+  isBankrupt: boolean;
+}
+
+export interface RollingAnalysisResult {
+  strategyName: string;
+  color: string;
+  horizonYears: number;
+  windows: RollingWindow[]; // In start order
+  finalBalance: DistributionSummary;
+  cagr: DistributionSummary;
+  maxDrawdown: DistributionSummary;
+  bankruptcyRate: number; // % of windows that went bankrupt
+  bands: PercentileBandPoint[];
+  best: RollingWindow[]; // Highest final balance first
+  worst: RollingWindow[]; // Lowest final balance first
+}
+
+/**
+ * Index of the first row of every calendar month (every row for monthly data)
+ */
+const getPeriodStarts = (marketData: MarketDataRow[]): number[] => {
+  const starts: number[] = [];
+  marketData.forEach((row, i) => {
+    if (i === 0 || row.date.slice(0, 7) !== marketData[i - 1].date.slice(0, 7)) starts.push(i);
+  });
+  return starts;
+};
+
+/**
+ * Runs the same profile from every possible start month over a fixed horizon.
+ *
+ * Each window is an independent backtest starting with the configured initial capital, so the
+ * spread of outcomes shows how much of a single backtest's result is down to its entry date.
+ * Windows must fit entirely inside `marketData`; fewer months than the horizon yield no windows.
+ */
+export const runRollingAnalysis = (
+  marketData: MarketDataRow[],
+  strategyFunc: StrategyFunction,
+  config: AssetConfig,
+  strategyName: string,
+  color: string,
+  options: RollingAnalysisOptions
+): RollingAnalysisResult => {
+  const frequency = options.frequency ?? detectFrequency(marketData);
+  const horizonMonths = Math.round(options.horizonYears * 12);
+  const stepMonths = Math.max(1, Math.round(options.stepMonths ?? 1));
+  const tableSize = options.tableSize ?? 5;
+
+  // Validate once here instead of once per window
+  const report = validateMarketData(marketData, { frequency });
+  if (!report.isValid) throw new MarketDataValidationError(report);
+
+  const periodStarts = getPeriodStarts(marketData);
+  const windows: RollingWindow[] = [];
+  // paths[m - 1] collects the month-end value m months into every window
+  const paths: number[][] = Array.from({ length: Math.max(horizonMonths, 0) }, () => []);
+
+  for (let s = 0; horizonMonths > 0 && s + horizonMonths <= periodStarts.length; s += stepMonths) {
+    const endIdx = s + horizonMonths < periodStarts.length ? periodStarts[s + horizonMonths] : marketData.length;
+    const slice = marketData.slice(periodStarts[s], endIdx);
+    const result = runBacktest(slice, strategyFunc, config, strategyName, color, { frequency, skipValidation: true });
+
+    windows.push({
+      startDate: slice[0].date,
+      endDate: slice[slice.length - 1].date,
+      finalBalance: result.metrics.finalBalance,
+      cagr: result.metrics.cagr,
+      maxDrawdown: result.metrics.maxDrawdown,
+      isBankrupt: result.isBankrupt
+    });
+
+    let month = 0;
+    result.history.forEach((state, i) => {
+      const next = result.history[i + 1];
+      if (next && next.date.slice(0, 7) === state.date.slice(0, 7)) return;
+      paths[month++]?.push(state.totalValue);
+    });
+  }
+
+  const bands = windows.length === 0 ? [] : buildPercentileBands(paths);
+
+  const ranked = [...windows].sort((a, b) => b.finalBalance - a.finalBalance);
+
+  return {
+    strategyName,
+    color,
+    horizonYears: options.horizonYears,
+    windows,
+    finalBalance: summarizeDistribution(windows.map(w => w.finalBalance)),
+    cagr: summarizeDistribution(windows.map(w => w.cagr)),
+    maxDrawdown: summarizeDistribution(windows.map(w => w.maxDrawdown)),
+    bankruptcyRate: windows.length > 0 ? (windows.filter(w => w.isBankrupt).length / windows.length) * 100 : 0,
+    bands,
+    best: ranked.slice(0, tableSize),
+    worst: ranked.slice(-tableSize).reverse()
+  };
+};
@@ -0,0 +1,81 @@
+import { AssetConfig, MarketDataRow, SimulationResult } from "../types";
+import { BacktestOptions } from "./simulationEngine";
+import { DEFAULT_SCRIPT_CONFIG, ScriptStrategyError } from "./scriptStrategy";
+
+// Message to the script worker: one backtest of a SCRIPT profile
+export interface ScriptJob {
+  code: string;
+  marketData: MarketDataRow[];
+  config: AssetConfig;
+  name: string;
+  color: string;
+  options: BacktestOptions;
+}
+
+export type ScriptReply =
+  | { result: SimulationResult; error?: undefined }
+  | { result?: undefined; error: { message: string; date?: string; monthIndex?: number } };
+
+/**
+ * Whether a message from the script worker has the shape of a ScriptReply: a script can tamper with the
+ * worker's built-ins, so nothing it sends back is trusted as is.
+ */
+export const isScriptReply = (data: unknown): data is ScriptReply => {
+  if (!data || typeof data !== 'object') return false;
+  const { result, error } = data as Record<string, unknown>;
+  if (error !== undefined) {
+    if (!error || typeof error !== 'object') return false;
+    const { message, date, monthIndex } = error as Record<string, unknown>;
+    return typeof message === 'string'
+      && (date === undefined || typeof date === 'string')
+      && (monthIndex === undefined || (typeof monthIndex === 'number' && Number.isInteger(monthIndex)));
+  }
+  if (!result || typeof result !== 'object') return false;
+  const { history, metrics } = result as Record<string, unknown>;
+  return Array.isArray(history) && !!metrics && typeof metrics === 'object';
+};
+
+/**
+ * Backtests a SCRIPT profile in a dedicated Web Worker, so the script has no DOM to touch and an
+ * endless loop only costs the worker; the worker drops its network and messaging globals before the
+ * script runs (a denylist, not a sandbox: see blockWorkerGlobals). The worker is terminated when the run
+ * finishes or when it exceeds the profile's time limit; failures and malformed replies reject with a
+ * ScriptStrategyError.
+ */
+export const runScriptBacktest = (
+  marketData: MarketDataRow[],
+  config: AssetConfig,
+  name: string,
+  color: string,
+  options: BacktestOptions = {}
+): Promise<SimulationResult> => {
+  const script = { ...DEFAULT_SCRIPT_CONFIG, ...config.script };
+  const worker = new Worker(new URL('./scriptWorker.ts', import.meta.url), { type: 'module' });
+
+  return new Promise<SimulationResult>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      worker.terminate();
+      reject(new ScriptStrategyError(`timed out after ${script.timeLimitSeconds} s`));
+    }, script.timeLimitSeconds * 1000);
+
+    worker.onmessage = (event: MessageEvent<unknown>) => {
+      clearTimeout(timer);
+      worker.terminate();
+      if (!isScriptReply(event.data)) {
+        reject(new ScriptStrategyError('the worker sent back an unexpected reply'));
+        return;
+      }
+      const { result, error } = event.data;
+      if (error) reject(new ScriptStrategyError(error.message, error.date, error.monthIndex));
+      else resolve(result);
+    };
+    worker.onerror = (event) => {
+      clearTimeout(timer);
+      worker.terminate();
+      reject(new ScriptStrategyError(event.message || 'the worker stopped unexpectedly'));
+    };
+
+    const job: ScriptJob = { code: script.code, marketData, config, name, color, options };
+    worker.postMessage(job);
+  });
+};
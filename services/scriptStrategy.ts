@@ -0,0 +1,144 @@
+import { MarketDataRow, PortfolioState, ScriptConfig, StrategyFunction } from "../types";
+
+export const DEFAULT_SCRIPT = `// (state, marketData, config, monthIndex, history) => PortfolioState
+// history: read-only rows up to this month. Prices: marketData.prices[ticker]
+(state, marketData, config, monthIndex, history) => {
+  const price = ticker => marketData.prices[ticker] ?? 0;
+
+  // Hold QLD only while QQQ is above its 10-month average
+  const closes = history.slice(-10).map(row => row.prices.QQQ);
+  const average = closes.reduce((sum, close) => sum + close, 0) / closes.length;
+  const weights = price('QQQ') >= average ? { QQQ: 0.6, QLD: 0.4 } : { QQQ: 1, QLD: 0 };
+
+  const contribution = monthIndex === 0 ? config.initialCapital
+    : monthIndex % config.contributionIntervalMonths === 0 ? config.contributionAmount : 0;
+  let total = state.cashBalance + contribution;
+  for (const ticker in state.shares) total += state.shares[ticker] * price(ticker);
+
+  const shares = {};
+  for (const ticker in weights) shares[ticker] = total * weights[ticker] / price(ticker);
+  return { ...state, date: marketData.date, shares, cashBalance: 0, totalValue: total };
+}`;
+
+export const DEFAULT_SCRIPT_CONFIG: ScriptConfig = { code: DEFAULT_SCRIPT, timeLimitSeconds: 10 };
+
+// Worker globals a script could use to reach out or to answer in the engine's place. The worker removes them
+// before any script runs (see blockWorkerGlobals); the names are also shadowed so a plain reference fails early
+const BLOCKED_GLOBALS = [
+  'postMessage', 'close', 'importScripts', 'fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'WebTransport',
+  'BroadcastChannel', 'Worker', 'SharedWorker', 'indexedDB', 'caches', 'navigator'
+];
+const SHADOWED_GLOBALS = ['self', 'globalThis', ...BLOCKED_GLOBALS];
+
+/**
+ * Sets every blocked global of `scope` to undefined, along its prototype chain, where the worker's
+ * postMessage and fetch live. Shadowed names alone are no barrier: Function('return globalThis')()
+ * reaches the real scope. This is a denylist, not a sandbox: it closes the obvious ways out, but the script
+ * keeps the app's origin and can still load code, and send requests with it, through dynamic import().
+ * Only scripts the user trusts should run here.
+ */
+export const blockWorkerGlobals = (scope: object) => {
+  for (let target: object | null = scope; target; target = Object.getPrototypeOf(target)) {
+    const owner = target;
+    BLOCKED_GLOBALS.forEach(name => {
+      if (Object.prototype.hasOwnProperty.call(owner, name)) {
+        Object.defineProperty(owner, name, { value: undefined, writable: false, configurable: false });
+      }
+    });
+  }
+};
+
+/**
+ * Thrown when a user script fails, breaks the engine's invariants or runs out of time.
+ * `date` / `monthIndex` locate the month it happened in, when there is one.
+ */
+export class ScriptStrategyError extends Error {
+  detail: string; // The message without the month
+  date?: string;
+  monthIndex?: number;
+
+  constructor(message: string, date?: string, monthIndex?: number) {
+    super(date !== undefined ? `Script failed in ${date.substring(0, 7)} (month ${monthIndex! + 1}): ${message}` : `Script failed: ${message}`);
+    this.name = 'ScriptStrategyError';
+    this.detail = message;
+    this.date = date;
+    this.monthIndex = monthIndex;
+  }
+}
+
+const deepFreeze = <T>(value: T): T => {
+  if (value && typeof value === 'object' && !Object.isFrozen(value)) {
+    Object.values(value).forEach(deepFreeze);
+    Object.freeze(value);
+  }
+  return value;
+};
+
+/**
+ * Syntax error of a script, or null when it parses. Only parses: nothing in the script runs.
+ */
+export const checkScriptSyntax = (code: string): string | null => {
+  try {
+    new Function(...SHADOWED_GLOBALS, `"use strict";\nreturn (${code}\n);`);
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+};
+
+/**
+ * What is wrong with the state a script returned, or null when the engine can carry on with it:
+ * every share count, cash, debt and value must be a finite number, share counts and debt non-negative.
+ */
+export const findStateViolation = (state: unknown): string | null => {
+  if (!state || typeof state !== 'object') return 'the script must return a PortfolioState object';
+  const s = state as PortfolioState;
+  if (!s.shares || typeof s.shares !== 'object') return 'shares must be an object of share counts by ticker';
+  for (const [ticker, count] of Object.entries(s.shares)) {
+    if (typeof count !== 'number' || !Number.isFinite(count)) return `shares.${ticker} is ${String(count)}`;
+    if (count < -1e-9) return `shares.${ticker} is negative (${count})`;
+  }
+  for (const field of ['cashBalance', 'debtBalance', 'accruedInterest', 'totalValue'] as const) {
+    if (typeof s[field] !== 'number' || !Number.isFinite(s[field])) return `${field} is ${String(s[field])}`;
+  }
+  if (s.debtBalance < 0) return `debtBalance is negative (${s.debtBalance})`;
+  if (s.events !== undefined && !Array.isArray(s.events)) return 'events must be a list';
+  return null;
+};
+
+/**
+ * Turns a script into a StrategyFunction over `marketData`. The script sees a copy of the state, a frozen
+ * config and a fifth argument: the frozen rows up to the current one. Every state it returns is checked
+ * against the engine's invariants; any failure is a ScriptStrategyError naming the month.
+ *
+ * Runs the script's code: call it inside the worker once blockWorkerGlobals has run (see scriptRunner),
+ * never on the page.
+ */
+export const compileScriptStrategy = (code: string, marketData: MarketDataRow[]): StrategyFunction => {
+  let script: unknown;
+  try {
+    script = new Function(...SHADOWED_GLOBALS, `"use strict";\nreturn (${code}\n);`)();
+  } catch (err) {
+    throw new ScriptStrategyError(err instanceof Error ? err.message : String(err));
+  }
+  if (typeof script !== 'function') throw new ScriptStrategyError('the script must evaluate to a function');
+
+  // Scripts written against the former row shape still find QQQ and QLD as marketData.qqq / .qld
+  const rows = deepFreeze(marketData.map(row => ({ ...structuredClone(row), qqq: row.prices.QQQ, qld: row.prices.QLD })));
+  const rowIndex = new Map(rows.map((row, i) => [row.date, i]));
+
+  return (state, row, config, monthIndex) => {
+    const index = rowIndex.get(row.date) ?? rows.length - 1;
+    const history = Object.freeze(rows.slice(0, index + 1));
+    let next: unknown;
+    try {
+      next = script(structuredClone(state), rows[index], deepFreeze(structuredClone(config)), monthIndex, history);
+    } catch (err) {
+      throw new ScriptStrategyError(err instanceof Error ? err.message : String(err), row.date, monthIndex);
+    }
+    const violation = findStateViolation(next);
+    if (violation) throw new ScriptStrategyError(violation, row.date, monthIndex);
+    const nextState = next as PortfolioState;
+    return { ...nextState, date: row.date, events: nextState.events ?? [] };
+  };
+};
@@ -0,0 +1,23 @@
+// Web Worker running a backtest of a user script, away from the page (see scriptRunner)
+import { runBacktest } from "./simulationEngine";
+import { blockWorkerGlobals, compileScriptStrategy, ScriptStrategyError } from "./scriptStrategy";
+import type { ScriptJob, ScriptReply } from "./scriptRunner";
+
+// The only way out of the worker, kept before the globals go
+const reply = self.postMessage.bind(self);
+blockWorkerGlobals(self);
+
+self.onmessage = (event: MessageEvent<ScriptJob>) => {
+  const { code, marketData, config, name, color, options } = event.data;
+  let message: ScriptReply;
+  try {
+    const strategy = compileScriptStrategy(code, marketData);
+    message = { result: runBacktest(marketData, strategy, config, name, color, options) };
+  } catch (err) {
+    message = err instanceof ScriptStrategyError
+      ? { error: { message: err.detail, date: err.date, monthIndex: err.monthIndex } }
+      // Anything else (e.g. market data failing validation) is reported the same way
+      : { error: { message: err instanceof Error ? err.message : String(err) } };
+  }
+  reply(message);
+};
@@ -1,28 +1,57 @@
-import { AssetConfig, MarketDataRow, PortfolioState, SimulationResult, StrategyFunction, FinancialEvent } from "../types";
+import { AssetConfig, DataFrequency, MarketDataRow, PortfolioState, SimulationResult, StrategyFunction, FinancialEvent } from "../types";
 import {
   calculateCAGR,
-  calculateIRR,
+  calculateCashFlowIRR,
   calculateMaxDrawdown,
   calculateSharpeRatio,
   calculateMaxRecoveryTime,
   calculateAnnualReturns,
   calculateRealValue,
-  calculateUlcerIndex
+  calculateUlcerIndex,
+  calculateVolatility
 } from "./financeMath";
-
+import { getAssetPrice, getHoldingsValue, getPortfolioAssets } from "./assetUniverse";
+import { daysBetween, detectFrequency, monthsBetween, MarketDataValidationError, validateMarketData } from "./marketDataValidator";
+import { getBaseCurrency } from "./currency";
+import { calculateCapitalGainsTax, RealizedGains, reconcileLots } from "./taxLots";
+import { applyTradingCosts } from "./tradingCosts";
+import { roundOrdersToWholeShares } from "./wholeShares";
+
+export interface BacktestOptions {
+  frequency?: DataFrequency; // Defaults to detection from the row spacing
+  skipValidation?: boolean; // For callers that already validated the rows (e.g. resampled paths)
+  // Start from an existing book instead of an empty account (e.g. stress replays). The strategy still
+  // runs from monthIndex 0, so callers pair this with a strategy that does not invest initialCapital.
+  initialState?: Pick<PortfolioState, 'shares' | 'cashBalance' | 'debtBalance' | 'accruedInterest'>;
+}
+
+// Prices must already be in config.baseCurrency (see convertToBaseCurrency); the result is labeled with it
 export const runBacktest = (
   marketData: MarketDataRow[],
   strategyFunc: StrategyFunction,
   config: AssetConfig,
   strategyName: string,
-  color: string = "#000000"
+  color: string = "#000000",
+  options: BacktestOptions = {}
 ): SimulationResult => {
   const history: PortfolioState[] = [];
 
+  // Daily mode: every row is marked to market and margin-checked, while the strategy,
+  // contributions, withdrawals and interest servicing run on the first trading day of each month.
+  const frequency = options.frequency ?? detectFrequency(marketData);
+  const isDaily = frequency === 'DAILY';
+
+  // Refuse to simulate data with fatal problems (a missing month would silently shift every contribution)
+  if (!options.skipValidation) {
+    const report = validateMarketData(marketData, { frequency });
+    if (!report.isValid) throw new MarketDataValidationError(report);
+  }
+  const assets = getPortfolioAssets(config);
+
   // Initial empty state
   let currentState: PortfolioState = {
     date: marketData[0].date,
-    shares: { QQQ: 0, QLD: 0 },
+    shares: Object.fromEntries(assets.map(a => [a.ticker, 0])),
     cashBalance: 0,
     debtBalance: 0,
     accruedInterest: 0, // NEW: Track unpaid simple interest
@@ -32,32 +61,107 @@ export const runBacktest = (
     beta: 0,
     events: []
   };
-
-  const monthlyCashYieldRate = Math.pow(1 + config.cashYieldAnnual / 100, 1 / 12) - 1;
+  if (options.initialState) {
+    currentState = { ...currentState, ...options.initialState, shares: { ...currentState.shares, ...options.initialState.shares } };
+  }
 
   // Debt settings
   const leverage = {
     ...config.leverage,
-    qqqPledgeRatio: config.leverage?.qqqPledgeRatio ?? 0.7,
-    qldPledgeRatio: config.leverage?.qldPledgeRatio ?? 0.0,
     cashPledgeRatio: config.leverage?.cashPledgeRatio ?? 0.95,
     ltvBasis: config.leverage?.ltvBasis ?? 'TOTAL_ASSETS'
   };
 
-  const monthlyLoanRate = leverage.enabled ? Math.pow(1 + leverage.interestRate / 100, 1 / 12) - 1 : 0;
+  // Per-asset collateral ratios and betas (tickers outside the configured universe count as 0)
+  const pledgeRatios: Record<string, number> = Object.fromEntries(assets.map(a => [a.ticker, a.pledgeRatio]));
+  const betas: Record<string, number> = Object.fromEntries(assets.map(a => [a.ticker, a.beta]));
+
+  // Benchmark-linked rates need a benchmark on every row, else the fixed rates apply.
+  // Neither rate goes below zero however far the benchmark falls.
+  const hasBenchmark = marketData.length > 0 && marketData.every(row => row.benchmarkRate !== undefined);
+  const getCashYield = (index: number) =>
+    config.cashYieldBasis === 'BENCHMARK' && hasBenchmark
+      ? Math.max(0, marketData[index].benchmarkRate! - (config.cashYieldHaircut || 0))
+      : config.cashYieldAnnual;
+  const getLoanRate = (index: number) =>
+    leverage.interestRateBasis === 'BENCHMARK' && hasBenchmark
+      ? Math.max(0, marketData[index].benchmarkRate! + (leverage.interestSpread || 0))
+      : leverage.interestRate;
+
+  // Interest from row index - 1 to index at the annual rate of row index - 1.
+  // Monthly: (1 + annual)^(1 / 12) - 1; daily mode accrues by calendar day count: (1 + annual)^(days / 365) - 1
+  const getAccrualRate = (annualPct: number, index: number) =>
+    Math.pow(1 + annualPct / 100, isDaily ? daysBetween(marketData[index - 1].date, marketData[index].date) / 365 : 1 / 12) - 1;
+
+  // Price level relative to the start: the dataset's CPI when every row carries one, else the
+  // constant leverage.inflationRate. Indexed amounts step once a year under the constant rate
+  // (as FIXED withdrawals always did), the real equity curve is deflated continuously.
+  const hasCpi = marketData.length > 0 && marketData.every(row => (row.cpi ?? 0) > 0);
+  const constantInflation = config.leverage?.inflationRate || 0;
+  const getIndexFactor = (index: number, monthIdx: number) =>
+    hasCpi ? marketData[index].cpi! / marketData[0].cpi! : Math.pow(1 + constantInflation / 100, Math.floor(monthIdx / 12));
+  const getDeflator = (index: number, monthIdx: number) =>
+    hasCpi ? marketData[index].cpi! / marketData[0].cpi! : Math.pow(1 + constantInflation / 100, monthIdx / 12);
+
+  // Capital gains tax: lots follow every change of holdings, the year's tax is settled each January
+  const tax = config.tax?.enabled ? config.tax : undefined;
+  let realizedGains: RealizedGains = { shortTerm: 0, longTerm: 0 };
+  let lossCarryforward = 0;
+  if (tax && marketData.length > 0) {
+    // A book passed in as initialState has no purchase history: its shares count as bought at the first price
+    currentState.taxLots = Object.entries(currentState.shares)
+      .filter(([, count]) => count > 0)
+      .map(([ticker, count]) => ({ ticker, shares: count, costBasis: getAssetPrice(marketData[0], ticker), acquired: marketData[0].date }));
+  }
+  const trackLots = (sharesBefore: Record<string, number>, row: MarketDataRow) => {
+    const { lots, gains } = reconcileLots(currentState.taxLots || [], sharesBefore, currentState.shares, row, tax!);
+    currentState.taxLots = lots;
+    realizedGains = { shortTerm: realizedGains.shortTerm + gains.shortTerm, longTerm: realizedGains.longTerm + gains.longTerm };
+  };
+
+  // Whole-share execution: orders round down, and what a buy could not spend waits in cash for that ticker's next buy
+  const wholeShares = config.executionMode === 'WHOLE_SHARES';
+  let residualCash: Record<string, number> = {};
+
+  // Trading costs: every order pays commission and slippage out of cash
+  const tradingCosts = config.tradingCosts?.enabled ? config.tradingCosts : undefined;
+  const slippageBps: Record<string, number> = Object.fromEntries(assets.map(a => [a.ticker, a.slippageBps ?? 0]));
+  let totalTradingCost = 0;
+  let strategySales = 0; // Value sold by the strategy, for turnover
+  const investorFlows: number[] = [config.initialCapital]; // Money paid in (+) or taken out (-) per month, for IRR
+  const chargeTradingCosts = (sharesBefore: Record<string, number>, row: MarketDataRow, events: FinancialEvent[]) => {
+    const execution = applyTradingCosts(sharesBefore, currentState.shares, currentState.cashBalance, row, tradingCosts!, slippageBps, wholeShares);
+    currentState.shares = execution.shares;
+    currentState.cashBalance = execution.cashBalance;
+    totalTradingCost += execution.cost;
+    events.push(...execution.events);
+    return execution.cost;
+  };
 
   let isBankrupt = false;
   let bankruptcyDate: string | null = null;
 
+  let monthIndex = 0;
+  // Interest accrued since the last period start, serviced on the next one
+  let pendingCashInterest = 0;
+  let pendingLoanInterest = 0;
+  let pendingCashRate = 0; // Cash rate compounded over the same days, for the interest event
+
   for (let index = 0; index < marketData.length; index++) {
     const dataRow = marketData[index];
     const monthEvents: FinancialEvent[] = [];
 
+    const isPeriodStart = !isDaily || index === 0 || dataRow.date.substring(0, 7) !== marketData[index - 1].date.substring(0, 7);
+    if (isPeriodStart) {
+      monthIndex = isDaily ? monthsBetween(marketData[0].date, dataRow.date) : index;
+    }
+
     if (isBankrupt) {
       history.push({
         ...currentState,
         date: dataRow.date,
         totalValue: 0,
+        realValue: 0,
         shares: { ...currentState.shares },
         ltv: 0,
         beta: 0,
@@ -68,22 +172,32 @@ export const runBacktest = (
 
     // 1. Banking Logic: Interest Accrual & Debt Service
     if (index > 0) {
-      // Step A: Accrue Interest on Cash
-      const interestEarned = currentState.cashBalance * monthlyCashYieldRate;
+      const cashRate = getAccrualRate(getCashYield(index - 1), index);
+      pendingCashInterest += currentState.cashBalance * cashRate;
+      pendingCashRate = (1 + pendingCashRate) * (1 + cashRate) - 1;
+      if (leverage.enabled && currentState.debtBalance > 0) {
+        pendingLoanInterest += currentState.debtBalance * getAccrualRate(getLoanRate(index - 1), index);
+      }
+    }
+
+    if (index > 0 && isPeriodStart) {
+      // Step A: Credit Interest on Cash
+      const interestEarned = pendingCashInterest;
+      const periodCashRate = pendingCashRate;
+      pendingCashInterest = 0;
+      pendingCashRate = 0;
       if (interestEarned > 0.01) {
         currentState.cashBalance += interestEarned;
         monthEvents.push({
           type: 'INTEREST_INC',
           amount: interestEarned,
-          description: `Cash Interest (+${(config.cashYieldAnnual / 12).toFixed(2)}%)`
+          description: `Cash Interest (+${(periodCashRate * 100).toFixed(2)}%)`
         });
       }
 
-      // Step B: Calculate Interest Due on Debt
-      let interestDue = 0;
-      if (leverage.enabled && currentState.debtBalance > 0) {
-        interestDue = currentState.debtBalance * monthlyLoanRate;
-      }
+      // Step B: Interest Due on Debt
+      const interestDue = pendingLoanInterest;
+      pendingLoanInterest = 0;
 
       // Step C: Service the Debt
       // Step C: Service the Debt
@@ -141,6 +255,51 @@ export const runBacktest = (
             });
         }
       }
+
+      // Step D: Settle last year's capital gains tax
+      const previousYear = marketData[index - 1].date.substring(0, 4);
+      if (tax && dataRow.date.substring(0, 4) !== previousYear) {
+        const settlement = calculateCapitalGainsTax(realizedGains, lossCarryforward, tax);
+        realizedGains = { shortTerm: 0, longTerm: 0 };
+        lossCarryforward = settlement.lossCarryforward;
+
+        if (settlement.tax > 0) {
+          const paidByCash = tax.paymentMode === 'CASH' ? Math.min(Math.max(0, currentState.cashBalance), settlement.tax) : 0;
+          currentState.cashBalance -= paidByCash;
+          let shortfall = settlement.tax - paidByCash;
+
+          // Sell the same fraction of every holding; the sale's own gains count towards this year
+          const holdingsValue = getHoldingsValue(currentState.shares, dataRow);
+          if (shortfall > 0 && holdingsValue > 0) {
+            const fraction = Math.min(1, shortfall / holdingsValue);
+            const sharesBefore = { ...currentState.shares };
+            Object.keys(currentState.shares).forEach(ticker => {
+              // Whole shares: round up so the sale covers the shortfall, the excess goes to cash
+              const sold = wholeShares ? Math.min(sharesBefore[ticker], Math.ceil(sharesBefore[ticker] * fraction)) : sharesBefore[ticker] * fraction;
+              if (sold <= 0) return;
+              const price = getAssetPrice(dataRow, ticker);
+              currentState.shares[ticker] = sharesBefore[ticker] - sold;
+              monthEvents.push({
+                type: 'TRADE',
+                amount: sold * price,
+                description: `Sell ${sold.toFixed(2)} ${ticker} @ ${price.toFixed(2)} for tax`
+              });
+            });
+            // Sale costs come out of the proceeds, i.e. the remainder paid from cash grows
+            if (tradingCosts) chargeTradingCosts(sharesBefore, dataRow, monthEvents);
+            trackLots(sharesBefore, dataRow);
+            shortfall -= holdingsValue - getHoldingsValue(currentState.shares, dataRow);
+          }
+          // Nothing left to sell: the remainder comes out of cash
+          currentState.cashBalance -= shortfall;
+
+          monthEvents.push({
+            type: 'TAX',
+            amount: -settlement.tax,
+            description: `Capital Gains Tax ${previousYear}`
+          });
+        }
+      }
     }
 
     // 2. Execute Investment Strategy
@@ -148,66 +307,103 @@ export const runBacktest = (
     // Actually, strategies usually add cash then buy.
     // Let's rely on diffing shares/cash after strategy execution.
 
-    // Snapshot before strategy
-    const cashBeforeStrat = currentState.cashBalance;
-    const sharesBeforeStrat = { ...currentState.shares };
-
-    currentState = strategyFunc(currentState, dataRow, config, index);
+    // Strategies see one call per month; intra-month trading days only move prices
+    if (isPeriodStart) {
+      // Snapshot before strategy
+      const cashBeforeStrat = currentState.cashBalance;
+      const debtBeforeStrat = currentState.debtBalance;
+      const sharesBeforeStrat = { ...currentState.shares };
+
+      // Indexed contributions: the strategy sees this month's inflation-adjusted amount
+      const strategyConfig = config.indexContributions
+        ? { ...config, contributionAmount: config.contributionAmount * getIndexFactor(index, monthIndex) }
+        : config;
+      currentState = strategyFunc({ ...currentState, events: [] }, dataRow, strategyConfig, monthIndex);
+      const strategyEvents = currentState.events || [];
+      currentState.events = [];
+      if (wholeShares) {
+        const execution = roundOrdersToWholeShares(sharesBeforeStrat, currentState.shares, currentState.cashBalance, dataRow, residualCash);
+        currentState.shares = execution.shares;
+        currentState.cashBalance = execution.cashBalance;
+        residualCash = execution.residuals;
+      }
+      const costEvents: FinancialEvent[] = [];
+      const tradeCost = tradingCosts ? chargeTradingCosts(sharesBeforeStrat, dataRow, costEvents) : 0;
+      if (tax) trackLots(sharesBeforeStrat, dataRow);
+
+      // Detect Trades
+      // Reasons the strategy gave for its orders, by ticker
+      const tradeReasons = new Map(strategyEvents.filter(e => e.type === 'TRADE' && e.ticker && e.reason).map(e => [e.ticker!, e.reason!]));
+      const tradedTickers = Array.from(new Set([...Object.keys(sharesBeforeStrat), ...Object.keys(currentState.shares)]));
+      let netTradeCost = 0;
+
+      // Estimate cost based on current price
+      tradedTickers.forEach(ticker => {
+        const diff = (currentState.shares[ticker] || 0) - (sharesBeforeStrat[ticker] || 0);
+        if (Math.abs(diff) <= 0.001) return;
+
+        const price = getAssetPrice(dataRow, ticker);
+        const cost = diff * price;
+        netTradeCost += cost;
+        if (cost < 0) strategySales -= cost;
+        monthEvents.push({
+          type: 'TRADE',
+          amount: -cost,
+          description: `${diff > 0 ? 'Buy' : 'Sell'} ${Math.abs(diff).toFixed(2)} ${ticker} @ ${price.toFixed(2)}`,
+          ticker,
+          ...(tradeReasons.has(ticker) && { reason: tradeReasons.get(ticker) })
+        });
+      });
 
-    // Detect Trades
-    const qqqDiff = currentState.shares.QQQ - sharesBeforeStrat.QQQ;
-    const qldDiff = currentState.shares.QLD - sharesBeforeStrat.QLD;
+      monthEvents.push(...costEvents, ...strategyEvents.filter(e => e.type !== 'TRADE'));
 
-    // Estimate cost based on current price
-    if (Math.abs(qqqDiff) > 0.001) {
-      const cost = qqqDiff * dataRow.qqq;
-      monthEvents.push({
-        type: 'TRADE',
-        amount: -cost,
-        description: `${qqqDiff > 0 ? 'Buy' : 'Sell'} ${Math.abs(qqqDiff).toFixed(2)} QQQ @ ${dataRow.qqq.toFixed(2)}`
-      });
-    }
-    if (Math.abs(qldDiff) > 0.001) {
-      const cost = qldDiff * dataRow.qld;
-      monthEvents.push({
-        type: 'TRADE',
-        amount: -cost,
-        description: `${qldDiff > 0 ? 'Buy' : 'Sell'} ${Math.abs(qldDiff).toFixed(2)} QLD @ ${dataRow.qld.toFixed(2)}`
-      });
-    }
+      // Detect DCA Deposit (Approximation: If we bought shares but cash didn't drop by full amount, or cash increased)
+      // Net flow = (Cash_End - Cash_Start) + Cost_Of_Buys + Trading_Costs
+      // If Net flow > 0, that's external deposit.
+      // Money the strategy borrowed or repaid moved cash, but was not the investor's
+      const impliedCashFlow = (currentState.cashBalance - cashBeforeStrat) + netTradeCost + tradeCost - (currentState.debtBalance - debtBeforeStrat);
 
-    // Detect DCA Deposit (Approximation: If we bought shares but cash didn't drop by full amount, or cash increased)
-    // Net flow = (Cash_End - Cash_Start) + Cost_Of_Buys
-    // If Net flow > 0, that's external deposit.
-    const netTradeCost = (qqqDiff * dataRow.qqq) + (qldDiff * dataRow.qld);
-    const impliedCashFlow = (currentState.cashBalance - cashBeforeStrat) + netTradeCost;
-
-    // Small epsilon for float errors
-    if (impliedCashFlow > 1.0) {
-      monthEvents.push({
-        type: 'DEPOSIT',
-        amount: impliedCashFlow,
-        description: 'Recurring Contribution / Deposit'
-      });
+      // Small epsilon for float errors
+      if (impliedCashFlow > 1.0) {
+        monthEvents.push({
+          type: 'DEPOSIT',
+          amount: impliedCashFlow,
+          description: 'Recurring Contribution / Deposit'
+        });
+      } else if (impliedCashFlow < -1.0) {
+        // Strategies with variable contributions (e.g. value averaging) can also pay money out
+        monthEvents.push({
+          type: 'WITHDRAW',
+          amount: impliedCashFlow,
+          description: 'Withdrawal to Investor'
+        });
+      }
+      if (monthIndex > 0 && Math.abs(impliedCashFlow) > 1.0) {
+        investorFlows[monthIndex] = (investorFlows[monthIndex] || 0) + impliedCashFlow;
+      }
+    } else {
+      currentState.date = dataRow.date;
     }
 
     // 3. Leverage / Pledging Logic (Borrowing & Risk Check)
     if (leverage.enabled) {
       const currentMonth = parseInt(dataRow.date.substring(5, 7)) - 1;
 
-      const qqqValue = currentState.shares.QQQ * dataRow.qqq;
-      const qldValue = currentState.shares.QLD * dataRow.qld;
       const cashValue = currentState.cashBalance;
-      const totalAssetValue = qqqValue + qldValue + cashValue;
-
-      const effectiveCollateral =
-        (qqqValue * leverage.qqqPledgeRatio) +
-        (cashValue * leverage.cashPledgeRatio) +
-        (qldValue * leverage.qldPledgeRatio);
+      let holdingsValue = 0;
+      let effectiveCollateral = cashValue * leverage.cashPledgeRatio;
+      Object.entries(currentState.shares).forEach(([ticker, count]) => {
+        const value = count * getAssetPrice(dataRow, ticker);
+        holdingsValue += value;
+        effectiveCollateral += value * (pledgeRatios[ticker] ?? 0);
+      });
+      const totalAssetValue = holdingsValue + cashValue;
 
       // Withdrawal Logic: Trigger on the very first month (Index 0) OR every January
       // Previously: if (currentMonth === 0 && index > 0 && effectiveCollateral > 0)
-      const isWithdrawalTiming = index === 0 || currentMonth === 0;
+      // Daily mode: first trading day of the month only
+      // A book passed in as initialState already carries its draws, so its first month is skipped
+      const isWithdrawalTiming = isPeriodStart && (monthIndex === 0 ? !options.initialState : currentMonth === 0);
 
       if (isWithdrawalTiming && effectiveCollateral > 0) {
         let borrowAmount = 0;
@@ -219,9 +415,8 @@ export const runBacktest = (
           // n = Years passed. 
           // Index 0 (Month 1, Year 1) -> n=0 -> Base Amount
           // Index 12 (Month 1, Year 2) -> n=1 -> Base * (1+inf)
-          const yearsPassed = Math.floor(index / 12);
-          const inflationFactor = Math.pow(1 + (leverage.inflationRate || 0) / 100, yearsPassed);
-          borrowAmount = leverage.withdrawValue * inflationFactor;
+          // With a CPI series: Borrow = InitialFixed * CPI_t / CPI_0
+          borrowAmount = leverage.withdrawValue * getIndexFactor(index, monthIndex);
         }
 
         if (borrowAmount > 0) {
@@ -229,7 +424,7 @@ export const runBacktest = (
           monthEvents.push({
             type: 'WITHDRAW',
             amount: -borrowAmount,
-            description: index === 0 ? `Initial Loan Withdrawal` : `Annual Living Expense Withdrawal`
+            description: monthIndex === 0 ? `Initial Loan Withdrawal` : `Annual Living Expense Withdrawal`
           });
           monthEvents.push({
             type: 'DEBT_INC',
@@ -241,7 +436,7 @@ export const runBacktest = (
 
       // Solvency Check
       if (effectiveCollateral > 0) {
-        const totalLiability = currentState.debtBalance + currentState.accruedInterest;
+        const totalLiability = currentState.debtBalance + currentState.accruedInterest + pendingLoanInterest;
         const ltvDenominator = leverage.ltvBasis === 'COLLATERAL' ? effectiveCollateral : totalAssetValue;
         
         // If basis is Collateral, we divide by Effective Collateral.
@@ -249,7 +444,7 @@ export const runBacktest = (
         
         currentState.ltv = ltvDenominator > 0 ? (totalLiability / ltvDenominator) * 100 : 9999;
       } else {
-        currentState.ltv = (currentState.debtBalance + currentState.accruedInterest) > 0 ? 9999 : 0;
+        currentState.ltv = (currentState.debtBalance + currentState.accruedInterest + pendingLoanInterest) > 0 ? 9999 : 0;
       }
 
       // Trigger Bankruptcy if Debt exceeds the safety limit (maxLtv) of the Collateral
@@ -267,25 +462,30 @@ export const runBacktest = (
 
     // 4. Update Net Value & Risk Metrics
     if (!isBankrupt) {
-      const qqqVal = currentState.shares.QQQ * dataRow.qqq;
-      const qldVal = currentState.shares.QLD * dataRow.qld;
-      const cashVal = currentState.cashBalance;
-
-      const assets = qqqVal + qldVal + cashVal;
-      // Net Equity = Assets - Principal Debt - Accrued Simple Interest
-      currentState.totalValue = Math.max(0, assets - currentState.debtBalance - currentState.accruedInterest);
+      const totalAssets = getHoldingsValue(currentState.shares, dataRow) + currentState.cashBalance + pendingCashInterest;
+      // Tax owed on this year's realized gains counts against equity until it is paid
+      if (tax) currentState.taxLiability = calculateCapitalGainsTax(realizedGains, lossCarryforward, tax).tax;
+      // Net Equity = Assets - Principal Debt - Accrued Simple Interest (incl. interest not yet serviced in daily mode) - Tax Owed
+      currentState.totalValue = Math.max(0, totalAssets - currentState.debtBalance - currentState.accruedInterest - pendingLoanInterest - (currentState.taxLiability || 0));
 
       // Calculate Beta
-      // Beta Reference: QQQ=1, Cash=0, QLD=2.
+      // Beta Reference: per asset (QQQ=1, QLD=2 by default), Cash=0.
       // We calculate weighted beta based on Equity to show effective leverage.
-      // Formula: (ValQQQ*1 + ValQLD*2 + Cash*0) / NetEquity
+      // Formula: Σ(Val_i * Beta_i) / NetEquity
       if (currentState.totalValue > 0) {
-        currentState.beta = ((qqqVal * 1) + (qldVal * 2)) / currentState.totalValue;
+        const exposure = Object.entries(currentState.shares).reduce(
+          (sum, [ticker, count]) => sum + count * getAssetPrice(dataRow, ticker) * (betas[ticker] ?? 0),
+          0
+        );
+        currentState.beta = exposure / currentState.totalValue;
       } else {
         currentState.beta = 0;
       }
     }
 
+    // Equity in start-of-backtest money
+    currentState.realValue = currentState.totalValue / getDeflator(index, monthIndex);
+
     // 5. Record History
     history.push({
       ...currentState,
@@ -296,41 +496,86 @@ export const runBacktest = (
   }
 
   // Calculate Metrics
-  const years = marketData.length / 12;
+  // Years count covered months in both modes, so a daily run and its monthly resample annualize alike
+  const periodCount = isDaily ? monthIndex + 1 : marketData.length;
+  const years = periodCount / 12;
+  const periodsPerYear = isDaily ? history.length / years : 12;
   const finalState = history[history.length - 1];
   const initialInv = config.initialCapital;
 
   const cagr = isBankrupt ? -100 : calculateCAGR(initialInv, finalState.totalValue, years);
   const mdd = calculateMaxDrawdown(history);
-  const irr = isBankrupt ? -100 : calculateIRR(
-    initialInv,
-    config.contributionAmount,
-    config.contributionIntervalMonths,
-    finalState.totalValue,
-    marketData.length
-  );
+  // On the contributions actually made, which vary with the calendar, indexing and the strategy
+  const irr = isBankrupt ? -100 : calculateCashFlowIRR(investorFlows, finalState.totalValue, periodCount);
+
+  // Realized annual inflation over the run (the constant rate without a CPI series)
+  const elapsedYears = monthIndex / 12;
+  const finalDeflator = getDeflator(marketData.length - 1, monthIndex);
+  const inflationRate = hasCpi && elapsedYears > 0 ? (Math.pow(finalDeflator, 1 / elapsedYears) - 1) * 100 : constantInflation;
+  const toReal = (nominalPct: number) => ((1 + nominalPct / 100) / (1 + inflationRate / 100) - 1) * 100;
+
+  const averageEquity = history.reduce((sum, h) => sum + h.totalValue, 0) / history.length;
+
+  // Risk-free rate of each period: the benchmark when loaded, else the cash yield
+  const riskFreeRates = history.slice(1).map((_, i) => (hasBenchmark ? marketData[i].benchmarkRate! : config.cashYieldAnnual));
+
+  const periodReturns = history.slice(1).flatMap((h, i) => (history[i].totalValue > 0 ? [h.totalValue / history[i].totalValue - 1] : []));
 
   const metrics = {
     finalBalance: finalState.totalValue,
     cagr,
     maxDrawdown: mdd,
-    sharpeRatio: calculateSharpeRatio(history, config.cashYieldAnnual),
+    sharpeRatio: calculateSharpeRatio(history, riskFreeRates, periodsPerYear),
     irr,
-    realFinalBalance: calculateRealValue(finalState.totalValue, years, config.leverage.inflationRate || 0),
-    maxRecoveryMonths: calculateMaxRecoveryTime(history),
+    realFinalBalance: hasCpi ? finalState.totalValue / finalDeflator : calculateRealValue(finalState.totalValue, constantInflation, elapsedYears),
+    maxRecoveryMonths: calculateMaxRecoveryTime(history, periodsPerYear),
     worstYearReturn: Math.min(...calculateAnnualReturns(history).map(r => r.return), 0),
     painIndex: calculateUlcerIndex(history),
     calmarRatio: mdd > 0 ? (isBankrupt ? -100 : irr / mdd) : 0,
-    inflationRate: config.leverage.inflationRate
+    inflationRate,
+    tradingCosts: totalTradingCost,
+    rebalanceCount: history.reduce((count, h) => count + (h.events || []).filter(e => e.type === 'REBALANCE').length, 0),
+    turnover: averageEquity > 0 && years > 0 ? (strategySales / averageEquity / years) * 100 : 0,
+    volatility: calculateVolatility(periodReturns, periodsPerYear)
   };
 
+  // The same metrics on the deflated equity curve
+  const realHistory = history.map(h => ({ ...h, totalValue: h.realValue ?? h.totalValue }));
+  const realMdd = calculateMaxDrawdown(realHistory);
+  const realIrr = isBankrupt ? -100 : toReal(irr);
+  const realMetrics = {
+    finalBalance: metrics.realFinalBalance,
+    cagr: isBankrupt ? -100 : toReal(cagr),
+    maxDrawdown: realMdd,
+    sharpeRatio: calculateSharpeRatio(realHistory, riskFreeRates.map(toReal), periodsPerYear),
+    irr: realIrr,
+    maxRecoveryMonths: calculateMaxRecoveryTime(realHistory, periodsPerYear),
+    worstYearReturn: Math.min(...calculateAnnualReturns(realHistory).map(r => r.return), 0),
+    painIndex: calculateUlcerIndex(realHistory),
+    calmarRatio: realMdd > 0 ? (isBankrupt ? -100 : realIrr / realMdd) : 0
+  };
+
+  // Months where a held position was priced from reconstructed (synthetic) data
+  const syntheticTickers = new Set<string>();
+  const syntheticDates: string[] = [];
+  history.forEach((h, i) => {
+    const held = (marketData[i].syntheticTickers || []).filter(ticker => (h.shares[ticker] || 0) !== 0);
+    if (held.length === 0) return;
+    held.forEach(ticker => syntheticTickers.add(ticker));
+    syntheticDates.push(h.date);
+  });
+
   return {
     strategyName,
     color,
+    frequency,
     isLeveraged: config.leverage.enabled,
     history,
     isBankrupt,
     bankruptcyDate,
-    metrics
+    ...(syntheticDates.length > 0 && { synthetic: { tickers: Array.from(syntheticTickers), dates: syntheticDates } }),
+    currency: getBaseCurrency(config),
+    metrics,
+    realMetrics
   };
 };
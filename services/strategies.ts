@@ -1,21 +1,104 @@
-import { AssetConfig, StrategyFunction, StrategyType } from "../types";
+import { AssetConfig, DriftBandConfig, MarketDataRow, PortfolioState, RebalanceSchedule, SmartConfig, StrategyFunction, StrategyType, TrendConfig, CppiConfig, DrawdownLadderConfig, ValueAveragingConfig, VolTargetConfig } from "../types";
+import { calculateVolatility } from "./financeMath";
+import { BASE_TICKER, getAssetPrice, getHoldingsValue, getLeveragedAsset, getPortfolioAssets } from "./assetUniverse";
+import { applyRuleAction, describeCondition, isConditionMet, updateRuleMemory } from "./strategyRules";
 
 const getAssetAllocation = (config: AssetConfig) => {
-  const cashWeight = Math.max(0, 100 - config.qqqWeight - config.qldWeight);
-  return {
-    qqq: config.qqqWeight / 100,
-    qld: config.qldWeight / 100,
-    cash: cashWeight / 100
-  };
+  const assets = getPortfolioAssets(config);
+  const weights: Record<string, number> = {};
+  assets.forEach(a => { weights[a.ticker] = a.weight / 100; });
+  const cashWeight = Math.max(0, 100 - assets.reduce((sum, a) => sum + a.weight, 0));
+  return { weights, cash: cashWeight / 100 };
 };
 
 const getContributionAllocation = (config: AssetConfig) => {
-  const cashWeight = Math.max(0, 100 - config.contributionQqqWeight - config.contributionQldWeight);
-  return {
-    qqq: config.contributionQqqWeight / 100,
-    qld: config.contributionQldWeight / 100,
-    cash: cashWeight / 100
-  };
+  const assets = getPortfolioAssets(config);
+  const weights: Record<string, number> = {};
+  assets.forEach(a => { weights[a.ticker] = a.contributionWeight / 100; });
+  const cashWeight = Math.max(0, 100 - assets.reduce((sum, a) => sum + a.contributionWeight, 0));
+  return { weights, cash: cashWeight / 100 };
+};
+
+/**
+ * Whether the recurring contribution is due this month.
+ * Yearly contributions follow the calendar month, shorter intervals count months from the start.
+ */
+const isContributionMonth = (config: AssetConfig, marketData: MarketDataRow, monthIndex: number) => {
+  if (monthIndex === 0) return false;
+  if (config.contributionIntervalMonths === 12) {
+    // Yearly: Check if current calendar month matches yearlyContributionMonth (default December=12)
+    const currentMonth = parseInt(marketData.date.substring(5, 7)); // 1-12
+    return currentMonth === (config.yearlyContributionMonth || 12);
+  }
+  // Monthly/Quarterly: Use modulo logic
+  return monthIndex % config.contributionIntervalMonths === 0;
+};
+
+/**
+ * Invests a contribution by allocation weights; the unallocated part stays in cash
+ */
+const investContribution = (
+  state: PortfolioState,
+  marketData: MarketDataRow,
+  amount: number,
+  allocation: { weights: Record<string, number>; cash: number }
+) => {
+  Object.entries(allocation.weights).forEach(([ticker, weight]) => {
+    if (weight === 0) return;
+    const buyAmount = amount * weight;
+    state.shares[ticker] = (state.shares[ticker] || 0) + buyAmount / getAssetPrice(marketData, ticker);
+  });
+  state.cashBalance += amount * allocation.cash;
+};
+
+/**
+ * Contribution weights that steer the portfolio toward target without selling.
+ * The contribution first fills each sleeve's (cash included) shortfall against its target value after
+ * the contribution, pro rata when it cannot fill them all; anything left over follows the regular
+ * contribution weights.
+ */
+export const getRebalancingContributionAllocation = (
+  state: PortfolioState,
+  marketData: MarketDataRow,
+  config: AssetConfig,
+  amount: number
+): { weights: Record<string, number>; cash: number } => {
+  const target = getAssetAllocation(config);
+  const regular = getContributionAllocation(config);
+  if (amount <= 0) return regular;
+
+  const totalAfter = getHoldingsValue(state.shares, marketData) + state.cashBalance + amount;
+  const shortfalls: Record<string, number> = {};
+  Object.entries(target.weights).forEach(([ticker, weight]) => {
+    const value = (state.shares[ticker] || 0) * getAssetPrice(marketData, ticker);
+    shortfalls[ticker] = Math.max(0, totalAfter * weight - value);
+  });
+  const cashShortfall = Math.max(0, totalAfter * target.cash - state.cashBalance);
+  const totalShortfall = Object.values(shortfalls).reduce((a, b) => a + b, 0) + cashShortfall;
+
+  const filled = Math.min(1, amount / Math.max(totalShortfall, 1e-9));
+  const leftover = Math.max(0, amount - totalShortfall) / amount;
+  const weights: Record<string, number> = {};
+  Object.keys(regular.weights).forEach(ticker => {
+    weights[ticker] = ((shortfalls[ticker] || 0) * filled) / amount + regular.weights[ticker] * leftover;
+  });
+  return { weights, cash: (cashShortfall * filled) / amount + regular.cash * leftover };
+};
+
+export const DEFAULT_REBALANCE_SCHEDULE: RebalanceSchedule = { intervalMonths: 12, anchorMonth: 1, contributionOnly: false };
+
+/**
+ * Whether the calendar rebalance is due. Up to a year, the schedule months are the anchor month
+ * plus multiples of the interval (quarterly from February: Feb / May / Aug / Nov). Every N years
+ * uses every Nth anchor month after the start.
+ */
+export const isRebalanceMonth = (schedule: RebalanceSchedule, marketData: MarketDataRow, monthIndex: number): boolean => {
+  if (monthIndex === 0) return false;
+  const interval = Math.max(1, Math.round(schedule.intervalMonths));
+  const offset = (parseInt(marketData.date.substring(5, 7)) - schedule.anchorMonth + 12) % 12;
+  if (interval <= 12) return offset % interval === 0;
+  // ceil(monthIndex / 12) counts the anchor months passed since the start, this one included
+  return offset === 0 && Math.ceil(monthIndex / 12) % Math.round(interval / 12) === 0;
 };
 
 /**
@@ -26,84 +109,179 @@ const getContributionAllocation = (config: AssetConfig) => {
  */
 export const strategyNoRebalance: StrategyFunction = (state, marketData, config, monthIndex) => {
   const isFirstMonth = monthIndex === 0;
-  const newState = { ...state, date: marketData.date };
+  const newState = { ...state, date: marketData.date, shares: { ...state.shares } };
 
   if (isFirstMonth) {
-    const weights = getAssetAllocation(config);
-    newState.shares = {
-      QQQ: (config.initialCapital * weights.qqq) / marketData.qqq,
-      QLD: (config.initialCapital * weights.qld) / marketData.qld
-    };
-    newState.cashBalance = config.initialCapital * weights.cash;
-  } else {
-    // DCA Logic: Check if this month is a contribution month
-    const currentMonth = parseInt(marketData.date.substring(5, 7)); // 1-12
-
-    let isContributionMonth = false;
-    if (config.contributionIntervalMonths === 12) {
-      // Yearly: Check if current calendar month matches yearlyContributionMonth (default December=12)
-      isContributionMonth = currentMonth === (config.yearlyContributionMonth || 12);
-    } else {
-      // Monthly/Quarterly: Use modulo logic
-      isContributionMonth = monthIndex % config.contributionIntervalMonths === 0;
-    }
-
-    if (isContributionMonth) {
-      const contribWeights = getContributionAllocation(config);
-
-      const qqqBuy = config.contributionAmount * contribWeights.qqq;
-      const qldBuy = config.contributionAmount * contribWeights.qld;
-      const cashAdd = config.contributionAmount * contribWeights.cash;
-
-      newState.shares.QQQ += qqqBuy / marketData.qqq;
-      newState.shares.QLD += qldBuy / marketData.qld;
-      newState.cashBalance += cashAdd;
-    }
+    const allocation = getAssetAllocation(config);
+    Object.entries(allocation.weights).forEach(([ticker, weight]) => {
+      newState.shares[ticker] = (config.initialCapital * weight) / getAssetPrice(marketData, ticker);
+    });
+    newState.cashBalance = config.initialCapital * allocation.cash;
+  } else if (isContributionMonth(config, marketData, monthIndex)) {
+    // DCA Logic
+    investContribution(newState, marketData, config.contributionAmount, getContributionAllocation(config));
   }
 
-  newState.totalValue =
-    (newState.shares.QQQ * marketData.qqq) +
-    (newState.shares.QLD * marketData.qld) +
-    newState.cashBalance;
+  newState.totalValue = getHoldingsValue(newState.shares, marketData) + newState.cashBalance;
 
   return newState;
 };
 
 /**
- * Strategy: Yearly Rebalancing
- * Standard DCA (using contrib weights), but rebalances to PORTFOLIO weights in January.
+ * Strategy: Calendar Rebalancing
+ * Standard DCA (using contrib weights), but rebalances to PORTFOLIO weights on the profile's schedule
+ * (every January by default). In contribution-only mode it never sells: each contribution is routed
+ * to the underweight assets instead.
  */
 export const strategyRebalance: StrategyFunction = (state, marketData, config, monthIndex) => {
-  const isFirstMonth = monthIndex === 0;
-  let newState = strategyNoRebalance(state, marketData, config, monthIndex); // Apply base logic first
+  const schedule = { ...DEFAULT_REBALANCE_SCHEDULE, ...config.rebalanceSchedule };
+
+  if (schedule.contributionOnly && monthIndex > 0) {
+    const newState = { ...state, date: marketData.date, shares: { ...state.shares } };
+    if (isContributionMonth(config, marketData, monthIndex)) {
+      const allocation = getRebalancingContributionAllocation(newState, marketData, config, config.contributionAmount);
+      investContribution(newState, marketData, config.contributionAmount, allocation);
+    }
+    newState.totalValue = getHoldingsValue(newState.shares, marketData) + newState.cashBalance;
+    return newState;
+  }
 
-  const currentMonth = parseInt(marketData.date.substring(5, 7)) - 1;
+  let newState = strategyNoRebalance(state, marketData, config, monthIndex); // Apply base logic first
 
-  // Rebalance in January (Month 0) - but not the very first month of simulation
-  if (currentMonth === 0 && !isFirstMonth) {
+  // Never in the very first month of the simulation
+  if (isRebalanceMonth(schedule, marketData, monthIndex)) {
     const totalVal = newState.totalValue;
     const targetWeights = getAssetAllocation(config); // Rebalance to TARGET portfolio
 
     // Reset shares to target weights
-    newState.shares.QQQ = (totalVal * targetWeights.qqq) / marketData.qqq;
-    newState.shares.QLD = (totalVal * targetWeights.qld) / marketData.qld;
+    Object.keys(newState.shares).forEach(ticker => { newState.shares[ticker] = 0; });
+    Object.entries(targetWeights.weights).forEach(([ticker, weight]) => {
+      newState.shares[ticker] = (totalVal * weight) / getAssetPrice(marketData, ticker);
+    });
     newState.cashBalance = totalVal * targetWeights.cash;
+    newState.events = [...(newState.events || []), { type: 'REBALANCE', description: 'Scheduled Rebalance to Target' }];
   }
 
   return newState;
 };
 
+export const DEFAULT_DRIFT_BAND: DriftBandConfig = { mode: 'ABSOLUTE', threshold: 5, partial: false };
+
+// Key of the cash sleeve among the ticker weights of the drift check
+const CASH_KEY = 'CASH';
+// Narrowest relative band (1 point), so a sleeve targeted at 0% does not rebalance on every crumb of drift
+const MIN_RELATIVE_BAND = 0.01;
+
+/**
+ * Strategy: Threshold (Drift-Band) Rebalancing
+ * Standard DCA, plus a monthly check of every weight (cash included) against its band around the target.
+ * When any weight is outside its band, rebalances fully to target, or in partial mode moves only the
+ * breaching weights to their band edge and spreads the difference over the rest by target weight.
+ */
+export const strategyThreshold: StrategyFunction = (state, marketData, config, monthIndex) => {
+  const newState = strategyNoRebalance(state, marketData, config, monthIndex);
+  const total = newState.totalValue;
+  if (monthIndex === 0 || total <= 0) return newState;
+
+  const band = { ...DEFAULT_DRIFT_BAND, ...config.driftBand };
+  const allocation = getAssetAllocation(config);
+  const tickers = Array.from(new Set([...Object.keys(allocation.weights), ...Object.keys(newState.shares)]));
+  const targets: Record<string, number> = { [CASH_KEY]: allocation.cash };
+  const current: Record<string, number> = { [CASH_KEY]: newState.cashBalance / total };
+  tickers.forEach(ticker => {
+    targets[ticker] = allocation.weights[ticker] ?? 0;
+    current[ticker] = ((newState.shares[ticker] || 0) * getAssetPrice(marketData, ticker)) / total;
+  });
+
+  const tolerance = (key: string) => band.mode === 'RELATIVE'
+    ? Math.max(targets[key] * band.threshold / 100, MIN_RELATIVE_BAND)
+    : band.threshold / 100;
+  const breached = Object.keys(targets).filter(key => Math.abs(current[key] - targets[key]) > tolerance(key) + 1e-9);
+  if (breached.length === 0) return newState;
+
+  let weights = { ...targets };
+  const others = Object.keys(targets).filter(key => !breached.includes(key));
+  const othersTarget = others.reduce((sum, key) => sum + targets[key], 0);
+  if (band.partial && others.length > 0) {
+    // Breaching weights go to the nearest band edge; the rest absorb the difference in proportion to their targets
+    weights = { ...current };
+    let freed = 0;
+    breached.forEach(key => {
+      const edge = current[key] > targets[key] ? targets[key] + tolerance(key) : targets[key] - tolerance(key);
+      freed += current[key] - edge;
+      weights[key] = edge;
+    });
+    others.forEach(key => {
+      weights[key] = current[key] + freed * (othersTarget > 0 ? targets[key] / othersTarget : 1 / others.length);
+    });
+    // Not enough in the rest to fund the move: go all the way to target instead
+    if (others.some(key => weights[key] < -1e-9)) weights = { ...targets };
+  }
+  const isPartial = Object.keys(weights).some(key => weights[key] !== targets[key]);
+
+  tickers.forEach(ticker => {
+    newState.shares[ticker] = weights[ticker] > 0 ? (total * weights[ticker]) / getAssetPrice(marketData, ticker) : 0;
+  });
+  newState.cashBalance = total * weights[CASH_KEY];
+
+  const drifts = breached.map(key => `${key} ${(current[key] * 100).toFixed(1)}% (target ${(targets[key] * 100).toFixed(1)}%)`);
+  newState.events = [...(newState.events || []), {
+    type: 'REBALANCE',
+    description: `${isPartial ? 'Partial' : 'Full'} Drift Rebalance: ${drifts.join(', ')}`
+  }];
+  return newState;
+};
+
+// Reserve key of SMART harvesting into cash rather than a ticker
+export const SMART_CASH_RESERVE = 'CASH';
+
+export const DEFAULT_SMART_CONFIG: SmartConfig = {
+  evaluationMonth: 12,
+  harvestFraction: 100 / 3,
+  dipBuyPercent: 2,
+  harvestInto: SMART_CASH_RESERVE,
+  maxReservePercent: 100,
+  dipTrigger: 'YEARLY_LOSS',
+  drawdownTrigger: 20
+};
+
+/**
+ * Resolves a profile's SMART rules, with the harvested asset defaulting to the leveraged sleeve
+ * (highest beta asset, QLD by default) and the reserve to cash.
+ */
+export const getSmartConfig = (config: AssetConfig): SmartConfig & { harvestFrom?: string; harvestInto: string } => {
+  const smart = { ...DEFAULT_SMART_CONFIG, ...config.smart };
+  const harvestFrom = smart.harvestFrom || getLeveragedAsset(getPortfolioAssets(config))?.ticker;
+  return {
+    ...smart,
+    harvestFrom,
+    // An asset cannot be its own reserve
+    harvestInto: smart.harvestInto && smart.harvestInto !== harvestFrom ? smart.harvestInto : SMART_CASH_RESERVE
+  };
+};
+
 /**
  * Strategy: Smart Adjust
  * Complex logic using strategyMemory: harvests profits in bull markets and buys dips.
+ * Once a year in the evaluation month, a share of the harvested asset's profit over the year goes into the
+ * reserve (cash by default, up to its cap); on a dip (no profit, or a drawdown past the trigger) the reserve
+ * buys back a share of portfolio value instead.
  */
 export const strategySmart: StrategyFunction = (state, marketData, config, monthIndex) => {
   const isFirstMonth = monthIndex === 0;
+  const smart = getSmartConfig(config);
+  const ticker = smart.harvestFrom;
+  if (!ticker) return strategyNoRebalance(state, marketData, config, monthIndex);
+
+  const price = getAssetPrice(marketData, ticker);
+  if (price <= 0) return strategyNoRebalance(state, marketData, config, monthIndex);
 
   // 1. Initialize or copy memory
   const memory = { ...(state.strategyMemory || {}) };
-  const currentYear = parseInt(marketData.date.substring(0, 4));
-  const currentMonth = parseInt(marketData.date.substring(5, 7)) - 1;
+  const currentMonth = parseInt(marketData.date.substring(5, 7));
+  // Year ending at the next evaluation month (the calendar year when evaluating in December)
+  const currentYear = parseInt(marketData.date.substring(0, 4)) + (currentMonth > smart.evaluationMonth ? 1 : 0);
+  memory.peakPrice = Math.max(memory.peakPrice || 0, price);
 
   // 2. Handle Year Transition / Init
   if (isFirstMonth || memory.currentYear !== currentYear) {
@@ -111,7 +289,7 @@ export const strategySmart: StrategyFunction = (state, marketData, config, month
     memory.yearInflow = 0;
 
     if (!isFirstMonth) {
-      memory.startQLDVal = state.shares.QLD * marketData.qld;
+      memory.startQLDVal = (state.shares[ticker] || 0) * price; // Harvested sleeve value at the start of the year
     }
   }
 
@@ -121,55 +299,472 @@ export const strategySmart: StrategyFunction = (state, marketData, config, month
 
   // If this was the first month, set the tracking var now that shares are bought
   if (isFirstMonth) {
-    memory.startQLDVal = newState.shares.QLD * marketData.qld;
+    memory.startQLDVal = (newState.shares[ticker] || 0) * price;
   }
 
-  // Track inflow into QLD specifically for the logic "QLD Profit"
+  // Track inflow into the harvested sleeve specifically for the logic "QLD Profit"
   const contribWeights = getContributionAllocation(config);
-  // Check if we actually contributed this month
-  const isContributionMonth = !isFirstMonth && (monthIndex % config.contributionIntervalMonths === 0);
-  const qldContribution = isContributionMonth ? (config.contributionAmount * contribWeights.qld) : 0;
+  const sleeveContribution = isContributionMonth(config, marketData, monthIndex)
+    ? config.contributionAmount * (contribWeights.weights[ticker] || 0)
+    : 0;
 
-  memory.yearInflow = (memory.yearInflow || 0) + qldContribution;
+  memory.yearInflow = (memory.yearInflow || 0) + sleeveContribution;
 
-  // 4. End of Year Check (December)
-  if (currentMonth === 11) {
-    const currentQLDVal = newState.shares.QLD * marketData.qld;
+  // 4. Yearly Check (evaluation month)
+  if (currentMonth === smart.evaluationMonth) {
+    const currentSleeveVal = (newState.shares[ticker] || 0) * price;
     // Profit = EndingValue - (StartingValue + Costs)
-    const profit = currentQLDVal - (memory.startQLDVal + memory.yearInflow);
+    const profit = currentSleeveVal - (memory.startQLDVal + memory.yearInflow);
+    const drawdown = (1 - price / memory.peakPrice) * 100;
+    const isDip = smart.dipTrigger === 'DRAWDOWN' ? drawdown >= smart.drawdownTrigger : profit <= 0;
 
-    if (profit > 0) {
-      // Rule: Sell 1/3 of Profit -> Cash
-      const sellAmount = profit / 3;
-      const sharesToSell = sellAmount / marketData.qld;
+    const reserveIsCash = smart.harvestInto === SMART_CASH_RESERVE;
+    const reservePrice = reserveIsCash ? 1 : getAssetPrice(marketData, smart.harvestInto);
+    const reserveValue = reserveIsCash ? newState.cashBalance : (newState.shares[smart.harvestInto] || 0) * reservePrice;
 
-      newState.shares.QLD -= sharesToSell;
-      newState.cashBalance += sellAmount;
+    if (isDip) {
+      // Rule: Buy a share of Total Portfolio Value using the reserve
+      const buyAmount = newState.totalValue * smart.dipBuyPercent / 100;
 
-      memory.lastAction = `Sold Profit ${sellAmount.toFixed(2)}`;
-    } else {
-      // Rule: Buy 2% of Total Portfolio Value using Cash
-      const buyAmount = newState.totalValue * 0.02;
-
-      // Can only buy if we have cash
-      const actualBuyAmount = Math.min(buyAmount, newState.cashBalance);
+      // Can only buy from what the reserve holds
+      const actualBuyAmount = reservePrice > 0 ? Math.min(buyAmount, Math.max(0, reserveValue)) : 0;
 
       if (actualBuyAmount > 0) {
-        const sharesToBuy = actualBuyAmount / marketData.qld;
-        newState.shares.QLD += sharesToBuy;
-        newState.cashBalance -= actualBuyAmount;
+        newState.shares[ticker] = (newState.shares[ticker] || 0) + actualBuyAmount / price;
+        if (reserveIsCash) newState.cashBalance -= actualBuyAmount;
+        else newState.shares[smart.harvestInto] -= actualBuyAmount / reservePrice;
         memory.lastAction = `Bought Dip ${actualBuyAmount.toFixed(2)}`;
       }
+    } else if (profit > 0 && reservePrice > 0) {
+      // Rule: Sell a fraction of Profit -> reserve, without growing it past its cap
+      const reserveRoom = Math.max(0, newState.totalValue * smart.maxReservePercent / 100 - reserveValue);
+      const sellAmount = Math.min(profit * smart.harvestFraction / 100, reserveRoom);
+
+      if (sellAmount > 0) {
+        newState.shares[ticker] -= sellAmount / price;
+        if (reserveIsCash) newState.cashBalance += sellAmount;
+        else newState.shares[smart.harvestInto] = (newState.shares[smart.harvestInto] || 0) + sellAmount / reservePrice;
+        memory.lastAction = `Sold Profit ${sellAmount.toFixed(2)}`;
+      }
     }
   }
 
   // Update total value after potential swaps
-  newState.totalValue =
-    (newState.shares.QQQ * marketData.qqq) +
-    (newState.shares.QLD * marketData.qld) +
-    newState.cashBalance;
+  newState.totalValue = getHoldingsValue(newState.shares, marketData) + newState.cashBalance;
+
+  newState.strategyMemory = memory;
+  return newState;
+};
+
+export const DEFAULT_TREND_CONFIG: TrendConfig = { maType: 'SMA', periodMonths: 10, hysteresis: 2, riskOffFraction: 100 };
+
+/**
+ * Adds this month's close to the moving-average state kept in strategy memory and returns the average,
+ * or undefined until `periodMonths` closes have been seen. The EMA is seeded with the first close.
+ */
+const updateMovingAverage = (memory: Record<string, any>, price: number, trend: TrendConfig): number | undefined => {
+  const period = Math.max(1, Math.round(trend.periodMonths));
+  const closes: number[] = [...(memory.trendCloses || []), price].slice(-period);
+  memory.trendCloses = closes;
+  if (trend.maType === 'EMA') {
+    const k = 2 / (period + 1);
+    memory.trendEma = memory.trendEma === undefined ? price : price * k + memory.trendEma * (1 - k);
+  }
+  if (closes.length < period) return undefined;
+  return trend.maType === 'EMA' ? memory.trendEma : closes.reduce((a, b) => a + b, 0) / period;
+};
+
+/**
+ * Strategy: Trend Following (Moving Average)
+ * Standard DCA at the target mix while QQQ closes above its N-month moving average. A close below
+ * MA x (1 - band) switches risk-off and moves part or all of the leveraged sleeve to cash, along with
+ * that share of later contributions to it; a close above MA x (1 + band) switches back and rebalances
+ * to target. Each switch is logged as a SIGNAL event; the indicator lives in strategyMemory.
+ */
+export const strategyTrend: StrategyFunction = (state, marketData, config, monthIndex) => {
+  const trend = { ...DEFAULT_TREND_CONFIG, ...config.trend };
+  const sleeve = getLeveragedAsset(getPortfolioAssets(config))?.ticker;
+  const memory = { ...(state.strategyMemory || {}) };
+  const wasRiskOn: boolean = memory.riskOn ?? true;
+
+  const price = getAssetPrice(marketData, BASE_TICKER);
+  const ma = price > 0 ? updateMovingAverage(memory, price, trend) : undefined;
+  memory.trendMa = ma;
+
+  let riskOn = wasRiskOn;
+  if (ma !== undefined) {
+    if (wasRiskOn && price < ma * (1 - trend.hysteresis / 100)) riskOn = false;
+    else if (!wasRiskOn && price > ma * (1 + trend.hysteresis / 100)) riskOn = true;
+  }
+  memory.riskOn = riskOn;
+
+  const newState = strategyNoRebalance(state, marketData, config, monthIndex);
+  newState.strategyMemory = memory;
+  const maLabel = `${Math.round(trend.periodMonths)}-month ${trend.maType} ${ma?.toFixed(2)}`;
+
+  if (!riskOn && sleeve) {
+    const sleevePrice = getAssetPrice(marketData, sleeve);
+    // On the switch the whole sleeve is de-risked, afterwards only what the contributions added
+    const exposed = wasRiskOn
+      ? newState.shares[sleeve] || 0
+      : Math.max(0, (newState.shares[sleeve] || 0) - (state.shares[sleeve] || 0));
+    const sold = exposed * trend.riskOffFraction / 100;
+    newState.shares[sleeve] = (newState.shares[sleeve] || 0) - sold;
+    newState.cashBalance += sold * sleevePrice;
+  }
+
+  if (riskOn && !wasRiskOn) {
+    const totalVal = getHoldingsValue(newState.shares, marketData) + newState.cashBalance;
+    const targetWeights = getAssetAllocation(config);
+    Object.keys(newState.shares).forEach(ticker => { newState.shares[ticker] = 0; });
+    Object.entries(targetWeights.weights).forEach(([ticker, weight]) => {
+      newState.shares[ticker] = (totalVal * weight) / getAssetPrice(marketData, ticker);
+    });
+    newState.cashBalance = totalVal * targetWeights.cash;
+  }
+
+  if (riskOn !== wasRiskOn) {
+    newState.events = [...(newState.events || []), {
+      type: 'SIGNAL',
+      description: riskOn
+        ? `Risk-On: ${BASE_TICKER} ${price.toFixed(2)} above ${maLabel}, back to target`
+        : `Risk-Off: ${BASE_TICKER} ${price.toFixed(2)} below ${maLabel}, ${trend.riskOffFraction}% of ${sleeve ?? 'leveraged sleeve'} to cash`
+    }];
+  }
+
+  newState.totalValue = getHoldingsValue(newState.shares, marketData) + newState.cashBalance;
+  return newState;
+};
+
+export const DEFAULT_VOL_TARGET: VolTargetConfig = { targetVol: 20, windowMonths: 12, maxBeta: 2, maxTurnover: 25, rebalanceBand: 0.1 };
+
+// Share of maxLtv a vol target book may use, leaving room for a month of price moves and interest
+const VOL_TARGET_LTV_USE = 0.8;
+
+/**
+ * Strategy: Volatility Targeting
+ * Standard DCA, then each month sizes the QQQ / leveraged sleeve / cash split so that the portfolio beta
+ * (on net equity, as PortfolioState.beta) times QQQ's realized volatility over the window meets the target:
+ * beta = target / realized volatility, capped at maxBeta and at what the sleeves can reach. Other assets keep
+ * their target weights. With leverage on, the leveraged sleeve (then QQQ) gives way to cash as far as the
+ * collateral must cover the loan at 80% of maxLtv. Trades only when the beta is off its target by more than the
+ * band; the month's trades are scaled down to at most maxTurnover % of equity. Holds the DCA mix until the
+ * window fills.
+ */
+export const strategyVolTarget: StrategyFunction = (state, marketData, config, monthIndex) => {
+  const volTarget = { ...DEFAULT_VOL_TARGET, ...config.volTarget };
+  const memory = { ...(state.strategyMemory || {}) };
+  const window = Math.max(2, Math.round(volTarget.windowMonths));
+  const price = getAssetPrice(marketData, BASE_TICKER);
+  const closes: number[] = price > 0 ? [...(memory.volCloses || []), price].slice(-(window + 1)) : memory.volCloses || [];
+  memory.volCloses = closes;
+
+  const newState = strategyNoRebalance(state, marketData, config, monthIndex);
+  newState.strategyMemory = memory;
+  const total = newState.totalValue;
+  const liability = newState.debtBalance + newState.accruedInterest;
+  const equity = total - liability;
+  if (monthIndex === 0 || closes.length <= window || equity <= 0) return newState;
+
+  const returns = closes.slice(1).map((close, i) => close / closes[i] - 1);
+  const realizedVol = calculateVolatility(returns);
+  const targetBeta = realizedVol > 0 ? Math.min(volTarget.maxBeta, volTarget.targetVol / realizedVol) : volTarget.maxBeta;
+  memory.realizedVol = realizedVol;
+  memory.targetBeta = targetBeta;
+
+  // Sleeves: QQQ, the leveraged asset (if any beats QQQ's beta) and cash; the rest of the universe stays at target
+  const assets = getPortfolioAssets(config);
+  const allocation = getAssetAllocation(config);
+  const coreAsset = assets.find(a => a.ticker === BASE_TICKER);
+  const coreBeta = coreAsset?.beta || 1;
+  const leveraged = getLeveragedAsset(assets.filter(a => a.ticker !== BASE_TICKER && a.beta > coreBeta));
+  const others = assets.filter(a => a.ticker !== BASE_TICKER && a.ticker !== leveraged?.ticker);
+  const othersWeight = others.reduce((sum, a) => sum + (allocation.weights[a.ticker] || 0), 0);
+  const othersBeta = others.reduce((sum, a) => sum + (allocation.weights[a.ticker] || 0) * a.beta, 0);
+
+  const sleeve = Math.max(0, 1 - othersWeight);
+  const maxSleeveBeta = (leveraged ? leveraged.beta : coreBeta) * sleeve;
+  const sleeveBeta = Math.min(maxSleeveBeta, Math.max(0, targetBeta - othersBeta));
+  const weights: Record<string, number> = {};
+  others.forEach(a => { weights[a.ticker] = allocation.weights[a.ticker] || 0; });
+  if (leveraged && sleeveBeta > coreBeta * sleeve) {
+    weights[leveraged.ticker] = (sleeveBeta - coreBeta * sleeve) / (leveraged.beta - coreBeta);
+    weights[BASE_TICKER] = sleeve - weights[leveraged.ticker];
+  } else {
+    weights[BASE_TICKER] = sleeveBeta / coreBeta;
+  }
+
+  // Weights are of equity, so what a loan brought in stays in cash. Collateral counts cash at cashPledgeRatio:
+  // shifting the leveraged sleeve into QQQ, then QQQ into cash, raises it wherever their pledge ratios are lower
+  const { leverage } = config;
+  const pledgeRatio = (ticker: string) => assets.find(a => a.ticker === ticker)?.pledgeRatio ?? 0;
+  const collateralOf = (values: Record<string, number>) => total * leverage.cashPledgeRatio
+    + Object.entries(values).reduce((sum, [ticker, value]) => sum + value * (pledgeRatio(ticker) - leverage.cashPledgeRatio), 0);
+  const required = leverage.enabled && leverage.ltvBasis === 'COLLATERAL' && leverage.maxLtv > 0
+    ? liability * 100 / (leverage.maxLtv * VOL_TARGET_LTV_USE)
+    : 0;
+  if (required > 0) {
+    const collateral = () => collateralOf(Object.fromEntries(Object.entries(weights).map(([ticker, w]) => [ticker, w * equity])));
+    const corePledge = pledgeRatio(BASE_TICKER);
+    if (leveraged && collateral() < required && corePledge > leveraged.pledgeRatio) {
+      const shift = Math.min(weights[leveraged.ticker] || 0, (required - collateral()) / (equity * (corePledge - leveraged.pledgeRatio)));
+      weights[leveraged.ticker] = (weights[leveraged.ticker] || 0) - shift;
+      weights[BASE_TICKER] += shift;
+    }
+    if (collateral() < required && leverage.cashPledgeRatio > corePledge) {
+      weights[BASE_TICKER] -= Math.min(weights[BASE_TICKER], (required - collateral()) / (equity * (leverage.cashPledgeRatio - corePledge)));
+    }
+  }
+
+  // Beta now and as planned, both on equity; within the band nothing trades, unless the plan makes up short collateral
+  const betaOf = (values: Record<string, number>) =>
+    Object.entries(values).reduce((sum, [ticker, value]) => sum + value * (assets.find(a => a.ticker === ticker)?.beta ?? 0), 0) / equity;
+  const tickers = Array.from(new Set([...Object.keys(weights), ...Object.keys(newState.shares)]));
+  const current: Record<string, number> = {};
+  tickers.forEach(ticker => { current[ticker] = (newState.shares[ticker] || 0) * getAssetPrice(marketData, ticker); });
+  const desired: Record<string, number> = {};
+  tickers.forEach(ticker => { desired[ticker] = (weights[ticker] || 0) * equity; });
+  const currentBeta = betaOf(current);
+  const plannedBeta = betaOf(desired);
+  if (Math.abs(plannedBeta - currentBeta) <= Math.max(0, volTarget.rebalanceBand) && collateralOf(current) >= Math.min(required, collateralOf(desired))) return newState;
+
+  // Trades capped by the turnover limit (cash included)
+  const investedAfter = Object.values(desired).reduce((a, b) => a + b, 0);
+  const traded = (tickers.reduce((sum, ticker) => sum + Math.abs(desired[ticker] - current[ticker]), 0)
+    + Math.abs((total - investedAfter) - newState.cashBalance)) / 2;
+  const limit = equity * volTarget.maxTurnover / 100;
+  const scale = traded > limit ? limit / traded : 1;
+  if (scale <= 0) return newState;
+
+  tickers.forEach(ticker => {
+    const value = current[ticker] + (desired[ticker] - current[ticker]) * scale;
+    newState.shares[ticker] = value / getAssetPrice(marketData, ticker);
+  });
+  newState.cashBalance = total - getHoldingsValue(newState.shares, marketData);
+  newState.totalValue = total;
+
+  newState.events = [...(newState.events || []), {
+    type: 'REBALANCE',
+    description: `Vol Target: ${BASE_TICKER} realized ${realizedVol.toFixed(1)}% -> beta ${currentBeta.toFixed(2)} to ${plannedBeta.toFixed(2)}${plannedBeta < targetBeta - 1e-6 ? ` (target ${targetBeta.toFixed(2)})` : ''}${scale < 1 ? ` (capped at ${volTarget.maxTurnover}% turnover)` : ''}`
+  }];
+  return newState;
+};
+
+export const DEFAULT_VALUE_AVERAGING: ValueAveragingConfig = { expectedReturn: 8, maxContribution: 0, allowWithdrawals: false, maxWithdrawal: 0 };
 
+/**
+ * Strategy: Value Averaging
+ * The portfolio follows a target path that starts at the initial capital, compounds monthly at the expected
+ * return and rises by contributionAmount each contribution period. In a contribution month the contribution
+ * is whatever closes the gap to the path (up to maxContribution), invested by contribution weights. Above the
+ * path nothing is invested, or with withdrawals allowed the excess (up to maxWithdrawal) is taken out of every
+ * holding pro rata.
+ */
+export const strategyValueAveraging: StrategyFunction = (state, marketData, config, monthIndex) => {
+  if (monthIndex === 0) {
+    const newState = strategyNoRebalance(state, marketData, config, monthIndex);
+    newState.strategyMemory = { ...newState.strategyMemory, vaTarget: config.initialCapital, vaMonth: 0 };
+    return newState;
+  }
+
+  const va = { ...DEFAULT_VALUE_AVERAGING, ...config.valueAveraging };
+  const memory = { ...(state.strategyMemory || {}) };
+  const newState = { ...state, date: marketData.date, shares: { ...state.shares }, strategyMemory: memory };
+
+  // Path compounds every month (daily runs can skip months without a trading day)
+  const monthlyGrowth = Math.pow(1 + va.expectedReturn / 100, 1 / 12);
+  memory.vaTarget = (memory.vaTarget ?? config.initialCapital) * Math.pow(monthlyGrowth, monthIndex - (memory.vaMonth ?? 0));
+  memory.vaMonth = monthIndex;
+
+  if (isContributionMonth(config, marketData, monthIndex)) {
+    memory.vaTarget += config.contributionAmount;
+    const value = getHoldingsValue(newState.shares, marketData) + newState.cashBalance - newState.debtBalance;
+    const gap = memory.vaTarget - value;
+    const cap = (limit: number) => (limit > 0 ? limit : Infinity);
+    const flow = gap >= 0
+      ? Math.min(gap, cap(va.maxContribution))
+      : va.allowWithdrawals ? -Math.min(-gap, cap(va.maxWithdrawal)) : 0;
+
+    if (flow > 0) {
+      investContribution(newState, marketData, flow, getContributionAllocation(config));
+    } else if (flow < 0) {
+      const gross = getHoldingsValue(newState.shares, marketData) + newState.cashBalance;
+      const fraction = gross > 0 ? Math.min(1, -flow / gross) : 0;
+      Object.keys(newState.shares).forEach(ticker => { newState.shares[ticker] *= 1 - fraction; });
+      newState.cashBalance *= 1 - fraction;
+    }
+    memory.vaLastFlow = flow;
+  }
+
+  newState.totalValue = getHoldingsValue(newState.shares, marketData) + newState.cashBalance;
+  return newState;
+};
+
+export const DEFAULT_CPPI: CppiConfig = { floorType: 'RATCHET', floorValue: 80, multiplier: 3, maxExposure: 100 };
+
+/**
+ * Strategy: CPPI (Constant Proportion Portfolio Insurance)
+ * Standard DCA, then every month the risky exposure is reset to multiplier x cushion (net equity, after the
+ * loan, its interest and the tax owed, above the floor), capped at maxExposure % of equity and split over the
+ * risky assets by their target weights; the rest waits in cash. A ratchet floor follows the peak of equity
+ * grown by performance only: a contribution lifts the peak by its own amount, never to a new high by itself.
+ * A month that opens below the floor is a gap event: the risky assets fell more than 1 / multiplier before
+ * the rebalance could react. Floor, cushion, exposure and gap live in strategyMemory.
+ */
+export const strategyCppi: StrategyFunction = (state, marketData, config, monthIndex) => {
+  const cppi = { ...DEFAULT_CPPI, ...config.cppi };
+  const memory = { ...(state.strategyMemory || {}) };
+  const newState = strategyNoRebalance(state, marketData, config, monthIndex);
+  newState.strategyMemory = memory;
+
+  const equity = newState.totalValue - newState.debtBalance - newState.accruedInterest - (newState.taxLiability || 0);
+  const inflow = isContributionMonth(config, marketData, monthIndex) ? config.contributionAmount : 0;
+  // Gap check of the equity the month opened with against last month's floor, before this month's equity can ratchet it up
+  const previousFloor: number | undefined = memory.cppiFloor;
+  const openingEquity = equity - inflow;
+  memory.cppiGap = previousFloor !== undefined && openingEquity < previousFloor ? ((previousFloor - openingEquity) / previousFloor) * 100 : 0;
+
+  memory.cppiPeak = Math.max(memory.cppiPeak ?? 0, openingEquity) + inflow;
+  const floor = cppi.floorType === 'RATCHET' ? memory.cppiPeak * cppi.floorValue / 100 : cppi.floorValue;
+  const cushion = Math.max(0, equity - floor);
+  const exposure = Math.min(cppi.multiplier * cushion, Math.max(0, equity) * cppi.maxExposure / 100);
+  memory.cppiFloor = floor;
+  memory.cppiCushion = cushion;
+  memory.cppiExposure = exposure;
+
+  // Risky sleeve split by the target weights of the invested assets
+  const allocation = getAssetAllocation(config);
+  const riskyWeight = Object.values(allocation.weights).reduce((a, b) => a + b, 0);
+  const split: Record<string, number> = riskyWeight > 0
+    ? Object.fromEntries(Object.entries(allocation.weights).map(([ticker, weight]) => [ticker, weight / riskyWeight]))
+    : { [BASE_TICKER]: 1 };
+
+  const total = newState.totalValue;
+  Object.keys(newState.shares).forEach(ticker => { newState.shares[ticker] = 0; });
+  Object.entries(split).forEach(([ticker, weight]) => {
+    newState.shares[ticker] = (exposure * weight) / getAssetPrice(marketData, ticker);
+  });
+  newState.cashBalance = total - exposure;
+
+  if (memory.cppiGap > 0) {
+    newState.events = [...(newState.events || []), {
+      type: 'INFO',
+      description: `CPPI Gap: equity ${openingEquity.toFixed(2)} opened ${memory.cppiGap.toFixed(1)}% below the floor ${previousFloor!.toFixed(2)}`
+    }];
+  }
+  return newState;
+};
+
+export const DEFAULT_DRAWDOWN_LADDER: DrawdownLadderConfig = {
+  steps: [
+    { drawdown: 10, leveragedWeight: 20 },
+    { drawdown: 20, leveragedWeight: 40 },
+    { drawdown: 30, leveragedWeight: 60 }
+  ],
+  gradualRecovery: false
+};
+
+/**
+ * Strategy: Drawdown Ladder
+ * Standard DCA at the base allocation. As QQQ falls further below its all-time high, each ladder rung
+ * passed raises the leveraged sleeve to that rung's weight, the other holdings (cash included) making room
+ * in proportion to their base weights. The deepest rung is held until QQQ makes a new high, which restores
+ * the base allocation; with gradual recovery the ladder is walked back down as the drawdown shrinks.
+ * Every step is traded with its reason.
+ */
+export const strategyDrawdownLadder: StrategyFunction = (state, marketData, config, monthIndex) => {
+  const ladder = { ...DEFAULT_DRAWDOWN_LADDER, ...config.drawdownLadder };
+  const steps = [...ladder.steps].sort((a, b) => a.drawdown - b.drawdown);
+  const sleeve = getLeveragedAsset(getPortfolioAssets(config))?.ticker;
+  const memory = { ...(state.strategyMemory || {}) };
+  const newState = strategyNoRebalance(state, marketData, config, monthIndex);
+  newState.strategyMemory = memory;
+
+  const price = getAssetPrice(marketData, BASE_TICKER);
+  if (!sleeve || price <= 0) return newState;
+
+  const isNewHigh = price >= (memory.ladderHigh ?? 0);
+  memory.ladderHigh = Math.max(memory.ladderHigh ?? 0, price);
+  const drawdown = (1 - price / memory.ladderHigh) * 100;
+  memory.ladderDrawdown = drawdown;
+
+  // Index of the deepest rung reached, -1 = base allocation
+  const rung = steps.reduce((deepest, step, i) => (drawdown >= step.drawdown ? i : deepest), -1);
+  const previousLevel: number = memory.ladderLevel ?? -1;
+  const level = isNewHigh ? -1 : ladder.gradualRecovery ? rung : Math.max(previousLevel, rung);
+  memory.ladderLevel = level;
+  if (level === previousLevel || monthIndex === 0) return newState;
+
+  const base = getAssetAllocation(config);
+  const sleeveWeight = level >= 0 ? Math.min(100, Math.max(0, steps[level].leveragedWeight)) / 100 : base.weights[sleeve] || 0;
+  // Everything else keeps its base proportions within what the sleeve leaves
+  const othersBase = 1 - (base.weights[sleeve] || 0);
+  const othersScale = othersBase > 0 ? (1 - sleeveWeight) / othersBase : 0;
+  const weights: Record<string, number> = {};
+  Object.entries(base.weights).forEach(([ticker, weight]) => { weights[ticker] = weight * othersScale; });
+  weights[sleeve] = sleeveWeight;
+  const cashWeight = othersBase > 0 ? base.cash * othersScale : 1 - sleeveWeight;
+
+  const reason = level >= 0
+    ? `${BASE_TICKER} ${drawdown.toFixed(1)}% below its high of ${memory.ladderHigh.toFixed(2)}: ladder step -${steps[level].drawdown}% -> ${steps[level].leveragedWeight}% ${sleeve}`
+    : isNewHigh
+      ? `${BASE_TICKER} at a new high of ${price.toFixed(2)}: back to the base allocation`
+      : `${BASE_TICKER} recovered to ${drawdown.toFixed(1)}% below its high: back to the base allocation`;
+
+  const total = newState.totalValue;
+  const events = [...(newState.events || [])];
+  Array.from(new Set([...Object.keys(newState.shares), ...Object.keys(weights)])).forEach(ticker => {
+    newState.shares[ticker] = ((weights[ticker] || 0) * total) / getAssetPrice(marketData, ticker);
+    events.push({ type: 'TRADE', ticker, reason, description: reason });
+  });
+  newState.cashBalance = total * cashWeight;
+  newState.events = events;
+  return newState;
+};
+
+/**
+ * Strategy: Rules
+ * Standard DCA, then the profile's declarative rules are checked in order: each rule whose conditions all
+ * hold applies its actions in order at this month's prices (a rule marked onlyOnEntry only in the month its
+ * conditions start holding). Every trade a rule places carries the rule as its reason. BORROW actions are
+ * skipped unless leverage is enabled, as only then does the engine charge interest and check the LTV.
+ */
+export const strategyRules: StrategyFunction = (state, marketData, config, monthIndex) => {
+  const rules = config.rules || [];
+  const memory = { ...(state.strategyMemory || {}) };
+  const grossBefore = getHoldingsValue(state.shares, marketData) + state.cashBalance;
+  const newState = strategyNoRebalance(state, marketData, config, monthIndex);
   newState.strategyMemory = memory;
+  updateRuleMemory(
+    memory,
+    rules,
+    marketData,
+    monthIndex === 0 ? config.initialCapital : grossBefore - state.debtBalance,
+    monthIndex === 0 ? 0 : newState.totalValue - grossBefore
+  );
+
+  const wasActive: boolean[] = memory.ruleActive || [];
+  const events = [...(newState.events || [])];
+  const reasons: Record<string, string> = {};
+  memory.ruleActive = rules.map((rule, i) => {
+    const active = rule.conditions.every(condition => isConditionMet(condition, newState, marketData, memory));
+    if (!active || (rule.onlyOnEntry && wasActive[i])) return active;
+
+    const sharesBefore = { ...newState.shares };
+    rule.actions
+      .filter(action => action.type !== 'BORROW' || config.leverage.enabled)
+      .forEach(action => events.push(...applyRuleAction(action, newState, marketData)));
+    const reason = `Rule "${rule.name}"${rule.conditions.length > 0 ? `: ${rule.conditions.map(describeCondition).join(' and ')}` : ''}`;
+    Object.keys(newState.shares).forEach(ticker => {
+      if (Math.abs(newState.shares[ticker] - (sharesBefore[ticker] || 0)) > 1e-9) reasons[ticker] = reason;
+    });
+    if (rule.actions.some(action => action.type === 'SET_WEIGHTS')) events.push({ type: 'REBALANCE', description: `${reason}, weights reset` });
+    return active;
+  });
+
+  Object.entries(reasons).forEach(([ticker, reason]) => events.push({ type: 'TRADE', ticker, reason, description: reason }));
+  newState.events = events;
+  newState.totalValue = getHoldingsValue(newState.shares, marketData) + newState.cashBalance;
   return newState;
 };
 
@@ -178,6 +773,13 @@ export const getStrategyByType = (type: StrategyType): StrategyFunction => {
     case 'NO_REBALANCE': return strategyNoRebalance;
     case 'REBALANCE': return strategyRebalance;
     case 'SMART': return strategySmart;
+    case 'THRESHOLD': return strategyThreshold;
+    case 'TREND': return strategyTrend;
+    case 'VOL_TARGET': return strategyVolTarget;
+    case 'VALUE_AVERAGING': return strategyValueAveraging;
+    case 'CPPI': return strategyCppi;
+    case 'DRAWDOWN_LADDER': return strategyDrawdownLadder;
+    case 'RULES': return strategyRules;
     default: return strategyNoRebalance;
   }
 };
\ No newline at end of file
@@ -0,0 +1,255 @@
+import { FinancialEvent, MarketDataRow, PortfolioState, RuleAction, RuleActionType, RuleCondition, RuleMetric, RuleOperator, StrategyRule } from "../types";
+import { BASE_TICKER, getAssetPrice, getHoldingsValue } from "./assetUniverse";
+
+export const RULE_METRICS: RuleMetric[] = ['MONTH', 'DATE', 'PRICE_VS_MA', 'DRAWDOWN', 'LTV', 'BETA', 'CASH_PCT', 'YTD_PROFIT'];
+export const RULE_OPERATORS: RuleOperator[] = ['>', '>=', '<', '<=', '=='];
+export const RULE_ACTIONS: RuleActionType[] = ['SET_WEIGHTS', 'BUY', 'SELL', 'MOVE_TO_CASH', 'BORROW', 'REPAY'];
+
+export const DEFAULT_MA_PERIOD = 10;
+
+// Buy the leveraged sleeve up in a correction, back to the base mix once QQQ recovers
+export const DEFAULT_RULES: StrategyRule[] = [
+  {
+    name: 'Correction',
+    conditions: [{ metric: 'DRAWDOWN', operator: '>=', value: 20, ticker: BASE_TICKER }],
+    actions: [{ type: 'SET_WEIGHTS', weights: { QQQ: 40, QLD: 60 } }],
+    onlyOnEntry: true
+  },
+  {
+    name: 'Recovered',
+    conditions: [{ metric: 'DRAWDOWN', operator: '<=', value: 5, ticker: BASE_TICKER }],
+    actions: [{ type: 'SET_WEIGHTS', weights: { QQQ: 60, QLD: 40 } }],
+    onlyOnEntry: true
+  }
+];
+
+// Metrics that follow a ticker, and those that need one
+const TICKER_METRICS: RuleMetric[] = ['PRICE_VS_MA', 'DRAWDOWN'];
+const TICKER_ACTIONS: RuleActionType[] = ['BUY', 'SELL'];
+
+const isMonth = (value: unknown) => typeof value === 'string' && /^\d{4}-(0[1-9]|1[0-2])$/.test(value);
+const isNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Checks a rule set read from JSON (e.g. an imported profile) and lists what is wrong with it;
+ * an empty list means the rules can be run. BORROW is only valid on a profile with leverage enabled:
+ * without it the engine charges no interest and runs no LTV check on the loan.
+ */
+export const validateRules = (rules: unknown, leverageEnabled = true): string[] => {
+  if (!Array.isArray(rules)) return ['Rules must be a list'];
+  const errors: string[] = [];
+  rules.forEach((rule, i) => {
+    const label = `Rule ${i + 1}`;
+    if (!rule || typeof rule !== 'object') {
+      errors.push(`${label}: not an object`);
+      return;
+    }
+    if (typeof rule.name !== 'string') errors.push(`${label}: missing name`);
+    if (!Array.isArray(rule.conditions)) errors.push(`${label}: conditions must be a list`);
+    if (!Array.isArray(rule.actions)) errors.push(`${label}: actions must be a list`);
+
+    (Array.isArray(rule.conditions) ? rule.conditions : []).forEach((c: RuleCondition, j: number) => {
+      const where = `${label}, condition ${j + 1}`;
+      if (!RULE_METRICS.includes(c?.metric)) errors.push(`${where}: unknown metric "${c?.metric}"`);
+      if (!RULE_OPERATORS.includes(c?.operator)) errors.push(`${where}: unknown operator "${c?.operator}"`);
+      if (c?.metric === 'DATE' ? !isMonth(c.value) : !isNumber(c?.value)) {
+        errors.push(`${where}: ${c?.metric === 'DATE' ? 'value must be a YYYY-MM month' : 'value must be a number'}`);
+      }
+      if (c?.periodMonths !== undefined && !(isNumber(c.periodMonths) && c.periodMonths >= 1)) errors.push(`${where}: period must be at least 1 month`);
+    });
+
+    (Array.isArray(rule.actions) ? rule.actions : []).forEach((a: RuleAction, j: number) => {
+      const where = `${label}, action ${j + 1}`;
+      if (!RULE_ACTIONS.includes(a?.type)) {
+        errors.push(`${where}: unknown action "${a?.type}"`);
+        return;
+      }
+      if (TICKER_ACTIONS.includes(a.type) && typeof a.ticker !== 'string') errors.push(`${where}: ${a.type} needs a ticker`);
+      if (a.type === 'BORROW' && !leverageEnabled) errors.push(`${where}: BORROW needs leverage enabled`);
+      if (a.type === 'SET_WEIGHTS') {
+        const weights = Object.values(a.weights && typeof a.weights === 'object' ? a.weights : { invalid: NaN });
+        if (weights.some(w => !isNumber(w) || w < 0)) errors.push(`${where}: weights must be non-negative numbers`);
+        else if (weights.reduce((sum, w) => sum + w, 0) > 100 + 1e-9) errors.push(`${where}: weights add up to more than 100%`);
+      } else {
+        if (a.amount !== undefined && !(isNumber(a.amount) && a.amount >= 0)) errors.push(`${where}: amount must be a non-negative number`);
+        if (a.unit !== undefined && a.unit !== 'AMOUNT' && a.unit !== 'PERCENT') errors.push(`${where}: unknown unit "${a.unit}"`);
+      }
+    });
+  });
+  return errors;
+};
+
+/**
+ * Records this month's closes, highs and year-to-date flows in strategy memory for the rule metrics.
+ * `equityBefore` is the equity before this month's contribution, `inflow` the contribution itself.
+ */
+export const updateRuleMemory = (
+  memory: Record<string, any>,
+  rules: StrategyRule[],
+  marketData: MarketDataRow,
+  equityBefore: number,
+  inflow: number
+) => {
+  const tickers = new Set<string>();
+  const periods: Record<string, number> = {};
+  rules.forEach(rule => rule.conditions.forEach(c => {
+    if (!TICKER_METRICS.includes(c.metric)) return;
+    const ticker = c.ticker || BASE_TICKER;
+    tickers.add(ticker);
+    if (c.metric === 'PRICE_VS_MA') periods[ticker] = Math.max(periods[ticker] || 1, Math.round(c.periodMonths || DEFAULT_MA_PERIOD));
+  }));
+
+  const closes: Record<string, number[]> = { ...(memory.ruleCloses || {}) };
+  const highs: Record<string, number> = { ...(memory.ruleHighs || {}) };
+  tickers.forEach(ticker => {
+    const price = getAssetPrice(marketData, ticker);
+    if (price <= 0) return;
+    closes[ticker] = [...(closes[ticker] || []), price].slice(-(periods[ticker] || 1));
+    highs[ticker] = Math.max(highs[ticker] || 0, price);
+  });
+  memory.ruleCloses = closes;
+  memory.ruleHighs = highs;
+
+  const year = marketData.date.substring(0, 4);
+  if (memory.ruleYear !== year) {
+    memory.ruleYear = year;
+    memory.ruleYearStart = equityBefore;
+    memory.ruleYearInflow = 0;
+  }
+  memory.ruleYearInflow = (memory.ruleYearInflow || 0) + inflow;
+};
+
+/**
+ * Value of a condition's metric this month, or undefined while it cannot be known yet
+ * (a moving average before its window fills)
+ */
+export const getRuleMetric = (
+  condition: RuleCondition,
+  state: PortfolioState,
+  marketData: MarketDataRow,
+  memory: Record<string, any>
+): number | string | undefined => {
+  const ticker = condition.ticker || BASE_TICKER;
+  const gross = getHoldingsValue(state.shares, marketData) + state.cashBalance;
+  switch (condition.metric) {
+    case 'MONTH': return parseInt(marketData.date.substring(5, 7));
+    case 'DATE': return marketData.date.substring(0, 7);
+    case 'PRICE_VS_MA': {
+      const period = Math.max(1, Math.round(condition.periodMonths || DEFAULT_MA_PERIOD));
+      const closes: number[] = (memory.ruleCloses?.[ticker] || []).slice(-period);
+      if (closes.length < period) return undefined;
+      const ma = closes.reduce((a, b) => a + b, 0) / period;
+      return (getAssetPrice(marketData, ticker) / ma - 1) * 100;
+    }
+    case 'DRAWDOWN': {
+      const high = memory.ruleHighs?.[ticker];
+      return high > 0 ? (1 - getAssetPrice(marketData, ticker) / high) * 100 : undefined;
+    }
+    case 'LTV': return state.ltv;
+    case 'BETA': return state.beta;
+    case 'CASH_PCT': return gross > 0 ? (state.cashBalance / gross) * 100 : 0;
+    case 'YTD_PROFIT': {
+      const invested = (memory.ruleYearStart || 0) + (memory.ruleYearInflow || 0);
+      return invested > 0 ? ((gross - state.debtBalance - invested) / invested) * 100 : 0;
+    }
+  }
+};
+
+const compare = (left: number | string, operator: RuleOperator, right: number | string): boolean => {
+  switch (operator) {
+    case '>': return left > right;
+    case '>=': return left >= right;
+    case '<': return left < right;
+    case '<=': return left <= right;
+    case '==': return typeof left === 'number' ? Math.abs(left - Number(right)) < 1e-9 : left === right;
+  }
+};
+
+export const isConditionMet = (condition: RuleCondition, state: PortfolioState, marketData: MarketDataRow, memory: Record<string, any>): boolean => {
+  const metric = getRuleMetric(condition, state, marketData, memory);
+  if (metric === undefined) return false;
+  return compare(metric, condition.operator, condition.metric === 'DATE' ? String(condition.value) : Number(condition.value));
+};
+
+/**
+ * Condition as it reads in the journal, e.g. "QQQ drawdown >= 20"
+ */
+export const describeCondition = (condition: RuleCondition): string => {
+  const ticker = condition.ticker || BASE_TICKER;
+  const subject = {
+    MONTH: 'month',
+    DATE: 'date',
+    PRICE_VS_MA: `${ticker} vs ${Math.round(condition.periodMonths || DEFAULT_MA_PERIOD)}-month MA %`,
+    DRAWDOWN: `${ticker} drawdown`,
+    LTV: 'LTV',
+    BETA: 'beta',
+    CASH_PCT: 'cash %',
+    YTD_PROFIT: 'YTD profit %'
+  }[condition.metric];
+  return `${subject} ${condition.operator} ${condition.value}`;
+};
+
+/**
+ * Applies one action to `state` in place at this month's prices. Loan moves are returned as events;
+ * trades show up as share changes.
+ */
+export const applyRuleAction = (action: RuleAction, state: PortfolioState, marketData: MarketDataRow): FinancialEvent[] => {
+  const percent = (action.unit ?? 'PERCENT') === 'PERCENT';
+  const amount = Math.max(0, action.amount ?? (percent ? 100 : 0));
+  const valueOf = (ticker: string) => (state.shares[ticker] || 0) * getAssetPrice(marketData, ticker);
+  const sell = (ticker: string, value: number) => {
+    const price = getAssetPrice(marketData, ticker);
+    const sold = Math.min(valueOf(ticker), value);
+    if (price <= 0 || sold <= 0) return;
+    state.shares[ticker] -= sold / price;
+    state.cashBalance += sold;
+  };
+
+  switch (action.type) {
+    case 'SET_WEIGHTS': {
+      const weights = action.weights || {};
+      const total = getHoldingsValue(state.shares, marketData) + state.cashBalance;
+      const tickers = Array.from(new Set([...Object.keys(state.shares), ...Object.keys(weights)]));
+      tickers.forEach(ticker => {
+        const price = getAssetPrice(marketData, ticker);
+        state.shares[ticker] = price > 0 ? (total * (weights[ticker] || 0) / 100) / price : 0;
+      });
+      state.cashBalance = total - getHoldingsValue(state.shares, marketData);
+      return [];
+    }
+    case 'BUY': {
+      const ticker = action.ticker!;
+      const price = getAssetPrice(marketData, ticker);
+      const cash = Math.max(0, state.cashBalance);
+      const spent = Math.min(cash, percent ? cash * amount / 100 : amount);
+      if (price <= 0 || spent <= 0) return [];
+      state.shares[ticker] = (state.shares[ticker] || 0) + spent / price;
+      state.cashBalance -= spent;
+      return [];
+    }
+    case 'SELL':
+    case 'MOVE_TO_CASH': {
+      const tickers = action.ticker ? [action.ticker] : Object.keys(state.shares);
+      const held = tickers.reduce((sum, ticker) => sum + valueOf(ticker), 0);
+      // A fixed amount comes out of the positions pro rata
+      const fraction = held > 0 ? Math.min(1, percent ? amount / 100 : amount / held) : 0;
+      tickers.forEach(ticker => sell(ticker, valueOf(ticker) * fraction));
+      return [];
+    }
+    case 'BORROW': {
+      const equity = getHoldingsValue(state.shares, marketData) + state.cashBalance - state.debtBalance;
+      const borrowed = percent ? Math.max(0, equity) * amount / 100 : amount;
+      if (borrowed <= 0) return [];
+      state.debtBalance += borrowed;
+      state.cashBalance += borrowed;
+      return [{ type: 'DEBT_INC', amount: borrowed, description: 'Borrowing increased by rule' }];
+    }
+    case 'REPAY': {
+      const repaid = Math.min(state.debtBalance, Math.max(0, state.cashBalance), percent ? state.debtBalance * amount / 100 : amount);
+      if (repaid <= 0) return [];
+      state.debtBalance -= repaid;
+      state.cashBalance -= repaid;
+      return [{ type: 'DEBT_INC', amount: -repaid, description: 'Loan repaid by rule' }];
+    }
+  }
+};
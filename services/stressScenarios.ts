@@ -0,0 +1,208 @@
+import { AssetConfig, DataFrequency, MarketDataRow, PortfolioState, StrategyFunction } from "../types";
+import { runBacktest } from "./simulationEngine";
+import { calculateMaxDrawdown } from "./financeMath";
+import { getAssetPrice, getHoldingsValue } from "./assetUniverse";
+import { addMonths, detectFrequency } from "./marketDataValidator";
+
+export interface StressScenario {
+  id: string;
+  name: string;
+  isBuiltIn: boolean;
+  // Historical scenarios replay the loaded prices of months start..end (YYYY-MM, inclusive)
+  start?: string;
+  end?: string;
+  // Hypothetical scenarios: monthly % returns per ticker; held tickers not listed stay flat
+  returns?: Record<string, number[]>;
+}
+
+// Month labels follow the data convention (a month's row holds its closing price)
+export const BUILT_IN_SCENARIOS: StressScenario[] = [
+  { id: 'dotcom', name: 'Dot-com 2000-2002', isBuiltIn: true, start: '2000-04', end: '2002-09' },
+  { id: 'gfc', name: 'GFC 2008', isBuiltIn: true, start: '2007-11', end: '2009-02' },
+  { id: 'covid', name: 'COVID Feb-Mar 2020', isBuiltIn: true, start: '2020-02', end: '2020-03' },
+  { id: 'rates2022', name: '2022 Rate Shock', isBuiltIn: true, start: '2022-01', end: '2022-12' }
+];
+
+// The book a scenario is applied to, valued at `date`
+export interface StressSnapshot {
+  date: string;
+  holdings: Record<string, number>; // Market value per ticker
+  cashBalance: number;
+  debtBalance: number;
+  accruedInterest: number;
+}
+
+export interface StressPathPoint {
+  date: string;
+  equity: number;
+  ltv: number;
+  beta: number;
+  debt: number;
+}
+
+export interface StressReplayResult {
+  scenarioId: string;
+  scenarioName: string;
+  path: StressPathPoint[]; // First point is the snapshot before any scenario return
+  survived: boolean; // False when the leverage settings triggered a liquidation
+  liquidationDate: string | null;
+  startEquity: number;
+  minEquity: number;
+  endEquity: number;
+  maxDrawdown: number;
+  peakLtv: number;
+  error?: string; // Set (with an empty path) when the scenario cannot be built for this book
+}
+
+/**
+ * Values a portfolio state (e.g. a profile's final backtest state) at the prices of `row`
+ */
+export const snapshotFromState = (state: PortfolioState, row: MarketDataRow): StressSnapshot => ({
+  date: state.date,
+  holdings: Object.fromEntries(
+    Object.entries(state.shares)
+      .filter(([, count]) => count > 0)
+      .map(([ticker, count]) => [ticker, count * getAssetPrice(row, ticker)])
+  ),
+  cashBalance: state.cashBalance,
+  debtBalance: state.debtBalance,
+  accruedInterest: state.accruedInterest
+});
+
+const toRow = (date: string, prices: Record<string, number>): MarketDataRow => ({ date, prices: { ...prices } });
+
+/**
+ * Price path of a scenario for `tickers`, rebased to 1 on the first row.
+ *
+ * Historical paths start on the last row before `start`, so the first row carries no return.
+ * Hypothetical paths start in the snapshot month and advance one month per return.
+ */
+export const buildScenarioRows = (
+  scenario: StressScenario,
+  marketData: MarketDataRow[],
+  tickers: string[],
+  asOf: string
+): { rows: MarketDataRow[]; error?: string } => {
+  if (scenario.returns) {
+    const length = Math.max(0, ...Object.values(scenario.returns).map(r => r.length));
+    if (length === 0) return { rows: [], error: `${scenario.name}: no returns defined` };
+
+    const prices: Record<string, number> = Object.fromEntries(tickers.map(ticker => [ticker, 1]));
+    const rows = [toRow(addMonths(asOf, 0), prices)];
+    for (let m = 0; m < length; m++) {
+      tickers.forEach(ticker => { prices[ticker] *= 1 + (scenario.returns![ticker]?.[m] ?? 0) / 100; });
+      rows.push(toRow(addMonths(asOf, m + 1), prices));
+    }
+    return { rows };
+  }
+
+  const { start, end } = scenario;
+  if (!start || !end || start > end) return { rows: [], error: `${scenario.name}: invalid month range` };
+
+  const baseIdx = marketData.reduce((found, row, i) => (row.date.substring(0, 7) < start ? i : found), -1);
+  const window = marketData.filter(row => row.date.substring(0, 7) >= start && row.date.substring(0, 7) <= end);
+  const lastMonth = marketData[marketData.length - 1]?.date.substring(0, 7) ?? '';
+  if (baseIdx < 0 || window.length === 0 || lastMonth < end) {
+    return { rows: [], error: `${scenario.name}: price history does not cover ${start} - ${end}` };
+  }
+
+  const base = marketData[baseIdx];
+  const rows = [base, ...window];
+  const missing = tickers.filter(ticker => rows.some(row => !(getAssetPrice(row, ticker) > 0)));
+  if (missing.length > 0) {
+    return { rows: [], error: `${scenario.name}: no ${missing.join(', ')} prices for ${start} - ${end}` };
+  }
+
+  return {
+    rows: rows.map(row => toRow(row.date, Object.fromEntries(tickers.map(ticker => [ticker, getAssetPrice(row, ticker) / getAssetPrice(base, ticker)]))))
+  };
+};
+
+// Replays hold the book as is: no contributions, rebalancing or strategy trades
+const strategyHold: StrategyFunction = (state, row) => ({
+  ...state,
+  date: row.date,
+  totalValue: getHoldingsValue(state.shares, row) + state.cashBalance
+});
+
+/**
+ * Replays a crisis path against a portfolio snapshot.
+ *
+ * The book is held through the scenario while `config`'s cash yield and leverage rules keep
+ * running (interest, annual withdrawals, the max LTV liquidation check), so the result shows
+ * whether today's leverage settings would have survived that path.
+ */
+export const replayStressScenario = (
+  snapshot: StressSnapshot,
+  scenario: StressScenario,
+  marketData: MarketDataRow[],
+  config: AssetConfig,
+  frequency?: DataFrequency
+): StressReplayResult => {
+  const tickers = Object.keys(snapshot.holdings).filter(ticker => snapshot.holdings[ticker] > 0);
+  const startEquity = Object.values(snapshot.holdings).reduce((a, b) => a + b, 0)
+    + snapshot.cashBalance - snapshot.debtBalance - snapshot.accruedInterest;
+  const empty: StressReplayResult = {
+    scenarioId: scenario.id,
+    scenarioName: scenario.name,
+    path: [],
+    survived: true,
+    liquidationDate: null,
+    startEquity,
+    minEquity: startEquity,
+    endEquity: startEquity,
+    maxDrawdown: 0,
+    peakLtv: 0
+  };
+
+  const { rows, error } = buildScenarioRows(scenario, marketData, tickers, snapshot.date);
+  if (error) return { ...empty, error };
+
+  const result = runBacktest(rows, strategyHold, config, scenario.name, '#000000', {
+    frequency: scenario.returns ? 'MONTHLY' : frequency ?? detectFrequency(marketData),
+    skipValidation: true,
+    // Prices are rebased to 1, so each holding's value is its share count
+    initialState: {
+      shares: { ...snapshot.holdings },
+      cashBalance: snapshot.cashBalance,
+      debtBalance: snapshot.debtBalance,
+      accruedInterest: snapshot.accruedInterest
+    }
+  });
+
+  const path = result.history.map(state => ({
+    date: state.date,
+    equity: state.totalValue,
+    ltv: state.ltv,
+    beta: state.beta,
+    debt: state.debtBalance + state.accruedInterest
+  }));
+
+  return {
+    ...empty,
+    path,
+    survived: !result.isBankrupt,
+    liquidationDate: result.bankruptcyDate,
+    minEquity: Math.min(...path.map(p => p.equity)),
+    endEquity: path[path.length - 1].equity,
+    maxDrawdown: calculateMaxDrawdown(result.history),
+    peakLtv: Math.max(...path.map(p => p.ltv))
+  };
+};
+
+/**
+ * Parses hypothetical returns written one ticker per line, e.g. "QQQ: -10, -25, 5".
+ * Throws with the offending line when a value is not a number.
+ */
+export const parseScenarioReturns = (text: string): Record<string, number[]> => {
+  const returns: Record<string, number[]> = {};
+  text.split('\n').map(line => line.trim()).filter(Boolean).forEach(line => {
+    const [ticker, values] = line.split(':');
+    const parsed = (values ?? '').split(',').map(v => v.trim()).filter(Boolean).map(Number);
+    if (!ticker.trim() || parsed.length === 0 || parsed.some(v => !Number.isFinite(v))) {
+      throw new Error(`Cannot read returns from "${line}"`);
+    }
+    returns[ticker.trim().toUpperCase()] = parsed;
+  });
+  return returns;
+};
@@ -0,0 +1,125 @@
+import { PricePoint } from "../types";
+
+// First full month of real QLD prices (the fund launched on 2006-06-21)
+export const QLD_INCEPTION_DATE = '2006-07-01';
+
+export interface SyntheticSeriesParams {
+  leverage: number; // Daily leverage factor, e.g. 2 for QLD, 3 for TQQQ, -1 for PSQ
+  expenseRatio: number; // Annual fund expense ratio in %, e.g. 0.95
+  financingRate: number; // Annual cost in % of borrowing the (leverage - 1) notional
+  volatilityWindow: number; // Trailing periods of base returns used to estimate volatility drag
+  periodsPerYear?: number; // Spacing of the base series: 12 (default) for monthly, ~252 for daily
+}
+
+export const DEFAULT_SYNTHETIC_PARAMS: SyntheticSeriesParams = {
+  leverage: 2,
+  expenseRatio: 0.95,
+  financingRate: 2.0,
+  volatilityWindow: 12
+};
+
+export interface SyntheticSpliceResult {
+  series: PricePoint[];
+  syntheticDates: string[]; // Months of `series` that were reconstructed
+  spliceDate: string | null; // First month of real data, null when the whole series is synthetic
+  errors: string[];
+}
+
+/**
+ * Monthly return of a daily-reset leveraged fund reconstructed from its base index.
+ *
+ * A fund resetting to L x exposure every day earns, over a month with base log return l and
+ * monthly variance s^2, approximately exp(L * l - (L^2 - L) / 2 * s^2) (the second term is the
+ * volatility drag). Financing on the (L - 1) borrowed notional and the expense ratio are then
+ * deducted pro rata. s^2 is estimated from the trailing `volatilityWindow` base log returns
+ * (the same formula applies per day on a daily series).
+ */
+export const getSyntheticReturn = (
+  baseLogReturns: number[],
+  index: number,
+  params: SyntheticSeriesParams
+): number => {
+  const { leverage, expenseRatio, financingRate, volatilityWindow, periodsPerYear = 12 } = params;
+
+  const window = baseLogReturns.slice(Math.max(0, index - volatilityWindow + 1), index + 1);
+  let variance = 0;
+  if (window.length >= 2) {
+    const mean = window.reduce((a, b) => a + b, 0) / window.length;
+    variance = window.reduce((a, b) => a + Math.pow(b - mean, 2), 0) / (window.length - 1);
+  }
+
+  const drag = ((leverage * leverage - leverage) / 2) * variance;
+  const periodCost = ((leverage - 1) * financingRate + expenseRatio) / 100 / periodsPerYear;
+
+  return Math.exp(leverage * baseLogReturns[index] - drag) - 1 - periodCost;
+};
+
+/**
+ * Synthetic leveraged series over the dates of `base`, starting at `startPrice`
+ */
+export const buildSyntheticSeries = (
+  base: PricePoint[],
+  params: SyntheticSeriesParams,
+  startPrice: number = 100
+): PricePoint[] => {
+  const sorted = [...base].sort((a, b) => a.date.localeCompare(b.date));
+  if (sorted.length === 0) return [];
+
+  const logReturns = sorted.map((p, i) => (i === 0 ? 0 : Math.log(p.adjClose / sorted[i - 1].adjClose)));
+  const series: PricePoint[] = [{ date: sorted[0].date, adjClose: startPrice }];
+
+  for (let i = 1; i < sorted.length; i++) {
+    const r = getSyntheticReturn(logReturns, i, params);
+    series.push({ date: sorted[i].date, adjClose: series[i - 1].adjClose * (1 + r) });
+  }
+  return series;
+};
+
+/**
+ * Extends a real leveraged series backwards with synthetic prices derived from `base`.
+ *
+ * Real prices are kept from `spliceDate` (default: first real month) onwards; earlier months are
+ * back-cast from the first real price, so returns are continuous across the splice.
+ * Without any real prices the whole series is synthetic.
+ */
+export const spliceSyntheticSeries = (
+  base: PricePoint[],
+  actual: PricePoint[],
+  params: SyntheticSeriesParams,
+  spliceDate?: string
+): SyntheticSpliceResult => {
+  const sortedBase = [...base].sort((a, b) => a.date.localeCompare(b.date));
+  const sortedActual = [...actual].sort((a, b) => a.date.localeCompare(b.date));
+  const splice = spliceDate || sortedActual[0]?.date;
+
+  if (!splice) {
+    const series = buildSyntheticSeries(sortedBase, params);
+    return { series, syntheticDates: series.map(p => p.date), spliceDate: null, errors: [] };
+  }
+
+  const real = sortedActual.filter(p => p.date >= splice);
+  const anchorIdx = real.length > 0 ? sortedBase.findIndex(p => p.date === real[0].date) : -1;
+  if (real.length === 0 || real[0].date !== splice) {
+    return { series: sortedActual, syntheticDates: [], spliceDate: splice, errors: [`No real price at splice month ${splice}`] };
+  }
+  if (anchorIdx < 0) {
+    return { series: sortedActual, syntheticDates: [], spliceDate: splice, errors: [`Base series has no price at splice month ${splice}`] };
+  }
+
+  const logReturns = sortedBase.map((p, i) => (i === 0 ? 0 : Math.log(p.adjClose / sortedBase[i - 1].adjClose)));
+
+  // Walk backwards: P[i-1] = P[i] / (1 + r[i])
+  const synthetic: PricePoint[] = [];
+  let price = real[0].adjClose;
+  for (let i = anchorIdx; i > 0; i--) {
+    price = price / (1 + getSyntheticReturn(logReturns, i, params));
+    synthetic.unshift({ date: sortedBase[i - 1].date, adjClose: price });
+  }
+
+  return {
+    series: [...synthetic, ...real],
+    syntheticDates: synthetic.map(p => p.date),
+    spliceDate: splice,
+    errors: []
+  };
+};
@@ -0,0 +1,122 @@
+import { MarketDataRow, TaxConfig, TaxLot } from "../types";
+import { getAssetPrice } from "./assetUniverse";
+import { monthsBetween } from "./marketDataValidator";
+
+// Share counts below this are float noise from the strategies' arithmetic
+const SHARE_EPSILON = 1e-9;
+
+export interface RealizedGains {
+  shortTerm: number;
+  longTerm: number;
+}
+
+/**
+ * Orders a ticker's lots in the sequence they are sold under the selection rule:
+ * FIFO oldest first, LIFO newest first, HIFO highest cost basis first.
+ */
+const sortForSale = (lots: TaxLot[], selection: TaxConfig['lotSelection']): TaxLot[] => {
+  const sorted = [...lots];
+  if (selection === 'LIFO') sorted.sort((a, b) => b.acquired.localeCompare(a.acquired));
+  else if (selection === 'HIFO') sorted.sort((a, b) => b.costBasis - a.costBasis);
+  else sorted.sort((a, b) => a.acquired.localeCompare(b.acquired));
+  return sorted;
+};
+
+/**
+ * Sells `shares` of `ticker` out of the lots at `price`.
+ * Returns the remaining lots and the gains, split by whether each lot was held for at least
+ * `holdingPeriodMonths`. Selling more than the lots hold treats the excess as zero-gain.
+ */
+export const sellFromLots = (
+  lots: TaxLot[],
+  ticker: string,
+  shares: number,
+  price: number,
+  date: string,
+  tax: TaxConfig
+): { lots: TaxLot[]; gains: RealizedGains } => {
+  const gains: RealizedGains = { shortTerm: 0, longTerm: 0 };
+  const others = lots.filter(lot => lot.ticker !== ticker);
+  const remaining: TaxLot[] = [];
+  let toSell = shares;
+
+  sortForSale(lots.filter(lot => lot.ticker === ticker), tax.lotSelection).forEach(lot => {
+    const sold = Math.min(lot.shares, toSell);
+    toSell -= sold;
+    if (sold > 0) {
+      const gain = sold * (price - lot.costBasis);
+      if (monthsBetween(lot.acquired, date) >= tax.holdingPeriodMonths) gains.longTerm += gain;
+      else gains.shortTerm += gain;
+    }
+    if (lot.shares - sold > SHARE_EPSILON) remaining.push({ ...lot, shares: lot.shares - sold });
+  });
+
+  // Keep the original acquisition order so later FIFO/LIFO picks stay stable
+  return {
+    lots: [...others, ...remaining.sort((a, b) => a.acquired.localeCompare(b.acquired))],
+    gains
+  };
+};
+
+/**
+ * Brings the lots in line with a change of holdings: every increase opens a lot at today's
+ * price, every decrease is sold out of the existing lots.
+ */
+export const reconcileLots = (
+  lots: TaxLot[],
+  sharesBefore: Record<string, number>,
+  sharesAfter: Record<string, number>,
+  row: MarketDataRow,
+  tax: TaxConfig
+): { lots: TaxLot[]; gains: RealizedGains } => {
+  const gains: RealizedGains = { shortTerm: 0, longTerm: 0 };
+  let updated = lots;
+  const tickers = Array.from(new Set([...Object.keys(sharesBefore), ...Object.keys(sharesAfter)]));
+
+  tickers.forEach(ticker => {
+    const diff = (sharesAfter[ticker] || 0) - (sharesBefore[ticker] || 0);
+    if (Math.abs(diff) <= SHARE_EPSILON) return;
+    const price = getAssetPrice(row, ticker);
+    if (diff > 0) {
+      updated = [...updated, { ticker, shares: diff, costBasis: price, acquired: row.date }];
+    } else {
+      const sale = sellFromLots(updated, ticker, -diff, price, row.date, tax);
+      updated = sale.lots;
+      gains.shortTerm += sale.gains.shortTerm;
+      gains.longTerm += sale.gains.longTerm;
+    }
+  });
+
+  return { lots: updated, gains };
+};
+
+/**
+ * Tax on a year's realized gains.
+ *
+ * Short- and long-term results are netted against each other (a net loss on one side reduces
+ * the gain on the other), after applying losses carried over from earlier years to the
+ * short-term side first. A net loss overall carries forward.
+ */
+export const calculateCapitalGainsTax = (
+  gains: RealizedGains,
+  lossCarryforward: number,
+  tax: TaxConfig
+): { tax: number; lossCarryforward: number } => {
+  let shortTerm = gains.shortTerm - lossCarryforward;
+  let longTerm = gains.longTerm;
+  if (shortTerm < 0 && longTerm > 0) {
+    longTerm += shortTerm;
+    shortTerm = 0;
+  } else if (longTerm < 0 && shortTerm > 0) {
+    shortTerm += longTerm;
+    longTerm = 0;
+  }
+
+  const net = shortTerm + longTerm;
+  if (net <= 0) return { tax: 0, lossCarryforward: -net };
+
+  return {
+    tax: Math.max(0, shortTerm) * tax.shortTermRate / 100 + Math.max(0, longTerm) * tax.longTermRate / 100,
+    lossCarryforward: 0
+  };
+};
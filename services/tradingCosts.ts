@@ -0,0 +1,85 @@
+import { FinancialEvent, MarketDataRow, TradingCostConfig } from "../types";
+import { getAssetPrice } from "./assetUniverse";
+
+// Share changes below this are float noise, not orders
+const ORDER_EPSILON = 1e-9;
+
+export interface TradeExecution {
+  shares: Record<string, number>;
+  cashBalance: number;
+  cost: number; // Commissions + slippage charged
+  events: FinancialEvent[];
+}
+
+/**
+ * Commission of one order of `shares` (either side), at least the minimum ticket
+ */
+export const calculateCommission = (shares: number, costs: TradingCostConfig): number =>
+  Math.abs(shares) <= ORDER_EPSILON
+    ? 0
+    : Math.max(costs.minCommission, costs.commissionFixed + Math.abs(shares) * costs.commissionPerShare);
+
+/**
+ * Charges commissions and slippage on the orders that took the book from `sharesBefore` to
+ * `sharesAfter`, which were filled at the row's prices with `cashBalance` left over.
+ *
+ * Buys fill `slippageBps` above the price and sells below it, so the slippage is the traded value
+ * times the spread. When the charges leave cash negative, the buys are scaled down until they fit
+ * (by whole shares with `wholeShares`).
+ */
+export const applyTradingCosts = (
+  sharesBefore: Record<string, number>,
+  sharesAfter: Record<string, number>,
+  cashBalance: number,
+  row: MarketDataRow,
+  costs: TradingCostConfig,
+  slippageBps: Record<string, number>,
+  wholeShares: boolean = false
+): TradeExecution => {
+  const shares = { ...sharesAfter };
+  const tickers = Array.from(new Set([...Object.keys(sharesBefore), ...Object.keys(sharesAfter)]));
+  const orderOf = (ticker: string) => (shares[ticker] || 0) - (sharesBefore[ticker] || 0);
+  const spreadOf = (ticker: string) => (slippageBps[ticker] ?? 0) / 10000;
+  const costOf = (ticker: string) => {
+    const order = orderOf(ticker);
+    return {
+      commission: calculateCommission(order, costs),
+      slippage: Math.abs(order) * getAssetPrice(row, ticker) * spreadOf(ticker)
+    };
+  };
+  const totalCost = () => tickers.reduce((sum, ticker) => {
+    const { commission, slippage } = costOf(ticker);
+    return sum + commission + slippage;
+  }, 0);
+
+  let cost = totalCost();
+  let refund = 0;
+
+  // Not enough cash for the charges: give back part of every buy at its all-in price per share
+  const buys = tickers.filter(ticker => orderOf(ticker) > ORDER_EPSILON);
+  if (cashBalance - cost < 0 && buys.length > 0) {
+    const allInPrice = (ticker: string) => getAssetPrice(row, ticker) * (1 + spreadOf(ticker)) + costs.commissionPerShare;
+    const buyValue = buys.reduce((sum, ticker) => sum + orderOf(ticker) * allInPrice(ticker), 0);
+    const fraction = Math.min(1, (cost - cashBalance) / buyValue);
+    buys.forEach(ticker => {
+      const order = orderOf(ticker);
+      const reduction = wholeShares ? Math.min(order, Math.ceil(order * fraction - ORDER_EPSILON)) : order * fraction;
+      shares[ticker] -= reduction;
+      refund += reduction * getAssetPrice(row, ticker);
+    });
+    cost = totalCost();
+  }
+
+  const events: FinancialEvent[] = [];
+  tickers.forEach(ticker => {
+    const { commission, slippage } = costOf(ticker);
+    if (commission + slippage <= 0) return;
+    events.push({
+      type: 'FEE',
+      amount: -(commission + slippage),
+      description: `Trading Cost ${ticker} (commission ${commission.toFixed(2)}, slippage ${slippage.toFixed(2)})`
+    });
+  });
+
+  return { shares, cashBalance: cashBalance + refund - cost, cost, events };
+};
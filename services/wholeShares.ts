@@ -0,0 +1,106 @@
+import { MarketDataRow, PortfolioState, SimulationResult } from "../types";
+import { getAssetPrice } from "./assetUniverse";
+
+// Share counts within this of an integer are float noise
+const SHARE_EPSILON = 1e-9;
+
+// Drift above either threshold gets flagged in the results
+const MATERIAL_CASH_DRAG_PCT = 1;
+const MATERIAL_CAGR_GAP = 0.1;
+
+export interface WholeShareExecution {
+  shares: Record<string, number>;
+  cashBalance: number;
+  residuals: Record<string, number>;
+}
+
+/**
+ * Rounds the orders that took the book from `sharesBefore` to `sharesAfter` (filled at the row's
+ * prices with `cashBalance` left over) down to whole shares.
+ *
+ * The money a buy could not spend stays in cash but remains earmarked for its ticker in
+ * `residuals`, so the next buy of that ticker picks it up (e.g. $250 a month into a $300 share buys
+ * one share every other month). Buys never spend more cash than there is; selling a whole position
+ * sells any fraction with it.
+ */
+export const roundOrdersToWholeShares = (
+  sharesBefore: Record<string, number>,
+  sharesAfter: Record<string, number>,
+  cashBalance: number,
+  row: MarketDataRow,
+  residuals: Record<string, number>
+): WholeShareExecution => {
+  const shares = { ...sharesAfter };
+  const nextResiduals = { ...residuals };
+  const tickers = Array.from(new Set([...Object.keys(sharesBefore), ...Object.keys(sharesAfter)]));
+  const orders = tickers.map(ticker => ({ ticker, order: (sharesAfter[ticker] || 0) - (sharesBefore[ticker] || 0) }));
+  const buys = orders.filter(o => o.order > SHARE_EPSILON);
+
+  // The fractional buys are refunded and placed again below, with only the cash the rounded sells leave
+  let cash = cashBalance + buys.reduce((sum, { ticker, order }) => sum + order * getAssetPrice(row, ticker), 0);
+
+  // Sells first, so their proceeds are available to the buys
+  orders.filter(o => o.order < -SHARE_EPSILON).forEach(({ ticker, order }) => {
+    const before = sharesBefore[ticker] || 0;
+    if ((sharesAfter[ticker] || 0) <= SHARE_EPSILON) return; // Closing the position
+    const sold = Math.floor(-order + SHARE_EPSILON);
+    shares[ticker] = before - sold;
+    cash -= (-order - sold) * getAssetPrice(row, ticker);
+  });
+
+  buys.forEach(({ ticker, order }) => {
+    const price = getAssetPrice(row, ticker);
+    const budget = order * price + (residuals[ticker] || 0);
+    const bought = Math.max(0, Math.floor(Math.min(budget, Math.max(0, cash)) / price + SHARE_EPSILON));
+    shares[ticker] = (sharesBefore[ticker] || 0) + bought;
+    cash -= bought * price;
+    nextResiduals[ticker] = Math.max(0, budget - bought * price);
+  });
+
+  return { shares, cashBalance: cash, residuals: nextResiduals };
+};
+
+const weightsOf = (state: PortfolioState, row: MarketDataRow): Record<string, number> => {
+  if (state.totalValue <= 0) return {};
+  return Object.fromEntries(
+    Object.entries(state.shares).map(([ticker, count]) => [ticker, (count * getAssetPrice(row, ticker) / state.totalValue) * 100])
+  );
+};
+
+/**
+ * How far a whole-share run drifted from the same profile run with fractional shares:
+ * the extra cash it held (as % of equity), the largest gap in any asset's weight, and the
+ * difference in outcome. Both runs must cover the same rows.
+ */
+export const summarizeExecutionDrift = (
+  wholeShares: SimulationResult,
+  fractional: SimulationResult,
+  data: MarketDataRow[]
+): NonNullable<SimulationResult['executionDrift']> => {
+  const cashDrag: number[] = [];
+  let maxWeightDrift = 0;
+
+  wholeShares.history.forEach((state, i) => {
+    const twin = fractional.history[i];
+    if (!twin || state.totalValue <= 0 || twin.totalValue <= 0) return;
+    cashDrag.push((state.cashBalance / state.totalValue - twin.cashBalance / twin.totalValue) * 100);
+
+    const weights = weightsOf(state, data[i]);
+    const twinWeights = weightsOf(twin, data[i]);
+    new Set([...Object.keys(weights), ...Object.keys(twinWeights)]).forEach(ticker => {
+      maxWeightDrift = Math.max(maxWeightDrift, Math.abs((weights[ticker] || 0) - (twinWeights[ticker] || 0)));
+    });
+  });
+
+  const cashDragPct = cashDrag.length > 0 ? cashDrag.reduce((a, b) => a + b, 0) / cashDrag.length : 0;
+  const cagrGap = wholeShares.metrics.cagr - fractional.metrics.cagr;
+
+  return {
+    cashDragPct,
+    maxCashDragPct: Math.max(0, ...cashDrag),
+    maxWeightDrift,
+    fractionalFinalBalance: fractional.metrics.finalBalance,
+    cagrGap,
+    isMaterial: cashDragPct >= MATERIAL_CASH_DRAG_PCT || Math.abs(cagrGap) >= MATERIAL_CAGR_GAP
+  };
+};
@@ -3,13 +3,38 @@
 
 export interface MarketDataRow {
   date: string; // ISO YYYY-MM-DD
-  qqq: number;
-  qld: number;
+  prices: Record<string, number>; // Close of every ticker priced on this date, keyed by symbol (e.g. QQQ, QLD, TLT)
+  syntheticTickers?: string[]; // Tickers whose price this month is reconstructed rather than traded
+  cpi?: number; // Consumer price index level for the month, when a CPI series is loaded
+  benchmarkRate?: number; // Annual % benchmark rate (e.g. Fed Funds, T-bill) for the month, when a rate series is loaded
+  fxRates?: Record<string, number>; // Units of each currency per USD, when FX series are loaded
+  fxRate?: number; // Rate the prices of this row were converted to a base currency at
+}
+
+// Row spacing of a dataset: one close per month (built-in) or one per trading day (imports)
+export type DataFrequency = 'MONTHLY' | 'DAILY';
+
+// Raw price series as supplied by the built-in dataset or a user import
+export interface PricePoint {
+  date: string; // ISO YYYY-MM-DD
+  adjClose: number;
+}
+
+export type PriceSeriesMap = Record<string, PricePoint[]>; // Keyed by ticker (e.g. QQQ, QLD)
+
+export interface MarketDataSource {
+  name: string; // File name(s) or built-in label
+  isBuiltIn: boolean;
+  series: PriceSeriesMap;
+  frequency?: DataFrequency; // Defaults to MONTHLY
+  syntheticBefore?: Record<string, string>; // Ticker -> first month of real prices; earlier months are synthetic
 }
 
 export interface LeverageConfig {
   enabled: boolean;
   interestRate: number; // Annual interest rate for the loan
+  interestRateBasis?: 'FIXED' | 'BENCHMARK'; // BENCHMARK: the month's benchmark rate + interestSpread
+  interestSpread?: number; // Percentage points over the benchmark
   // Pledge Ratios (0.0 - 1.0)
   qqqPledgeRatio: number; // e.g., 0.70
   qldPledgeRatio: number; // e.g., 0.10 (New: Allow QLD as collateral)
@@ -22,11 +47,170 @@ export interface LeverageConfig {
   ltvBasis: 'TOTAL_ASSETS' | 'COLLATERAL'; // NEW: LTV Calculation Basis
 }
 
+// Capital gains tax on sales, tracked per purchase lot
+export interface TaxConfig {
+  enabled: boolean;
+  shortTermRate: number; // % on gains from lots held less than holdingPeriodMonths
+  longTermRate: number; // % on gains from lots held at least holdingPeriodMonths
+  holdingPeriodMonths: number; // e.g. 12
+  lotSelection: 'FIFO' | 'LIFO' | 'HIFO'; // Which lots a sale draws from first (HIFO = highest cost)
+  paymentMode: 'CASH' | 'SELL'; // The year's tax is paid each January from cash (selling for any shortfall) or by selling holdings
+}
+
+// Shares bought together, for capital gains on later sales
+export interface TaxLot {
+  ticker: string;
+  shares: number;
+  costBasis: number; // Price per share paid
+  acquired: string; // Date of the purchase
+}
+
+// Broker charges per order; the per-asset slippage lives on PortfolioAsset.slippageBps
+export interface TradingCostConfig {
+  enabled: boolean;
+  commissionFixed: number; // Flat amount per order
+  commissionPerShare: number; // Added per share traded
+  minCommission: number; // Minimum ticket per order
+}
+
+// THRESHOLD strategy: rebalance when any weight (cash included) leaves its band around the target
+export interface DriftBandConfig {
+  mode: 'ABSOLUTE' | 'RELATIVE'; // ABSOLUTE: target ± threshold points; RELATIVE: target ± threshold % of the target, at least ± 1 point
+  threshold: number; // e.g. 5 (points) or 25 (% of target)
+  partial: boolean; // Trade only back to the band edge instead of all the way to target
+}
+
+// REBALANCE strategy calendar
+export interface RebalanceSchedule {
+  intervalMonths: number; // 1, 3, 6, 12, or a multiple of 12 for every N years
+  anchorMonth: number; // 1-12, calendar month the schedule is aligned to (e.g. 1 = Jan / Apr / Jul / Oct when quarterly)
+  contributionOnly: boolean; // Never sell: route each contribution to the underweight assets instead
+}
+
+// SMART strategy rules, checked once a year in the evaluation month
+export interface SmartConfig {
+  evaluationMonth: number; // 1-12 (default 12 = December)
+  harvestFraction: number; // % of the harvested asset's profit over the year that is sold into the reserve
+  dipBuyPercent: number; // % of portfolio value bought back from the reserve on a dip
+  harvestFrom?: string; // Ticker harvested and bought on dips (default: the highest-beta asset)
+  harvestInto?: string; // Reserve the profit goes to and dips are bought from: 'CASH' or a ticker (default CASH)
+  maxReservePercent: number; // No harvesting beyond this reserve size, % of portfolio value (100 = no cap)
+  dipTrigger: 'YEARLY_LOSS' | 'DRAWDOWN'; // Buy the dip when the year's profit is <= 0, or when the price is drawdownTrigger % below its peak
+  drawdownTrigger: number; // e.g. 20
+}
+
+// TREND strategy: hold the target mix while QQQ is above its moving average, de-risk below it
+export interface TrendConfig {
+  maType: 'SMA' | 'EMA';
+  periodMonths: number; // N-month moving average, e.g. 10
+  hysteresis: number; // % band around the average: risk-off below MA x (1 - band), back on above MA x (1 + band)
+  riskOffFraction: number; // % of the leveraged sleeve moved to cash while risk-off (100 = all of it)
+}
+
+// VOL_TARGET strategy: size the QQQ / leveraged sleeve / cash split to a target portfolio volatility
+export interface VolTargetConfig {
+  targetVol: number; // Annualized %, e.g. 20
+  windowMonths: number; // Months of QQQ returns the realized volatility is measured over
+  maxBeta: number; // Cap on the portfolio beta, however calm the market
+  maxTurnover: number; // Cap on the value traded each month, % of equity
+  rebalanceBand: number; // Beta the portfolio may drift off its target before it trades, e.g. 0.1
+}
+
+// VALUE_AVERAGING strategy: contributions keep the portfolio on a target path that grows by
+// contributionAmount each contribution period and compounds at expectedReturn
+export interface ValueAveragingConfig {
+  expectedReturn: number; // Annual % the target path compounds at
+  maxContribution: number; // Cap per period (0 = no cap)
+  allowWithdrawals: boolean; // Above the path: take the excess out (otherwise contribute nothing)
+  maxWithdrawal: number; // Cap per period (0 = no cap)
+}
+
+// CPPI strategy: risky exposure = multiplier x (equity - floor), the rest in cash
+export interface CppiConfig {
+  floorType: 'ABSOLUTE' | 'RATCHET'; // RATCHET: the floor is a % of the highest equity so far, so it only rises
+  floorValue: number; // ABSOLUTE: amount; RATCHET: % of peak equity, e.g. 80
+  multiplier: number; // e.g. 3: the floor holds through a one-month drop of the risky assets up to 1 / multiplier
+  maxExposure: number; // Cap on the risky exposure, % of equity
+}
+
+// One rung of the DRAWDOWN_LADDER strategy
+export interface LadderStep {
+  drawdown: number; // % below QQQ's all-time high, e.g. 10
+  leveragedWeight: number; // % of the portfolio in the leveraged sleeve once this deep, e.g. 20
+}
+
+export interface DrawdownLadderConfig {
+  steps: LadderStep[];
+  gradualRecovery: boolean; // Step back down the ladder as QQQ recovers (otherwise hold the deepest rung until a new high)
+}
+
+// RULES strategy: declarative rules checked once a month, in order, after the regular contribution
+export type RuleMetric =
+  | 'MONTH' // Calendar month 1-12
+  | 'DATE' // YYYY-MM
+  | 'PRICE_VS_MA' // % the ticker closes above its N-month simple moving average (negative below)
+  | 'DRAWDOWN' // % the ticker is below its highest close of the run
+  | 'LTV' // % at last month's close
+  | 'BETA' // Portfolio beta at last month's close
+  | 'CASH_PCT' // Cash, % of the portfolio
+  | 'YTD_PROFIT'; // Equity gain since the start of the calendar year net of contributions, %
+
+export type RuleOperator = '>' | '>=' | '<' | '<=' | '==';
+
+export interface RuleCondition {
+  metric: RuleMetric;
+  operator: RuleOperator;
+  value: number | string; // A YYYY-MM string for DATE
+  ticker?: string; // PRICE_VS_MA / DRAWDOWN (default QQQ)
+  periodMonths?: number; // PRICE_VS_MA window (default 10)
+}
+
+export type RuleActionType =
+  | 'SET_WEIGHTS' // Rebalance to `weights`, the rest in cash
+  | 'BUY' // Buy `ticker` with cash: an amount, or PERCENT of the cash
+  | 'SELL' // Sell `ticker`: an amount, or PERCENT of the position
+  | 'MOVE_TO_CASH' // Sell `ticker` (every holding when unset): an amount, or PERCENT of the position(s)
+  | 'BORROW' // Draw on the loan into cash: an amount, or PERCENT of equity
+  | 'REPAY'; // Repay the loan from cash: an amount, or PERCENT of the debt
+
+export interface RuleAction {
+  type: RuleActionType;
+  ticker?: string;
+  weights?: Record<string, number>; // SET_WEIGHTS: % of the portfolio per ticker
+  amount?: number;
+  unit?: 'AMOUNT' | 'PERCENT'; // Default PERCENT
+}
+
+export interface StrategyRule {
+  name: string;
+  conditions: RuleCondition[]; // All must hold (none = every month)
+  actions: RuleAction[];
+  onlyOnEntry?: boolean; // Fire only in the month the conditions start holding
+}
+
+// SCRIPT strategy: user JavaScript evaluating to a StrategyFunction, run in a Web Worker
+export interface ScriptConfig {
+  code: string; // (state, marketData, config, monthIndex, history) => PortfolioState
+  timeLimitSeconds: number; // The whole backtest is stopped past this
+}
+
+// One holding in a profile's asset universe
+export interface PortfolioAsset {
+  ticker: string; // Must exist in the market data (QQQ, QLD or an imported ticker)
+  weight: number; // Initial / target allocation 0-100
+  contributionWeight: number; // Recurring contribution allocation 0-100
+  pledgeRatio: number; // Collateral value ratio 0.0 - 1.0
+  beta: number; // Exposure relative to QQQ (QQQ=1, QLD=2, TQQQ=3)
+  slippageBps?: number; // Half spread in basis points: buys fill this far above the price, sells below (with trading costs enabled)
+}
+
 export interface AssetConfig {
   initialCapital: number;
   contributionAmount: number; // Amount per period
   contributionIntervalMonths: number; // 1 = Monthly, 3 = Quarterly, 12 = Yearly
   yearlyContributionMonth: number; // 1-12, which month for yearly contributions (default 12 = December)
+  baseCurrency?: string; // Currency of all amounts (default USD); USD prices are converted each month
+  indexContributions?: boolean; // Grow contributions with inflation (CPI series, else the constant rate)
 
   // Initial / Target Portfolio Allocation
   qqqWeight: number; // 0-100
@@ -38,12 +222,37 @@ export interface AssetConfig {
 
   // Cash weight is derived: 100 - QQQ - QLD
   cashYieldAnnual: number; // Percentage, e.g., 4.0
+  cashYieldBasis?: 'FIXED' | 'BENCHMARK'; // BENCHMARK: the month's benchmark rate - cashYieldHaircut
+  cashYieldHaircut?: number; // Percentage points under the benchmark
+
+  // Ticker-keyed universe. When set, it replaces the QQQ/QLD weights above and the QQQ/QLD pledge ratios.
+  assets?: PortfolioAsset[];
 
   // Stock Pledging
   leverage: LeverageConfig;
+
+  tax?: TaxConfig;
+  tradingCosts?: TradingCostConfig;
+  driftBand?: DriftBandConfig;
+  rebalanceSchedule?: RebalanceSchedule; // Default: every January
+  smart?: SmartConfig;
+  trend?: TrendConfig;
+  volTarget?: VolTargetConfig;
+  valueAveraging?: ValueAveragingConfig;
+  cppi?: CppiConfig;
+  drawdownLadder?: DrawdownLadderConfig;
+  rules?: StrategyRule[];
+  script?: ScriptConfig;
+  executionMode?: 'FRACTIONAL' | 'WHOLE_SHARES'; // WHOLE_SHARES rounds every order down; the rest stays in cash (default FRACTIONAL)
 }
 
-export type StrategyType = 'NO_REBALANCE' | 'REBALANCE' | 'SMART';
+export type StrategyType = 'NO_REBALANCE' | 'REBALANCE' | 'SMART' | 'THRESHOLD' | 'TREND' | 'VOL_TARGET' | 'VALUE_AVERAGING' | 'CPPI' | 'DRAWDOWN_LADDER' | 'RULES' | 'SCRIPT';
+
+// Backtest window, months as YYYY-MM (inclusive); an unset bound means the edge of the dataset
+export interface DateRange {
+  start?: string;
+  end?: string;
+}
 
 export interface Profile {
   id: string;
@@ -51,24 +260,27 @@ export interface Profile {
   color: string;
   strategyType: StrategyType;
   config: AssetConfig;
+  dateRange?: DateRange; // Overrides the global backtest window when set
 }
 
 export interface FinancialEvent {
-  type: 'INTEREST_INC' | 'INTEREST_EXP' | 'DEBT_INC' | 'TRADE' | 'DEPOSIT' | 'WITHDRAW' | 'INFO';
+  type: 'INTEREST_INC' | 'INTEREST_EXP' | 'DEBT_INC' | 'TRADE' | 'DEPOSIT' | 'WITHDRAW' | 'TAX' | 'FEE' | 'REBALANCE' | 'SIGNAL' | 'INFO';
   amount?: number;
   description: string;
+  ticker?: string; // Traded asset (TRADE)
+  reason?: string; // Why the strategy placed the order (TRADE)
 }
 
 export interface PortfolioState {
   date: string;
-  shares: {
-    QQQ: number;
-    QLD: number;
-  };
+  shares: Record<string, number>; // Keyed by ticker
   cashBalance: number;
   debtBalance: number; // New: Track margin loan balance
   accruedInterest: number; // New: Simple interest accrued but not yet paid (for MATURITY mode)
   totalValue: number; // Net Equity (Assets - Debt)
+  realValue?: number; // Net Equity deflated to start-of-backtest money
+  taxLots?: TaxLot[]; // Open purchase lots, when capital gains tax is enabled
+  taxLiability?: number; // Tax owed on gains realized this year, paid next January (already deducted from totalValue)
 
   // Metadata for complex strategies (e.g., Smart Adjust)
   strategyMemory: Record<string, any>;
@@ -80,12 +292,33 @@ export interface PortfolioState {
 }
 
 export interface SimulationResult {
+  profileId?: string; // Profile that produced this result (set by the caller)
   strategyName: string;
   color: string; // Added to carry profile color to charts
+  frequency?: DataFrequency; // Row spacing the backtest ran on
   isLeveraged: boolean; // Flag to indicate if leverage was enabled
   history: PortfolioState[];
   isBankrupt: boolean;
   bankruptcyDate: string | null;
+  synthetic?: { tickers: string[]; dates: string[] }; // Held tickers priced from reconstructed data, and the affected months
+  currency?: string; // Currency of every amount and metric (default USD)
+  // Base-currency return split into the currency-hedged asset return and the FX part (set by the caller)
+  fxAttribution?: {
+    localFinalBalance: number; // Final balance with the exchange rate frozen at its start value
+    localCagr: number;
+    fxCagr: number; // Annual return added (or lost) by the currency: (1 + CAGR) / (1 + localCagr) - 1
+    fxChange: number; // % change of the USD against the base currency over the run
+  };
+  // Whole-share run compared with the same profile on fractional shares (set by the caller)
+  executionDrift?: {
+    cashDragPct: number; // Average extra cash held, % of equity
+    maxCashDragPct: number;
+    maxWeightDrift: number; // Largest gap in any asset's weight, percentage points
+    fractionalFinalBalance: number;
+    cagrGap: number; // Whole-share CAGR minus fractional CAGR, percentage points
+    isMaterial: boolean; // Drift large enough to matter for this profile
+  };
+  targetVolatility?: number; // Annualized % a VOL_TARGET profile aims for (set by the caller)
   metrics: {
     finalBalance: number;
     cagr: number;
@@ -97,11 +330,42 @@ export interface SimulationResult {
     maxRecoveryMonths: number;
     calmarRatio: number;
     painIndex: number;
-    inflationRate: number;
+    inflationRate: number; // Realized annual rate of the CPI series, else the constant leverage.inflationRate
+    tradingCosts: number; // Commissions and slippage paid over the run
+    rebalanceCount: number; // REBALANCE events logged by the strategy
+    turnover: number; // Annual % of average equity sold by the strategy
+    volatility: number; // Annualized % volatility of the equity curve's periodic returns
   };
+  // The same metrics measured on the inflation-deflated equity curve
+  realMetrics?: Omit<SimulationResult['metrics'], 'realFinalBalance' | 'inflationRate' | 'tradingCosts' | 'rebalanceCount' | 'turnover' | 'volatility'>;
+}
+
+// Percentiles of a sample of outcomes (e.g. one value per rolling window or Monte Carlo path)
+export interface DistributionSummary {
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+  min: number;
+  max: number;
+  mean: number;
+}
+
+// Portfolio value percentiles across many paths, `month` months after the start
+export interface PercentileBandPoint {
+  month: number;
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
 }
 
-// Function Protocol for Strategies
+// Function Protocol for Strategies.
+// A strategy receives the state with an empty `events` list; events it appends (e.g. REBALANCE)
+// are logged with the month's trades. A TRADE event it appends only gives the `reason` for its
+// order in `ticker`: the engine attaches it to the trade it records for that ticker.
 export type StrategyFunction = (
   currentState: PortfolioState,
   marketData: MarketDataRow,